@@ -0,0 +1,67 @@
+import jwt from 'jsonwebtoken';
+import { authenticateUser, requirePermission } from './auth';
+
+describe('auth middleware', () => {
+  const secret = 'test-secret';
+
+  const createResponse = () => {
+    const res: any = {};
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res;
+  };
+
+  const authenticate = (role: string) => {
+    const req: any = {
+      headers: { authorization: `Bearer ${jwt.sign({ sub: 'user-1', sid: 'session-1', role }, secret)}` }
+    };
+    const next = jest.fn();
+    authenticateUser(req, createResponse(), next);
+    expect(next).toHaveBeenCalled();
+    return req;
+  };
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = secret;
+  });
+
+  it('should take the role from the access token', () => {
+    expect(authenticate('ADMIN').user).toEqual(expect.objectContaining({ id: 'user-1', role: 'ADMIN' }));
+  });
+
+  it('should reject tokens that are not access tokens', () => {
+    for (const payload of [{ sub: 'user-1', typ: '2fa_login' }, { sub: 'user-1', sid: 'session-1', typ: 'PASSWORD_RESET' }]) {
+      const res = createResponse();
+      const next = jest.fn();
+      authenticateUser({ headers: { authorization: `Bearer ${jwt.sign(payload, secret)}` } } as any, res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+    }
+  });
+
+  it('should let roles with the permission through', () => {
+    const next = jest.fn();
+    requirePermission('social:publish')(authenticate('ADMIN'), createResponse(), next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should refuse roles without the permission', () => {
+    for (const role of ['USER', 'PARTNER', undefined]) {
+      const res = createResponse();
+      const next = jest.fn();
+      requirePermission('social:publish')(authenticate(role as string), res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+    }
+  });
+
+  it('should require authentication first', () => {
+    const res = createResponse();
+    requirePermission('social:publish')({} as any, res, jest.fn());
+
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { hasAllPermissions } from '@omnifit/shared';
+import type { Permission, UserRole } from '@omnifit/shared';
 
 interface AuthenticatedRequest extends Request {
   user?: {
@@ -31,6 +33,16 @@ export const authenticateUser = (req: AuthenticatedRequest, res: Response, next:
     }
 
     const decoded = jwt.verify(token, jwtSecret) as any;
+
+    // Access tokens carry a session and no type; login challenges and email
+    // link tokens carry a type and must not be usable here
+    if (decoded.typ || !decoded.sid || !decoded.sub) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or expired token'
+      });
+    }
+
     req.user = {
       id: decoded.sub,
       email: decoded.email,
@@ -48,7 +60,28 @@ export const authenticateUser = (req: AuthenticatedRequest, res: Response, next:
   }
 };
 
-export const requireRole = (roles: string[]) => {
+export const requireRole = (roles: UserRole[]) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    if (!roles.includes(req.user.role as UserRole)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Insufficient permissions'
+      });
+    }
+
+    next();
+  };
+};
+
+// Checks the role claim against the shared permission matrix; use after authenticateUser
+export const requirePermission = (...permissions: Permission[]) => {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({
@@ -57,7 +90,7 @@ export const requireRole = (roles: string[]) => {
       });
     }
 
-    if (!roles.includes(req.user.role)) {
+    if (!hasAllPermissions(req.user.role, permissions)) {
       return res.status(403).json({
         success: false,
         error: 'Insufficient permissions'
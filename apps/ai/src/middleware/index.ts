@@ -1,2 +1,2 @@
-export { authenticateUser, requireRole } from './auth';
+export { authenticateUser, requireRole, requirePermission } from './auth';
 export { validateRequest, validateQuery, validateParams } from './validation';
\ No newline at end of file
@@ -1,13 +1,17 @@
 import { Router, Request, Response } from 'express';
 import { SocialPosterService } from '../social-poster';
 import { SchedulerService } from '../scheduler';
+import { authenticateUser, requirePermission } from '../middleware/auth';
 
 const router = Router();
 const socialPoster = new SocialPosterService();
 const scheduler = new SchedulerService();
 
+// Publishing and scheduler triggers act for the whole platform
+const canPublish = [authenticateUser, requirePermission('social:publish')];
+
 // Generate and post content
-router.post('/generate-post', async (req: Request, res: Response) => {
+router.post('/generate-post', ...canPublish, async (req: Request, res: Response) => {
   try {
     const { platform, topic, content, isThread = false } = req.body;
 
@@ -50,7 +54,7 @@ router.post('/generate-post', async (req: Request, res: Response) => {
 });
 
 // Schedule content for later posting
-router.post('/schedule-post', async (req: Request, res: Response) => {
+router.post('/schedule-post', ...canPublish, async (req: Request, res: Response) => {
   try {
     const { platform, content, scheduledFor, isThread = false } = req.body;
 
@@ -74,7 +78,7 @@ router.post('/schedule-post', async (req: Request, res: Response) => {
 });
 
 // Generate AI summary for community digest
-router.post('/generate-summary', async (req: Request, res: Response) => {
+router.post('/generate-summary', ...canPublish, async (req: Request, res: Response) => {
   try {
     const { type, timeframe, data } = req.body;
 
@@ -125,7 +129,7 @@ router.post('/review-event', async (req: Request, res: Response) => {
 });
 
 // Manual triggers for testing
-router.post('/trigger/daily-motivation', async (req: Request, res: Response) => {
+router.post('/trigger/daily-motivation', ...canPublish, async (req: Request, res: Response) => {
   try {
     await scheduler.triggerDailyMotivation();
     res.json({ success: true, message: 'Daily motivation triggered' });
@@ -134,7 +138,7 @@ router.post('/trigger/daily-motivation', async (req: Request, res: Response) =>
   }
 });
 
-router.post('/trigger/weekly-digest', async (req: Request, res: Response) => {
+router.post('/trigger/weekly-digest', ...canPublish, async (req: Request, res: Response) => {
   try {
     await scheduler.triggerWeeklyDigest();
     res.json({ success: true, message: 'Weekly digest triggered' });
@@ -143,7 +147,7 @@ router.post('/trigger/weekly-digest', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/trigger/educational-content', async (req: Request, res: Response) => {
+router.post('/trigger/educational-content', ...canPublish, async (req: Request, res: Response) => {
   try {
     await scheduler.triggerEducationalContent();
     res.json({ success: true, message: 'Educational content triggered' });
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@omnifit/db';
 import OpenAI from 'openai';
+import { getCalendarDayBounds, resolveTimezone } from '@omnifit/shared';
 
 export class AccountabilityService {
   private readonly prisma: PrismaClient;
@@ -17,14 +18,14 @@ export class AccountabilityService {
     date: Date,
     forceRegenerate: boolean = false
   ) {
+    // `date` names a calendar day; summaries are keyed by it
+    const summaryDate = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
     // Check if summary already exists for this date
     const existingSummary = await this.prisma.dailySummary.findFirst({
       where: {
         userId,
-        date: {
-          gte: new Date(date.getFullYear(), date.getMonth(), date.getDate()),
-          lt: new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1),
-        },
+        date: summaryDate,
       },
     });
 
@@ -32,14 +33,20 @@ export class AccountabilityService {
       return existingSummary;
     }
 
-    // Get user's events for the day
-    const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-    const dayEnd = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+    // Get user's events for that day in their own timezone
+    const profile = await this.prisma.userProfile.findUnique({
+      where: { userId },
+      select: { timezone: true },
+    });
+    const { start: dayStart, end: dayEnd } = getCalendarDayBounds(
+      summaryDate,
+      resolveTimezone(profile?.timezone)
+    );
 
     const events = await this.prisma.event.findMany({
       where: {
         userId,
-        createdAt: {
+        completedAt: {
           gte: dayStart,
           lt: dayEnd,
         },
@@ -57,10 +64,10 @@ export class AccountabilityService {
           // TODO: Add target user relation when implemented
         ],
         status: 'ACTIVE',
-        startDate: { lte: date },
+        startDate: { lt: dayEnd },
         OR: [
           { endDate: null },
-          { endDate: { gte: date } },
+          { endDate: { gte: dayStart } },
         ],
       },
     });
@@ -89,7 +96,7 @@ export class AccountabilityService {
       return await this.prisma.dailySummary.create({
         data: {
           userId,
-          date: dayStart,
+          date: summaryDate,
           adherenceBullet: summary.adherence,
           highlightsBullet: summary.highlights,
           recommendationBullet: summary.recommendation,
@@ -9,6 +9,9 @@ import { RewardsModule } from './rewards/rewards.module';
 import { PartnersModule } from './partners/partners.module';
 import { NotificationsModule } from './notifications/notifications.module';
 import { WalletModule } from './wallet/wallet.module';
+import { StakingModule } from './staking/staking.module';
+import { VestingModule } from './vesting/vesting.module';
+import { RedemptionsModule } from './redemptions/redemptions.module';
 import { AiModule } from './ai/ai.module';
 import { PartnershipsModule } from './partnerships/partnerships.module';
 import { AnalyticsModule } from './modules/analytics/analytics.module';
@@ -33,6 +36,9 @@ import { HealthController } from './health/health.controller';
     PartnersModule,
     NotificationsModule,
     WalletModule,
+    StakingModule,
+    VestingModule,
+    RedemptionsModule,
     AiModule,
     PartnershipsModule,
     AnalyticsModule,
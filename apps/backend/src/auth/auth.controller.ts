@@ -1,41 +1,277 @@
-import { Body, Controller, Post, HttpCode, HttpStatus } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  HttpCode,
+  HttpStatus,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
 import { AuthService } from './auth.service';
-import { LoginDto, RegisterDto, RefreshTokenDto } from './dto';
+import { SessionsService } from './sessions.service';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import {
+  LoginDto,
+  RegisterDto,
+  RefreshTokenDto,
+  TwoFactorLoginDto,
+  EmailTokenDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  ChangePasswordDto,
+  ReauthenticateDto,
+  WalletChallengeDto,
+  WalletLoginDto,
+  UpdateEmailDto,
+} from './dto';
 
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+  ) {}
 
   @Post('register')
   @ApiOperation({ summary: 'Register a new user' })
   @ApiResponse({ status: 201, description: 'User successfully registered' })
-  async register(@Body() registerDto: RegisterDto) {
-    return this.authService.register(registerDto);
+  async register(@Request() req: any, @Body() registerDto: RegisterDto) {
+    return this.authService.register(registerDto, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
   }
 
   @Post('login')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Login user' })
+  @ApiResponse({ status: 200, description: 'User logged in, or a challenge token when two-factor is enabled' })
+  async login(@Request() req: any, @Body() loginDto: LoginDto) {
+    return this.authService.login(loginDto, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+  }
+
+  @Post('login/2fa')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete login with the second factor' })
   @ApiResponse({ status: 200, description: 'User successfully logged in' })
-  async login(@Body() loginDto: LoginDto) {
-    return this.authService.login(loginDto);
+  async loginTwoFactor(@Request() req: any, @Body() body: TwoFactorLoginDto) {
+    return this.authService.completeTwoFactorLogin(body.challengeToken, body.code, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+  }
+
+  @Post('wallet/challenge')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Get a Sign-In With Solana message to sign' })
+  async walletChallenge(@Request() req: any, @Body() body: WalletChallengeDto) {
+    const challenge = await this.authService.createWalletChallenge(body.publicKey, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    return {
+      success: true,
+      data: challenge,
+      message: 'Sign the message with your wallet to sign in',
+    };
+  }
+
+  @Post('wallet/login')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Sign in with a signed wallet challenge' })
+  @ApiResponse({ status: 200, description: 'Signed in (a new wallet gets a new account), or a challenge token when two-factor is enabled' })
+  @ApiResponse({ status: 401, description: 'Signature invalid, or challenge expired or already used' })
+  async walletLogin(@Request() req: any, @Body() body: WalletLoginDto) {
+    return this.authService.loginWithWallet(body, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
   }
 
   @Post('refresh')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Refresh access token' })
   @ApiResponse({ status: 200, description: 'Token refreshed successfully' })
-  async refresh(@Body() refreshTokenDto: RefreshTokenDto) {
-    return this.authService.refreshToken(refreshTokenDto.refreshToken);
+  @ApiResponse({ status: 401, description: 'Token invalid, revoked or already used' })
+  async refresh(@Request() req: any, @Body() refreshTokenDto: RefreshTokenDto) {
+    return this.authService.refreshToken(refreshTokenDto.refreshToken, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
   }
 
   @Post('logout')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Logout user' })
   @ApiResponse({ status: 200, description: 'User successfully logged out' })
-  async logout(@Body() body: { refreshToken: string }) {
-    return this.authService.logout(body.refreshToken);
+  async logout(@Body() refreshTokenDto: RefreshTokenDto) {
+    return this.authService.logout(refreshTokenDto.refreshToken);
+  }
+
+  @Post('reauthenticate')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Confirm the password, or the wallet for accounts without one, before a sensitive action (accounts without two-factor)' })
+  @ApiResponse({ status: 200, description: 'When the confirmation stops counting' })
+  async reauthenticate(@Request() req: any, @Body() body: ReauthenticateDto) {
+    const result = await this.authService.reauthenticate(req.user.id, req.user.sessionId, body, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Put('email')
+  @UseGuards(JwtAuthGuard, ThrottlerGuard)
+  @Throttle({ default: { limit: 3, ttl: 60000 } })
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Add or change the account email and send a verification link' })
+  async updateEmail(@Request() req: any, @Body() body: UpdateEmailDto) {
+    const data = await this.authService.updateEmail(req.user.id, req.user.sessionId, body);
+
+    return {
+      success: true,
+      data,
+      message: 'Email updated, check your inbox to verify it',
+    };
+  }
+
+  @Post('verify-email/request')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, ThrottlerGuard)
+  @Throttle({ default: { limit: 3, ttl: 60000 } })
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Send a new email verification link' })
+  async requestEmailVerification(@Request() req: any) {
+    await this.authService.requestEmailVerification(req.user.id);
+
+    return {
+      success: true,
+      message: 'Verification email sent',
+    };
+  }
+
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Verify an email address with the emailed token' })
+  @ApiResponse({ status: 400, description: 'Token invalid, expired or already used' })
+  async verifyEmail(@Body() body: EmailTokenDto) {
+    await this.authService.verifyEmail(body.token);
+
+    return {
+      success: true,
+      message: 'Email verified',
+    };
+  }
+
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: 'Email a password reset link' })
+  async forgotPassword(@Body() body: ForgotPasswordDto) {
+    await this.authService.requestPasswordReset(body.email);
+
+    return {
+      success: true,
+      message: 'If an account exists for that email, a reset link has been sent',
+    };
+  }
+
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: 'Set a new password with the emailed token' })
+  @ApiResponse({ status: 400, description: 'Token invalid, expired or already used' })
+  async resetPassword(@Body() body: ResetPasswordDto) {
+    await this.authService.resetPassword(body.token, body.newPassword);
+
+    return {
+      success: true,
+      message: 'Password reset, sign in with your new password',
+    };
+  }
+
+  @Post('change-password')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, ThrottlerGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Change password and sign out other devices' })
+  @ApiResponse({ status: 401, description: 'Current password is incorrect' })
+  async changePassword(@Request() req: any, @Body() body: ChangePasswordDto) {
+    const data = await this.authService.changePassword(req.user.id, req.user.sessionId, body);
+
+    return {
+      success: true,
+      data,
+      message: 'Password changed',
+    };
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List signed-in devices' })
+  async getSessions(@Request() req: any) {
+    const sessions = await this.sessionsService.listSessions(req.user.id, req.user.sessionId);
+
+    return { data: sessions };
+  }
+
+  @Delete('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Sign out every other device' })
+  async revokeOtherSessions(@Request() req: any) {
+    const revoked = await this.sessionsService.revokeAllSessions(
+      req.user.id,
+      req.user.id,
+      'signed_out_by_user',
+      req.user.sessionId,
+    );
+
+    return {
+      success: true,
+      data: { revoked },
+      message: `Signed out of ${revoked} other device${revoked === 1 ? '' : 's'}`,
+    };
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Sign out one device' })
+  async revokeSession(@Request() req: any, @Param('id') sessionId: string) {
+    await this.sessionsService.revokeSession(req.user.id, sessionId, req.user.id, 'signed_out_by_user');
+
+    return {
+      success: true,
+      message: 'Device signed out',
+    };
   }
-}
\ No newline at end of file
+}
@@ -4,12 +4,24 @@ import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
+import { SessionsAdminController } from './sessions-admin.controller';
+import { SessionsService } from './sessions.service';
+import { TwoFactorController } from './two-factor.controller';
+import { TwoFactorService } from './two-factor.service';
+import { StepUpGuard } from './step-up.guard';
+import { EmailTokensService } from './email-tokens.service';
+import { WalletAuthService } from './wallet-auth.service';
+import { EmailVerifiedGuard } from './email-verified.guard';
 import { JwtStrategy } from './jwt.strategy';
 import { UsersModule } from '../users/users.module';
+import { PrismaModule } from '../prisma/prisma.module';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
   imports: [
     UsersModule,
+    PrismaModule,
+    MailModule,
     PassportModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -20,8 +32,17 @@ import { UsersModule } from '../users/users.module';
       inject: [ConfigService],
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
-  exports: [AuthService],
+  controllers: [AuthController, TwoFactorController, SessionsAdminController],
+  providers: [
+    AuthService,
+    SessionsService,
+    TwoFactorService,
+    EmailTokensService,
+    WalletAuthService,
+    StepUpGuard,
+    EmailVerifiedGuard,
+    JwtStrategy,
+  ],
+  exports: [AuthService, SessionsService, TwoFactorService, StepUpGuard, EmailVerifiedGuard],
 })
 export class AuthModule {}
\ No newline at end of file
@@ -1,20 +1,45 @@
-import { Injectable, UnauthorizedException, ConflictException } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
-import { ConfigService } from '@nestjs/config';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  UnauthorizedException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
 import * as bcrypt from 'bcrypt';
+import { ChangePasswordSchema, PasswordSchema } from '@omnifit/shared';
 import { UsersService } from '../users/users.service';
-import { LoginDto, RegisterDto } from './dto';
-import type { AuthTokens, AuthUser } from '@omnifit/shared';
+import { MailService } from '../mail/mail.service';
+import { SessionsService, SessionContext } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+import { EmailTokensService, EMAIL_TOKEN_TTL_MS } from './email-tokens.service';
+import { WalletAuthService } from './wallet-auth.service';
+import {
+  LoginDto,
+  RegisterDto,
+  ChangePasswordDto,
+  WalletLoginDto,
+  UpdateEmailDto,
+  ReauthenticateDto,
+} from './dto';
+import type { AuthUser } from '@omnifit/shared';
+
+const SALT_ROUNDS = 12;
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private readonly usersService: UsersService,
-    private readonly jwtService: JwtService,
-    private readonly configService: ConfigService,
+    private readonly sessionsService: SessionsService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly emailTokensService: EmailTokensService,
+    private readonly mailService: MailService,
+    private readonly walletAuthService: WalletAuthService,
   ) {}
 
-  async register(registerDto: RegisterDto) {
+  async register(registerDto: RegisterDto, context: SessionContext = {}) {
     // Check if user already exists
     const existingUser = await this.usersService.findByEmail(registerDto.email);
     if (existingUser) {
@@ -22,8 +47,7 @@ export class AuthService {
     }
 
     // Hash password
-    const saltRounds = 12;
-    const hashedPassword = await bcrypt.hash(registerDto.password, saltRounds);
+    const hashedPassword = await bcrypt.hash(registerDto.password, SALT_ROUNDS);
 
     // Create user
     const user = await this.usersService.create({
@@ -32,7 +56,14 @@ export class AuthService {
     });
 
     // Generate tokens
-    const tokens = await this.generateTokens(user.id);
+    const tokens = await this.sessionsService.createSession(user.id, context);
+
+    // A mail outage should not fail sign-up; the user can ask for another link
+    try {
+      await this.sendEmailVerification(user, registerDto.email);
+    } catch (error) {
+      this.logger.error(`Failed to send verification email to ${user.id}: ${error.message}`);
+    }
 
     return {
       user: this.sanitizeUser(user),
@@ -40,10 +71,10 @@ export class AuthService {
     };
   }
 
-  async login(loginDto: LoginDto) {
+  async login(loginDto: LoginDto, context: SessionContext = {}) {
     // Find user
     const user = await this.usersService.findByEmail(loginDto.email);
-    if (!user) {
+    if (!user || !user.passwordHash) {
       throw new UnauthorizedException('Invalid credentials');
     }
 
@@ -58,11 +89,62 @@ export class AuthService {
       throw new UnauthorizedException('Account is disabled');
     }
 
-    // Update last login
-    await this.usersService.updateLastLogin(user.id);
+    // The password alone only earns a challenge for the second factor
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: await this.twoFactorService.createLoginChallenge(user.id),
+      };
+    }
 
-    // Generate tokens
-    const tokens = await this.generateTokens(user.id);
+    return this.startSession(user, context);
+  }
+
+  async createWalletChallenge(publicKey: string, context: SessionContext = {}) {
+    return this.walletAuthService.createChallenge(publicKey, context);
+  }
+
+  /**
+   * Sign in with a wallet signature instead of a password; a new wallet
+   * gets a new account
+   */
+  async loginWithWallet(walletLoginDto: WalletLoginDto, context: SessionContext = {}) {
+    const { user, created } = await this.walletAuthService.verifyLogin(walletLoginDto, context);
+
+    // The wallet is one factor, like a password
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: await this.twoFactorService.createLoginChallenge(user.id),
+      };
+    }
+
+    return {
+      ...(await this.startSession(user, context)),
+      created,
+    };
+  }
+
+  async completeTwoFactorLogin(challengeToken: string, code: string, context: SessionContext = {}) {
+    const userId = await this.twoFactorService.completeLoginChallenge(challengeToken, code);
+
+    const user = await this.usersService.findById(userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Account is disabled');
+    }
+
+    return this.startSession(user, context);
+  }
+
+  async refreshToken(refreshToken: string, context: SessionContext = {}) {
+    // Rotation rejects used, revoked and unknown tokens
+    const { userId, tokens } = await this.sessionsService.rotate(refreshToken, context);
+
+    const user = await this.usersService.findById(userId);
+    if (!user || !user.isActive) {
+      await this.sessionsService.revokeByRefreshToken(tokens.refreshToken);
+      throw new UnauthorizedException('Invalid refresh token');
+    }
 
     return {
       user: this.sanitizeUser(user),
@@ -70,49 +152,243 @@ export class AuthService {
     };
   }
 
-  async refreshToken(refreshToken: string) {
-    try {
-      const payload = this.jwtService.verify(refreshToken, {
-        secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
-      });
+  async logout(refreshToken: string) {
+    await this.sessionsService.revokeByRefreshToken(refreshToken);
+    return { success: true };
+  }
+
+  /**
+   * Step-up for accounts without two-factor: confirm the password again on
+   * this device, or sign a wallet challenge when the account has no
+   * password. Accounts with two-factor use /auth/2fa/step-up instead.
+   */
+  async reauthenticate(
+    userId: string,
+    sessionId: string,
+    reauthenticateDto: ReauthenticateDto,
+    context: SessionContext = {},
+  ) {
+    if (await this.twoFactorService.isEnabled(userId)) {
+      throw new BadRequestException('Two-factor authentication is enabled, confirm a code at /auth/2fa/step-up');
+    }
 
-      const user = await this.usersService.findById(payload.sub);
-      if (!user || !user.isActive) {
-        throw new UnauthorizedException('Invalid refresh token');
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    const { password, publicKey, nonce, signature } = reauthenticateDto;
+    if (user.passwordHash) {
+      const isPasswordValid = !!password && await bcrypt.compare(password, user.passwordHash);
+      if (!isPasswordValid) {
+        throw new UnauthorizedException('Current password is incorrect');
+      }
+    } else {
+      if (!publicKey || !nonce || !signature) {
+        throw new BadRequestException('Sign a challenge from /auth/wallet/challenge with your wallet');
       }
+      await this.walletAuthService.verifyReauthentication(
+        user.id,
+        user.walletAddress,
+        { publicKey, nonce, signature },
+        context,
+      );
+    }
 
-      // Generate new tokens
-      const tokens = await this.generateTokens(user.id);
+    return this.twoFactorService.recordStepUp(userId, sessionId);
+  }
 
-      return {
-        user: this.sanitizeUser(user),
-        tokens,
-      };
+  async requestEmailVerification(userId: string) {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+    if (!user.email) {
+      throw new BadRequestException('Add an email address first');
+    }
+    if (user.emailVerified) {
+      throw new ConflictException('Email is already verified');
+    }
+    if (await this.emailTokensService.sentRecently(user.id, 'EMAIL_VERIFICATION')) {
+      throw new BadRequestException('A verification email was just sent, please wait a minute before asking again');
+    }
+
+    await this.sendEmailVerification(user, user.email);
+  }
+
+  /**
+   * Add or change the account email. The email can reset the password, so
+   * accounts without one must have re-authenticated on this device first.
+   */
+  async updateEmail(userId: string, sessionId: string, updateEmailDto: UpdateEmailDto) {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    if (user.passwordHash) {
+      const isPasswordValid = !!updateEmailDto.currentPassword &&
+        await bcrypt.compare(updateEmailDto.currentPassword, user.passwordHash);
+      if (!isPasswordValid) {
+        throw new UnauthorizedException('Current password is incorrect');
+      }
+    } else if (!(await this.twoFactorService.hasFreshStepUp(userId, sessionId))) {
+      throw new ForbiddenException(
+        'Confirm this change with your wallet at /auth/reauthenticate, or with your authentication code at /auth/2fa/step-up',
+      );
+    }
+
+    const { email } = updateEmailDto;
+    if (email === user.email) {
+      throw new BadRequestException('This is already your email address');
+    }
+    const existingUser = await this.usersService.findByEmail(email);
+    if (existingUser) {
+      throw new ConflictException('User with this email already exists');
+    }
+
+    await this.usersService.updateEmail(userId, email);
+    try {
+      await this.sendEmailVerification(user, email);
     } catch (error) {
-      throw new UnauthorizedException('Invalid refresh token');
+      this.logger.error(`Failed to send verification email to ${user.id}: ${error.message}`);
     }
+    if (user.email) {
+      try {
+        await this.mailService.sendEmailChanged(user.email, user.username, email);
+      } catch (error) {
+        this.logger.error(`Failed to notify ${user.id} of the email change: ${error.message}`);
+      }
+    }
+
+    return { email, emailVerified: false };
   }
 
-  async logout(refreshToken: string) {
-    // TODO: Add refresh token blacklisting
-    return { success: true };
+  async verifyEmail(token: string) {
+    const { userId, email } = await this.emailTokensService.consume(token, 'EMAIL_VERIFICATION');
+
+    // The link only proves the address it was sent to
+    const user = await this.usersService.findById(userId);
+    if (!user || user.email !== email) {
+      throw new BadRequestException('This link is invalid or has expired');
+    }
+
+    await this.usersService.markEmailVerified(userId);
+  }
+
+  /**
+   * Email a reset link if the address belongs to an active account. The
+   * response is the same either way so addresses cannot be probed.
+   */
+  async requestPasswordReset(email: string) {
+    const user = await this.usersService.findByEmail(email);
+    if (!user || !user.isActive) {
+      return;
+    }
+    if (await this.emailTokensService.sentRecently(user.id, 'PASSWORD_RESET')) {
+      return;
+    }
+
+    const token = await this.emailTokensService.issue(user.id, email, 'PASSWORD_RESET');
+    await this.mailService.sendPasswordReset(
+      email,
+      user.username,
+      token,
+      EMAIL_TOKEN_TTL_MS.PASSWORD_RESET / 60000,
+    );
+  }
+
+  /**
+   * Set a new password from a reset link and sign out every device
+   */
+  async resetPassword(token: string, newPassword: string) {
+    const password = PasswordSchema.safeParse(newPassword);
+    if (!password.success) {
+      throw new BadRequestException(password.error.issues.map((issue) => issue.message));
+    }
+
+    const { userId, email } = await this.emailTokensService.consume(token, 'PASSWORD_RESET');
+    const user = await this.usersService.findById(userId);
+    if (!user || user.email !== email) {
+      throw new BadRequestException('This link is invalid or has expired');
+    }
+
+    await this.usersService.updatePassword(userId, await bcrypt.hash(password.data, SALT_ROUNDS));
+    // Receiving the link proves the address
+    if (!user.emailVerified) {
+      await this.usersService.markEmailVerified(userId);
+    }
+    await this.sessionsService.revokeAllSessions(userId, userId, 'password_reset');
+
+    await this.notifyPasswordChanged(user);
   }
 
-  private async generateTokens(userId: string): Promise<AuthTokens> {
-    const payload = { sub: userId };
+  /**
+   * Change the password while signed in; other devices are signed out
+   */
+  async changePassword(userId: string, sessionId: string, changePasswordDto: ChangePasswordDto) {
+    const result = ChangePasswordSchema.safeParse(changePasswordDto);
+    if (!result.success) {
+      throw new BadRequestException(
+        result.error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`),
+      );
+    }
 
-    const [accessToken, refreshToken] = await Promise.all([
-      this.jwtService.signAsync(payload),
-      this.jwtService.signAsync(payload, {
-        secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
-        expiresIn: '7d',
-      }),
-    ]);
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+    if (!user.passwordHash) {
+      throw new BadRequestException('No password is set for this account; set one with a password reset link');
+    }
+
+    const isPasswordValid = await bcrypt.compare(result.data.currentPassword, user.passwordHash);
+    if (!isPasswordValid) {
+      throw new UnauthorizedException('Current password is incorrect');
+    }
+    if (result.data.newPassword === result.data.currentPassword) {
+      throw new BadRequestException('New password must be different from the current one');
+    }
+
+    await this.usersService.updatePassword(userId, await bcrypt.hash(result.data.newPassword, SALT_ROUNDS));
+    const revoked = await this.sessionsService.revokeAllSessions(userId, userId, 'password_changed', sessionId);
+
+    await this.notifyPasswordChanged(user);
+    return { revoked };
+  }
+
+  private async sendEmailVerification(user: { id: string; username: string }, email: string) {
+    const token = await this.emailTokensService.issue(user.id, email, 'EMAIL_VERIFICATION');
+    await this.mailService.sendEmailVerification(
+      email,
+      user.username,
+      token,
+      EMAIL_TOKEN_TTL_MS.EMAIL_VERIFICATION / 3600000,
+    );
+  }
+
+  // The password is already changed; a failed notice is only logged
+  private async notifyPasswordChanged(user: { id: string; email: string | null; username: string }) {
+    if (!user.email) {
+      return;
+    }
+    try {
+      await this.mailService.sendPasswordChanged(user.email, user.username);
+    } catch (error) {
+      this.logger.error(`Failed to send password change notice to ${user.id}: ${error.message}`);
+    }
+  }
+
+  private async startSession(user: any, context: SessionContext) {
+    // Update last login
+    await this.usersService.updateLastLogin(user.id);
+
+    // Generate tokens
+    const tokens = await this.sessionsService.createSession(user.id, context);
 
     return {
-      accessToken,
-      refreshToken,
-      expiresAt: new Date(Date.now() + 15 * 60 * 1000), // 15 minutes
+      user: this.sanitizeUser(user),
+      tokens,
     };
   }
 
@@ -49,4 +49,98 @@ export class RefreshTokenDto {
   @ApiProperty()
   @IsString()
   refreshToken: string;
-}
\ No newline at end of file
+}
+
+export class TwoFactorCodeDto {
+  @ApiProperty({ description: '6-digit authenticator code or a recovery code' })
+  @IsString()
+  @MaxLength(20)
+  code: string;
+}
+
+export class TwoFactorLoginDto extends TwoFactorCodeDto {
+  @ApiProperty()
+  @IsString()
+  challengeToken: string;
+}
+
+export class ReauthenticateDto {
+  @ApiProperty({ required: false, description: 'Current password' })
+  @IsOptional()
+  @IsString()
+  password?: string;
+
+  @ApiProperty({ required: false, description: 'Account wallet, for accounts without a password' })
+  @IsOptional()
+  @IsString()
+  publicKey?: string;
+
+  @ApiProperty({ required: false, description: 'Nonce from POST /auth/wallet/challenge' })
+  @IsOptional()
+  @IsString()
+  nonce?: string;
+
+  @ApiProperty({ required: false, description: 'Base58 signature of the challenge message' })
+  @IsOptional()
+  @IsString()
+  signature?: string;
+}
+
+export class EmailTokenDto {
+  @ApiProperty({ description: 'Token from the emailed link' })
+  @IsString()
+  token: string;
+}
+
+export class ForgotPasswordDto {
+  @ApiProperty()
+  @IsEmail()
+  email: string;
+}
+
+export class ResetPasswordDto extends EmailTokenDto {
+  @ApiProperty()
+  @IsString()
+  newPassword: string;
+}
+
+export class ChangePasswordDto {
+  @ApiProperty()
+  @IsString()
+  currentPassword: string;
+
+  @ApiProperty()
+  @IsString()
+  newPassword: string;
+
+  @ApiProperty()
+  @IsString()
+  confirmPassword: string;
+}
+
+export class WalletChallengeDto {
+  @ApiProperty({ description: 'Base58 Solana public key' })
+  @IsString()
+  publicKey: string;
+}
+
+export class WalletLoginDto extends WalletChallengeDto {
+  @ApiProperty({ description: 'Nonce from the sign-in challenge' })
+  @IsString()
+  nonce: string;
+
+  @ApiProperty({ description: 'Base58 signature of the challenge message' })
+  @IsString()
+  signature: string;
+}
+
+export class UpdateEmailDto {
+  @ApiProperty()
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ required: false, description: 'Required when the account has a password' })
+  @IsOptional()
+  @IsString()
+  currentPassword?: string;
+}
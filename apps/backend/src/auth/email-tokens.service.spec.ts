@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { EmailTokensService } from './email-tokens.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('EmailTokensService', () => {
+  let service: EmailTokensService;
+  let prismaService: any;
+  let jwtService: any;
+  let tx: any;
+
+  beforeEach(async () => {
+    tx = {
+      emailToken: {
+        updateMany: jest.fn(),
+        create: jest.fn().mockResolvedValue({ id: 'token-1' })
+      }
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailTokensService,
+        {
+          provide: PrismaService,
+          useValue: {
+            emailToken: {
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+              findUnique: jest.fn().mockResolvedValue({ email: 'ana@example.com' }),
+              findFirst: jest.fn()
+            },
+            $transaction: jest.fn((callback) => callback(tx))
+          }
+        },
+        {
+          provide: JwtService,
+          useValue: {
+            signAsync: jest.fn().mockResolvedValue('signed-token'),
+            verify: jest.fn().mockReturnValue({ sub: 'user-1', typ: 'PASSWORD_RESET', jti: 'token-1' })
+          }
+        }
+      ]
+    }).compile();
+
+    service = module.get<EmailTokensService>(EmailTokensService);
+    prismaService = module.get(PrismaService);
+    jwtService = module.get(JwtService);
+  });
+
+  it('should retire earlier tokens and sign the new one with its id', async () => {
+    const token = await service.issue('user-1', 'ana@example.com', 'PASSWORD_RESET');
+
+    expect(token).toBe('signed-token');
+    expect(tx.emailToken.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', purpose: 'PASSWORD_RESET', usedAt: null },
+      data: { usedAt: expect.any(Date) }
+    });
+    expect(jwtService.signAsync).toHaveBeenCalledWith(
+      { sub: 'user-1', typ: 'PASSWORD_RESET', jti: 'token-1' },
+      { expiresIn: 3600 }
+    );
+  });
+
+  it('should use up a token once and return the address it was sent to', async () => {
+    await expect(service.consume('signed-token', 'PASSWORD_RESET')).resolves.toEqual({
+      userId: 'user-1',
+      email: 'ana@example.com'
+    });
+    expect(prismaService.emailToken.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'token-1',
+        userId: 'user-1',
+        purpose: 'PASSWORD_RESET',
+        usedAt: null,
+        expiresAt: { gt: expect.any(Date) }
+      },
+      data: { usedAt: expect.any(Date) }
+    });
+
+    prismaService.emailToken.updateMany.mockResolvedValue({ count: 0 });
+    await expect(service.consume('signed-token', 'PASSWORD_RESET')).rejects.toThrow(
+      'This link has already been used or was replaced by a newer one'
+    );
+  });
+
+  it('should not accept a token issued for another purpose', async () => {
+    await expect(service.consume('signed-token', 'EMAIL_VERIFICATION')).rejects.toThrow(BadRequestException);
+    expect(prismaService.emailToken.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should reject tokens with a bad signature or past expiry', async () => {
+    jwtService.verify.mockImplementation(() => {
+      throw new Error('jwt expired');
+    });
+
+    await expect(service.consume('signed-token', 'PASSWORD_RESET')).rejects.toThrow(
+      'This link is invalid or has expired'
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { PrismaService } from '../prisma/prisma.service';
+
+export type EmailTokenPurpose = 'EMAIL_VERIFICATION' | 'PASSWORD_RESET';
+
+export const EMAIL_TOKEN_TTL_MS: Record<EmailTokenPurpose, number> = {
+  EMAIL_VERIFICATION: 24 * 60 * 60 * 1000,
+  PASSWORD_RESET: 60 * 60 * 1000,
+};
+
+// Another email for the same purpose is not sent within this window
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Signed, expiring, single-use tokens for links sent by email. Issuing a
+ * token retires the user's earlier ones for the same purpose, so only the
+ * latest email works.
+ */
+@Injectable()
+export class EmailTokensService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  async issue(userId: string, email: string, purpose: EmailTokenPurpose): Promise<string> {
+    const expiresAt = new Date(Date.now() + EMAIL_TOKEN_TTL_MS[purpose]);
+
+    const token = await this.prisma.$transaction(async (tx) => {
+      await tx.emailToken.updateMany({
+        where: { userId, purpose, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      return tx.emailToken.create({
+        data: { userId, email, purpose, expiresAt },
+      });
+    });
+
+    return this.jwtService.signAsync(
+      { sub: userId, typ: purpose, jti: token.id },
+      { expiresIn: Math.floor(EMAIL_TOKEN_TTL_MS[purpose] / 1000) },
+    );
+  }
+
+  /**
+   * Use up a token; returns the user and the address it was sent to
+   */
+  async consume(token: string, purpose: EmailTokenPurpose): Promise<{ userId: string; email: string }> {
+    let payload: any;
+    try {
+      payload = this.jwtService.verify(token);
+    } catch {
+      throw new BadRequestException('This link is invalid or has expired');
+    }
+    if (payload.typ !== purpose || !payload.jti || !payload.sub) {
+      throw new BadRequestException('This link is invalid or has expired');
+    }
+
+    const used = await this.prisma.emailToken.updateMany({
+      where: { id: payload.jti, userId: payload.sub, purpose, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+    if (used.count === 0) {
+      throw new BadRequestException('This link has already been used or was replaced by a newer one');
+    }
+
+    const stored = await this.prisma.emailToken.findUnique({
+      where: { id: payload.jti },
+      select: { email: true },
+    });
+
+    return { userId: payload.sub, email: stored!.email };
+  }
+
+  /**
+   * Whether an email for this purpose went out too recently to send another
+   */
+  async sentRecently(userId: string, purpose: EmailTokenPurpose): Promise<boolean> {
+    const recent = await this.prisma.emailToken.findFirst({
+      where: { userId, purpose, createdAt: { gt: new Date(Date.now() - RESEND_INTERVAL_MS) } },
+      select: { id: true },
+    });
+    return !!recent;
+  }
+}
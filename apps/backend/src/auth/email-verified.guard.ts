@@ -0,0 +1,21 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+
+/**
+ * Requires the signed-in user to have verified their email address
+ * (POST /auth/verify-email). Use after JwtAuthGuard.
+ */
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context.switchToHttp().getRequest();
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    if (!user.emailVerified) {
+      throw new ForbiddenException('Verify your email address to perform this action');
+    }
+
+    return true;
+  }
+}
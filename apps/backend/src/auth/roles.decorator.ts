@@ -0,0 +1,17 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Permission, UserRole } from '@omnifit/shared';
+
+export const ROLES_KEY = 'roles';
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Allow only these roles. Checked by RolesGuard; a handler's roles replace
+ * its controller's.
+ */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
+
+/**
+ * Require every one of these permissions from the ROLE_PERMISSIONS matrix.
+ * Checked by RolesGuard; a handler's permissions replace its controller's.
+ */
+export const Permissions = (...permissions: Permission[]) => SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,97 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { GUARDS_METADATA, METHOD_METADATA, PATH_METADATA } from '@nestjs/common/constants';
+import { RolesGuard } from './roles.guard';
+import { Permissions, Roles, PERMISSIONS_KEY } from './roles.decorator';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { SessionsAdminController } from './sessions-admin.controller';
+import { RewardsAdminController } from '../rewards/rewards-admin.controller';
+import { PartnersAdminController } from '../partners/partners-admin.controller';
+import { VestingController } from '../vesting/vesting.controller';
+import { WalletController } from '../wallet/wallet.controller';
+import { PartnerRedemptionsController } from '../redemptions/partner-redemptions.controller';
+
+class ExampleController {
+  @Permissions('rewards:read')
+  read() {}
+
+  @Permissions('rewards:manage')
+  manage() {}
+
+  @Roles('SUPER_ADMIN')
+  superAdminOnly() {}
+
+  open() {}
+}
+
+describe('RolesGuard', () => {
+  const guard = new RolesGuard(new Reflector());
+
+  const contextFor = (handler: keyof ExampleController, user?: { role: string }) =>
+    ({
+      getHandler: () => ExampleController.prototype[handler],
+      getClass: () => ExampleController,
+      switchToHttp: () => ({ getRequest: () => ({ user }) })
+    }) as unknown as ExecutionContext;
+
+  it('should allow a role the matrix grants the permission to', () => {
+    expect(guard.canActivate(contextFor('read', { role: 'ADMIN' }))).toBe(true);
+    expect(guard.canActivate(contextFor('manage', { role: 'SUPER_ADMIN' }))).toBe(true);
+  });
+
+  it('should refuse roles without the permission', () => {
+    expect(() => guard.canActivate(contextFor('read', { role: 'USER' }))).toThrow(ForbiddenException);
+    expect(() => guard.canActivate(contextFor('read', { role: 'PARTNER' }))).toThrow(ForbiddenException);
+  });
+
+  it('should check @Roles by exact role', () => {
+    expect(() => guard.canActivate(contextFor('superAdminOnly', { role: 'ADMIN' }))).toThrow(ForbiddenException);
+    expect(guard.canActivate(contextFor('superAdminOnly', { role: 'SUPER_ADMIN' }))).toBe(true);
+  });
+
+  it('should pass handlers without requirements and refuse missing users', () => {
+    expect(guard.canActivate(contextFor('open', { role: 'USER' }))).toBe(true);
+    expect(() => guard.canActivate(contextFor('read'))).toThrow(UnauthorizedException);
+  });
+});
+
+describe('admin routes', () => {
+  const controllers = [
+    SessionsAdminController,
+    RewardsAdminController,
+    PartnersAdminController,
+    VestingController,
+    WalletController,
+    PartnerRedemptionsController
+  ];
+  const reflector = new Reflector();
+
+  // Every route under an admin/ or partner/ path, with what protects it
+  const routes = controllers.flatMap((controller) => {
+    const basePath: string = Reflect.getMetadata(PATH_METADATA, controller);
+    const classGuards = Reflect.getMetadata(GUARDS_METADATA, controller) || [];
+
+    return Object.getOwnPropertyNames(controller.prototype)
+      .map((name) => ({ name, handler: controller.prototype[name] }))
+      .filter(({ handler }) => Reflect.getMetadata(METHOD_METADATA, handler) !== undefined)
+      .map(({ name, handler }) => ({
+        route: `${controller.name}.${name}`,
+        path: `${basePath}/${Reflect.getMetadata(PATH_METADATA, handler)}`,
+        guards: [...classGuards, ...(Reflect.getMetadata(GUARDS_METADATA, handler) || [])],
+        permissions: reflector.getAllAndOverride(PERMISSIONS_KEY, [handler, controller]) || []
+      }))
+      .filter(({ path }) => /^(admin|partner)\/|\/admin\//.test(path));
+  });
+
+  it('should find the admin routes', () => {
+    expect(routes.length).toBeGreaterThan(40);
+    expect(routes.map((route) => route.path)).toContain('wallet/admin/suspicious');
+  });
+
+  it.each(routes.map((route) => [route.route, route]))('%s requires a permission', (_name, route: any) => {
+    expect(route.guards).toContain(JwtAuthGuard);
+    expect(route.guards).toContain(RolesGuard);
+    expect(route.guards.indexOf(JwtAuthGuard)).toBeLessThan(route.guards.indexOf(RolesGuard));
+    expect(route.permissions.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,39 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { hasAllPermissions } from '@omnifit/shared';
+import type { Permission, UserRole } from '@omnifit/shared';
+import { ROLES_KEY, PERMISSIONS_KEY } from './roles.decorator';
+
+/**
+ * Enforces @Roles and @Permissions against the role JwtStrategy loaded with
+ * the user, so it needs no query of its own. Use after JwtAuthGuard.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, targets);
+    const permissions = this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, targets);
+
+    if (!roles?.length && !permissions?.length) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest();
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+
+    if (roles?.length && !roles.includes(user.role)) {
+      throw new ForbiddenException('Your role does not allow this action');
+    }
+
+    if (permissions?.length && !hasAllPermissions(user.role, permissions)) {
+      throw new ForbiddenException('Your role does not allow this action');
+    }
+
+    return true;
+  }
+}
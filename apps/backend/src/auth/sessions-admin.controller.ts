@@ -0,0 +1,53 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { RolesGuard } from './roles.guard';
+import { Permissions } from './roles.decorator';
+import { SessionsService } from './sessions.service';
+
+interface ForceLogoutDto {
+  reason: string;
+}
+
+@Controller('admin/users')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Permissions('sessions:manage')
+export class SessionsAdminController {
+  constructor(private readonly sessionsService: SessionsService) {}
+
+  @Get(':id/sessions')
+  async getUserSessions(@Param('id') userId: string) {
+    const sessions = await this.sessionsService.listSessions(userId);
+
+    return { data: sessions };
+  }
+
+  @Post(':id/logout')
+  @HttpCode(HttpStatus.OK)
+  async forceLogout(@Request() req: any, @Param('id') userId: string, @Body() body: ForceLogoutDto) {
+    if (!body.reason) {
+      throw new BadRequestException('A reason is required');
+    }
+
+    const revoked = await this.sessionsService.forceLogout(req.user.id, userId, body.reason, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    return {
+      success: true,
+      data: { revoked },
+      message: `User signed out of ${revoked} session${revoked === 1 ? '' : 's'}`,
+    };
+  }
+}
@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { SessionsService } from './sessions.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  let prismaService: any;
+  let jwtService: any;
+
+  const session = { id: 'session-1', userId: 'user-1', revokedAt: null };
+  const storedToken = { id: 'token-1', sessionId: 'session-1', usedAt: null, session };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            authSession: {
+              create: jest.fn().mockResolvedValue(session),
+              update: jest.fn(),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+              findUnique: jest.fn()
+            },
+            refreshToken: {
+              create: jest.fn().mockResolvedValue({ id: 'token-2' }),
+              findUnique: jest.fn().mockResolvedValue(storedToken),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 })
+            },
+            user: { findUnique: jest.fn().mockResolvedValue({ role: 'USER' }) },
+            auditLog: { create: jest.fn() }
+          }
+        },
+        {
+          provide: JwtService,
+          useValue: {
+            signAsync: jest.fn((payload) => Promise.resolve(`signed:${payload.jti ?? 'access'}`)),
+            verify: jest.fn().mockReturnValue({ sub: 'user-1', sid: 'session-1', jti: 'token-1' })
+          }
+        },
+        { provide: ConfigService, useValue: { get: jest.fn().mockReturnValue('refresh-secret') } }
+      ]
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+    prismaService = module.get(PrismaService);
+    jwtService = module.get(JwtService);
+  });
+
+  it('should record the device and put the session in both tokens', async () => {
+    const tokens = await service.createSession('user-1', { ipAddress: '10.0.0.1', userAgent: 'Safari' });
+
+    expect(prismaService.authSession.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-1', ipAddress: '10.0.0.1', userAgent: 'Safari' })
+    });
+    expect(jwtService.signAsync).toHaveBeenCalledWith({ sub: 'user-1', sid: 'session-1', role: 'USER' });
+    expect(tokens.refreshToken).toBe('signed:token-2');
+  });
+
+  it('should use up the presented token and issue the next in the same session', async () => {
+    const { tokens } = await service.rotate('refresh-token');
+
+    expect(prismaService.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { id: 'token-1', usedAt: null },
+      data: { usedAt: expect.any(Date) }
+    });
+    expect(prismaService.refreshToken.create).toHaveBeenCalledWith({
+      data: { sessionId: 'session-1', expiresAt: expect.any(Date) }
+    });
+    expect(tokens.refreshToken).toBe('signed:token-2');
+  });
+
+  it('should revoke the whole session when a used token comes back', async () => {
+    prismaService.refreshToken.findUnique.mockResolvedValue({ ...storedToken, usedAt: new Date() });
+
+    await expect(service.rotate('refresh-token')).rejects.toThrow('Refresh token has already been used');
+    expect(prismaService.authSession.updateMany).toHaveBeenCalledWith({
+      where: { id: 'session-1', revokedAt: null },
+      data: expect.objectContaining({ revokeReason: 'refresh_token_reuse' })
+    });
+    expect(prismaService.refreshToken.create).not.toHaveBeenCalled();
+  });
+
+  it('should treat losing a concurrent refresh as reuse', async () => {
+    prismaService.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.rotate('refresh-token')).rejects.toThrow(UnauthorizedException);
+    expect(prismaService.authSession.updateMany).toHaveBeenCalled();
+  });
+
+  it('should not refresh a revoked session', async () => {
+    prismaService.refreshToken.findUnique.mockResolvedValue({
+      ...storedToken,
+      session: { ...session, revokedAt: new Date() }
+    });
+
+    await expect(service.rotate('refresh-token')).rejects.toThrow('Session has been revoked');
+    expect(prismaService.refreshToken.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should keep the current device when signing out the others', async () => {
+    prismaService.authSession.updateMany.mockResolvedValue({ count: 2 });
+
+    const revoked = await service.revokeAllSessions('user-1', 'user-1', 'signed_out_by_user', 'session-1');
+
+    expect(revoked).toBe(2);
+    expect(prismaService.authSession.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', revokedAt: null, id: { not: 'session-1' } },
+      data: expect.objectContaining({ revokedBy: 'user-1', revokeReason: 'signed_out_by_user' })
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import type { AuthTokens } from '@omnifit/shared';
+import { PrismaService } from '../prisma/prisma.service';
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+interface RefreshTokenPayload {
+  sub: string;
+  sid: string;
+  jti: string;
+}
+
+/**
+ * Device sessions and their refresh-token families. Every refresh uses up
+ * the presented token and issues the next one in the same session; a used
+ * token coming back means it leaked, so the whole session is revoked.
+ * Access tokens carry the session id and stop working once it is revoked.
+ */
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Start a session for a new sign-in and issue its first tokens
+   */
+  async createSession(userId: string, context: SessionContext = {}): Promise<AuthTokens> {
+    const session = await this.prisma.authSession.create({
+      data: {
+        userId,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      },
+    });
+
+    return this.issueTokens(userId, session.id);
+  }
+
+  /**
+   * Exchange a refresh token for the next pair in its session
+   */
+  async rotate(refreshToken: string, context: SessionContext = {}): Promise<{ userId: string; tokens: AuthTokens }> {
+    const payload = this.verifyRefreshToken(refreshToken);
+
+    const stored = await this.prisma.refreshToken.findUnique({
+      where: { id: payload.jti },
+      include: { session: true },
+    });
+
+    if (!stored || stored.sessionId !== payload.sid || stored.session.userId !== payload.sub) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    if (stored.session.revokedAt) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    // Only one refresh can use a token; losing the race is reuse too
+    const used = stored.usedAt
+      ? { count: 0 }
+      : await this.prisma.refreshToken.updateMany({
+          where: { id: stored.id, usedAt: null },
+          data: { usedAt: new Date() },
+        });
+
+    if (used.count === 0) {
+      await this.prisma.authSession.updateMany({
+        where: { id: stored.sessionId, revokedAt: null },
+        data: { revokedAt: new Date(), revokeReason: 'refresh_token_reuse' },
+      });
+      this.logger.warn(`Refresh token reuse in session ${stored.sessionId} of user ${payload.sub}; session revoked`);
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+
+    await this.prisma.authSession.update({
+      where: { id: stored.sessionId },
+      data: {
+        lastSeenAt: new Date(),
+        ...(context.ipAddress && { ipAddress: context.ipAddress }),
+        ...(context.userAgent && { userAgent: context.userAgent }),
+      },
+    });
+
+    return { userId: payload.sub, tokens: await this.issueTokens(payload.sub, stored.sessionId) };
+  }
+
+  /**
+   * Sign out the session a refresh token belongs to. Invalid tokens are
+   * ignored so logging out always succeeds.
+   */
+  async revokeByRefreshToken(refreshToken: string) {
+    let payload: RefreshTokenPayload;
+    try {
+      payload = this.verifyRefreshToken(refreshToken);
+    } catch {
+      return;
+    }
+
+    await this.prisma.authSession.updateMany({
+      where: { id: payload.sid, userId: payload.sub, revokedAt: null },
+      data: { revokedAt: new Date(), revokedBy: payload.sub, revokeReason: 'logout' },
+    });
+  }
+
+  async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await this.prisma.authSession.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+
+    return !!session && session.userId === userId && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  /**
+   * Signed-in devices, most recently used first
+   */
+  async listSessions(userId: string, currentSessionId?: string) {
+    const sessions = await this.prisma.authSession.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true,
+        lastSeenAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({ ...session, current: session.id === currentSessionId }));
+  }
+
+  async revokeSession(userId: string, sessionId: string, revokedBy: string, reason: string) {
+    const revoked = await this.prisma.authSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedBy, revokeReason: reason },
+    });
+
+    if (revoked.count === 0) {
+      throw new NotFoundException('Session not found');
+    }
+  }
+
+  /**
+   * Revoke every session of a user except `keepSessionId`; returns how many
+   */
+  async revokeAllSessions(userId: string, revokedBy: string, reason: string, keepSessionId?: string) {
+    const revoked = await this.prisma.authSession.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(keepSessionId && { id: { not: keepSessionId } }),
+      },
+      data: { revokedAt: new Date(), revokedBy, revokeReason: reason },
+    });
+
+    return revoked.count;
+  }
+
+  /**
+   * Sign a user out everywhere on an admin's behalf
+   */
+  async forceLogout(adminId: string, userId: string, reason: string, context: SessionContext = {}) {
+    const revoked = await this.revokeAllSessions(userId, adminId, reason);
+
+    await this.prisma.auditLog.create({
+      data: {
+        userId: adminId,
+        action: 'sessions_revoked',
+        resource: 'user',
+        resourceId: userId,
+        details: { reason, sessions: revoked },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+
+    this.logger.warn(`Admin ${adminId} signed out user ${userId} (${revoked} sessions): ${reason}`);
+    return revoked;
+  }
+
+  private async issueTokens(userId: string, sessionId: string): Promise<AuthTokens> {
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+    const [token, user] = await Promise.all([
+      this.prisma.refreshToken.create({
+        data: { sessionId, expiresAt },
+      }),
+      this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { role: true },
+      }),
+    ]);
+
+    await this.prisma.authSession.update({
+      where: { id: sessionId },
+      data: { expiresAt },
+    });
+
+    const [accessToken, refreshToken] = await Promise.all([
+      // The backend reloads the role on every request; services without the
+      // database (the AI service) rely on this claim until the token expires
+      this.jwtService.signAsync({ sub: userId, sid: sessionId, role: user?.role }),
+      this.jwtService.signAsync(
+        { sub: userId, sid: sessionId, jti: token.id },
+        {
+          secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
+          expiresIn: '7d',
+        },
+      ),
+    ]);
+
+    return {
+      accessToken,
+      refreshToken,
+      expiresAt: new Date(Date.now() + ACCESS_TOKEN_TTL_MS),
+    };
+  }
+
+  private verifyRefreshToken(refreshToken: string): RefreshTokenPayload {
+    try {
+      const payload = this.jwtService.verify(refreshToken, {
+        secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
+      });
+
+      if (!payload.sub || !payload.sid || !payload.jti) {
+        throw new Error('Refresh token predates sessions');
+      }
+      return payload;
+    } catch {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { StepUpGuard } from './step-up.guard';
+
+describe('StepUpGuard', () => {
+  let twoFactorService: any;
+  let guard: StepUpGuard;
+
+  const contextFor = (user?: { id: string; sessionId?: string }) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => ({ user }) })
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    twoFactorService = {
+      isEnabled: jest.fn().mockResolvedValue(false),
+      hasFreshStepUp: jest.fn().mockResolvedValue(false)
+    };
+    guard = new StepUpGuard(twoFactorService);
+  });
+
+  it('should pass a fresh step-up whether or not two-factor is enabled', async () => {
+    twoFactorService.hasFreshStepUp.mockResolvedValue(true);
+
+    await expect(guard.canActivate(contextFor({ id: 'user-1', sessionId: 'session-1' }))).resolves.toBe(true);
+    expect(twoFactorService.hasFreshStepUp).toHaveBeenCalledWith('user-1', 'session-1');
+  });
+
+  it('should send accounts without two-factor to password re-authentication', async () => {
+    await expect(guard.canActivate(contextFor({ id: 'user-1', sessionId: 'session-1' }))).rejects.toThrow(
+      '/auth/reauthenticate'
+    );
+  });
+
+  it('should ask accounts with two-factor for a code', async () => {
+    twoFactorService.isEnabled.mockResolvedValue(true);
+
+    await expect(guard.canActivate(contextFor({ id: 'user-1', sessionId: 'session-1' }))).rejects.toThrow(
+      ForbiddenException
+    );
+    await expect(guard.canActivate(contextFor({ id: 'user-1', sessionId: 'session-1' }))).rejects.toThrow(
+      '/auth/2fa/step-up'
+    );
+  });
+
+  it('should refuse requests without a device session', async () => {
+    await expect(guard.canActivate(contextFor({ id: 'user-1' }))).rejects.toThrow(UnauthorizedException);
+  });
+});
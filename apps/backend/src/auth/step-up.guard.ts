@@ -0,0 +1,28 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { TwoFactorService } from './two-factor.service';
+
+/**
+ * Requires a recent confirmation on this device: the second factor
+ * (POST /auth/2fa/step-up), or for accounts without two-factor the password
+ * (POST /auth/reauthenticate). Use after JwtAuthGuard.
+ */
+@Injectable()
+export class StepUpGuard implements CanActivate {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const { user } = context.switchToHttp().getRequest();
+    if (!user?.sessionId) {
+      throw new UnauthorizedException();
+    }
+
+    if (await this.twoFactorService.hasFreshStepUp(user.id, user.sessionId)) {
+      return true;
+    }
+
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      throw new ForbiddenException('Confirm this action with your authentication code at /auth/2fa/step-up');
+    }
+    throw new ForbiddenException('Confirm this action with your password at /auth/reauthenticate');
+  }
+}
@@ -0,0 +1,91 @@
+import { Body, Controller, Get, Post, HttpCode, HttpStatus, Request, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorCodeDto } from './dto';
+
+@ApiTags('Authentication')
+@ApiBearerAuth()
+@Controller('auth/2fa')
+@UseGuards(JwtAuthGuard)
+export class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Two-factor status' })
+  async getStatus(@Request() req: any) {
+    const status = await this.twoFactorService.getStatus(req.user.id);
+
+    return { data: status };
+  }
+
+  @Post('setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start TOTP enrollment' })
+  @ApiResponse({ status: 200, description: 'Secret, otpauth:// provisioning URI and its QR code' })
+  async setup(@Request() req: any) {
+    const enrollment = await this.twoFactorService.beginEnrollment(req.user.id);
+
+    return {
+      success: true,
+      data: enrollment,
+      message: 'Scan the QR code with your authenticator app, then confirm a code to enable two-factor',
+    };
+  }
+
+  @Post('enable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm the first code and enable two-factor' })
+  async enable(@Request() req: any, @Body() body: TwoFactorCodeDto) {
+    const result = await this.twoFactorService.enableTwoFactor(req.user.id, body.code, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    return {
+      success: true,
+      data: result,
+      message: 'Two-factor enabled. Store the recovery codes somewhere safe; they are not shown again',
+    };
+  }
+
+  @Post('disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Disable two-factor' })
+  async disable(@Request() req: any, @Body() body: TwoFactorCodeDto) {
+    await this.twoFactorService.disableTwoFactor(req.user.id, body.code, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    return {
+      success: true,
+      message: 'Two-factor disabled',
+    };
+  }
+
+  @Post('recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Replace the recovery codes' })
+  async regenerateRecoveryCodes(@Request() req: any, @Body() body: TwoFactorCodeDto) {
+    const result = await this.twoFactorService.regenerateRecoveryCodes(req.user.id, body.code);
+
+    return {
+      success: true,
+      data: result,
+      message: 'New recovery codes issued; the previous ones no longer work',
+    };
+  }
+
+  @Post('step-up')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm the second factor before a sensitive action' })
+  async stepUp(@Request() req: any, @Body() body: TwoFactorCodeDto) {
+    const result = await this.twoFactorService.stepUp(req.user.id, req.user.sessionId, body.code);
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+}
@@ -0,0 +1,145 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { authenticator } from 'otplib';
+import { TwoFactorService } from './two-factor.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  let prismaService: any;
+  let jwtService: any;
+  let tx: any;
+  let secret: string;
+  let record: any;
+
+  beforeEach(async () => {
+    tx = {
+      twoFactorAuth: { update: jest.fn(), delete: jest.fn() },
+      twoFactorRecoveryCode: { deleteMany: jest.fn(), createMany: jest.fn() },
+      auditLog: { create: jest.fn() }
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        {
+          provide: PrismaService,
+          useValue: {
+            user: { findUnique: jest.fn().mockResolvedValue({ email: 'ana@example.com', twoFactorAuth: null }) },
+            twoFactorAuth: {
+              findUnique: jest.fn(),
+              upsert: jest.fn(),
+              update: jest.fn(),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 })
+            },
+            twoFactorRecoveryCode: { updateMany: jest.fn().mockResolvedValue({ count: 0 }), count: jest.fn() },
+            authSession: { findUnique: jest.fn(), updateMany: jest.fn() },
+            $transaction: jest.fn((callback) => callback(tx))
+          }
+        },
+        { provide: JwtService, useValue: { signAsync: jest.fn(), verify: jest.fn() } },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => (key === 'JWT_2FA_SECRET' ? 'challenge-secret' : 'test-encryption-key')) }
+        }
+      ]
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+    prismaService = module.get(PrismaService);
+    jwtService = module.get(JwtService);
+
+    // Enroll to get a secret stored the way the service stores it
+    const enrollment = await service.beginEnrollment('user-1');
+    secret = enrollment.secret;
+    record = {
+      userId: 'user-1',
+      secret: prismaService.twoFactorAuth.upsert.mock.calls[0][0].create.secret,
+      enabledAt: new Date(),
+      failedAttempts: 0,
+      lockedUntil: null
+    };
+    prismaService.twoFactorAuth.findUnique.mockResolvedValue(record);
+  });
+
+  it('should provision an otpauth URI and keep the secret encrypted', async () => {
+    const enrollment = await service.beginEnrollment('user-1');
+
+    expect(enrollment.otpauthUrl).toMatch(/^otpauth:\/\/totp\/OmniFit:ana%40example\.com\?secret=/);
+    expect(enrollment.qrCode).toMatch(/^data:image\/png;base64,/);
+    expect(record.secret).not.toContain(secret);
+  });
+
+  it('should enable two-factor with a valid code and issue recovery codes', async () => {
+    prismaService.twoFactorAuth.findUnique.mockResolvedValue({ ...record, enabledAt: null });
+
+    const { recoveryCodes } = await service.enableTwoFactor('user-1', authenticator.generate(secret));
+
+    expect(recoveryCodes).toHaveLength(10);
+    expect(recoveryCodes[0]).toMatch(/^[A-Z2-9]{5}-[A-Z2-9]{5}$/);
+    const stored = tx.twoFactorRecoveryCode.createMany.mock.calls[0][0].data;
+    expect(stored[0].codeHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(stored[0].codeHash).not.toContain(recoveryCodes[0]);
+  });
+
+  it('should not accept the same TOTP code twice', async () => {
+    const code = authenticator.generate(secret);
+    await expect(service.verifySecondFactor('user-1', code)).resolves.toBe('totp');
+
+    // The step was recorded, so the conditional update no longer matches
+    prismaService.twoFactorAuth.updateMany.mockResolvedValue({ count: 0 });
+    await expect(service.verifySecondFactor('user-1', code)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should accept an unused recovery code', async () => {
+    prismaService.twoFactorRecoveryCode.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.verifySecondFactor('user-1', 'abcde-fghjk')).resolves.toBe('recovery');
+    expect(prismaService.twoFactorRecoveryCode.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', codeHash: expect.stringMatching(/^[0-9a-f]{64}$/), usedAt: null },
+      data: { usedAt: expect.any(Date) }
+    });
+  });
+
+  it('should lock the second factor after repeated failures', async () => {
+    prismaService.twoFactorAuth.findUnique.mockResolvedValue({ ...record, failedAttempts: 4 });
+
+    await expect(service.verifySecondFactor('user-1', '000000')).rejects.toThrow(UnauthorizedException);
+    expect(prismaService.twoFactorAuth.update).toHaveBeenCalledWith({
+      where: { userId: 'user-1' },
+      data: { failedAttempts: 0, lockedUntil: expect.any(Date) }
+    });
+
+    prismaService.twoFactorAuth.findUnique.mockResolvedValue({ ...record, lockedUntil: new Date(Date.now() + 60000) });
+    await expect(service.verifySecondFactor('user-1', authenticator.generate(secret))).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should sign login challenges apart from access tokens', async () => {
+    await service.createLoginChallenge('user-1');
+
+    expect(jwtService.signAsync).toHaveBeenCalledWith(
+      { sub: 'user-1', typ: '2fa_login' },
+      expect.objectContaining({ secret: 'challenge-secret', audience: '2fa_login' })
+    );
+
+    jwtService.verify.mockReturnValue({ sub: 'user-1', typ: '2fa_login' });
+    await service.completeLoginChallenge('challenge-token', authenticator.generate(secret));
+    expect(jwtService.verify).toHaveBeenCalledWith('challenge-token', {
+      secret: 'challenge-secret',
+      audience: '2fa_login'
+    });
+  });
+
+  it('should only count a recent step-up on the same session', async () => {
+    prismaService.authSession.findUnique.mockResolvedValue({ userId: 'user-1', stepUpAt: new Date() });
+    await expect(service.hasFreshStepUp('user-1', 'session-1')).resolves.toBe(true);
+
+    prismaService.authSession.findUnique.mockResolvedValue({
+      userId: 'user-1',
+      stepUpAt: new Date(Date.now() - 10 * 60 * 1000)
+    });
+    await expect(service.hasFreshStepUp('user-1', 'session-1')).resolves.toBe(false);
+  });
+});
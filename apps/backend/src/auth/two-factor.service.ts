@@ -0,0 +1,365 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { authenticator } from 'otplib';
+import * as QRCode from 'qrcode';
+import * as crypto from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+
+const ISSUER = 'OmniFit';
+const TOTP_STEP_SECONDS = 30;
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const STEP_UP_WINDOW_MS = 5 * 60 * 1000;
+const LOGIN_CHALLENGE_TTL = '5m';
+const LOGIN_CHALLENGE_AUDIENCE = '2fa_login';
+
+/**
+ * TOTP second factor: enrollment, recovery codes, the second step of login
+ * and step-up confirmation for sensitive actions. A step-up is recorded on
+ * the device session and lasts STEP_UP_WINDOW_MS.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+  private readonly totp = authenticator.clone({ step: TOTP_STEP_SECONDS, window: 1 });
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async getStatus(userId: string) {
+    const [record, recoveryCodesRemaining] = await Promise.all([
+      this.prisma.twoFactorAuth.findUnique({ where: { userId } }),
+      this.prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } }),
+    ]);
+
+    return {
+      enabled: !!record?.enabledAt,
+      enabledAt: record?.enabledAt ?? null,
+      recoveryCodesRemaining: record?.enabledAt ? recoveryCodesRemaining : 0,
+    };
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const record = await this.prisma.twoFactorAuth.findUnique({
+      where: { userId },
+      select: { enabledAt: true },
+    });
+    return !!record?.enabledAt;
+  }
+
+  /**
+   * Generate a secret for the authenticator app. Nothing changes for the
+   * user until enableTwoFactor confirms a code from it.
+   */
+  async beginEnrollment(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, username: true, twoFactorAuth: { select: { enabledAt: true } } },
+    });
+    if (!user) {
+      throw new UnauthorizedException();
+    }
+    if (user.twoFactorAuth?.enabledAt) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+
+    const secret = this.totp.generateSecret();
+    const encrypted = this.encryptSecret(secret);
+    await this.prisma.twoFactorAuth.upsert({
+      where: { userId },
+      create: { userId, secret: encrypted },
+      update: { secret: encrypted, lastUsedStep: null, failedAttempts: 0, lockedUntil: null },
+    });
+
+    const otpauthUrl = this.totp.keyuri(user.email ?? user.username, ISSUER, secret);
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl),
+    };
+  }
+
+  /**
+   * Turn two-factor on with the first code from the app. Returns the
+   * recovery codes, which are only ever shown here.
+   */
+  async enableTwoFactor(userId: string, code: string, context: { ipAddress?: string; userAgent?: string } = {}) {
+    const record = await this.prisma.twoFactorAuth.findUnique({ where: { userId } });
+    if (!record) {
+      throw new BadRequestException('Start two-factor setup first');
+    }
+    if (record.enabledAt) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+
+    if (!(await this.consumeTotp(record, code))) {
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.$transaction(async (tx) => {
+      await tx.twoFactorAuth.update({
+        where: { userId },
+        data: { enabledAt: new Date() },
+      });
+      await this.replaceRecoveryCodes(tx, userId, recoveryCodes);
+      await this.audit(tx, userId, 'two_factor_enabled', context);
+    });
+
+    this.logger.log(`Two-factor authentication enabled for ${userId}`);
+    return { recoveryCodes };
+  }
+
+  async disableTwoFactor(userId: string, code: string, context: { ipAddress?: string; userAgent?: string } = {}) {
+    await this.verifySecondFactor(userId, code);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+      await tx.twoFactorAuth.delete({ where: { userId } });
+      await this.audit(tx, userId, 'two_factor_disabled', context);
+    });
+
+    this.logger.warn(`Two-factor authentication disabled for ${userId}`);
+  }
+
+  /**
+   * Replace every recovery code; the old ones stop working
+   */
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    await this.verifySecondFactor(userId, code);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.$transaction(async (tx) => {
+      await this.replaceRecoveryCodes(tx, userId, recoveryCodes);
+      await this.audit(tx, userId, 'two_factor_recovery_codes_regenerated', {});
+    });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Short-lived token standing in for the password step until the second
+   * factor is given. It is signed with its own secret so nothing that
+   * accepts access tokens accepts it.
+   */
+  async createLoginChallenge(userId: string): Promise<string> {
+    return this.jwtService.signAsync(
+      { sub: userId, typ: '2fa_login' },
+      {
+        secret: this.getChallengeSecret(),
+        audience: LOGIN_CHALLENGE_AUDIENCE,
+        expiresIn: LOGIN_CHALLENGE_TTL,
+      },
+    );
+  }
+
+  /**
+   * Check the second login step; returns the user it signs in
+   */
+  async completeLoginChallenge(challengeToken: string, code: string): Promise<string> {
+    let payload: any;
+    try {
+      payload = this.jwtService.verify(challengeToken, {
+        secret: this.getChallengeSecret(),
+        audience: LOGIN_CHALLENGE_AUDIENCE,
+      });
+    } catch {
+      throw new UnauthorizedException('Login challenge is invalid or has expired');
+    }
+    if (payload.typ !== '2fa_login' || !payload.sub) {
+      throw new UnauthorizedException('Login challenge is invalid or has expired');
+    }
+
+    await this.verifySecondFactor(payload.sub, code);
+    return payload.sub;
+  }
+
+  /**
+   * Confirm the second factor for the current device session
+   */
+  async stepUp(userId: string, sessionId: string, code: string) {
+    await this.verifySecondFactor(userId, code);
+
+    return this.recordStepUp(userId, sessionId);
+  }
+
+  /**
+   * Start the step-up window on a device session. Callers confirm the
+   * second factor, or re-authentication for accounts without one, first.
+   */
+  async recordStepUp(userId: string, sessionId: string) {
+    const stepUpAt = new Date();
+    await this.prisma.authSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { stepUpAt },
+    });
+
+    return { validUntil: new Date(stepUpAt.getTime() + STEP_UP_WINDOW_MS) };
+  }
+
+  async hasFreshStepUp(userId: string, sessionId: string): Promise<boolean> {
+    const session = await this.prisma.authSession.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, stepUpAt: true },
+    });
+
+    return !!session?.stepUpAt &&
+      session.userId === userId &&
+      session.stepUpAt.getTime() > Date.now() - STEP_UP_WINDOW_MS;
+  }
+
+  /**
+   * Accept a current TOTP code or an unused recovery code. Repeated failures
+   * lock the second factor for a while.
+   */
+  async verifySecondFactor(userId: string, code: string): Promise<'totp' | 'recovery'> {
+    const record = await this.prisma.twoFactorAuth.findUnique({ where: { userId } });
+    if (!record?.enabledAt) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (record.lockedUntil && record.lockedUntil > new Date()) {
+      throw new ForbiddenException('Too many invalid codes, try again later');
+    }
+
+    const normalized = (code || '').replace(/[\s-]/g, '').toUpperCase();
+    let method: 'totp' | 'recovery' | null = null;
+
+    if (/^\d{6}$/.test(normalized)) {
+      if (await this.consumeTotp(record, normalized)) {
+        method = 'totp';
+      }
+    } else if (normalized.length === 10) {
+      const used = await this.prisma.twoFactorRecoveryCode.updateMany({
+        where: { userId, codeHash: this.hashRecoveryCode(normalized), usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      if (used.count > 0) {
+        method = 'recovery';
+      }
+    }
+
+    if (!method) {
+      const failedAttempts = record.failedAttempts + 1;
+      await this.prisma.twoFactorAuth.update({
+        where: { userId },
+        data: {
+          failedAttempts: failedAttempts >= MAX_FAILED_ATTEMPTS ? 0 : failedAttempts,
+          ...(failedAttempts >= MAX_FAILED_ATTEMPTS && { lockedUntil: new Date(Date.now() + LOCKOUT_MS) }),
+        },
+      });
+      this.logger.warn(`Invalid second factor for ${userId} (${failedAttempts} in a row)`);
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    if (record.failedAttempts > 0 || record.lockedUntil) {
+      await this.prisma.twoFactorAuth.update({
+        where: { userId },
+        data: { failedAttempts: 0, lockedUntil: null },
+      });
+    }
+
+    return method;
+  }
+
+  /**
+   * Check a TOTP code and record its time step, so the same code cannot be
+   * used twice
+   */
+  private async consumeTotp(record: { userId: string; secret: string }, code: string): Promise<boolean> {
+    const delta = this.totp.checkDelta(code, this.decryptSecret(record.secret));
+    if (delta === null) {
+      return false;
+    }
+
+    const step = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS) + delta;
+    const accepted = await this.prisma.twoFactorAuth.updateMany({
+      where: {
+        userId: record.userId,
+        OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+      },
+      data: { lastUsedStep: step },
+    });
+
+    return accepted.count > 0;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const chars = Array.from(crypto.randomBytes(10), (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+      return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+    });
+  }
+
+  private async replaceRecoveryCodes(tx: any, userId: string, recoveryCodes: string[]) {
+    await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+    await tx.twoFactorRecoveryCode.createMany({
+      data: recoveryCodes.map((code) => ({
+        userId,
+        codeHash: this.hashRecoveryCode(code.replace('-', '')),
+      })),
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex');
+  }
+
+  private encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join('.');
+  }
+
+  private decryptSecret(stored: string): string {
+    const [iv, tag, ciphertext] = stored.split('.').map((part) => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.getEncryptionKey(), iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+
+  private getChallengeSecret(): string {
+    const secret = this.configService.get<string>('JWT_2FA_SECRET');
+    if (!secret) {
+      throw new Error('JWT_2FA_SECRET is not set');
+    }
+    return secret;
+  }
+
+  private getEncryptionKey(): Buffer {
+    const key = this.configService.get<string>('TWO_FACTOR_ENCRYPTION_KEY');
+    if (!key) {
+      throw new Error('TWO_FACTOR_ENCRYPTION_KEY is not set');
+    }
+    return crypto.createHash('sha256').update(key).digest();
+  }
+
+  private async audit(tx: any, userId: string, action: string, context: { ipAddress?: string; userAgent?: string }) {
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action,
+        resource: 'user',
+        resourceId: userId,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+}
@@ -0,0 +1,149 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as nacl from 'tweetnacl';
+import * as bs58 from 'bs58';
+import { WalletAuthService } from './wallet-auth.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { UsersService } from '../users/users.service';
+
+describe('WalletAuthService', () => {
+  let service: WalletAuthService;
+  let prismaService: any;
+  let usersService: any;
+
+  const keypair = nacl.sign.keyPair();
+  const publicKey = bs58.encode(keypair.publicKey);
+  const sign = (message: string) => bs58.encode(nacl.sign.detached(new TextEncoder().encode(message), keypair.secretKey));
+
+  let challenge: any;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WalletAuthService,
+        {
+          provide: PrismaService,
+          useValue: {
+            walletLoginChallenge: {
+              count: jest.fn().mockResolvedValue(0),
+              create: jest.fn(),
+              findUnique: jest.fn(),
+              update: jest.fn(),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 })
+            },
+            user: { findUnique: jest.fn().mockResolvedValue(null), update: jest.fn() },
+            walletAudit: { create: jest.fn() }
+          }
+        },
+        {
+          provide: UsersService,
+          useValue: {
+            create: jest.fn().mockResolvedValue({ id: 'user-new', isActive: true }),
+            findById: jest.fn().mockResolvedValue({ id: 'user-1', isActive: true }),
+            findByUsername: jest.fn().mockResolvedValue(null)
+          }
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, fallback?: string) =>
+              key === 'FRONTEND_URL' ? 'https://app.omnifit.com' : fallback)
+          }
+        }
+      ]
+    }).compile();
+
+    service = module.get<WalletAuthService>(WalletAuthService);
+    prismaService = module.get(PrismaService);
+    usersService = module.get(UsersService);
+
+    const { nonce } = await service.createChallenge(publicKey, { ipAddress: '10.0.0.1' });
+    challenge = { id: 'challenge-1', ...prismaService.walletLoginChallenge.create.mock.calls[0][0].data, nonce };
+    prismaService.walletLoginChallenge.findUnique.mockResolvedValue(challenge);
+  });
+
+  it('should bind the sign-in message to the frontend domain', () => {
+    expect(challenge.message).toMatch(/^app\.omnifit\.com wants you to sign in with your Solana account:\n/);
+    expect(challenge.message).toContain(`Nonce: ${challenge.nonce}`);
+    expect(challenge.message).toContain('Chain ID: devnet');
+  });
+
+  it('should sign in the account that uses the wallet and audit it', async () => {
+    prismaService.user.findUnique.mockResolvedValue({ id: 'user-1' });
+
+    const result = await service.verifyLogin({ publicKey, nonce: challenge.nonce, signature: sign(challenge.message) });
+
+    expect(result).toEqual({ user: { id: 'user-1', isActive: true }, created: false });
+    expect(prismaService.walletLoginChallenge.updateMany).toHaveBeenCalledWith({
+      where: { id: 'challenge-1', status: 'PENDING', expiresAt: { gt: expect.any(Date) } },
+      data: expect.objectContaining({ status: 'VERIFIED' })
+    });
+    expect(prismaService.walletAudit.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-1', action: 'wallet_login', publicKey })
+    });
+  });
+
+  it('should create an account without email or password for a new wallet', async () => {
+    const result = await service.verifyLogin({ publicKey, nonce: challenge.nonce, signature: sign(challenge.message) });
+
+    expect(result.created).toBe(true);
+    expect(usersService.create).toHaveBeenCalledWith({
+      username: `sol_${publicKey.slice(0, 8).toLowerCase()}`,
+      walletAddress: publicKey,
+      walletConnectedAt: expect.any(Date),
+      walletLastVerified: expect.any(Date)
+    });
+    expect(prismaService.walletAudit.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-new', action: 'wallet_signup' })
+    });
+  });
+
+  it('should not sign in twice with the same challenge', async () => {
+    prismaService.walletLoginChallenge.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      service.verifyLogin({ publicKey, nonce: challenge.nonce, signature: sign(challenge.message) })
+    ).rejects.toThrow(UnauthorizedException);
+    expect(usersService.create).not.toHaveBeenCalled();
+    expect(prismaService.walletAudit.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'login_failed', metadata: expect.objectContaining({ reason: 'challenge_used_or_expired' }) })
+    });
+  });
+
+  it('should reject a signature over a different message', async () => {
+    await expect(
+      service.verifyLogin({ publicKey, nonce: challenge.nonce, signature: sign('some other message') })
+    ).rejects.toThrow('Invalid wallet signature');
+    expect(prismaService.walletLoginChallenge.updateMany).toHaveBeenCalledWith({
+      where: { id: 'challenge-1', status: 'PENDING' },
+      data: { status: 'REJECTED', signature: expect.any(String) }
+    });
+  });
+
+  it('should re-authenticate an account with its own wallet', async () => {
+    await service.verifyReauthentication('user-1', publicKey, {
+      publicKey,
+      nonce: challenge.nonce,
+      signature: sign(challenge.message)
+    });
+
+    expect(prismaService.walletLoginChallenge.updateMany).toHaveBeenCalledWith({
+      where: { id: 'challenge-1', status: 'PENDING', expiresAt: { gt: expect.any(Date) } },
+      data: expect.objectContaining({ status: 'VERIFIED' })
+    });
+    expect(prismaService.walletAudit.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-1', action: 'wallet_reauth', publicKey })
+    });
+  });
+
+  it('should not re-authenticate with a wallet the account does not use', async () => {
+    const signed = { publicKey, nonce: challenge.nonce, signature: sign(challenge.message) };
+
+    await expect(service.verifyReauthentication('user-1', 'another-wallet', signed)).rejects.toThrow(
+      UnauthorizedException
+    );
+    await expect(service.verifyReauthentication('user-1', null, signed)).rejects.toThrow(UnauthorizedException);
+    expect(prismaService.walletLoginChallenge.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,234 @@
+import { Injectable, Logger, BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PublicKey } from '@solana/web3.js';
+import * as crypto from 'crypto';
+import { SignatureVerifier } from '@omnifit/shared';
+import { PrismaService } from '../prisma/prisma.service';
+import { UsersService } from '../users/users.service';
+import { SessionContext } from './sessions.service';
+
+const CHALLENGE_TTL_MS = 15 * 60 * 1000;
+const MAX_PENDING_CHALLENGES = 5;
+
+export interface WalletLoginRequest {
+  publicKey: string;
+  nonce: string;
+  signature: string;
+}
+
+/**
+ * Sign-in with Solana. The server writes a domain-bound message with a
+ * fresh nonce; the wallet's signature over it stands in for a password.
+ * A challenge expires after 15 minutes and signs in once. A wallet no
+ * account uses yet gets a new account without an email or password.
+ */
+@Injectable()
+export class WalletAuthService {
+  private readonly logger = new Logger(WalletAuthService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly usersService: UsersService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async createChallenge(publicKey: string, context: SessionContext = {}) {
+    if (!this.isValidPublicKey(publicKey)) {
+      throw new BadRequestException('Invalid Solana wallet public key format');
+    }
+
+    const pending = await this.prisma.walletLoginChallenge.count({
+      where: { publicKey, status: 'PENDING', expiresAt: { gt: new Date() } },
+    });
+    if (pending >= MAX_PENDING_CHALLENGES) {
+      throw new BadRequestException('Too many sign-in requests for this wallet, try again later');
+    }
+
+    const frontendUrl = new URL(this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000');
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + CHALLENGE_TTL_MS);
+
+    const message = SignatureVerifier.createSignInMessage({
+      domain: frontendUrl.host,
+      uri: frontendUrl.origin,
+      publicKey,
+      chainId: this.configService.get<string>('SOLANA_CLUSTER', 'devnet'),
+      nonce,
+      issuedAt,
+      expiresAt,
+    });
+
+    await this.prisma.walletLoginChallenge.create({
+      data: {
+        publicKey,
+        nonce,
+        message,
+        expiresAt,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+
+    return { nonce, message, expiresAt };
+  }
+
+  /**
+   * Check a signed challenge and return the account it signs in, creating
+   * one for a new wallet. Every attempt is written to the wallet audit.
+   */
+  async verifyLogin(request: WalletLoginRequest, context: SessionContext = {}) {
+    const { publicKey, nonce } = request;
+
+    const existing = await this.prisma.user.findUnique({
+      where: { walletAddress: publicKey },
+      select: { id: true },
+    });
+
+    const challenge = await this.consumeChallenge(request, existing?.id ?? null, 'login_failed', context);
+
+    const { user, created } = existing
+      ? { user: await this.usersService.findById(existing.id), created: false }
+      : await this.createWalletAccount(publicKey);
+
+    if (!user || !user.isActive) {
+      await this.audit(existing?.id ?? null, 'login_failed', publicKey, { reason: 'account_disabled', nonce }, context);
+      throw new UnauthorizedException('Account is disabled');
+    }
+
+    await Promise.all([
+      this.prisma.walletLoginChallenge.update({
+        where: { id: challenge.id },
+        data: { userId: user.id },
+      }),
+      this.prisma.user.update({
+        where: { id: user.id },
+        data: { walletLastVerified: new Date() },
+      }),
+      this.audit(user.id, created ? 'wallet_signup' : 'wallet_login', publicKey, { challengeId: challenge.id }, context),
+    ]);
+
+    return { user, created };
+  }
+
+  /**
+   * Re-authenticate an account with its wallet, for accounts without a
+   * password. The signed challenge must come from the account's wallet.
+   */
+  async verifyReauthentication(
+    userId: string,
+    walletAddress: string | null,
+    request: WalletLoginRequest,
+    context: SessionContext = {},
+  ) {
+    if (!walletAddress || request.publicKey !== walletAddress) {
+      throw new UnauthorizedException('Sign with the wallet connected to your account');
+    }
+
+    const challenge = await this.consumeChallenge(request, userId, 'reauth_failed', context);
+
+    await Promise.all([
+      this.prisma.walletLoginChallenge.update({
+        where: { id: challenge.id },
+        data: { userId },
+      }),
+      this.audit(userId, 'wallet_reauth', request.publicKey, { challengeId: challenge.id }, context),
+    ]);
+  }
+
+  /**
+   * Check the signature over a challenge and mark it used. Failed attempts
+   * are written to the wallet audit under `failedAction`.
+   */
+  private async consumeChallenge(
+    request: WalletLoginRequest,
+    userId: string | null,
+    failedAction: string,
+    context: SessionContext,
+  ) {
+    const { publicKey, nonce, signature } = request;
+
+    const challenge = await this.prisma.walletLoginChallenge.findUnique({ where: { nonce } });
+    if (!challenge || challenge.publicKey !== publicKey) {
+      throw new UnauthorizedException('Invalid or expired sign-in challenge');
+    }
+
+    const verification = SignatureVerifier.verifySignature(challenge.message, signature, publicKey);
+    if (!verification.isValid) {
+      await this.prisma.walletLoginChallenge.updateMany({
+        where: { id: challenge.id, status: 'PENDING' },
+        data: { status: 'REJECTED', signature },
+      });
+      await this.audit(userId, failedAction, publicKey, { reason: 'invalid_signature', nonce }, context);
+      throw new UnauthorizedException('Invalid wallet signature');
+    }
+
+    // One use per challenge, and only before it expires
+    const used = await this.prisma.walletLoginChallenge.updateMany({
+      where: { id: challenge.id, status: 'PENDING', expiresAt: { gt: new Date() } },
+      data: { status: 'VERIFIED', signature, verifiedAt: new Date() },
+    });
+    if (used.count === 0) {
+      await this.audit(userId, failedAction, publicKey, { reason: 'challenge_used_or_expired', nonce }, context);
+      throw new UnauthorizedException('Invalid or expired sign-in challenge');
+    }
+
+    return challenge;
+  }
+
+  private async createWalletAccount(publicKey: string) {
+    try {
+      const user = await this.usersService.create({
+        username: await this.generateUsername(publicKey),
+        walletAddress: publicKey,
+        walletConnectedAt: new Date(),
+        walletLastVerified: new Date(),
+      });
+
+      this.logger.log(`Created account ${user.id} for wallet ${publicKey}`);
+      return { user, created: true };
+    } catch (error) {
+      // A concurrent sign-in with the same wallet created it first
+      if (error?.code === 'P2002') {
+        const user = await this.prisma.user.findUnique({ where: { walletAddress: publicKey } });
+        return { user, created: false };
+      }
+      throw error;
+    }
+  }
+
+  private async generateUsername(publicKey: string): Promise<string> {
+    const base = `sol_${publicKey.slice(0, 8).toLowerCase()}`;
+    if (!(await this.usersService.findByUsername(base))) {
+      return base;
+    }
+    return `${base}_${crypto.randomBytes(3).toString('hex')}`;
+  }
+
+  private isValidPublicKey(publicKey: string): boolean {
+    try {
+      return !!publicKey && PublicKey.isOnCurve(new PublicKey(publicKey).toBytes());
+    } catch {
+      return false;
+    }
+  }
+
+  private async audit(
+    userId: string | null,
+    action: string,
+    publicKey: string,
+    metadata: Record<string, any>,
+    context: SessionContext,
+  ) {
+    await this.prisma.walletAudit.create({
+      data: {
+        userId,
+        action,
+        publicKey,
+        metadata,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+}
@@ -0,0 +1,330 @@
+import { IsOptional, IsString, IsArray, IsEnum, IsNumber, IsInt, IsDateString, Min, Max, MinLength, MaxLength, ValidateNested } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+const EVENT_TYPES = ['WORKOUT', 'MEDITATION', 'PRAYER', 'STUDY', 'SERVICE', 'OTHER'];
+const EVENT_CATEGORIES = ['FITNESS', 'SPIRITUAL', 'HYBRID'];
+const MOOD_LEVELS = ['VERY_LOW', 'LOW', 'NEUTRAL', 'GOOD', 'VERY_GOOD'];
+const ENERGY_LEVELS = ['VERY_LOW', 'LOW', 'MODERATE', 'HIGH', 'VERY_HIGH'];
+
+// Exercise DTOs
+export class CreateExerciseDto {
+  @ApiProperty()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  sets?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  reps?: number;
+
+  @ApiPropertyOptional({ description: 'Weight in kg' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  weight?: number;
+
+  @ApiPropertyOptional({ description: 'Distance in meters' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  distance?: number;
+
+  @ApiPropertyOptional({ description: 'Duration in seconds' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  duration?: number;
+}
+
+export class UpdateExerciseDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  sets?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  reps?: number;
+
+  @ApiPropertyOptional({ description: 'Weight in kg' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  weight?: number;
+
+  @ApiPropertyOptional({ description: 'Distance in meters' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  distance?: number;
+
+  @ApiPropertyOptional({ description: 'Duration in seconds' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  duration?: number;
+}
+
+// Event DTOs
+export class CreateEventDto {
+  @ApiProperty({ enum: EVENT_TYPES })
+  @IsEnum(EVENT_TYPES)
+  type: string;
+
+  @ApiProperty({ enum: EVENT_CATEGORIES })
+  @IsEnum(EVENT_CATEGORIES)
+  category: string;
+
+  @ApiProperty()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  title: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @ApiProperty({ description: 'Duration in minutes' })
+  @IsInt()
+  @Min(1)
+  @Max(480)
+  duration: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  intensity?: number;
+
+  @ApiPropertyOptional({ enum: MOOD_LEVELS })
+  @IsOptional()
+  @IsEnum(MOOD_LEVELS)
+  mood?: string;
+
+  @ApiPropertyOptional({ enum: ENERGY_LEVELS })
+  @IsOptional()
+  @IsEnum(ENERGY_LEVELS)
+  energy?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  location?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[] = [];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  completedAt?: string;
+
+  // Fitness specific
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  caloriesBurned?: number;
+
+  @ApiPropertyOptional({ type: [CreateExerciseDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CreateExerciseDto)
+  exercises?: CreateExerciseDto[] = [];
+
+  // Spiritual specific
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  technique?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reflection?: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  gratitude?: string[] = [];
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  insights?: string[] = [];
+}
+
+// completedAt is fixed once logged, matching UpdateEventSchema in @omnifit/shared.
+// Exercises are edited through the exercise sub-resource.
+export class UpdateEventDto {
+  @ApiPropertyOptional({ enum: EVENT_TYPES })
+  @IsOptional()
+  @IsEnum(EVENT_TYPES)
+  type?: string;
+
+  @ApiPropertyOptional({ enum: EVENT_CATEGORIES })
+  @IsOptional()
+  @IsEnum(EVENT_CATEGORIES)
+  category?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  title?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Duration in minutes' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(480)
+  duration?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  intensity?: number;
+
+  @ApiPropertyOptional({ enum: MOOD_LEVELS })
+  @IsOptional()
+  @IsEnum(MOOD_LEVELS)
+  mood?: string;
+
+  @ApiPropertyOptional({ enum: ENERGY_LEVELS })
+  @IsOptional()
+  @IsEnum(ENERGY_LEVELS)
+  energy?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  location?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  caloriesBurned?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  technique?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reflection?: string;
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  gratitude?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  insights?: string[];
+}
+
+export class ListEventsQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ enum: EVENT_TYPES })
+  @IsOptional()
+  @IsEnum(EVENT_TYPES)
+  type?: string;
+
+  @ApiPropertyOptional({ enum: EVENT_CATEGORIES })
+  @IsOptional()
+  @IsEnum(EVENT_CATEGORIES)
+  category?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
@@ -0,0 +1,131 @@
+import { Body, Controller, Get, Post, Patch, Delete, Param, Query, UseGuards, Req } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { EventsService } from './events.service';
+import { CreateEventDto, UpdateEventDto, CreateExerciseDto, UpdateExerciseDto, ListEventsQueryDto } from './dto';
+
+// EventApprovalsController shares the /events prefix; constraining the id to a
+// UUID keeps routes like GET /events/pending-approvals from matching here.
+const EVENT_ID = ':id([0-9a-fA-F-]{36})';
+
+@ApiTags('Events')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('events')
+export class EventsController {
+  constructor(private readonly eventsService: EventsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Log a new activity event' })
+  @ApiResponse({ status: 201, description: 'Event logged and queued for rewards and review' })
+  async createEvent(@Body() createEventDto: CreateEventDto, @Req() req: any) {
+    const event = await this.eventsService.createEvent(req.user.id, createEventDto);
+
+    return {
+      success: true,
+      data: event,
+      message: 'Event logged successfully'
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List current user\'s events' })
+  @ApiResponse({ status: 200, description: 'Paginated list of events' })
+  async getEvents(@Query() query: ListEventsQueryDto, @Req() req: any) {
+    return this.eventsService.getUserEvents(req.user.id, query);
+  }
+
+  @Get('streaks')
+  @ApiOperation({ summary: 'Get current user\'s daily, weekly and monthly streaks' })
+  @ApiResponse({ status: 200, description: 'Streaks per category' })
+  async getStreaks(@Req() req: any) {
+    return this.eventsService.getStreaks(req.user.id);
+  }
+
+  @Get(EVENT_ID)
+  @ApiOperation({ summary: 'Get a single event with exercises and rewards' })
+  @ApiResponse({ status: 200, description: 'Event details' })
+  @ApiResponse({ status: 404, description: 'Event not found' })
+  async getEvent(@Param('id') id: string, @Req() req: any) {
+    return this.eventsService.getEvent(id, req.user.id);
+  }
+
+  @Patch(EVENT_ID)
+  @ApiOperation({ summary: 'Update an event and recompute its rewards if needed' })
+  @ApiResponse({ status: 200, description: 'Event updated' })
+  @ApiResponse({ status: 409, description: 'Event rewards changed while being reversed, retry' })
+  async updateEvent(
+    @Param('id') id: string,
+    @Body() updateEventDto: UpdateEventDto,
+    @Req() req: any
+  ) {
+    const event = await this.eventsService.updateEvent(id, req.user.id, updateEventDto, {
+      ipAddress: req.ip || req.connection.remoteAddress,
+      userAgent: req.get('user-agent')
+    });
+
+    return {
+      success: true,
+      data: event,
+      message: 'Event updated successfully'
+    };
+  }
+
+  @Delete(EVENT_ID)
+  @ApiOperation({ summary: 'Delete an event and reverse its rewards; minted tokens become debt' })
+  @ApiResponse({ status: 200, description: 'Event deleted' })
+  @ApiResponse({ status: 409, description: 'Event rewards changed while being reversed, retry' })
+  async deleteEvent(@Param('id') id: string, @Req() req: any) {
+    const result = await this.eventsService.deleteEvent(id, req.user.id, {
+      ipAddress: req.ip || req.connection.remoteAddress,
+      userAgent: req.get('user-agent')
+    });
+
+    return {
+      success: true,
+      data: result,
+      message: 'Event deleted successfully'
+    };
+  }
+
+  @Get(`${EVENT_ID}/exercises`)
+  @ApiOperation({ summary: 'List exercises for an event' })
+  @ApiResponse({ status: 200, description: 'List of exercises' })
+  async getExercises(@Param('id') id: string, @Req() req: any) {
+    return this.eventsService.getExercises(id, req.user.id);
+  }
+
+  @Post(`${EVENT_ID}/exercises`)
+  @ApiOperation({ summary: 'Add an exercise to an event' })
+  @ApiResponse({ status: 201, description: 'Exercise added' })
+  async addExercise(
+    @Param('id') id: string,
+    @Body() createExerciseDto: CreateExerciseDto,
+    @Req() req: any
+  ) {
+    return this.eventsService.addExercise(id, req.user.id, createExerciseDto);
+  }
+
+  @Patch(`${EVENT_ID}/exercises/:exerciseId`)
+  @ApiOperation({ summary: 'Update an exercise' })
+  @ApiResponse({ status: 200, description: 'Exercise updated' })
+  async updateExercise(
+    @Param('id') id: string,
+    @Param('exerciseId') exerciseId: string,
+    @Body() updateExerciseDto: UpdateExerciseDto,
+    @Req() req: any
+  ) {
+    return this.eventsService.updateExercise(id, exerciseId, req.user.id, updateExerciseDto);
+  }
+
+  @Delete(`${EVENT_ID}/exercises/:exerciseId`)
+  @ApiOperation({ summary: 'Remove an exercise from an event' })
+  @ApiResponse({ status: 200, description: 'Exercise removed' })
+  async removeExercise(
+    @Param('id') id: string,
+    @Param('exerciseId') exerciseId: string,
+    @Req() req: any
+  ) {
+    return this.eventsService.removeExercise(id, exerciseId, req.user.id);
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { RewardsModule } from '../rewards/rewards.module';
+import { PartnershipsModule } from '../partnerships/partnerships.module';
+import { StreaksModule } from '../streaks/streaks.module';
+import { ReviewWorkerService } from '../workers/reviewWorker';
+import { EventsController } from './events.controller';
+import { EventsService } from './events.service';
+
+@Module({
+  imports: [PrismaModule, RewardsModule, PartnershipsModule, StreaksModule],
+  controllers: [EventsController],
+  providers: [EventsService, ReviewWorkerService],
+  exports: [EventsService]
+})
+export class EventsModule {}
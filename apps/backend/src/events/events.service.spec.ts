@@ -0,0 +1,196 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { EventsService } from './events.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RewardQueueService } from '../rewards/reward-queue.service';
+import { RewardClawbackService } from '../rewards/reward-clawback.service';
+import { EventApprovalsService } from '../partnerships/event-approvals.service';
+import { ReviewWorkerService } from '../workers/reviewWorker';
+import { StreaksService } from '../streaks/streaks.service';
+
+describe('EventsService', () => {
+  let service: EventsService;
+  let prismaService: any;
+  let rewardQueue: any;
+  let rewardClawbackService: any;
+  let streaksService: any;
+
+  const event = {
+    id: 'event-1',
+    userId: 'user-1',
+    type: 'WORKOUT',
+    category: 'FITNESS',
+    title: 'Morning run',
+    duration: 30,
+    intensity: 6,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EventsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            event: {
+              create: jest.fn().mockImplementation(({ data }) => ({ id: 'event-1', ...data, exercises: [] })),
+              findUnique: jest.fn().mockResolvedValue(event),
+              update: jest.fn().mockImplementation(({ data }) => ({ ...event, ...data, exercises: [] })),
+              delete: jest.fn(),
+            },
+            exercise: { findFirst: jest.fn(), update: jest.fn(), delete: jest.fn() },
+            rewardJob: { findFirst: jest.fn().mockResolvedValue(null) },
+          },
+        },
+        { provide: RewardQueueService, useValue: { queueEventReward: jest.fn().mockResolvedValue('job-1') } },
+        {
+          provide: RewardClawbackService,
+          useValue: {
+            reverseEventRewards: jest.fn().mockResolvedValue({ reversed: 2, tokens: 60, debt: 40, mintRequests: [] }),
+          },
+        },
+        { provide: EventApprovalsService, useValue: { createEventApprovalRequest: jest.fn().mockResolvedValue(null) } },
+        { provide: ReviewWorkerService, useValue: { processEventReview: jest.fn().mockResolvedValue(undefined) } },
+        { provide: StreaksService, useValue: { updateUserStreaks: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<EventsService>(EventsService);
+    prismaService = module.get(PrismaService);
+    rewardQueue = module.get(RewardQueueService);
+    rewardClawbackService = module.get(RewardClawbackService);
+    streaksService = module.get(StreaksService);
+  });
+
+  describe('createEvent', () => {
+    it('should save the event for the user and queue its reward', async () => {
+      const result = await service.createEvent('user-1', {
+        type: 'WORKOUT',
+        category: 'FITNESS',
+        title: 'Morning run',
+        duration: 30,
+        tags: ['outdoor'],
+        exercises: [{ name: 'Sprints', sets: 4 }],
+      });
+
+      expect(prismaService.event.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-1',
+          type: 'WORKOUT',
+          category: 'FITNESS',
+          title: 'Morning run',
+          duration: 30,
+          tags: ['outdoor'],
+          completedAt: expect.any(Date),
+          exercises: { create: [{ name: 'Sprints', sets: 4 }] },
+        }),
+        include: { exercises: true },
+      });
+      expect(rewardQueue.queueEventReward).toHaveBeenCalledWith('user-1', 'event-1');
+      expect(streaksService.updateUserStreaks).toHaveBeenCalledWith('user-1');
+      expect(result).toEqual(expect.objectContaining({ id: 'event-1', rewardJobId: 'job-1', approvalRequested: false }));
+    });
+
+    it('should keep the event when the reward cannot be queued', async () => {
+      rewardQueue.queueEventReward.mockRejectedValue(new Error('redis down'));
+
+      const result = await service.createEvent('user-1', {
+        type: 'MEDITATION',
+        category: 'SPIRITUAL',
+        title: 'Evening sit',
+        duration: 15,
+      });
+
+      expect(result.rewardJobId).toBeNull();
+    });
+  });
+
+  describe('updateEvent', () => {
+    it('should reverse and re-queue rewards when a priced field changes', async () => {
+      const result = await service.updateEvent('event-1', 'user-1', { duration: 45 }, { ipAddress: '10.0.0.1' });
+
+      expect(prismaService.event.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: expect.objectContaining({ duration: 45 }),
+        include: { exercises: true },
+      });
+      expect(rewardClawbackService.reverseEventRewards).toHaveBeenCalledWith('event-1', 'event_updated', {
+        triggeredBy: 'user-1',
+        ipAddress: '10.0.0.1',
+        userAgent: undefined,
+      });
+      expect(rewardQueue.queueEventReward).toHaveBeenCalledWith('user-1', 'event-1');
+      expect(result.rewardsRecomputed).toBe(true);
+    });
+
+    it('should leave rewards alone when only unpriced fields change', async () => {
+      const result = await service.updateEvent('event-1', 'user-1', { title: 'Long run', duration: 30 });
+
+      expect(rewardClawbackService.reverseEventRewards).not.toHaveBeenCalled();
+      expect(result.rewardsRecomputed).toBe(false);
+    });
+
+    it('should let a reward job that has not run yet read the new values', async () => {
+      prismaService.rewardJob.findFirst.mockResolvedValue({ id: 'job-1', status: 'PENDING' });
+
+      const result = await service.updateEvent('event-1', 'user-1', { intensity: 9 });
+
+      expect(rewardClawbackService.reverseEventRewards).not.toHaveBeenCalled();
+      expect(rewardQueue.queueEventReward).not.toHaveBeenCalled();
+      expect(result.rewardsRecomputed).toBe(false);
+    });
+
+    it('should recompute even while a reward job is processing', async () => {
+      const result = await service.updateEvent('event-1', 'user-1', { intensity: 9 });
+
+      expect(prismaService.rewardJob.findFirst).toHaveBeenCalledWith({
+        where: { eventId: 'event-1', status: { in: ['PENDING', 'DEFERRED'] } },
+      });
+      expect(rewardClawbackService.reverseEventRewards).toHaveBeenCalled();
+      expect(rewardQueue.queueEventReward).toHaveBeenCalledWith('user-1', 'event-1');
+      expect(result.rewardsRecomputed).toBe(true);
+    });
+  });
+
+  describe('deleteEvent', () => {
+    it('should reverse the rewards through the clawback before deleting', async () => {
+      const result = await service.deleteEvent('event-1', 'user-1');
+
+      expect(rewardClawbackService.reverseEventRewards).toHaveBeenCalledWith('event-1', 'event_deleted', {
+        triggeredBy: 'user-1',
+        ipAddress: undefined,
+        userAgent: undefined,
+      });
+      expect(prismaService.event.delete).toHaveBeenCalledWith({ where: { id: 'event-1' } });
+      expect(result).toEqual({ eventId: 'event-1', rewardsReversed: 2, tokensReversed: 60, debtRecorded: 40 });
+    });
+
+    it('should keep the event when the reversal fails', async () => {
+      rewardClawbackService.reverseEventRewards.mockRejectedValue(new Error('Rewards changed while being reversed'));
+
+      await expect(service.deleteEvent('event-1', 'user-1')).rejects.toThrow('Rewards changed while being reversed');
+      expect(prismaService.event.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ownership', () => {
+    it('should refuse changes to another user\'s event', async () => {
+      await expect(service.updateEvent('event-1', 'user-2', { duration: 45 })).rejects.toThrow(ForbiddenException);
+      await expect(service.deleteEvent('event-1', 'user-2')).rejects.toThrow(ForbiddenException);
+      await expect(service.getEvent('event-1', 'user-2')).rejects.toThrow(ForbiddenException);
+
+      expect(prismaService.event.update).not.toHaveBeenCalled();
+      expect(rewardClawbackService.reverseEventRewards).not.toHaveBeenCalled();
+      expect(prismaService.event.delete).not.toHaveBeenCalled();
+    });
+
+    it('should report missing events and exercises', async () => {
+      prismaService.event.findUnique.mockResolvedValueOnce(null);
+      await expect(service.deleteEvent('missing', 'user-1')).rejects.toThrow(NotFoundException);
+
+      await expect(service.removeExercise('event-1', 'exercise-9', 'user-1')).rejects.toThrow('Exercise not found');
+      expect(prismaService.exercise.findFirst).toHaveBeenCalledWith({ where: { id: 'exercise-9', eventId: 'event-1' } });
+      expect(prismaService.exercise.delete).not.toHaveBeenCalled();
+    });
+  });
+});
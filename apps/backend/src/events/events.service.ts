@@ -0,0 +1,353 @@
+import { Injectable, Logger, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { EventType, EventCategory, MoodLevel, EnergyLevel, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RewardQueueService, EDITED_EVENT_REVERSAL } from '../rewards/reward-queue.service';
+import { RewardClawbackService, ReversalContext } from '../rewards/reward-clawback.service';
+import { EventApprovalsService } from '../partnerships/event-approvals.service';
+import { ReviewWorkerService } from '../workers/reviewWorker';
+import { StreaksService } from '../streaks/streaks.service';
+import { CreateEventDto, UpdateEventDto, CreateExerciseDto, UpdateExerciseDto, ListEventsQueryDto } from './dto';
+
+// Fields the reward engine reads when pricing an event
+const REWARD_FIELDS = ['type', 'category', 'duration', 'intensity'] as const;
+
+interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+@Injectable()
+export class EventsService {
+  private readonly logger = new Logger(EventsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly rewardQueue: RewardQueueService,
+    private readonly rewardClawbackService: RewardClawbackService,
+    private readonly eventApprovalsService: EventApprovalsService,
+    private readonly reviewWorker: ReviewWorkerService,
+    private readonly streaksService: StreaksService,
+  ) {}
+
+  /**
+   * Log a new event and start the reward, partner approval and AI review flow
+   */
+  async createEvent(userId: string, dto: CreateEventDto) {
+    const { exercises = [], completedAt } = dto;
+
+    const event = await this.prisma.event.create({
+      data: {
+        ...this.toEventData(dto),
+        type: dto.type as EventType,
+        category: dto.category as EventCategory,
+        title: dto.title,
+        userId,
+        completedAt: completedAt ? new Date(completedAt) : new Date(),
+        exercises: {
+          create: exercises,
+        },
+      },
+      include: { exercises: true },
+    });
+
+    // The event is persisted at this point; downstream failures are logged
+    // so the client never retries and double-logs the same activity.
+    let rewardJobId: string | null = null;
+    try {
+      rewardJobId = await this.rewardQueue.queueEventReward(userId, event.id);
+    } catch (error) {
+      this.logger.error(`Failed to queue reward for event ${event.id}:`, error);
+    }
+
+    let approvalRequested = false;
+    try {
+      const approval = await this.eventApprovalsService.createEventApprovalRequest(event.id, userId);
+      approvalRequested = !!approval;
+    } catch (error) {
+      this.logger.error(`Failed to create approval request for event ${event.id}:`, error);
+    }
+
+    await this.refreshStreaks(userId);
+
+    // AI review calls out to the AI service, so it runs in the background
+    this.reviewWorker.processEventReview(event.id).catch((error) => {
+      this.logger.error(`AI review failed for event ${event.id}:`, error);
+    });
+
+    return {
+      ...event,
+      rewardJobId,
+      approvalRequested,
+    };
+  }
+
+  async getUserEvents(userId: string, query: ListEventsQueryDto) {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.EventWhereInput = { userId };
+    if (query.type) where.type = query.type as EventType;
+    if (query.category) where.category = query.category as EventCategory;
+    if (query.from || query.to) {
+      const completedAt: Prisma.DateTimeFilter = {};
+      if (query.from) completedAt.gte = new Date(query.from);
+      if (query.to) completedAt.lte = new Date(query.to);
+      where.completedAt = completedAt;
+    }
+
+    const [events, total] = await Promise.all([
+      this.prisma.event.findMany({
+        where,
+        include: {
+          exercises: true,
+          eventApproval: {
+            select: { status: true, reviewedAt: true }
+          },
+        },
+        skip,
+        take: limit,
+        orderBy: { completedAt: 'desc' },
+      }),
+      this.prisma.event.count({ where }),
+    ]);
+
+    return {
+      data: events,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getEvent(eventId: string, userId: string) {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      include: {
+        exercises: true,
+        rewards: {
+          select: { id: true, type: true, amount: true, status: true, reason: true, earnedAt: true }
+        },
+        eventApproval: true,
+      },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.userId !== userId) {
+      throw new ForbiddenException('Not authorized to view this event');
+    }
+
+    return event;
+  }
+
+  /**
+   * Update an event; rewards are recomputed when a priced field changes
+   */
+  async updateEvent(eventId: string, userId: string, dto: UpdateEventDto, context: RequestContext = {}) {
+    const existing = await this.findOwnedEvent(eventId, userId);
+
+    const rewardFieldsChanged = REWARD_FIELDS.some(
+      (field) => dto[field] !== undefined && dto[field] !== existing[field]
+    );
+
+    const event = await this.prisma.event.update({
+      where: { id: eventId },
+      data: {
+        ...this.toEventData(dto),
+        type: dto.type as EventType | undefined,
+        category: dto.category as EventCategory | undefined,
+        title: dto.title,
+      },
+      include: { exercises: true },
+    });
+
+    let rewardsRecomputed = false;
+    if (rewardFieldsChanged) {
+      rewardsRecomputed = await this.recomputeEventRewards(eventId, userId, context);
+    }
+
+    if (dto.category !== undefined && dto.category !== existing.category) {
+      await this.refreshStreaks(userId);
+    }
+
+    return {
+      ...event,
+      rewardsRecomputed,
+    };
+  }
+
+  /**
+   * Delete an event and reverse every reward it produced; tokens already
+   * minted for them become debt
+   */
+  async deleteEvent(eventId: string, userId: string, context: RequestContext = {}) {
+    await this.findOwnedEvent(eventId, userId);
+
+    const reversed = await this.rewardClawbackService.reverseEventRewards(
+      eventId,
+      'event_deleted',
+      this.reversalContext(userId, context),
+    );
+
+    // Rewards keep a null eventId after this (onDelete: SetNull), approvals and exercises cascade
+    await this.prisma.event.delete({
+      where: { id: eventId },
+    });
+
+    await this.refreshStreaks(userId);
+
+    return {
+      eventId,
+      rewardsReversed: reversed.reversed,
+      tokensReversed: reversed.tokens,
+      debtRecorded: reversed.debt,
+    };
+  }
+
+  // Exercise sub-resource
+  async getExercises(eventId: string, userId: string) {
+    await this.findOwnedEvent(eventId, userId);
+
+    return this.prisma.exercise.findMany({
+      where: { eventId },
+    });
+  }
+
+  async addExercise(eventId: string, userId: string, dto: CreateExerciseDto) {
+    await this.findOwnedEvent(eventId, userId);
+
+    return this.prisma.exercise.create({
+      data: {
+        ...dto,
+        eventId,
+      },
+    });
+  }
+
+  async updateExercise(eventId: string, exerciseId: string, userId: string, dto: UpdateExerciseDto) {
+    await this.findOwnedExercise(eventId, exerciseId, userId);
+
+    return this.prisma.exercise.update({
+      where: { id: exerciseId },
+      data: dto,
+    });
+  }
+
+  async removeExercise(eventId: string, exerciseId: string, userId: string) {
+    await this.findOwnedExercise(eventId, exerciseId, userId);
+
+    await this.prisma.exercise.delete({
+      where: { id: exerciseId },
+    });
+
+    return { exerciseId };
+  }
+
+  async getStreaks(userId: string) {
+    return this.streaksService.getUserStreaks(userId);
+  }
+
+  private async refreshStreaks(userId: string) {
+    try {
+      await this.streaksService.updateUserStreaks(userId);
+    } catch (error) {
+      this.logger.error(`Failed to update streaks for user ${userId}:`, error);
+    }
+  }
+
+  private async findOwnedEvent(eventId: string, userId: string) {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.userId !== userId) {
+      throw new ForbiddenException('Not authorized to modify this event');
+    }
+
+    return event;
+  }
+
+  private async findOwnedExercise(eventId: string, exerciseId: string, userId: string) {
+    await this.findOwnedEvent(eventId, userId);
+
+    const exercise = await this.prisma.exercise.findFirst({
+      where: { id: exerciseId, eventId },
+    });
+
+    if (!exercise) {
+      throw new NotFoundException('Exercise not found');
+    }
+
+    return exercise;
+  }
+
+  /**
+   * Optional event fields shared by create and update
+   */
+  private toEventData(dto: CreateEventDto | UpdateEventDto) {
+    return {
+      description: dto.description,
+      duration: dto.duration,
+      intensity: dto.intensity,
+      mood: dto.mood as MoodLevel | undefined,
+      energy: dto.energy as EnergyLevel | undefined,
+      location: dto.location,
+      notes: dto.notes,
+      tags: dto.tags,
+      caloriesBurned: dto.caloriesBurned,
+      technique: dto.technique,
+      reflection: dto.reflection,
+      gratitude: dto.gratitude,
+      insights: dto.insights,
+    };
+  }
+
+  private reversalContext(userId: string, context: RequestContext): ReversalContext {
+    return {
+      triggeredBy: userId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    };
+  }
+
+  private async recomputeEventRewards(eventId: string, userId: string, context: RequestContext): Promise<boolean> {
+    // A job that has not started will read the updated event anyway. One
+    // already processing may have read the old values, so reverse and re-queue;
+    // issueReward is idempotent, so a duplicate run cannot pay twice.
+    const pendingJob = await this.prisma.rewardJob.findFirst({
+      where: {
+        eventId,
+        status: { in: ['PENDING', 'DEFERRED'] },
+      },
+    });
+
+    if (pendingJob) {
+      return false;
+    }
+
+    // Reversed with this reason, the payouts are re-issued for the new values
+    await this.rewardClawbackService.reverseEventRewards(
+      eventId,
+      EDITED_EVENT_REVERSAL,
+      this.reversalContext(userId, context),
+    );
+
+    try {
+      await this.rewardQueue.queueEventReward(userId, eventId);
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to re-queue reward for event ${eventId}:`, error);
+      return false;
+    }
+  }
+}
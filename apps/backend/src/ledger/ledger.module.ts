@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { LedgerService } from './ledger.service';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [LedgerService],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
@@ -0,0 +1,83 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LedgerService } from './ledger.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('LedgerService', () => {
+  let service: LedgerService;
+  let tx: any;
+
+  const posting = (entries: any[]) => ({
+    idempotencyKey: 'reward:reward-1:issued:0',
+    kind: 'reward_issued',
+    userId: 'user-a',
+    referenceType: 'reward' as const,
+    referenceId: 'reward-1',
+    entries
+  });
+
+  beforeEach(async () => {
+    tx = {
+      ledgerTransaction: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn()
+      },
+      ledgerEntry: {
+        groupBy: jest.fn().mockResolvedValue([
+          { account: 'EARNED', _sum: { amount: 50 } },
+          { account: 'MINTED', _sum: { amount: 30 } },
+          { account: 'DEBT', _sum: { amount: -10 } }
+        ])
+      },
+      userProfile: { update: jest.fn() }
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LedgerService,
+        { provide: PrismaService, useValue: {} }
+      ]
+    }).compile();
+
+    service = module.get<LedgerService>(LedgerService);
+  });
+
+  it('should post balanced entries and refresh the cached balance', async () => {
+    const posted = await service.post(tx, posting([
+      { account: 'ISSUANCE', amount: -50 },
+      { account: 'EARNED', amount: 50 }
+    ]));
+
+    expect(posted).toBe(true);
+    expect(tx.ledgerTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        idempotencyKey: 'reward:reward-1:issued:0',
+        entries: {
+          create: [
+            { account: 'ISSUANCE', amount: -50, userId: null },
+            { account: 'EARNED', amount: 50, userId: 'user-a' }
+          ]
+        }
+      })
+    });
+    expect(tx.userProfile.update).toHaveBeenCalledWith({
+      where: { userId: 'user-a' },
+      data: { totalTokens: 70 }
+    });
+  });
+
+  it('should reject unbalanced postings and skip keys already posted', async () => {
+    await expect(service.post(tx, posting([
+      { account: 'ISSUANCE', amount: -50 },
+      { account: 'EARNED', amount: 40 }
+    ]))).rejects.toThrow('unbalanced by -10');
+
+    tx.ledgerTransaction.findUnique.mockResolvedValue({ id: 'ltx-1' });
+    const posted = await service.post(tx, posting([
+      { account: 'ISSUANCE', amount: -50 },
+      { account: 'EARNED', amount: 50 }
+    ]));
+
+    expect(posted).toBe(false);
+    expect(tx.ledgerTransaction.create).not.toHaveBeenCalled();
+  });
+});
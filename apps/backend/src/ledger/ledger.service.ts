@@ -0,0 +1,285 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { emptyLedgerBalances, getLedgerHoldings } from '@omnifit/shared';
+import type { LedgerAccount, LedgerBalances, LedgerEntryInput } from '@omnifit/shared';
+
+export interface LedgerPosting {
+  idempotencyKey: string;
+  kind: string;
+  userId: string;
+  referenceType: 'reward' | 'mint_request' | 'transaction' | 'redemption';
+  referenceId: string;
+  description?: string;
+  entries: LedgerEntryInput[];
+}
+
+// Accounts a reversed reward can be taken back from
+export type ReversalLegs = Partial<Record<Extract<LedgerAccount, 'EARNED' | 'PENDING_CLAIM' | 'DEBT'>, number>>;
+
+/**
+ * Append-only double-entry token ledger. Token balances are sums of
+ * ledger entries; UserProfile.totalTokens is a cache refreshed on every
+ * posting. Postings take the caller's transaction client so they commit
+ * or roll back with the change they record.
+ */
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Append a balanced transaction. Returns false when there is nothing to
+   * post or the idempotency key has already been posted.
+   */
+  async post(tx: any, posting: LedgerPosting): Promise<boolean> {
+    const entries = posting.entries.filter((e) => e.amount !== 0);
+    if (entries.length === 0) {
+      return false;
+    }
+
+    if (entries.some((e) => !Number.isInteger(e.amount))) {
+      throw new Error(`Ledger transaction ${posting.idempotencyKey} has non-integer amounts`);
+    }
+
+    const sum = entries.reduce((total, e) => total + e.amount, 0);
+    if (sum !== 0) {
+      throw new Error(`Ledger transaction ${posting.idempotencyKey} is unbalanced by ${sum}`);
+    }
+
+    const existing = await tx.ledgerTransaction.findUnique({
+      where: { idempotencyKey: posting.idempotencyKey },
+      select: { id: true }
+    });
+    if (existing) {
+      this.logger.debug(`Ledger transaction ${posting.idempotencyKey} already posted`);
+      return false;
+    }
+
+    const rows = entries.map((e) => ({
+      account: e.account,
+      amount: e.amount,
+      userId: e.account === 'ISSUANCE' ? null : e.userId ?? posting.userId
+    }));
+
+    await tx.ledgerTransaction.create({
+      data: {
+        idempotencyKey: posting.idempotencyKey,
+        kind: posting.kind,
+        userId: posting.userId,
+        referenceType: posting.referenceType,
+        referenceId: posting.referenceId,
+        description: posting.description,
+        entries: { create: rows }
+      }
+    });
+
+    const users = new Set(rows.filter((r) => r.userId).map((r) => r.userId as string));
+    for (const userId of users) {
+      await this.refreshCachedBalance(tx, userId);
+    }
+
+    return true;
+  }
+
+  async getBalances(userId: string, client: any = this.prisma): Promise<LedgerBalances> {
+    const sums = await client.ledgerEntry.groupBy({
+      by: ['account'],
+      where: { userId },
+      _sum: { amount: true }
+    });
+
+    const balances = emptyLedgerBalances();
+    for (const row of sums) {
+      balances[row.account as LedgerAccount] = row._sum.amount || 0;
+    }
+
+    return balances;
+  }
+
+  async getHoldings(userId: string) {
+    const balances = await this.getBalances(userId);
+    return { balances, total: getLedgerHoldings(balances) };
+  }
+
+  /**
+   * An approved reward: issued by the platform, earned by the user
+   */
+  async recordRewardIssued(
+    tx: any,
+    reward: { id: string; userId: string; amount: number; earnedAt: Date; reason?: string }
+  ) {
+    return await this.post(tx, {
+      idempotencyKey: `reward:${reward.id}:issued:${reward.earnedAt.getTime()}`,
+      kind: 'reward_issued',
+      userId: reward.userId,
+      referenceType: 'reward',
+      referenceId: reward.id,
+      description: reward.reason,
+      entries: [
+        { account: 'ISSUANCE', amount: -reward.amount },
+        { account: 'EARNED', amount: reward.amount }
+      ]
+    });
+  }
+
+  /**
+   * Return a reversed reward to the platform from wherever it sits now
+   */
+  async recordRewardReversed(
+    tx: any,
+    reward: { id: string; userId: string; earnedAt: Date },
+    legs: ReversalLegs,
+    reason: string
+  ) {
+    const entries: LedgerEntryInput[] = Object.entries(legs).map(([account, amount]) => ({
+      account: account as LedgerAccount,
+      amount: -(amount || 0)
+    }));
+    const total = Object.values(legs).reduce((sum, amount) => sum + (amount || 0), 0);
+
+    return await this.post(tx, {
+      idempotencyKey: `reward:${reward.id}:reversed:${reward.earnedAt.getTime()}`,
+      kind: 'reward_reversed',
+      userId: reward.userId,
+      referenceType: 'reward',
+      referenceId: reward.id,
+      description: reason,
+      entries: [...entries, { account: 'ISSUANCE', amount: total }]
+    });
+  }
+
+  /**
+   * Claimed rewards move to the claim; the part netted against debt pays it off
+   */
+  async recordClaimRequested(
+    tx: any,
+    mintRequest: { id: string; userId: string; tokenAmount: number; debtOffset: number }
+  ) {
+    return await this.post(tx, {
+      idempotencyKey: `mint_request:${mintRequest.id}:claimed`,
+      kind: 'claim_requested',
+      userId: mintRequest.userId,
+      referenceType: 'mint_request',
+      referenceId: mintRequest.id,
+      entries: [
+        { account: 'EARNED', amount: -(mintRequest.tokenAmount + mintRequest.debtOffset) },
+        { account: 'PENDING_CLAIM', amount: mintRequest.tokenAmount },
+        { account: 'DEBT', amount: mintRequest.debtOffset }
+      ]
+    });
+  }
+
+  /**
+   * A rejected claim returns its rewards and reopens the debt it paid off
+   */
+  async recordClaimRejected(
+    tx: any,
+    mintRequest: { id: string; userId: string; tokenAmount: number; debtOffset: number }
+  ) {
+    return await this.post(tx, {
+      idempotencyKey: `mint_request:${mintRequest.id}:rejected`,
+      kind: 'claim_rejected',
+      userId: mintRequest.userId,
+      referenceType: 'mint_request',
+      referenceId: mintRequest.id,
+      entries: [
+        { account: 'PENDING_CLAIM', amount: -mintRequest.tokenAmount },
+        { account: 'DEBT', amount: -mintRequest.debtOffset },
+        { account: 'EARNED', amount: mintRequest.tokenAmount + mintRequest.debtOffset }
+      ]
+    });
+  }
+
+  async recordClaimMinted(
+    tx: any,
+    mintRequest: { id: string; userId: string; tokenAmount: number; mintSignature?: string | null }
+  ) {
+    return await this.post(tx, {
+      idempotencyKey: `mint_request:${mintRequest.id}:minted`,
+      kind: 'claim_minted',
+      userId: mintRequest.userId,
+      referenceType: 'mint_request',
+      referenceId: mintRequest.id,
+      description: mintRequest.mintSignature || undefined,
+      entries: [
+        { account: 'PENDING_CLAIM', amount: -mintRequest.tokenAmount },
+        { account: 'MINTED', amount: mintRequest.tokenAmount }
+      ]
+    });
+  }
+
+  /**
+   * Tokens moved from the user's wallet into a stake account
+   */
+  async recordStakeConfirmed(
+    tx: any,
+    transaction: { id: string; userId: string; amount: number; signature?: string | null }
+  ) {
+    return await this.post(tx, {
+      idempotencyKey: `transaction:${transaction.id}:staked`,
+      kind: 'stake_confirmed',
+      userId: transaction.userId,
+      referenceType: 'transaction',
+      referenceId: transaction.id,
+      description: transaction.signature || undefined,
+      entries: [
+        { account: 'MINTED', amount: -transaction.amount },
+        { account: 'STAKED', amount: transaction.amount }
+      ]
+    });
+  }
+
+  /**
+   * Principal returned to the wallet; staking rewards are new tokens from issuance
+   */
+  async recordUnstakeConfirmed(
+    tx: any,
+    transaction: { id: string; userId: string; amount: number; signature?: string | null },
+    rewards: number
+  ) {
+    return await this.post(tx, {
+      idempotencyKey: `transaction:${transaction.id}:unstaked`,
+      kind: 'unstake_confirmed',
+      userId: transaction.userId,
+      referenceType: 'transaction',
+      referenceId: transaction.id,
+      description: transaction.signature || undefined,
+      entries: [
+        { account: 'STAKED', amount: -transaction.amount },
+        { account: 'ISSUANCE', amount: -rewards },
+        { account: 'MINTED', amount: transaction.amount + rewards }
+      ]
+    });
+  }
+
+  /**
+   * Tokens spent on a partner offer, burned or transferred to the treasury
+   */
+  async recordRedemptionSettled(
+    tx: any,
+    redemption: { id: string; userId: string; tokenAmount: number; signature?: string | null }
+  ) {
+    return await this.post(tx, {
+      idempotencyKey: `redemption:${redemption.id}:settled`,
+      kind: 'redemption_settled',
+      userId: redemption.userId,
+      referenceType: 'redemption',
+      referenceId: redemption.id,
+      description: redemption.signature || undefined,
+      entries: [
+        { account: 'MINTED', amount: -redemption.tokenAmount },
+        { account: 'REDEEMED', amount: redemption.tokenAmount }
+      ]
+    });
+  }
+
+  private async refreshCachedBalance(tx: any, userId: string) {
+    const balances = await this.getBalances(userId, tx);
+
+    await tx.userProfile.update({
+      where: { userId },
+      data: { totalTokens: getLedgerHoldings(balances) }
+    });
+  }
+}
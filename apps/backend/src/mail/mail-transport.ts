@@ -0,0 +1,88 @@
+/**
+ * Mail transports
+ *
+ * MAIL_TRANSPORT picks the driver:
+ *
+ *   file  writes each message as JSON to MAIL_FILE_DIR (default ./tmp/mail),
+ *         for local development and tests that read what was sent
+ *   smtp  sends through SMTP_HOST/SMTP_PORT (with SMTP_USER/SMTP_PASSWORD when
+ *         set); point it at an SMTP capture server such as MailHog to inspect
+ *         mail without delivering it
+ */
+
+import { ConfigService } from '@nestjs/config';
+import * as nodemailer from 'nodemailer';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`;
+    await fs.promises.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; password?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user && { auth: { user: options.user, pass: options.password } })
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+export function createMailTransport(configService: ConfigService): MailTransport {
+  const driver = configService.get<string>('MAIL_TRANSPORT') || 'file';
+
+  switch (driver) {
+    case 'file':
+      return new FileMailTransport(
+        configService.get<string>('MAIL_FILE_DIR') || path.join(process.cwd(), 'tmp', 'mail')
+      );
+    case 'smtp': {
+      const host = configService.get<string>('SMTP_HOST');
+      if (!host) {
+        throw new Error('SMTP_HOST is required when MAIL_TRANSPORT is smtp');
+      }
+      return new SmtpMailTransport({
+        host,
+        port: Number(configService.get<string>('SMTP_PORT') || 587),
+        secure: configService.get<string>('SMTP_SECURE') === 'true',
+        user: configService.get<string>('SMTP_USER'),
+        password: configService.get<string>('SMTP_PASSWORD')
+      });
+    }
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${driver}", expected file or smtp`);
+  }
+}
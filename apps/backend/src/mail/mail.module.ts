@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, createMailTransport } from './mail-transport';
+
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: createMailTransport,
+      inject: [ConfigService]
+    },
+    MailService
+  ],
+  exports: [MailService]
+})
+export class MailModule {}
@@ -0,0 +1,72 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailTransport } from './mail-transport';
+
+/**
+ * Account emails. Messages are plain text with links back to the frontend.
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    private readonly configService: ConfigService
+  ) {}
+
+  async sendEmailVerification(to: string, username: string, token: string, expiresInHours: number) {
+    await this.send(to, 'Verify your OmniFit email', [
+      `Hi ${username},`,
+      '',
+      'Confirm this is your email address by opening the link below:',
+      this.frontendUrl(`/verify-email?token=${encodeURIComponent(token)}`),
+      '',
+      `The link expires in ${expiresInHours} hours. If you did not create an OmniFit account, ignore this email.`
+    ]);
+  }
+
+  async sendPasswordReset(to: string, username: string, token: string, expiresInMinutes: number) {
+    await this.send(to, 'Reset your OmniFit password', [
+      `Hi ${username},`,
+      '',
+      'Someone asked to reset the password for your OmniFit account. To choose a new one, open:',
+      this.frontendUrl(`/reset-password?token=${encodeURIComponent(token)}`),
+      '',
+      `The link expires in ${expiresInMinutes} minutes and works once. If it wasn't you, ignore this email; your password has not changed.`
+    ]);
+  }
+
+  async sendPasswordChanged(to: string, username: string) {
+    await this.send(to, 'Your OmniFit password was changed', [
+      `Hi ${username},`,
+      '',
+      'The password for your OmniFit account was just changed and your other devices were signed out.',
+      'If this wasn\'t you, reset your password now and contact support.'
+    ]);
+  }
+
+  async sendEmailChanged(to: string, username: string, newEmail: string) {
+    await this.send(to, 'Your OmniFit email was changed', [
+      `Hi ${username},`,
+      '',
+      `The email for your OmniFit account was just changed to ${newEmail}. Password reset links now go to that address.`,
+      'If this wasn\'t you, contact support right away.'
+    ]);
+  }
+
+  private async send(to: string, subject: string, lines: string[]) {
+    await this.transport.send({
+      from: this.configService.get<string>('MAIL_FROM') || 'OmniFit <no-reply@omnifit.app>',
+      to,
+      subject,
+      text: lines.join('\n')
+    });
+
+    this.logger.log(`Sent "${subject}"`);
+  }
+
+  private frontendUrl(pathname: string): string {
+    const base = this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+    return `${base.replace(/\/$/, '')}${pathname}`;
+  }
+}
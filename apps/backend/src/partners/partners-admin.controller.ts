@@ -0,0 +1,52 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  BadRequestException
+} from '@nestjs/common';
+import { PartnerStatus } from '@prisma/client';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Permissions } from '../auth/roles.decorator';
+import { PartnersService } from './partners.service';
+
+@Controller('admin/partners')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Permissions('partners:review')
+export class PartnersAdminController {
+  constructor(private readonly partnersService: PartnersService) {}
+
+  @Get()
+  async getApplications(@Query('status') status?: string) {
+    if (status && !Object.values(PartnerStatus).includes(status as PartnerStatus)) {
+      throw new BadRequestException(`status must be one of: ${Object.values(PartnerStatus).join(', ')}`);
+    }
+
+    const partners = await this.partnersService.getApplications(status as PartnerStatus | undefined);
+
+    return { data: partners };
+  }
+
+  @Put(':id/status')
+  async updateStatus(
+    @Request() req: any,
+    @Param('id') partnerId: string,
+    @Body() body: Record<string, unknown>
+  ) {
+    const partner = await this.partnersService.updateStatus(req.user.id, partnerId, body, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    return {
+      success: true,
+      data: partner,
+      message: `Partner ${partner?.status.toLowerCase()}`
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { PartnersService } from './partners.service';
+
+// Bodies are validated against the shared partner schemas in PartnersService
+
+@Controller('partners')
+export class PartnersController {
+  constructor(private readonly partnersService: PartnersService) {}
+
+  @Get()
+  async discoverPartners(@Query() query: Record<string, string>) {
+    return await this.partnersService.discover(query);
+  }
+
+  @Post('apply')
+  @UseGuards(JwtAuthGuard)
+  async apply(@Request() req: any, @Body() body: Record<string, unknown>) {
+    const partner = await this.partnersService.apply(req.user.id, body, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    return {
+      success: true,
+      data: partner,
+      message: 'Partner application submitted for review'
+    };
+  }
+
+  @Get('me')
+  @UseGuards(JwtAuthGuard)
+  async getOwnPartner(@Request() req: any) {
+    const partner = await this.partnersService.getOwnPartner(req.user.id);
+
+    return { data: partner };
+  }
+
+  @Put('me')
+  @UseGuards(JwtAuthGuard)
+  async updateProfile(@Request() req: any, @Body() body: Record<string, unknown>) {
+    const partner = await this.partnersService.updateProfile(req.user.id, body);
+
+    return {
+      success: true,
+      data: partner,
+      message: 'Partner profile updated'
+    };
+  }
+
+  @Put('me/offer')
+  @UseGuards(JwtAuthGuard)
+  async updateOffer(@Request() req: any, @Body() body: Record<string, unknown>) {
+    const partner = await this.partnersService.updateOffer(req.user.id, body, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    return {
+      success: true,
+      data: partner,
+      message: 'Offer updated'
+    };
+  }
+
+  @Delete('me/offer')
+  @UseGuards(JwtAuthGuard)
+  async withdrawOffer(@Request() req: any) {
+    const partner = await this.partnersService.withdrawOffer(req.user.id, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    return {
+      success: true,
+      data: partner,
+      message: 'Offer withdrawn'
+    };
+  }
+
+  @Get(':id')
+  async getPartner(@Param('id') partnerId: string) {
+    const partner = await this.partnersService.getPublicPartner(partnerId);
+
+    return { data: partner };
+  }
+}
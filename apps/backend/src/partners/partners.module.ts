@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PartnersController } from './partners.controller';
+import { PartnersAdminController } from './partners-admin.controller';
+import { PartnersService } from './partners.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [PartnersController, PartnersAdminController],
+  providers: [PartnersService],
+  exports: [PartnersService]
+})
+export class PartnersModule {}
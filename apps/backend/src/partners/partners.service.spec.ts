@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { PartnersService } from './partners.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('PartnersService', () => {
+  let service: PartnersService;
+  let prismaService: any;
+  let tx: any;
+
+  const application = {
+    name: 'Iron Temple Gym',
+    email: 'owner@irontemple.example',
+    type: 'GYM',
+    description: 'Strength and conditioning gym downtown',
+    website: 'https://irontemple.example',
+    contactPerson: 'Sam Rivera',
+    offerType: 'DISCOUNT',
+    offerDescription: '20% off a monthly pass',
+    tokenRequirement: 500
+  };
+
+  const pending = { id: 'partner-1', ownerId: 'user-1', status: 'PENDING', ...application };
+
+  beforeEach(async () => {
+    tx = {
+      partner: {
+        create: jest.fn().mockResolvedValue(pending),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUnique: jest.fn().mockResolvedValue({ ...pending, status: 'APPROVED' })
+      },
+      user: { updateMany: jest.fn() },
+      auditLog: { create: jest.fn() }
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PartnersService,
+        {
+          provide: PrismaService,
+          useValue: {
+            partner: { findUnique: jest.fn().mockResolvedValue(null) },
+            $transaction: jest.fn((callback) => callback(tx))
+          }
+        }
+      ]
+    }).compile();
+
+    service = module.get<PartnersService>(PartnersService);
+    prismaService = module.get(PrismaService);
+  });
+
+  it('should submit an application as PENDING for the applying user', async () => {
+    await service.apply('user-1', application);
+
+    expect(tx.partner.create).toHaveBeenCalledWith({
+      data: { ...application, ownerId: 'user-1', status: 'PENDING' }
+    });
+    expect(tx.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'partner_applied', resource: 'partner', resourceId: 'partner-1' })
+    });
+  });
+
+  it('should reject applications that fail the partner schema', async () => {
+    await expect(service.apply('user-1', { ...application, tokenRequirement: 5 })).rejects.toThrow(BadRequestException);
+    expect(prismaService.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should allow one partner account per user', async () => {
+    prismaService.partner.findUnique.mockResolvedValueOnce({ id: 'partner-1' });
+
+    await expect(service.apply('user-1', application)).rejects.toThrow(ConflictException);
+  });
+
+  it('should record the approving admin and promote the owner to PARTNER', async () => {
+    prismaService.partner.findUnique.mockResolvedValue(pending);
+
+    await service.updateStatus('admin-1', 'partner-1', { status: 'APPROVED' });
+
+    expect(tx.partner.updateMany).toHaveBeenCalledWith({
+      where: { id: 'partner-1', status: 'PENDING' },
+      data: { status: 'APPROVED', approvedBy: 'admin-1', approvedAt: expect.any(Date) }
+    });
+    expect(tx.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'user-1', role: 'USER' },
+      data: { role: 'PARTNER' }
+    });
+  });
+
+  it('should not suspend an application that was never approved', async () => {
+    prismaService.partner.findUnique.mockResolvedValue(pending);
+
+    await expect(service.updateStatus('admin-1', 'partner-1', { status: 'SUSPENDED' })).rejects.toThrow(
+      'Cannot move a PENDING partner to SUSPENDED'
+    );
+    expect(prismaService.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,366 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException
+} from '@nestjs/common';
+import { z } from 'zod';
+import {
+  CreatePartnerSchema,
+  PartnerDiscoverySchema,
+  PartnerOfferSchema,
+  UpdatePartnerProfileSchema,
+  UpdatePartnerStatusSchema
+} from '@omnifit/shared';
+import { PartnerStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+// Review transitions an admin can make from each status
+const PARTNER_TRANSITIONS: Record<PartnerStatus, PartnerStatus[]> = {
+  PENDING: ['APPROVED', 'REJECTED'],
+  APPROVED: ['SUSPENDED'],
+  ACTIVE: ['SUSPENDED'],
+  SUSPENDED: ['APPROVED'],
+  REJECTED: []
+};
+
+const LISTED_STATUSES: PartnerStatus[] = ['APPROVED', 'ACTIVE'];
+
+// Redemptions that use up one of an offer's maxRedemptions
+const HELD_REDEMPTION_STATUSES = ['RESERVED', 'ISSUED', 'USED'] as const;
+
+const PUBLIC_PARTNER_FIELDS = {
+  id: true,
+  name: true,
+  type: true,
+  description: true,
+  logo: true,
+  website: true,
+  offerType: true,
+  offerDescription: true,
+  tokenRequirement: true,
+  maxRedemptions: true,
+  validUntil: true
+} as const;
+
+interface AuditContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Partner business accounts. A user applies with their business profile and
+ * first offer; admins approve, reject or suspend the application; approved
+ * partners manage their offer and are listed for users to redeem tokens at.
+ */
+@Injectable()
+export class PartnersService {
+  private readonly logger = new Logger(PartnersService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async apply(userId: string, body: unknown, context: AuditContext = {}) {
+    const application = this.parse(CreatePartnerSchema, body);
+    this.assertFutureExpiry(application.validUntil);
+
+    const [owned, emailTaken] = await Promise.all([
+      this.prisma.partner.findUnique({ where: { ownerId: userId }, select: { id: true } }),
+      this.prisma.partner.findUnique({ where: { email: application.email }, select: { id: true } })
+    ]);
+    if (owned) {
+      throw new ConflictException('You already have a partner account');
+    }
+    if (emailTaken) {
+      throw new ConflictException('A partner with this email already exists');
+    }
+
+    return await this.prisma.$transaction(async (tx) => {
+      const partner = await tx.partner.create({
+        data: { ...application, ownerId: userId, status: 'PENDING' }
+      });
+
+      await this.audit(tx, userId, 'partner_applied', partner.id, context, {
+        name: partner.name,
+        type: partner.type
+      });
+
+      this.logger.log(`Partner application ${partner.id} submitted by ${userId}`);
+      return partner;
+    });
+  }
+
+  async getOwnPartner(userId: string) {
+    const partner = await this.prisma.partner.findUnique({ where: { ownerId: userId } });
+    if (!partner) {
+      throw new NotFoundException('No partner account for this user');
+    }
+
+    return { ...partner, remainingRedemptions: await this.getRemainingRedemptions(partner) };
+  }
+
+  async updateProfile(userId: string, body: unknown) {
+    const profile = this.parse(UpdatePartnerProfileSchema, body);
+    const partner = await this.getManagedPartner(userId);
+
+    return await this.prisma.partner.update({
+      where: { id: partner.id },
+      data: profile
+    });
+  }
+
+  /**
+   * Replace the partner's offer. Codes already issued keep the offer they
+   * were redeemed for.
+   */
+  async updateOffer(userId: string, body: unknown, context: AuditContext = {}) {
+    const offer = this.parse(PartnerOfferSchema, body);
+    this.assertFutureExpiry(offer.validUntil);
+    const partner = await this.getManagedPartner(userId);
+
+    return await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.partner.update({
+        where: { id: partner.id },
+        data: {
+          ...offer,
+          maxRedemptions: offer.maxRedemptions ?? null,
+          validUntil: offer.validUntil ?? null
+        }
+      });
+
+      await this.audit(tx, userId, 'partner_offer_updated', partner.id, context, {
+        previous: this.offerOf(partner),
+        current: this.offerOf(updated)
+      });
+
+      return updated;
+    });
+  }
+
+  /**
+   * Withdraw the offer by expiring it now
+   */
+  async withdrawOffer(userId: string, context: AuditContext = {}) {
+    const partner = await this.getManagedPartner(userId);
+
+    return await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.partner.update({
+        where: { id: partner.id },
+        data: { validUntil: new Date() }
+      });
+
+      await this.audit(tx, userId, 'partner_offer_withdrawn', partner.id, context, {
+        previous: this.offerOf(partner)
+      });
+
+      return updated;
+    });
+  }
+
+  /**
+   * Listed partners with an offer still open, for users to browse
+   */
+  async discover(query: unknown) {
+    const filters = this.parse(PartnerDiscoverySchema, query);
+    const now = new Date();
+
+    const where: any = {
+      status: { in: LISTED_STATUSES },
+      OR: [{ validUntil: null }, { validUntil: { gt: now } }],
+      ...(filters.type && { type: filters.type }),
+      ...(filters.offerType && { offerType: filters.offerType }),
+      ...((filters.minTokens !== undefined || filters.maxTokens !== undefined) && {
+        tokenRequirement: {
+          ...(filters.minTokens !== undefined && { gte: filters.minTokens }),
+          ...(filters.maxTokens !== undefined && { lte: filters.maxTokens })
+        }
+      }),
+      ...(filters.search && {
+        AND: [{
+          OR: [
+            { name: { contains: filters.search, mode: 'insensitive' } },
+            { offerDescription: { contains: filters.search, mode: 'insensitive' } }
+          ]
+        }]
+      })
+    };
+
+    const [partners, total] = await Promise.all([
+      this.prisma.partner.findMany({
+        where,
+        select: PUBLIC_PARTNER_FIELDS,
+        orderBy: [{ tokenRequirement: 'asc' }, { name: 'asc' }],
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit
+      }),
+      this.prisma.partner.count({ where })
+    ]);
+
+    const remaining = await this.getRemainingRedemptionsByPartner(partners);
+
+    return {
+      data: partners.map((partner) => ({ ...partner, remainingRedemptions: remaining.get(partner.id) ?? null })),
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit)
+      }
+    };
+  }
+
+  async getPublicPartner(partnerId: string) {
+    const partner = await this.prisma.partner.findFirst({
+      where: { id: partnerId, status: { in: LISTED_STATUSES } },
+      select: PUBLIC_PARTNER_FIELDS
+    });
+    if (!partner) {
+      throw new NotFoundException('Partner not found');
+    }
+
+    return { ...partner, remainingRedemptions: await this.getRemainingRedemptions(partner) };
+  }
+
+  async getApplications(status: PartnerStatus = 'PENDING') {
+    return await this.prisma.partner.findMany({
+      where: { status },
+      include: { owner: { select: { id: true, username: true, email: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Move a partner through review. Approval records the approving admin and
+   * gives the owning user the PARTNER role.
+   */
+  async updateStatus(adminId: string, partnerId: string, body: unknown, context: AuditContext = {}) {
+    const { status, notes } = this.parse(UpdatePartnerStatusSchema, body);
+
+    const partner = await this.prisma.partner.findUnique({ where: { id: partnerId } });
+    if (!partner) {
+      throw new NotFoundException('Partner not found');
+    }
+    if (!PARTNER_TRANSITIONS[partner.status].includes(status as PartnerStatus)) {
+      throw new BadRequestException(`Cannot move a ${partner.status} partner to ${status}`);
+    }
+
+    return await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.partner.updateMany({
+        where: { id: partnerId, status: partner.status },
+        data: {
+          status,
+          ...(status === 'APPROVED' && { approvedBy: adminId, approvedAt: new Date() })
+        }
+      });
+      if (updated.count === 0) {
+        throw new ConflictException('Partner status changed during review, reload and try again');
+      }
+
+      if (status === 'APPROVED' && partner.ownerId) {
+        await tx.user.updateMany({
+          where: { id: partner.ownerId, role: 'USER' },
+          data: { role: 'PARTNER' }
+        });
+      }
+
+      await this.audit(tx, adminId, `partner_${status.toLowerCase()}`, partnerId, context, {
+        fromStatus: partner.status,
+        toStatus: status,
+        notes
+      });
+
+      this.logger.log(`Partner ${partnerId} ${partner.status} -> ${status} by ${adminId}`);
+      return await tx.partner.findUnique({ where: { id: partnerId } });
+    });
+  }
+
+  /**
+   * The caller's partner, unless it was rejected or suspended
+   */
+  private async getManagedPartner(userId: string) {
+    const partner = await this.prisma.partner.findUnique({ where: { ownerId: userId } });
+    if (!partner) {
+      throw new NotFoundException('No partner account for this user');
+    }
+    if (partner.status === 'REJECTED' || partner.status === 'SUSPENDED') {
+      throw new ForbiddenException(`Partner account is ${partner.status}`);
+    }
+    return partner;
+  }
+
+  private async getRemainingRedemptions(partner: { id: string; maxRedemptions: number | null }) {
+    const remaining = await this.getRemainingRedemptionsByPartner([partner]);
+    return remaining.get(partner.id) ?? null;
+  }
+
+  /**
+   * Redemptions left per capped offer; uncapped offers are absent
+   */
+  private async getRemainingRedemptionsByPartner(partners: { id: string; maxRedemptions: number | null }[]) {
+    const capped = partners.filter((partner) => partner.maxRedemptions !== null);
+    const remaining = new Map<string, number>();
+    if (capped.length === 0) {
+      return remaining;
+    }
+
+    const counts = await this.prisma.redemption.groupBy({
+      by: ['partnerId'],
+      where: { partnerId: { in: capped.map((partner) => partner.id) }, status: { in: [...HELD_REDEMPTION_STATUSES] } },
+      _count: { _all: true }
+    });
+    const used = new Map(counts.map((row) => [row.partnerId, row._count._all]));
+
+    for (const partner of capped) {
+      remaining.set(partner.id, Math.max(0, partner.maxRedemptions! - (used.get(partner.id) ?? 0)));
+    }
+    return remaining;
+  }
+
+  private offerOf(partner: any) {
+    return {
+      offerType: partner.offerType,
+      offerDescription: partner.offerDescription,
+      tokenRequirement: partner.tokenRequirement,
+      maxRedemptions: partner.maxRedemptions,
+      validUntil: partner.validUntil
+    };
+  }
+
+  private assertFutureExpiry(validUntil?: Date) {
+    if (validUntil && validUntil <= new Date()) {
+      throw new BadRequestException('validUntil must be in the future');
+    }
+  }
+
+  private parse<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+    const result = schema.safeParse(body ?? {});
+    if (!result.success) {
+      throw new BadRequestException(
+        result.error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+      );
+    }
+    return result.data;
+  }
+
+  private async audit(
+    tx: any,
+    userId: string,
+    action: string,
+    partnerId: string,
+    context: AuditContext,
+    details: Record<string, unknown>
+  ) {
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action,
+        resource: 'partner',
+        resourceId: partnerId,
+        details,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    });
+  }
+}
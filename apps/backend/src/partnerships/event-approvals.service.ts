@@ -1,14 +1,20 @@
-import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { NotificationService } from './notification.service';
+import { RewardQueueService } from '../rewards/reward-queue.service';
+import { RewardClawbackService } from '../rewards/reward-clawback.service';
 import { ApproveEventDto } from './dto';
 import type { EventApproval, ApprovalStatus } from '@omnifit/shared';
 
 @Injectable()
 export class EventApprovalsService {
+  private readonly logger = new Logger(EventApprovalsService.name);
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly notificationService: NotificationService,
+    private readonly rewardQueue: RewardQueueService,
+    private readonly clawbackService: RewardClawbackService,
   ) {}
 
   async createEventApprovalRequest(eventId: string, userId: string): Promise<EventApproval | null> {
@@ -162,9 +168,22 @@ export class EventApprovalsService {
       }
     });
 
-    // TODO: If approved, apply reward multiplier to the event's reward
+    // The bonus is paid once per event however often approval is submitted
     if (dto.approve && approval.approvalMultiplier) {
-      await this.applyApprovalBonus(eventId, approval.approvalMultiplier);
+      try {
+        await this.rewardQueue.queuePartnerBonus(updatedApproval.userId, eventId);
+      } catch (error) {
+        this.logger.error(`Failed to queue partner bonus for event ${eventId}:`, error);
+      }
+    }
+
+    // A rejected event keeps none of the rewards it already earned
+    if (!dto.approve) {
+      try {
+        await this.clawbackService.reverseEventRewards(eventId, 'partner_rejected', { triggeredBy: partnerId });
+      } catch (error) {
+        this.logger.error(`Failed to reverse rewards for rejected event ${eventId}:`, error);
+      }
     }
 
     // Send notification to event creator
@@ -416,43 +435,4 @@ export class EventApprovalsService {
 
     return summary;
   }
-
-  private async applyApprovalBonus(eventId: string, multiplier: number): Promise<void> {
-    // TODO: Find existing reward for this event and apply bonus multiplier
-    const existingReward = await this.prisma.reward.findFirst({
-      where: {
-        eventId,
-        type: 'ACTIVITY'
-      }
-    });
-
-    if (existingReward) {
-      const bonusAmount = Math.floor(existingReward.amount * (multiplier - 1));
-      
-      // Create additional bonus reward
-      await this.prisma.reward.create({
-        data: {
-          userId: existingReward.userId,
-          eventId,
-          type: 'ACTIVITY',
-          amount: bonusAmount,
-          reason: 'Partner approval bonus',
-          status: 'APPROVED',
-          sourceType: 'event',
-          multiplier,
-          bonusReason: 'Partner approved activity'
-        }
-      });
-
-      // TODO: Update user's total tokens
-      await this.prisma.userProfile.update({
-        where: { userId: existingReward.userId },
-        data: {
-          totalTokens: {
-            increment: bonusAmount
-          }
-        }
-      });
-    }
-  }
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { PrismaModule } from '../prisma/prisma.module';
+import { RewardsModule } from '../rewards/rewards.module';
 import { PartnershipsController } from './partnerships.controller';
 import { PartnershipsService } from './partnerships.service';
 import { EventApprovalsController } from './event-approvals.controller';
@@ -9,7 +10,7 @@ import { PlansService } from './plans.service';
 import { NotificationService } from './notification.service';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, RewardsModule],
   controllers: [PartnershipsController, EventApprovalsController, PlansController],
   providers: [PartnershipsService, EventApprovalsService, PlansService, NotificationService],
   exports: [PartnershipsService, EventApprovalsService, PlansService, NotificationService],
@@ -1,6 +1,7 @@
 import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { NotificationService } from './notification.service';
+import { RewardQueueService } from '../rewards/reward-queue.service';
 import { CreatePlanDto, UpdatePlanDto } from './dto';
 import type { Plan } from '@omnifit/shared';
 
@@ -9,6 +10,7 @@ export class PlansService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly notificationService: NotificationService,
+    private readonly rewardQueue: RewardQueueService,
   ) {}
 
   async createPlan(creatorId: string, dto: CreatePlanDto): Promise<Plan> {
@@ -486,7 +488,7 @@ export class PlansService {
     // TODO: Award milestone rewards
     const milestone = milestones[milestoneIndex];
     if (milestone.rewardTokens > 0) {
-      await this.awardMilestoneReward(userId, milestone);
+      await this.awardMilestoneReward(userId, planId, milestone);
     }
 
     // TODO: Send notification to partner
@@ -603,28 +605,15 @@ export class PlansService {
     ];
   }
 
-  private async awardMilestoneReward(userId: string, milestone: any) {
-    // TODO: Create reward record for milestone completion
-    await this.prisma.reward.create({
-      data: {
-        userId,
-        type: 'MILESTONE',
-        amount: milestone.rewardTokens,
-        reason: `Milestone completed: ${milestone.description}`,
-        status: 'APPROVED',
-        sourceType: 'milestone'
-      }
-    });
-
-    // Update user's total tokens
-    await this.prisma.userProfile.update({
-      where: { userId },
-      data: {
-        totalTokens: {
-          increment: milestone.rewardTokens
-        }
-      }
-    });
+  private async awardMilestoneReward(userId: string, planId: string, milestone: any) {
+    // Issued through the reward queue, which pays each plan milestone once
+    await this.rewardQueue.queueMilestoneReward(
+      userId,
+      milestone.id,
+      planId,
+      milestone.description,
+      milestone.rewardTokens
+    );
   }
 
   private generateSecureToken(): string {
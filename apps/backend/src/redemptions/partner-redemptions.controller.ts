@@ -0,0 +1,68 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Query,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+  BadRequestException
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Permissions } from '../auth/roles.decorator';
+import { RedemptionsService } from './redemptions.service';
+
+interface RedemptionCodeDto {
+  code: string;
+}
+
+/**
+ * Redemption endpoints for the user account that manages a partner
+ */
+@Controller('partner/redemptions')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Permissions('redemptions:fulfill')
+export class PartnerRedemptionsController {
+  constructor(private readonly redemptionsService: RedemptionsService) {}
+
+  @Get()
+  async getRedemptions(@Request() req: any, @Query('status') status?: string) {
+    const redemptions = await this.redemptionsService.getPartnerRedemptions(req.user.id, status);
+
+    return { data: redemptions };
+  }
+
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  async verifyCode(@Request() req: any, @Body() body: RedemptionCodeDto) {
+    if (!body.code) {
+      throw new BadRequestException('code is required');
+    }
+
+    const result = await this.redemptionsService.verifyCode(req.user.id, body.code);
+
+    return {
+      success: true,
+      data: result
+    };
+  }
+
+  @Post('use')
+  @HttpCode(HttpStatus.OK)
+  async useCode(@Request() req: any, @Body() body: RedemptionCodeDto) {
+    if (!body.code) {
+      throw new BadRequestException('code is required');
+    }
+
+    const redemption = await this.redemptionsService.markCodeUsed(req.user.id, body.code);
+
+    return {
+      success: true,
+      data: redemption,
+      message: 'Redemption code accepted'
+    };
+  }
+}
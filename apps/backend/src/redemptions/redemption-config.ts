@@ -0,0 +1,66 @@
+/**
+ * Redemption settings
+ *
+ * The redemption section of rewards.config.json:
+ *
+ *   { "settlement": "burn" | "transfer", "treasuryWallet": "<address>" | null,
+ *     "reservationMinutes": 10, "codeValidityDays": 30 }
+ *
+ * With "transfer" the redeemed tokens go to treasuryWallet's token account,
+ * which must already exist; with "burn" they leave the supply.
+ */
+
+import type { RedemptionConfig } from '@omnifit/shared';
+import { PublicKey } from '@solana/web3.js';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const DEFAULT_REDEMPTION_CONFIG: RedemptionConfig = {
+  settlement: 'burn',
+  treasuryWallet: null,
+  reservationMinutes: 10,
+  codeValidityDays: 30,
+};
+
+/**
+ * Check the settings are usable; returns the problems found
+ */
+export function validateRedemptionConfig(config: any): string[] {
+  const errors: string[] = [];
+
+  if (!['burn', 'transfer'].includes(config?.settlement)) {
+    errors.push('settlement must be "burn" or "transfer"');
+  }
+  if (config?.settlement === 'transfer') {
+    try {
+      new PublicKey(config.treasuryWallet);
+    } catch {
+      errors.push('treasuryWallet must be a wallet address when settlement is "transfer"');
+    }
+  }
+  if (!Number.isInteger(config?.reservationMinutes) || config.reservationMinutes < 1) {
+    errors.push('reservationMinutes must be a positive integer');
+  }
+  if (!Number.isInteger(config?.codeValidityDays) || config.codeValidityDays < 1) {
+    errors.push('codeValidityDays must be a positive integer');
+  }
+
+  return errors;
+}
+
+/**
+ * The redemption section of rewards.config.json over the defaults. An invalid
+ * section throws rather than settling redemptions somewhere unintended.
+ */
+export function loadRedemptionConfig(): RedemptionConfig {
+  const configPath = process.env.REWARDS_CONFIG_PATH || path.join(process.cwd(), 'rewards.config.json');
+  const raw = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+
+  const config = { ...DEFAULT_REDEMPTION_CONFIG, ...raw.redemption };
+  const errors = validateRedemptionConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid redemption in rewards.config.json: ${errors.join('; ')}`);
+  }
+
+  return config;
+}
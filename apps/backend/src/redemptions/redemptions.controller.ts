@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+  BadRequestException
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { EmailVerifiedGuard } from '../auth/email-verified.guard';
+import { RedemptionsService } from './redemptions.service';
+
+interface RedeemOfferDto {
+  partnerId: string;
+}
+
+interface ConfirmRedemptionDto {
+  signature: string;
+}
+
+@Controller('redemptions')
+@UseGuards(JwtAuthGuard)
+export class RedemptionsController {
+  constructor(private readonly redemptionsService: RedemptionsService) {}
+
+  @Get()
+  async getRedemptions(@Request() req: any) {
+    const redemptions = await this.redemptionsService.getUserRedemptions(req.user.id);
+
+    return { data: redemptions };
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(EmailVerifiedGuard)
+  async redeem(@Request() req: any, @Body() body: RedeemOfferDto) {
+    if (!body.partnerId) {
+      throw new BadRequestException('partnerId is required');
+    }
+
+    const result = await this.redemptionsService.reserve(req.user.id, body.partnerId);
+
+    return {
+      success: true,
+      data: result,
+      message: 'Tokens reserved. Sign and send the transaction with your wallet, then confirm it with the signature'
+    };
+  }
+
+  @Post(':id/confirm')
+  @HttpCode(HttpStatus.OK)
+  async confirm(@Request() req: any, @Param('id') redemptionId: string, @Body() body: ConfirmRedemptionDto) {
+    if (!body.signature) {
+      throw new BadRequestException('signature is required');
+    }
+
+    const redemption = await this.redemptionsService.confirm(req.user.id, redemptionId, body.signature);
+
+    return {
+      success: true,
+      data: redemption,
+      message: 'Show this code to the partner to use your offer'
+    };
+  }
+
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.OK)
+  async cancel(@Request() req: any, @Param('id') redemptionId: string) {
+    const result = await this.redemptionsService.cancel(req.user.id, redemptionId);
+
+    return {
+      success: true,
+      data: result,
+      message: 'Redemption cancelled'
+    };
+  }
+}
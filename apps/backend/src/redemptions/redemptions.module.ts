@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { RedemptionsController } from './redemptions.controller';
+import { PartnerRedemptionsController } from './partner-redemptions.controller';
+import { RedemptionsService } from './redemptions.service';
+
+@Module({
+  imports: [PrismaModule, LedgerModule],
+  controllers: [RedemptionsController, PartnerRedemptionsController],
+  providers: [RedemptionsService],
+  exports: [RedemptionsService]
+})
+export class RedemptionsModule {}
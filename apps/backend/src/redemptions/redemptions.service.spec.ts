@@ -0,0 +1,161 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Keypair } from '@solana/web3.js';
+import { RedemptionsService } from './redemptions.service';
+import { DEFAULT_REDEMPTION_CONFIG } from './redemption-config';
+import { PrismaService } from '../prisma/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+
+describe('RedemptionsService', () => {
+  let service: RedemptionsService;
+  let prismaService: any;
+  let ledgerService: any;
+  let tx: any;
+  let getTransaction: jest.Mock;
+
+  const wallet = Keypair.generate().publicKey.toBase58();
+  const mint = Keypair.generate().publicKey.toBase58();
+  const UNITS = 10n ** 9n;
+
+  const partner = {
+    id: 'partner-1',
+    status: 'APPROVED',
+    offerType: 'DISCOUNT',
+    offerDescription: '20% off a monthly pass',
+    tokenRequirement: 500,
+    maxRedemptions: 10,
+    validUntil: null
+  };
+
+  const reserved = {
+    id: 'redemption-1',
+    userId: 'user-1',
+    partnerId: 'partner-1',
+    status: 'RESERVED',
+    tokenAmount: 500,
+    settlement: 'burn',
+    walletAddress: wallet,
+    treasuryWallet: null
+  };
+
+  const tokenBalance = (owner: string, tokens: bigint) => ({
+    mint,
+    owner,
+    uiTokenAmount: { amount: (tokens * UNITS).toString() }
+  });
+
+  const chainTransaction = (pre: any[], post: any[]) => ({
+    meta: { err: null, preTokenBalances: pre, postTokenBalances: post },
+    transaction: {
+      message: {
+        getAccountKeys: () => ({ staticAccountKeys: [{ toBase58: () => wallet }] })
+      }
+    }
+  });
+
+  beforeEach(async () => {
+    tx = {
+      partner: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUnique: jest.fn().mockResolvedValue(partner)
+      },
+      user: { updateMany: jest.fn() },
+      redemption: {
+        count: jest.fn().mockResolvedValue(0),
+        aggregate: jest.fn().mockResolvedValue({ _sum: { tokenAmount: 300 } }),
+        create: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUnique: jest.fn().mockResolvedValue({ ...reserved, status: 'ISSUED', signature: 'sig' })
+      }
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RedemptionsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            user: {
+              findUnique: jest.fn().mockResolvedValue({ walletAddress: wallet, walletLastVerified: new Date() })
+            },
+            partner: {
+              findUnique: jest.fn().mockResolvedValue({ ...partner, ownerId: 'partner-user' })
+            },
+            redemption: {
+              findFirst: jest.fn(),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 })
+            },
+            $transaction: jest.fn((callback) => callback(tx))
+          }
+        },
+        {
+          provide: LedgerService,
+          useValue: {
+            getBalances: jest.fn().mockResolvedValue({ MINTED: 700 }),
+            recordRedemptionSettled: jest.fn()
+          }
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => (key === 'TOKEN_MINT_ADDRESS' ? mint : undefined)) }
+        }
+      ]
+    }).compile();
+
+    service = module.get<RedemptionsService>(RedemptionsService);
+    prismaService = module.get(PrismaService);
+    ledgerService = module.get(LedgerService);
+
+    getTransaction = jest.fn();
+    (service as any).config = DEFAULT_REDEMPTION_CONFIG;
+    (service as any).connection = { getTransaction };
+  });
+
+  it('should not reserve tokens already held by another reservation', async () => {
+    // 700 minted, 300 reserved elsewhere, 500 needed
+    await expect(service.reserve('user-1', 'partner-1')).rejects.toThrow('Insufficient balance');
+    expect(tx.redemption.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse offers with no redemptions left', async () => {
+    tx.redemption.count.mockResolvedValue(10);
+
+    await expect(service.reserve('user-1', 'partner-1')).rejects.toThrow('no redemptions left');
+  });
+
+  it('should issue a code once the burn is on chain and post it to the ledger', async () => {
+    prismaService.redemption.findFirst.mockResolvedValueOnce(reserved).mockResolvedValueOnce(null);
+    getTransaction.mockResolvedValue(chainTransaction([tokenBalance(wallet, 800n)], [tokenBalance(wallet, 300n)]));
+
+    const result = await service.confirm('user-1', 'redemption-1', 'sig');
+
+    expect(result.status).toBe('ISSUED');
+    expect(tx.redemption.updateMany.mock.calls[0][0].data.code).toMatch(/^[A-Z2-9]{5}-[A-Z2-9]{5}$/);
+    expect(ledgerService.recordRedemptionSettled).toHaveBeenCalledWith(tx, expect.objectContaining({ id: 'redemption-1' }));
+  });
+
+  it('should reject a settlement that sends the tokens elsewhere instead of burning them', async () => {
+    const other = Keypair.generate().publicKey.toBase58();
+    prismaService.redemption.findFirst.mockResolvedValueOnce(reserved).mockResolvedValueOnce(null);
+    getTransaction.mockResolvedValue(
+      chainTransaction(
+        [tokenBalance(wallet, 800n), tokenBalance(other, 0n)],
+        [tokenBalance(wallet, 300n), tokenBalance(other, 500n)]
+      )
+    );
+
+    await expect(service.confirm('user-1', 'redemption-1', 'sig')).rejects.toThrow(BadRequestException);
+    expect(ledgerService.recordRedemptionSettled).not.toHaveBeenCalled();
+  });
+
+  it('should accept a code only once', async () => {
+    prismaService.redemption.findFirst.mockResolvedValue({ ...reserved, status: 'USED', code: 'ABCDE-FGHJK' });
+    prismaService.redemption.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.markCodeUsed('partner-user', 'abcde fghjk')).rejects.toThrow('Redemption code is USED');
+    expect(prismaService.redemption.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ partnerId: 'partner-1', code: 'ABCDE-FGHJK' }) })
+    );
+  });
+});
@@ -0,0 +1,489 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  ServiceUnavailableException
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cluster, Connection, PublicKey, Transaction, clusterApiUrl } from '@solana/web3.js';
+import { createBurnInstruction, createTransferInstruction, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import * as crypto from 'crypto';
+import { TOKEN_CONFIG } from '@omnifit/shared';
+import type { RedemptionConfig } from '@omnifit/shared';
+import { PrismaService } from '../prisma/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { loadRedemptionConfig } from './redemption-config';
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const OFFER_STATUSES = ['APPROVED', 'ACTIVE'];
+const HELD_STATUSES = ['RESERVED', 'ISSUED', 'USED'] as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Spending tokens on partner offers. A redemption reserves the offer's
+ * tokens against the user's minted balance, the user's wallet signs a burn
+ * (or a transfer to the treasury), and once that is found on chain the
+ * tokens are posted MINTED → REDEEMED and a single-use code is issued for
+ * the partner to accept.
+ */
+@Injectable()
+export class RedemptionsService {
+  private readonly logger = new Logger(RedemptionsService.name);
+  private config: RedemptionConfig | null = null;
+  private connection: Connection | null = null;
+  private mint: PublicKey | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ledgerService: LedgerService,
+    private readonly configService: ConfigService
+  ) {}
+
+  /**
+   * Reserve an offer's tokens and build the settlement transaction for the
+   * user's wallet to sign
+   */
+  async reserve(userId: string, partnerId: string) {
+    const wallet = await this.getVerifiedWallet(userId);
+    const config = this.getConfig();
+    await this.expireReservations();
+
+    const reservedUntil = new Date(Date.now() + config.reservationMinutes * 60 * 1000);
+
+    const redemption = await this.prisma.$transaction(async (tx) => {
+      // Lock the offer and the user so concurrent reservations see each other
+      const locked = await tx.partner.updateMany({ where: { id: partnerId }, data: { updatedAt: new Date() } });
+      if (locked.count === 0) {
+        throw new NotFoundException('Partner offer not found');
+      }
+      await tx.user.updateMany({ where: { id: userId }, data: { updatedAt: new Date() } });
+
+      const partner = await tx.partner.findUnique({ where: { id: partnerId } });
+      if (!partner) {
+        throw new NotFoundException('Partner offer not found');
+      }
+      this.assertOfferAvailable(partner);
+
+      if (partner.maxRedemptions !== null) {
+        const taken = await tx.redemption.count({
+          where: { partnerId, status: { in: [...HELD_STATUSES] } }
+        });
+        if (taken >= partner.maxRedemptions) {
+          throw new BadRequestException('This offer has no redemptions left');
+        }
+      }
+
+      const available = await this.getAvailableBalance(tx, userId);
+      if (available < partner.tokenRequirement) {
+        throw new BadRequestException(
+          `Insufficient balance: ${available} tokens available, ${partner.tokenRequirement} required`
+        );
+      }
+
+      return await tx.redemption.create({
+        data: {
+          userId,
+          partnerId,
+          tokenAmount: partner.tokenRequirement,
+          offerType: partner.offerType,
+          offerDescription: partner.offerDescription,
+          settlement: config.settlement,
+          walletAddress: wallet.toBase58(),
+          treasuryWallet: config.settlement === 'transfer' ? config.treasuryWallet : null,
+          reservedUntil
+        }
+      });
+    });
+
+    try {
+      const onChain = await this.getWalletTokenBalance(wallet);
+      if (onChain < redemption.tokenAmount) {
+        throw new BadRequestException(
+          `Your wallet holds ${onChain} tokens, ${redemption.tokenAmount} are needed for this offer`
+        );
+      }
+
+      return {
+        redemptionId: redemption.id,
+        tokenAmount: redemption.tokenAmount,
+        settlement: redemption.settlement,
+        reservedUntil,
+        transaction: await this.buildSettlementTransaction(wallet, redemption.tokenAmount, config)
+      };
+    } catch (error) {
+      await this.prisma.redemption.updateMany({
+        where: { id: redemption.id, status: 'RESERVED' },
+        data: { status: 'CANCELLED' }
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Issue the redemption code once the wallet's burn or transfer is on chain.
+   * A lapsed reservation is still honoured if its settlement landed.
+   */
+  async confirm(userId: string, redemptionId: string, signature: string) {
+    const redemption = await this.prisma.redemption.findFirst({ where: { id: redemptionId, userId } });
+
+    if (!redemption) {
+      throw new NotFoundException('Redemption not found');
+    }
+    if (redemption.status === 'ISSUED' || redemption.status === 'USED') {
+      return redemption;
+    }
+    if (redemption.status === 'CANCELLED') {
+      throw new BadRequestException('Redemption was cancelled');
+    }
+
+    const reused = await this.prisma.redemption.findFirst({
+      where: { signature, id: { not: redemptionId } },
+      select: { id: true }
+    });
+    if (reused) {
+      throw new ConflictException('Signature already used for another redemption');
+    }
+
+    await this.verifySettlement(signature, redemption);
+
+    const partner = await this.prisma.partner.findUnique({
+      where: { id: redemption.partnerId },
+      select: { validUntil: true }
+    });
+    const config = this.getConfig();
+    let codeExpiresAt = new Date(Date.now() + config.codeValidityDays * DAY_MS);
+    if (partner?.validUntil && partner.validUntil < codeExpiresAt) {
+      codeExpiresAt = partner.validUntil;
+    }
+
+    return await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.redemption.updateMany({
+        where: { id: redemptionId, status: { in: ['RESERVED', 'EXPIRED'] } },
+        data: {
+          status: 'ISSUED',
+          signature,
+          code: this.generateCode(),
+          issuedAt: new Date(),
+          codeExpiresAt
+        }
+      });
+
+      const issued = await tx.redemption.findUnique({ where: { id: redemptionId } });
+      if (updated.count === 0) {
+        return issued;
+      }
+
+      await this.ledgerService.recordRedemptionSettled(tx, issued);
+
+      this.logger.log(`Redemption ${redemptionId} settled (${redemption.settlement}): ${signature}`);
+      return issued;
+    });
+  }
+
+  async cancel(userId: string, redemptionId: string) {
+    const cancelled = await this.prisma.redemption.updateMany({
+      where: { id: redemptionId, userId, status: 'RESERVED' },
+      data: { status: 'CANCELLED' }
+    });
+
+    if (cancelled.count === 0) {
+      throw new BadRequestException('Only a reserved redemption can be cancelled');
+    }
+
+    return { success: true };
+  }
+
+  async getUserRedemptions(userId: string) {
+    await this.expireReservations();
+
+    return await this.prisma.redemption.findMany({
+      where: { userId },
+      include: { partner: { select: { id: true, name: true, type: true, logo: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: 50
+    });
+  }
+
+  /**
+   * Look up a code for the partner without using it
+   */
+  async verifyCode(partnerUserId: string, code: string) {
+    const partner = await this.getOwnedPartner(partnerUserId);
+    const redemption = await this.findPartnerCode(partner.id, code);
+
+    const expired = !!redemption.codeExpiresAt && redemption.codeExpiresAt <= new Date();
+
+    return {
+      valid: redemption.status === 'ISSUED' && !expired,
+      status: expired && redemption.status === 'ISSUED' ? 'EXPIRED' : redemption.status,
+      tokenAmount: redemption.tokenAmount,
+      offerType: redemption.offerType,
+      offerDescription: redemption.offerDescription,
+      issuedAt: redemption.issuedAt,
+      codeExpiresAt: redemption.codeExpiresAt,
+      usedAt: redemption.usedAt,
+      username: redemption.user.username
+    };
+  }
+
+  /**
+   * Accept a code; each code can be used once
+   */
+  async markCodeUsed(partnerUserId: string, code: string) {
+    const partner = await this.getOwnedPartner(partnerUserId);
+    const now = new Date();
+
+    const used = await this.prisma.redemption.updateMany({
+      where: {
+        partnerId: partner.id,
+        code: this.normalizeCode(code),
+        status: 'ISSUED',
+        OR: [{ codeExpiresAt: null }, { codeExpiresAt: { gt: now } }]
+      },
+      data: { status: 'USED', usedAt: now, usedBy: partnerUserId }
+    });
+
+    const redemption = await this.findPartnerCode(partner.id, code);
+    if (used.count === 0) {
+      throw new BadRequestException(
+        redemption.status === 'ISSUED' ? 'Redemption code has expired' : `Redemption code is ${redemption.status}`
+      );
+    }
+
+    this.logger.log(`Redemption ${redemption.id} used at partner ${partner.id}`);
+    return redemption;
+  }
+
+  /**
+   * Redemptions at the partner. Codes are only shown once used, so they can
+   * only be accepted from the customer.
+   */
+  async getPartnerRedemptions(partnerUserId: string, status?: string) {
+    const partner = await this.getOwnedPartner(partnerUserId);
+
+    const redemptions = await this.prisma.redemption.findMany({
+      where: {
+        partnerId: partner.id,
+        status: status ? (status as any) : { in: ['ISSUED', 'USED'] }
+      },
+      include: { user: { select: { username: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: 100
+    });
+
+    return redemptions.map(({ code, signature, walletAddress, ...redemption }) => ({
+      ...redemption,
+      code: redemption.status === 'USED' ? code : null
+    }));
+  }
+
+  private assertOfferAvailable(partner: { status: string; validUntil: Date | null; tokenRequirement: number }) {
+    if (!OFFER_STATUSES.includes(partner.status)) {
+      throw new BadRequestException('Partner offer is not available');
+    }
+    if (partner.validUntil && partner.validUntil <= new Date()) {
+      throw new BadRequestException('Partner offer has expired');
+    }
+    if (partner.tokenRequirement <= 0) {
+      throw new BadRequestException('Partner offer cannot be redeemed with tokens');
+    }
+  }
+
+  /**
+   * Minted tokens not already held by an open reservation
+   */
+  private async getAvailableBalance(tx: any, userId: string): Promise<number> {
+    const balances = await this.ledgerService.getBalances(userId, tx);
+    const reserved = await tx.redemption.aggregate({
+      where: { userId, status: 'RESERVED', reservedUntil: { gt: new Date() } },
+      _sum: { tokenAmount: true }
+    });
+
+    return balances.MINTED - (reserved._sum.tokenAmount || 0);
+  }
+
+  private async expireReservations() {
+    await this.prisma.redemption.updateMany({
+      where: { status: 'RESERVED', reservedUntil: { lte: new Date() } },
+      data: { status: 'EXPIRED' }
+    });
+  }
+
+  private async buildSettlementTransaction(wallet: PublicKey, tokenAmount: number, config: RedemptionConfig) {
+    const mint = this.getMint();
+    const source = getAssociatedTokenAddressSync(mint, wallet);
+    const amount = BigInt(tokenAmount) * 10n ** BigInt(TOKEN_CONFIG.DECIMALS);
+
+    const instruction = config.settlement === 'transfer'
+      ? createTransferInstruction(
+          source,
+          getAssociatedTokenAddressSync(mint, new PublicKey(config.treasuryWallet!)),
+          wallet,
+          amount
+        )
+      : createBurnInstruction(source, mint, wallet, amount);
+
+    const transaction = new Transaction().add(instruction);
+    const { blockhash, lastValidBlockHeight } = await this.getConnection().getLatestBlockhash('confirmed');
+    transaction.feePayer = wallet;
+    transaction.recentBlockhash = blockhash;
+    transaction.lastValidBlockHeight = lastValidBlockHeight;
+
+    return transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64');
+  }
+
+  /**
+   * The signature must be a successful transaction paid by the redeeming
+   * wallet that moved at least the redeemed amount out of it: burned, or
+   * into the treasury when transferring.
+   */
+  private async verifySettlement(
+    signature: string,
+    redemption: { tokenAmount: number; walletAddress: string; settlement: string; treasuryWallet: string | null }
+  ) {
+    const result = await this.getConnection().getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+
+    if (!result) {
+      throw new BadRequestException('Transaction not found on chain yet, retry once it is confirmed');
+    }
+    if (result.meta?.err) {
+      throw new BadRequestException('Transaction failed on chain');
+    }
+
+    const keys = result.transaction.message.getAccountKeys().staticAccountKeys.map((key) => key.toBase58());
+    if (keys[0] !== redemption.walletAddress) {
+      throw new BadRequestException('Transaction was not signed by your verified wallet');
+    }
+
+    const deltas = this.getTokenDeltas(result.meta);
+    const expected = BigInt(redemption.tokenAmount) * 10n ** BigInt(TOKEN_CONFIG.DECIMALS);
+
+    if (-(deltas.get(redemption.walletAddress) ?? 0n) < expected) {
+      throw new BadRequestException('Transaction does not spend the redeemed tokens');
+    }
+
+    if (redemption.settlement === 'transfer') {
+      if ((deltas.get(redemption.treasuryWallet!) ?? 0n) < expected) {
+        throw new BadRequestException('Transaction does not pay the treasury');
+      }
+    } else {
+      const received = [...deltas.entries()].some(([owner, delta]) => owner !== redemption.walletAddress && delta > 0n);
+      if (received) {
+        throw new BadRequestException('Transaction transfers the tokens instead of burning them');
+      }
+    }
+  }
+
+  /**
+   * Change in base units of this mint per token account owner
+   */
+  private getTokenDeltas(meta: any): Map<string, bigint> {
+    const mint = this.getMint().toBase58();
+    const deltas = new Map<string, bigint>();
+
+    const add = (balances: any[] | null | undefined, sign: bigint) => {
+      for (const balance of balances || []) {
+        if (balance.mint !== mint || !balance.owner) {
+          continue;
+        }
+        const amount = BigInt(balance.uiTokenAmount.amount) * sign;
+        deltas.set(balance.owner, (deltas.get(balance.owner) ?? 0n) + amount);
+      }
+    };
+
+    add(meta?.preTokenBalances, -1n);
+    add(meta?.postTokenBalances, 1n);
+    return deltas;
+  }
+
+  private async getWalletTokenBalance(wallet: PublicKey): Promise<number> {
+    try {
+      const balance = await this.getConnection().getTokenAccountBalance(
+        getAssociatedTokenAddressSync(this.getMint(), wallet)
+      );
+      return Math.floor(balance.value.uiAmount ?? 0);
+    } catch {
+      // No token account yet
+      return 0;
+    }
+  }
+
+  private async getVerifiedWallet(userId: string): Promise<PublicKey> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { walletAddress: true, walletLastVerified: true }
+    });
+
+    if (!user?.walletAddress || !user.walletLastVerified) {
+      throw new ForbiddenException('Connect and verify a wallet before redeeming');
+    }
+
+    return new PublicKey(user.walletAddress);
+  }
+
+  private async getOwnedPartner(userId: string) {
+    const partner = await this.prisma.partner.findUnique({ where: { ownerId: userId } });
+    if (!partner) {
+      throw new ForbiddenException('Partner account required');
+    }
+    return partner;
+  }
+
+  private async findPartnerCode(partnerId: string, code: string) {
+    const redemption = await this.prisma.redemption.findFirst({
+      where: { partnerId, code: this.normalizeCode(code) },
+      include: { user: { select: { username: true } } }
+    });
+
+    if (!redemption) {
+      throw new NotFoundException('Unknown redemption code');
+    }
+    return redemption;
+  }
+
+  private generateCode(): string {
+    const bytes = crypto.randomBytes(10);
+    const chars = Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  }
+
+  private normalizeCode(code: string): string {
+    const chars = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  }
+
+  private getConfig(): RedemptionConfig {
+    if (!this.config) {
+      this.config = loadRedemptionConfig();
+    }
+    return this.config;
+  }
+
+  private getMint(): PublicKey {
+    if (!this.mint) {
+      const mintAddress = this.configService.get<string>('TOKEN_MINT_ADDRESS');
+      if (!mintAddress) {
+        throw new ServiceUnavailableException('Redemptions are not configured');
+      }
+      this.mint = new PublicKey(mintAddress);
+    }
+    return this.mint;
+  }
+
+  private getConnection(): Connection {
+    if (!this.connection) {
+      const cluster = this.configService.get<string>('SOLANA_CLUSTER', 'devnet') as Cluster;
+      this.connection = new Connection(
+        this.configService.get<string>('SOLANA_RPC_URL') || clusterApiUrl(cluster),
+        'confirmed'
+      );
+    }
+    return this.connection;
+  }
+}
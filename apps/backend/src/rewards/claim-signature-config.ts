@@ -0,0 +1,58 @@
+/**
+ * Claim signature settings
+ *
+ * The claimSignature section of rewards.config.json:
+ *
+ *   { "required": false, "challengeMinutes": 5 }
+ *
+ * A claim is always minted to the user's verified wallet. With "required"
+ * the wallet must also sign a claim challenge naming the rewards, amount and
+ * nonce, so a stolen session token alone cannot claim.
+ *
+ * MintRequestService gets it injected under CLAIM_SIGNATURE_CONFIG, loaded
+ * when the module starts so an invalid section fails the boot.
+ */
+
+import type { ClaimSignatureConfig } from '@omnifit/shared';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const CLAIM_SIGNATURE_CONFIG = 'CLAIM_SIGNATURE_CONFIG';
+
+export const DEFAULT_CLAIM_SIGNATURE_CONFIG: ClaimSignatureConfig = {
+  required: false,
+  challengeMinutes: 5,
+};
+
+/**
+ * Check the settings are usable; returns the problems found
+ */
+export function validateClaimSignatureConfig(config: any): string[] {
+  const errors: string[] = [];
+
+  if (typeof config?.required !== 'boolean') {
+    errors.push('required must be true or false');
+  }
+  if (!Number.isInteger(config?.challengeMinutes) || config.challengeMinutes < 1 || config.challengeMinutes > 60) {
+    errors.push('challengeMinutes must be an integer from 1 to 60');
+  }
+
+  return errors;
+}
+
+/**
+ * The claimSignature section of rewards.config.json over the defaults. An
+ * invalid section throws rather than silently dropping the requirement.
+ */
+export function loadClaimSignatureConfig(): ClaimSignatureConfig {
+  const configPath = process.env.REWARDS_CONFIG_PATH || path.join(process.cwd(), 'rewards.config.json');
+  const raw = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+
+  const config = { ...DEFAULT_CLAIM_SIGNATURE_CONFIG, ...raw.claimSignature };
+  const errors = validateClaimSignatureConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid claimSignature in rewards.config.json: ${errors.join('; ')}`);
+  }
+
+  return config;
+}
@@ -0,0 +1,137 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EmissionBudgetService, EmissionBudgetExhaustedError } from './emission-budget.service';
+import { RewardAuditService } from './reward-audit.service';
+import { RewardPolicyService } from './reward-policy.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('EmissionBudgetService', () => {
+  let service: EmissionBudgetService;
+  let prismaService: any;
+  let tx: any;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmissionBudgetService,
+        {
+          provide: PrismaService,
+          useValue: {
+            emissionBudget: {
+              findMany: jest.fn().mockResolvedValue([]),
+              count: jest.fn().mockResolvedValue(0),
+            },
+            emissionLedger: {
+              findUnique: jest.fn(),
+              update: jest.fn(),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+            },
+            user: {
+              findMany: jest.fn().mockResolvedValue([{ id: 'admin-id' }]),
+            },
+            notification: {
+              createMany: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: RewardAuditService,
+          useValue: {
+            logEmissionEvent: jest.fn(),
+          },
+        },
+        {
+          provide: RewardPolicyService,
+          useValue: {
+            getActivePolicy: jest.fn().mockResolvedValue({
+              id: 'policy-id',
+              version: 1,
+              config: { dailyCaps: { individual: 100, total: 10000 } },
+              rules: [],
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<EmissionBudgetService>(EmissionBudgetService);
+    prismaService = module.get(PrismaService);
+
+    tx = {
+      emissionLedger: {
+        upsert: jest.fn().mockResolvedValue({ id: 'ledger-id', limit: 10000 }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+  });
+
+  describe('reserve', () => {
+    it('should count rewards against the policy daily total by default', async () => {
+      const at = new Date('2026-10-15T18:00:00Z');
+
+      const reservations = await service.reserve(tx, 'ACTIVITY', 50, at);
+
+      expect(reservations).toEqual([
+        expect.objectContaining({ ledgerId: 'ledger-id', scope: 'ALL', period: 'DAILY', limit: 10000 }),
+      ]);
+      expect(tx.emissionLedger.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({
+          periodStart: new Date('2026-10-15T00:00:00Z'),
+          periodEnd: new Date('2026-10-16T00:00:00Z'),
+        }),
+      }));
+      expect(tx.emissionLedger.updateMany).toHaveBeenCalledWith({
+        where: { id: 'ledger-id', emitted: { lte: 9950 } },
+        data: { emitted: { increment: 50 } },
+      });
+    });
+
+    it('should apply type budgets and defer to the next period when one is full', async () => {
+      prismaService.emissionBudget.findMany.mockResolvedValue([
+        { scope: 'STREAK', period: 'WEEKLY', limit: 500, alertThresholds: [0.8] },
+      ]);
+      tx.emissionLedger.upsert
+        .mockResolvedValueOnce({ id: 'weekly-ledger', limit: 500 })
+        .mockResolvedValueOnce({ id: 'daily-ledger', limit: 10000 });
+      tx.emissionLedger.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      // Thursday; the week resumes on Monday
+      const error = await service
+        .reserve(tx, 'STREAK', 100, new Date('2026-10-15T18:00:00Z'))
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(EmissionBudgetExhaustedError);
+      expect(error.scope).toBe('STREAK');
+      expect(error.resumeAt).toEqual(new Date('2026-10-19T00:00:00Z'));
+    });
+  });
+
+  describe('checkAlerts', () => {
+    it('should raise the highest crossed threshold once', async () => {
+      prismaService.emissionLedger.findUnique.mockResolvedValue({
+        id: 'ledger-id',
+        scope: 'ALL',
+        period: 'DAILY',
+        emitted: 8500,
+        limit: 10000,
+        deferred: 0,
+      });
+
+      await service.checkAlerts([
+        { ledgerId: 'ledger-id', scope: 'ALL', period: 'DAILY', limit: 10000, alertThresholds: [0.5, 0.8, 0.95] },
+      ]);
+
+      expect(prismaService.emissionLedger.updateMany).toHaveBeenCalledWith({
+        where: { id: 'ledger-id', lastAlertThreshold: { lt: 0.8 } },
+        data: { lastAlertThreshold: 0.8 },
+      });
+      expect(prismaService.notification.createMany).toHaveBeenCalledTimes(1);
+
+      prismaService.emissionLedger.updateMany.mockResolvedValue({ count: 0 });
+      await service.checkAlerts([
+        { ledgerId: 'ledger-id', scope: 'ALL', period: 'DAILY', limit: 10000, alertThresholds: [0.5, 0.8, 0.95] },
+      ]);
+
+      expect(prismaService.notification.createMany).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,370 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { RewardAuditService } from './reward-audit.service';
+import { RewardPolicyService } from './reward-policy.service';
+import { getZonedDayBounds } from '@omnifit/shared';
+import type { RewardType } from '@omnifit/shared';
+
+export type EmissionPeriod = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+const EMISSION_SCOPES = ['ALL', 'ACTIVITY', 'STREAK', 'MILESTONE', 'PARTNER_REFERRAL', 'MANUAL'];
+const EMISSION_PERIODS: EmissionPeriod[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+const DEFAULT_ALERT_THRESHOLDS = [0.5, 0.8, 0.95, 1];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface BudgetLimit {
+  scope: string;
+  period: EmissionPeriod;
+  limit: number;
+  alertThresholds: number[];
+  source: 'budget' | 'policy';
+}
+
+export interface EmissionReservation {
+  ledgerId: string;
+  scope: string;
+  period: EmissionPeriod;
+  limit: number;
+  alertThresholds: number[];
+}
+
+export interface EmissionBudgetInput {
+  scope: string;
+  period: EmissionPeriod;
+  limit: number;
+  alertThresholds?: number[];
+  isActive?: boolean;
+}
+
+/**
+ * Thrown inside a reward transaction when a budget has no room left.
+ * The transaction rolls back and the reward is retried after resumeAt.
+ */
+export class EmissionBudgetExhaustedError extends Error {
+  constructor(
+    readonly scope: string,
+    readonly period: EmissionPeriod,
+    readonly ledgerId: string,
+    readonly amount: number,
+    readonly resumeAt: Date
+  ) {
+    super(`${period} ${scope} emission budget exhausted until ${resumeAt.toISOString()}`);
+    this.name = 'EmissionBudgetExhaustedError';
+  }
+}
+
+@Injectable()
+export class EmissionBudgetService {
+  private readonly logger = new Logger(EmissionBudgetService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: RewardAuditService,
+    private readonly policyService: RewardPolicyService
+  ) {}
+
+  /**
+   * Count a reward against every budget covering its type. Must run inside
+   * the transaction that creates the reward so a rollback releases the
+   * reservation; throws EmissionBudgetExhaustedError when any budget is full.
+   */
+  async reserve(
+    tx: any,
+    rewardType: RewardType,
+    amount: number,
+    at: Date = new Date()
+  ): Promise<EmissionReservation[]> {
+    if (amount <= 0) {
+      return [];
+    }
+
+    const budgets = await this.getApplicableBudgets(rewardType);
+    const reservations: EmissionReservation[] = [];
+
+    for (const budget of budgets) {
+      const { start, end } = this.getPeriodBounds(budget.period, at);
+
+      const ledger = await tx.emissionLedger.upsert({
+        where: {
+          scope_period_periodStart: { scope: budget.scope, period: budget.period, periodStart: start }
+        },
+        create: {
+          scope: budget.scope,
+          period: budget.period,
+          periodStart: start,
+          periodEnd: end,
+          limit: budget.limit
+        },
+        update: {}
+      });
+
+      // Conditional increment: the row lock makes concurrent workers queue up here
+      const updated = await tx.emissionLedger.updateMany({
+        where: {
+          id: ledger.id,
+          emitted: { lte: ledger.limit - amount }
+        },
+        data: { emitted: { increment: amount } }
+      });
+
+      if (updated.count === 0) {
+        throw new EmissionBudgetExhaustedError(budget.scope, budget.period, ledger.id, amount, end);
+      }
+
+      reservations.push({
+        ledgerId: ledger.id,
+        scope: budget.scope,
+        period: budget.period,
+        limit: ledger.limit,
+        alertThresholds: budget.alertThresholds
+      });
+    }
+
+    return reservations;
+  }
+
+  /**
+   * Raise alerts for thresholds crossed by committed reservations
+   */
+  async checkAlerts(reservations: EmissionReservation[]) {
+    for (const reservation of reservations) {
+      try {
+        const ledger = await this.prisma.emissionLedger.findUnique({
+          where: { id: reservation.ledgerId }
+        });
+        if (!ledger || ledger.limit <= 0) continue;
+
+        const usage = ledger.emitted / ledger.limit;
+        const threshold = [...reservation.alertThresholds]
+          .sort((a, b) => b - a)
+          .find((t) => usage >= t);
+
+        if (threshold !== undefined) {
+          await this.raiseAlert(ledger, threshold);
+        }
+      } catch (error) {
+        this.logger.error(`Failed to check emission alerts for ledger ${reservation.ledgerId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Record demand that a full budget pushed into a later period
+   */
+  async recordDeferral(error: EmissionBudgetExhaustedError) {
+    const ledger = await this.prisma.emissionLedger.update({
+      where: { id: error.ledgerId },
+      data: { deferred: { increment: error.amount } }
+    });
+
+    await this.raiseAlert(ledger, 1);
+  }
+
+  /**
+   * Current-period usage of every budget
+   */
+  async getBudgetBurn(at: Date = new Date()) {
+    const budgets = await this.getConfiguredBudgets();
+
+    return await Promise.all(
+      budgets.map(async (budget) => {
+        const { start, end } = this.getPeriodBounds(budget.period, at);
+        const ledger = await this.prisma.emissionLedger.findUnique({
+          where: {
+            scope_period_periodStart: { scope: budget.scope, period: budget.period, periodStart: start }
+          }
+        });
+
+        const limit = ledger?.limit ?? budget.limit;
+        const emitted = ledger?.emitted || 0;
+        const elapsed = Math.min(1, (at.getTime() - start.getTime()) / (end.getTime() - start.getTime()));
+
+        return {
+          scope: budget.scope,
+          period: budget.period,
+          source: budget.source,
+          periodStart: start,
+          periodEnd: end,
+          limit,
+          emitted,
+          remaining: Math.max(0, limit - emitted),
+          deferred: ledger?.deferred || 0,
+          usage: limit > 0 ? Math.round((emitted / limit) * 10000) / 100 : null,
+          // Straight-line projection of emissions at the end of the period
+          projected: elapsed > 0 ? Math.round(emitted / elapsed) : 0,
+          alertThresholds: budget.alertThresholds,
+          lastAlertThreshold: ledger?.lastAlertThreshold || 0
+        };
+      })
+    );
+  }
+
+  async getBudgets() {
+    return await this.prisma.emissionBudget.findMany({
+      orderBy: [{ scope: 'asc' }, { period: 'asc' }]
+    });
+  }
+
+  async upsertBudget(
+    input: EmissionBudgetInput,
+    context: { adminId: string; ipAddress?: string; userAgent?: string }
+  ) {
+    this.assertValidBudget(input);
+
+    const existing = await this.prisma.emissionBudget.findUnique({
+      where: { scope_period: { scope: input.scope, period: input.period } }
+    });
+
+    const data = {
+      limit: input.limit,
+      alertThresholds: input.alertThresholds ?? (existing?.alertThresholds as number[]) ?? DEFAULT_ALERT_THRESHOLDS,
+      isActive: input.isActive ?? existing?.isActive ?? true,
+      updatedBy: context.adminId
+    };
+
+    const budget = await this.prisma.emissionBudget.upsert({
+      where: { scope_period: { scope: input.scope, period: input.period } },
+      create: { scope: input.scope, period: input.period, ...data },
+      update: data
+    });
+
+    // The new limit applies to the period already in progress
+    const { start } = this.getPeriodBounds(input.period, new Date());
+    await this.prisma.emissionLedger.updateMany({
+      where: { scope: input.scope, period: input.period, periodStart: start },
+      data: { limit: input.limit }
+    });
+
+    await this.auditService.logRuleChange(
+      context.adminId,
+      existing ? 'emission_budget_updated' : 'emission_budget_created',
+      budget.id,
+      existing,
+      budget,
+      context.ipAddress,
+      context.userAgent
+    );
+
+    return budget;
+  }
+
+  private assertValidBudget(input: EmissionBudgetInput) {
+    if (!EMISSION_SCOPES.includes(input.scope)) {
+      throw new BadRequestException(`scope must be one of ${EMISSION_SCOPES.join(', ')}`);
+    }
+    if (!EMISSION_PERIODS.includes(input.period)) {
+      throw new BadRequestException(`period must be one of ${EMISSION_PERIODS.join(', ')}`);
+    }
+    if (!Number.isInteger(input.limit) || input.limit < 0) {
+      throw new BadRequestException('limit must be a non-negative integer');
+    }
+    if (input.alertThresholds && !input.alertThresholds.every((t) => typeof t === 'number' && t > 0 && t <= 1)) {
+      throw new BadRequestException('alertThresholds must be fractions between 0 and 1');
+    }
+  }
+
+  private async raiseAlert(ledger: any, threshold: number) {
+    // Only the worker that moves the mark up raises the alert
+    const claimed = await this.prisma.emissionLedger.updateMany({
+      where: { id: ledger.id, lastAlertThreshold: { lt: threshold } },
+      data: { lastAlertThreshold: threshold }
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const percent = Math.round(threshold * 100);
+    const message = `${ledger.period} ${ledger.scope} emission budget at ${percent}%: ` +
+      `${ledger.emitted} of ${ledger.limit} tokens emitted`;
+
+    this.logger.warn(message);
+
+    await this.auditService.logEmissionEvent('emission_budget_alert', ledger.id, {
+      scope: ledger.scope,
+      period: ledger.period,
+      periodStart: ledger.periodStart,
+      threshold,
+      emitted: ledger.emitted,
+      limit: ledger.limit,
+      deferred: ledger.deferred
+    });
+
+    const admins = await this.prisma.user.findMany({
+      where: { role: { in: ['ADMIN', 'SUPER_ADMIN'] } },
+      select: { id: true }
+    });
+
+    if (admins.length > 0) {
+      await this.prisma.notification.createMany({
+        data: admins.map((admin) => ({
+          userId: admin.id,
+          type: 'SYSTEM',
+          title: threshold >= 1 ? 'Emission budget exhausted' : 'Emission budget alert',
+          message,
+          data: { ledgerId: ledger.id, scope: ledger.scope, period: ledger.period, threshold }
+        }))
+      });
+    }
+  }
+
+  private async getApplicableBudgets(rewardType: RewardType): Promise<BudgetLimit[]> {
+    const budgets = await this.getConfiguredBudgets();
+    return budgets.filter((b) => b.scope === 'ALL' || b.scope === rewardType);
+  }
+
+  /**
+   * Active budgets, plus the policy's dailyCaps.total as the ALL/DAILY budget
+   * unless a row overrides it (an inactive row switches it off)
+   */
+  private async getConfiguredBudgets(): Promise<BudgetLimit[]> {
+    const [rows, policy] = await Promise.all([
+      this.prisma.emissionBudget.findMany({ where: { isActive: true } }),
+      this.policyService.getActivePolicy()
+    ]);
+
+    const budgets: BudgetLimit[] = rows.map((row) => ({
+      scope: row.scope,
+      period: row.period as EmissionPeriod,
+      limit: row.limit,
+      alertThresholds: (row.alertThresholds as number[]) || DEFAULT_ALERT_THRESHOLDS,
+      source: 'budget'
+    }));
+
+    const hasTotalDaily = await this.prisma.emissionBudget.count({
+      where: { scope: 'ALL', period: 'DAILY' }
+    });
+
+    if (!hasTotalDaily && policy.config.dailyCaps?.total) {
+      budgets.push({
+        scope: 'ALL',
+        period: 'DAILY',
+        limit: policy.config.dailyCaps.total,
+        alertThresholds: DEFAULT_ALERT_THRESHOLDS,
+        source: 'policy'
+      });
+    }
+
+    return budgets;
+  }
+
+  /**
+   * UTC period containing the instant; weeks start on Monday
+   */
+  private getPeriodBounds(period: EmissionPeriod, at: Date): { start: Date; end: Date } {
+    switch (period) {
+      case 'DAILY':
+        return getZonedDayBounds(at, 'UTC');
+      case 'WEEKLY': {
+        const { start: dayStart } = getZonedDayBounds(at, 'UTC');
+        const start = new Date(dayStart.getTime() - ((dayStart.getUTCDay() + 6) % 7) * DAY_MS);
+        return { start, end: new Date(start.getTime() + 7 * DAY_MS) };
+      }
+      case 'MONTHLY':
+        return {
+          start: new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1)),
+          end: new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1))
+        };
+    }
+  }
+}
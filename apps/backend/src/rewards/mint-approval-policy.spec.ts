@@ -0,0 +1,69 @@
+import type { MintApprovalPolicy } from '@omnifit/shared';
+import { evaluateApprovals, getApprovalRequirement, validateApprovalPolicy } from './mint-approval-policy';
+
+describe('mint approval policy', () => {
+  const policy: MintApprovalPolicy = {
+    tiers: [
+      { minTokens: 0, approvals: 1 },
+      { minTokens: 5000, approvals: 2 },
+      { minTokens: 25000, approvals: 2, requiredRole: 'SUPER_ADMIN' },
+    ],
+    highRisk: { riskScore: 0.7, approvals: 2 },
+  };
+
+  describe('getApprovalRequirement', () => {
+    it('should apply the highest tier the amount reaches', () => {
+      expect(getApprovalRequirement(policy, { tokenAmount: 100 })).toEqual({ approvals: 1, requiredRole: undefined });
+      expect(getApprovalRequirement(policy, { tokenAmount: 5000 })).toEqual({ approvals: 2, requiredRole: undefined });
+      expect(getApprovalRequirement(policy, { tokenAmount: 30000 })).toEqual({ approvals: 2, requiredRole: 'SUPER_ADMIN' });
+    });
+
+    it('should require more approvals for high-risk requests', () => {
+      expect(getApprovalRequirement(policy, { tokenAmount: 100, riskScore: 0.8 }).approvals).toBe(2);
+      expect(getApprovalRequirement(policy, { tokenAmount: 100, riskScore: 0.7 }).approvals).toBe(1);
+    });
+  });
+
+  describe('evaluateApprovals', () => {
+    it('should count each admin once', () => {
+      const status = evaluateApprovals(policy, { tokenAmount: 6000 }, [
+        { adminId: 'admin-1', adminRole: 'ADMIN' },
+        { adminId: 'admin-1', adminRole: 'ADMIN' },
+      ]);
+
+      expect(status).toMatchObject({ required: 2, received: 1, satisfied: false });
+    });
+
+    it('should not be satisfied without the required role', () => {
+      const approvals = [
+        { adminId: 'admin-1', adminRole: 'ADMIN' },
+        { adminId: 'admin-2', adminRole: 'ADMIN' },
+      ];
+
+      expect(evaluateApprovals(policy, { tokenAmount: 30000 }, approvals)).toMatchObject({
+        received: 2,
+        hasRequiredRole: false,
+        satisfied: false,
+      });
+      expect(
+        evaluateApprovals(policy, { tokenAmount: 30000 }, [
+          approvals[0],
+          { adminId: 'super-1', adminRole: 'SUPER_ADMIN' },
+        ]).satisfied
+      ).toBe(true);
+    });
+  });
+
+  describe('validateApprovalPolicy', () => {
+    it('should reject unusable tiers', () => {
+      expect(validateApprovalPolicy(policy)).toEqual([]);
+      expect(
+        validateApprovalPolicy({
+          tiers: [{ minTokens: -1, approvals: 0, requiredRole: 'OWNER' }],
+          highRisk: { riskScore: 0.7, approvals: 2 },
+        })
+      ).toHaveLength(3);
+      expect(validateApprovalPolicy({ tiers: [] })).toHaveLength(2);
+    });
+  });
+});
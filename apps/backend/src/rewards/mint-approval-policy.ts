@@ -0,0 +1,130 @@
+/**
+ * Mint approval policy
+ *
+ * How many distinct admins must approve a mint request before it is
+ * APPROVED, from the approvalPolicy section of rewards.config.json:
+ *
+ *   { "tiers": [ { "minTokens": 5000, "approvals": 2 },
+ *                { "minTokens": 25000, "approvals": 2, "requiredRole": "SUPER_ADMIN" } ],
+ *     "highRisk": { "riskScore": 0.7, "approvals": 2 } }
+ *
+ * The highest tier whose minTokens the request reaches applies. Requests
+ * scored above highRisk.riskScore need at least highRisk.approvals.
+ * MintRequestService gets it injected under MINT_APPROVAL_POLICY, loaded
+ * when the module starts so an invalid policy fails the boot.
+ */
+
+import type {
+  MintApprovalPolicy,
+  MintApprovalStatus,
+  MintApprovalTier,
+  UserRole,
+} from '@omnifit/shared';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROLES: UserRole[] = ['USER', 'PARTNER', 'ADMIN', 'SUPER_ADMIN'];
+
+export const MINT_APPROVAL_POLICY = 'MINT_APPROVAL_POLICY';
+
+export const DEFAULT_APPROVAL_POLICY: MintApprovalPolicy = {
+  tiers: [{ minTokens: 0, approvals: 1 }],
+  highRisk: { riskScore: 0.7, approvals: 2 },
+};
+
+export interface ApprovalRequirement {
+  approvals: number;
+  requiredRole?: UserRole;
+}
+
+/**
+ * Approvals needed for a request of this size and risk
+ */
+export function getApprovalRequirement(
+  policy: MintApprovalPolicy,
+  request: { tokenAmount: number; riskScore?: number | null }
+): ApprovalRequirement {
+  const tier = policy.tiers
+    .filter((t) => request.tokenAmount >= t.minTokens)
+    .reduce<MintApprovalTier | null>((best, t) => (!best || t.minTokens > best.minTokens ? t : best), null);
+
+  let approvals = Math.max(1, tier?.approvals ?? 1);
+  if ((request.riskScore ?? 0) > policy.highRisk.riskScore) {
+    approvals = Math.max(approvals, policy.highRisk.approvals);
+  }
+
+  return { approvals, requiredRole: tier?.requiredRole };
+}
+
+/**
+ * Whether the approvals collected so far satisfy the policy. Approvals are
+ * counted per admin, so the same admin twice counts once.
+ */
+export function evaluateApprovals(
+  policy: MintApprovalPolicy,
+  request: { tokenAmount: number; riskScore?: number | null },
+  approvals: Array<{ adminId: string; adminRole: string }>
+): MintApprovalStatus {
+  const requirement = getApprovalRequirement(policy, request);
+  const received = new Set(approvals.map((a) => a.adminId)).size;
+  const hasRequiredRole = !requirement.requiredRole ||
+    approvals.some((a) => a.adminRole === requirement.requiredRole);
+
+  return {
+    required: requirement.approvals,
+    received,
+    requiredRole: requirement.requiredRole,
+    hasRequiredRole,
+    satisfied: received >= requirement.approvals && hasRequiredRole,
+  };
+}
+
+/**
+ * Check a policy is usable; returns the problems found
+ */
+export function validateApprovalPolicy(policy: any): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(policy?.tiers) || policy.tiers.length === 0) {
+    errors.push('tiers must be a non-empty array');
+  } else {
+    policy.tiers.forEach((tier: any, i: number) => {
+      if (typeof tier.minTokens !== 'number' || tier.minTokens < 0) {
+        errors.push(`tiers[${i}].minTokens must be a non-negative number`);
+      }
+      if (!Number.isInteger(tier.approvals) || tier.approvals < 1) {
+        errors.push(`tiers[${i}].approvals must be a positive integer`);
+      }
+      if (tier.requiredRole !== undefined && !ROLES.includes(tier.requiredRole)) {
+        errors.push(`tiers[${i}].requiredRole must be one of ${ROLES.join(', ')}`);
+      }
+    });
+  }
+
+  if (typeof policy?.highRisk?.riskScore !== 'number' || !Number.isInteger(policy?.highRisk?.approvals)) {
+    errors.push('highRisk must have a numeric riskScore and integer approvals');
+  }
+
+  return errors;
+}
+
+/**
+ * The approvalPolicy section of rewards.config.json. A missing section falls
+ * back to a single approval (two for high-risk requests); an invalid one
+ * throws so a typo cannot silently lower the bar.
+ */
+export function loadApprovalPolicy(): MintApprovalPolicy {
+  const configPath = process.env.REWARDS_CONFIG_PATH || path.join(process.cwd(), 'rewards.config.json');
+  const raw = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+
+  if (raw.approvalPolicy === undefined) {
+    return DEFAULT_APPROVAL_POLICY;
+  }
+
+  const errors = validateApprovalPolicy(raw.approvalPolicy);
+  if (errors.length > 0) {
+    throw new Error(`Invalid approvalPolicy in rewards.config.json: ${errors.join('; ')}`);
+  }
+
+  return raw.approvalPolicy;
+}
@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, UnauthorizedException } from '@nestjs/common';
+import * as nacl from 'tweetnacl';
+import * as bs58 from 'bs58';
+import { MintRequestService } from './mint-request.service';
+import { RewardAuditService } from './reward-audit.service';
+import { RiskScoringService } from './risk-scoring.service';
+import { DEFAULT_APPROVAL_POLICY, MINT_APPROVAL_POLICY } from './mint-approval-policy';
+import { CLAIM_SIGNATURE_CONFIG } from './claim-signature-config';
+import { LedgerService } from '../ledger/ledger.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('MintRequestService claims', () => {
+  let service: MintRequestService;
+  let prismaService: any;
+  let tx: any;
+  let claimSignatureConfig: any;
+
+  const keypair = nacl.sign.keyPair();
+  const wallet = bs58.encode(keypair.publicKey);
+  const sign = (message: string) => bs58.encode(nacl.sign.detached(new TextEncoder().encode(message), keypair.secretKey));
+
+  const rewards = [
+    { id: 'reward-2', amount: 40 },
+    { id: 'reward-1', amount: 60 }
+  ];
+
+  beforeEach(async () => {
+    claimSignatureConfig = { required: false, challengeMinutes: 5 };
+    tx = {
+      mintRequest: {
+        create: jest.fn().mockResolvedValue({ id: 'mint-1' }),
+        findUnique: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 })
+      },
+      reward: { updateMany: jest.fn().mockImplementation(({ where }) => ({ count: where.id.in.length })) },
+      claimChallenge: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      mintRequestTransition: { create: jest.fn() }
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MintRequestService,
+        {
+          provide: PrismaService,
+          useValue: {
+            user: {
+              findUnique: jest.fn().mockResolvedValue({ walletAddress: wallet, walletLastVerified: new Date() })
+            },
+            reward: { findMany: jest.fn().mockResolvedValue(rewards) },
+            rewardDebt: { findMany: jest.fn().mockResolvedValue([]) },
+            claimChallenge: { create: jest.fn(), findUnique: jest.fn(), updateMany: jest.fn() },
+            $transaction: jest.fn((callback) => callback(tx))
+          }
+        },
+        { provide: RewardAuditService, useValue: { logMintRequest: jest.fn() } },
+        { provide: MINT_APPROVAL_POLICY, useValue: DEFAULT_APPROVAL_POLICY },
+        { provide: CLAIM_SIGNATURE_CONFIG, useValue: claimSignatureConfig },
+        { provide: LedgerService, useValue: { recordClaimRequested: jest.fn() } },
+        {
+          provide: RiskScoringService,
+          useValue: {
+            scoreClaim: jest.fn().mockResolvedValue({ score: 0.1, flagged: false, features: [], reasoning: 'Low risk' }),
+            recordAssessment: jest.fn()
+          }
+        }
+      ]
+    }).compile();
+
+    service = module.get<MintRequestService>(MintRequestService);
+    prismaService = module.get(PrismaService);
+  });
+
+  const issueChallenge = async () => {
+    const challenge = await service.createClaimChallenge('user-1', ['reward-2', 'reward-1']);
+    const stored = prismaService.claimChallenge.create.mock.calls[0][0].data;
+    prismaService.claimChallenge.findUnique.mockResolvedValue({ id: 'challenge-1', status: 'PENDING', ...stored });
+    return challenge;
+  };
+
+  it('should mint to the verified wallet and refuse any other', async () => {
+    await service.createMintRequest('user-1', ['reward-1', 'reward-2']);
+    expect(tx.mintRequest.create.mock.calls[0][0].data.recipientWallet).toBe(wallet);
+
+    const other = bs58.encode(nacl.sign.keyPair().publicKey);
+    await expect(service.createMintRequest('user-1', ['reward-1', 'reward-2'], other)).rejects.toThrow(
+      'Rewards can only be claimed to your verified wallet'
+    );
+  });
+
+  it('should only claim rewards that are still approved', async () => {
+    // A concurrent claim took reward-2 first
+    tx.reward.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.createMintRequest('user-1', ['reward-1', 'reward-2'])).rejects.toThrow(ConflictException);
+    expect(tx.reward.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: { in: ['reward-1', 'reward-2'] }, status: 'APPROVED' } })
+    );
+  });
+
+  it('should not claim before a wallet is verified', async () => {
+    prismaService.user.findUnique.mockResolvedValue({ walletAddress: wallet, walletLastVerified: null });
+
+    await expect(service.createMintRequest('user-1', ['reward-1'])).rejects.toThrow(BadRequestException);
+  });
+
+  it('should sign the rewards, amount, nonce and expiry', async () => {
+    const challenge = await issueChallenge();
+
+    expect(challenge.tokenAmount).toBe(100);
+    expect(challenge.message).toContain(`Wallet: ${wallet}`);
+    expect(challenge.message).toContain('Amount: 100');
+    expect(challenge.message).toContain('Rewards: reward-1, reward-2');
+    expect(challenge.message).toContain(`Nonce: ${challenge.nonce}`);
+    expect(challenge.message).toContain(`Expires: ${challenge.expiresAt.toISOString()}`);
+  });
+
+  it('should use up a valid signed challenge with the claim', async () => {
+    const challenge = await issueChallenge();
+
+    await service.createMintRequest('user-1', ['reward-1', 'reward-2'], undefined, undefined, undefined, {
+      nonce: challenge.nonce,
+      signature: sign(challenge.message)
+    });
+
+    expect(tx.claimChallenge.updateMany).toHaveBeenCalledWith({
+      where: { id: 'challenge-1', status: 'PENDING' },
+      data: expect.objectContaining({ status: 'VERIFIED', mintRequestId: 'mint-1' })
+    });
+  });
+
+  it('should reject a signature over a different message', async () => {
+    const challenge = await issueChallenge();
+
+    await expect(
+      service.createMintRequest('user-1', ['reward-1', 'reward-2'], undefined, undefined, undefined, {
+        nonce: challenge.nonce,
+        signature: sign(challenge.message.replace('Amount: 100', 'Amount: 1000'))
+      })
+    ).rejects.toThrow(UnauthorizedException);
+    expect(prismaService.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should reject a challenge signed for other rewards', async () => {
+    const challenge = await issueChallenge();
+    prismaService.reward.findMany.mockResolvedValue([rewards[1]]);
+
+    await expect(
+      service.createMintRequest('user-1', ['reward-1'], undefined, undefined, undefined, {
+        nonce: challenge.nonce,
+        signature: sign(challenge.message)
+      })
+    ).rejects.toThrow('Claim does not match the signed challenge');
+  });
+
+  it('should require a signature when the config says so', async () => {
+    claimSignatureConfig.required = true;
+
+    await expect(service.createMintRequest('user-1', ['reward-1', 'reward-2'])).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should not reject a request another admin has just approved', async () => {
+    tx.mintRequest.findUnique.mockResolvedValue({
+      id: 'mint-1',
+      userId: 'user-1',
+      status: 'ADMIN_REVIEW',
+      rewardIds: ['reward-1'],
+      debtOffset: 0
+    });
+    tx.mintRequest.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.rejectMintRequest('mint-1', 'admin-1', 'Looks automated')).rejects.toThrow(ConflictException);
+    expect(tx.mintRequest.updateMany).toHaveBeenCalledWith({
+      where: { id: 'mint-1', status: { in: ['ADMIN_REVIEW', 'QUEUED'] } },
+      data: expect.objectContaining({ status: 'REJECTED', reviewedBy: 'admin-1' })
+    });
+    expect(tx.reward.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should only complete a mint for the worker holding its lease', async () => {
+    tx.mintRequest.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.updateMintStatus('mint-1', 'worker-2', 'signature-1')).rejects.toThrow(ConflictException);
+    expect(tx.mintRequest.updateMany).toHaveBeenCalledWith({
+      where: { id: 'mint-1', status: 'MINTING', leasedBy: 'worker-2' },
+      data: expect.objectContaining({ status: 'COMPLETED', mintSignature: 'signature-1' })
+    });
+  });
+});
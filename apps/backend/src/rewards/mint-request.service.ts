@@ -1,100 +1,186 @@
-import { Injectable, BadRequestException, ForbiddenException } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  UnauthorizedException
+} from '@nestjs/common';
+import * as crypto from 'crypto';
+import { SignatureVerifier } from '@omnifit/shared';
 import { PrismaService } from '../prisma/prisma.service';
 import { RewardAuditService } from './reward-audit.service';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import { LedgerService } from '../ledger/ledger.service';
+import { evaluateApprovals, MINT_APPROVAL_POLICY } from './mint-approval-policy';
+import { CLAIM_SIGNATURE_CONFIG } from './claim-signature-config';
+import { RiskScoringService } from './risk-scoring.service';
+import type { ClaimSignatureConfig, MintApprovalPolicy } from '@omnifit/shared';
+
+// A claim challenge signed by the user's wallet
+export interface ClaimAuthorization {
+  nonce: string;
+  signature: string;
+}
 
-interface RiskAssessment {
-  score: number; // 0-1, higher is riskier
-  factors: string[];
-  reasoning: string;
+export interface MintRequestReversal {
+  mintRequestId: string;
+  userId: string;
+  previousStatus: string;
+  status: string;
+  tokenAmount: number;
+  debtOffset: number;
+  removedRewardIds: string[];
+  shortfalls: Map<string, number>; // per reward, tokens the claim no longer covers
 }
 
+/**
+ * Claims and their review. Mint requests are the mint queue: blockchain
+ * workers lease APPROVED requests from the table, and every status change
+ * is recorded as a MintRequestTransition. Admin approvals are collected per
+ * request until the approval policy is satisfied.
+ */
 @Injectable()
 export class MintRequestService {
-  private readonly mintRequestStorePath = path.join(
-    process.cwd(),
-    'apps/blockchain/mint-requests'
-  );
-
   constructor(
     private readonly prisma: PrismaService,
-    private readonly auditService: RewardAuditService
-  ) {
-    this.ensureMintRequestDirectory();
-  }
-
-  private async ensureMintRequestDirectory() {
-    try {
-      await fs.mkdir(this.mintRequestStorePath, { recursive: true });
-    } catch (error) {
-      console.error('Failed to create mint request directory:', error);
-    }
-  }
-
-  async createMintRequest(
+    private readonly auditService: RewardAuditService,
+    private readonly ledgerService: LedgerService,
+    private readonly riskScoringService: RiskScoringService,
+    @Inject(MINT_APPROVAL_POLICY) private readonly approvalPolicy: MintApprovalPolicy,
+    @Inject(CLAIM_SIGNATURE_CONFIG) private readonly claimSignatureConfig: ClaimSignatureConfig
+  ) {}
+
+  /**
+   * Issue a message for the user's wallet to sign, naming the rewards, the
+   * amount that would be minted and a single-use nonce. Passing the signed
+   * challenge to createMintRequest proves the wallet owner asked for the claim.
+   */
+  async createClaimChallenge(
     userId: string,
     rewardIds: string[],
-    recipientWallet: string,
     ipAddress?: string,
     userAgent?: string
   ) {
-    // Validate rewards belong to user and are claimable
-    const rewards = await this.prisma.reward.findMany({
-      where: {
-        id: { in: rewardIds },
+    const walletAddress = await this.getVerifiedWallet(userId);
+    const { tokenAmount } = await this.quoteClaim(userId, rewardIds);
+
+    const nonce = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + this.claimSignatureConfig.challengeMinutes * 60 * 1000);
+    const sortedRewardIds = [...rewardIds].sort();
+    const message = SignatureVerifier.createClaimMessage({
+      userId,
+      walletAddress,
+      rewardIds: sortedRewardIds,
+      tokenAmount,
+      nonce,
+      expiresAt
+    });
+
+    await this.prisma.claimChallenge.create({
+      data: {
         userId,
-        status: 'APPROVED'
+        walletAddress,
+        rewardIds: sortedRewardIds,
+        tokenAmount,
+        nonce,
+        message,
+        expiresAt,
+        ipAddress,
+        userAgent
       }
     });
 
-    if (rewards.length !== rewardIds.length) {
-      throw new BadRequestException('Some rewards are not available for claiming');
-    }
-
-    const totalAmount = rewards.reduce((sum, reward) => sum + reward.amount, 0);
+    return { nonce, message, expiresAt, walletAddress, tokenAmount };
+  }
 
-    if (totalAmount <= 0) {
-      throw new BadRequestException('No tokens to claim');
+  /**
+   * Claim rewards to the user's verified wallet. A signed claim challenge is
+   * checked when given, and needed when claimSignature.required is set.
+   */
+  async createMintRequest(
+    userId: string,
+    rewardIds: string[],
+    recipientWallet?: string,
+    ipAddress?: string,
+    userAgent?: string,
+    authorization?: ClaimAuthorization
+  ) {
+    const walletAddress = await this.getVerifiedWallet(userId);
+    if (recipientWallet && recipientWallet !== walletAddress) {
+      throw new BadRequestException('Rewards can only be claimed to your verified wallet');
     }
 
-    // Validate wallet address format (basic Solana address validation)
-    if (!this.isValidSolanaAddress(recipientWallet)) {
-      throw new BadRequestException('Invalid wallet address format');
-    }
+    const { rewards, totalAmount, debts, debtOffset, tokenAmount } = await this.quoteClaim(userId, rewardIds);
+    const challenge = await this.checkClaimAuthorization(userId, walletAddress, rewardIds, tokenAmount, authorization);
 
     // Risk assessment
-    const riskAssessment = await this.assessRisk(userId, totalAmount, recipientWallet);
+    const riskAssessment = await this.riskScoringService.scoreClaim({
+      userId,
+      tokenAmount,
+      recipientWallet: walletAddress,
+      ipAddress,
+      userAgent
+    });
 
-    // Determine initial status based on risk
-    const status = riskAssessment.score > 0.7 ? 'ADMIN_REVIEW' : 'QUEUED';
+    // Determine initial status based on risk; a claim that only pays off debt has nothing to mint
+    const status = tokenAmount === 0
+      ? 'COMPLETED'
+      : riskAssessment.flagged ? 'ADMIN_REVIEW' : 'QUEUED';
+
+    const mintRequest = await this.prisma.$transaction(async (tx) => {
+      // Create mint request
+      const created = await tx.mintRequest.create({
+        data: {
+          userId,
+          tokenAmount,
+          debtOffset,
+          recipientWallet: walletAddress,
+          description: debtOffset > 0
+            ? `Claiming ${rewards.length} rewards (${totalAmount} tokens, ${debtOffset} netted against reward debt)`
+            : `Claiming ${rewards.length} rewards (${totalAmount} tokens)`,
+          rewardIds,
+          status,
+          riskScore: riskAssessment.score,
+          ipAddress,
+          userAgent
+        }
+      });
 
-    // Create mint request
-    const mintRequest = await this.prisma.mintRequest.create({
-      data: {
-        userId,
-        tokenAmount: totalAmount,
-        recipientWallet,
-        description: `Claiming ${rewards.length} rewards (${totalAmount} tokens)`,
-        rewardIds,
-        status,
-        riskScore: riskAssessment.score,
-        ipAddress,
-        userAgent
+      // The challenge authorizes this one claim
+      if (challenge) {
+        const used = await tx.claimChallenge.updateMany({
+          where: { id: challenge.id, status: 'PENDING' },
+          data: {
+            status: 'VERIFIED',
+            signature: authorization!.signature,
+            verifiedAt: new Date(),
+            mintRequestId: created.id
+          }
+        });
+        if (used.count === 0) {
+          throw new ConflictException('Claim challenge was already used');
+        }
       }
-    });
 
-    // Mark rewards as claimed
-    await this.prisma.reward.updateMany({
-      where: { id: { in: rewardIds } },
-      data: {
-        status: 'CLAIMED',
-        claimedAt: new Date()
+      // Mark rewards as claimed; a concurrent claim of the same rewards gets none
+      const claimed = await tx.reward.updateMany({
+        where: { id: { in: rewardIds }, status: 'APPROVED' },
+        data: {
+          status: 'CLAIMED',
+          claimedAt: new Date()
+        }
+      });
+      if (claimed.count !== rewardIds.length) {
+        throw new ConflictException('Some rewards were already claimed');
       }
-    });
 
-    // Create JSON file for blockchain operator
-    await this.createMintRequestFile(mintRequest, rewards, riskAssessment);
+      await this.settleDebts(tx, debts, debtOffset);
+      await this.ledgerService.recordClaimRequested(tx, created);
+      await this.riskScoringService.recordAssessment(tx, created.id, userId, riskAssessment);
+      await this.recordTransition(tx, created.id, null, status, userId, riskAssessment.reasoning);
+
+      return created;
+    });
 
     // Audit the mint request
     await this.auditService.logMintRequest(
@@ -102,10 +188,13 @@ export class MintRequestService {
       'mint_request_created',
       mintRequest.id,
       {
-        tokenAmount: totalAmount,
+        tokenAmount,
+        debtOffset,
         rewardIds,
-        recipientWallet,
+        recipientWallet: walletAddress,
+        walletSigned: !!challenge,
         riskScore: riskAssessment.score,
+        riskFeatures: riskAssessment.features.filter((f) => f.contribution > 0),
         status
       },
       userId,
@@ -115,14 +204,21 @@ export class MintRequestService {
 
     return {
       mintRequestId: mintRequest.id,
-      tokenAmount: totalAmount,
+      tokenAmount,
+      debtOffset,
       status,
       riskScore: riskAssessment.score,
+      riskReasoning: riskAssessment.reasoning,
       requiresReview: status === 'ADMIN_REVIEW',
       estimatedProcessingTime: status === 'ADMIN_REVIEW' ? '24-48 hours' : '1-6 hours'
     };
   }
 
+  /**
+   * Record an admin's approval. The request moves to APPROVED once enough
+   * distinct admins (and the required role, for the largest claims) have
+   * approved it; until then it stays in review with the approvals collected.
+   */
   async approveMintRequest(
     mintRequestId: string,
     adminId: string,
@@ -142,41 +238,145 @@ export class MintRequestService {
       throw new BadRequestException('Mint request cannot be approved in current status');
     }
 
-    // Update mint request
-    const updatedRequest = await this.prisma.mintRequest.update({
-      where: { id: mintRequestId },
-      data: {
-        status: 'APPROVED',
-        reviewedBy: adminId,
-        reviewNotes: notes,
-        reviewedAt: new Date()
-      }
+    if (mintRequest.userId === adminId) {
+      throw new ForbiddenException('Admins cannot approve their own claims');
+    }
+
+    const admin = await this.prisma.user.findUnique({
+      where: { id: adminId },
+      select: { role: true }
     });
 
-    // Update the JSON file
-    await this.updateMintRequestFile(mintRequestId, { 
-      approved: true, 
-      approvedBy: adminId,
-      approvedAt: new Date().toISOString(),
-      notes
+    if (!admin) {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    const policy = this.approvalPolicy;
+
+    const { updated, approvals, approvalStatus } = await this.prisma.$transaction(async (tx) => {
+      // Touching the row locks it, so concurrent approvals are counted one after another
+      const locked = await tx.mintRequest.updateMany({
+        where: { id: mintRequestId, status: { in: ['ADMIN_REVIEW', 'QUEUED'] } },
+        data: { updatedAt: new Date() }
+      });
+
+      if (locked.count === 0) {
+        throw new ConflictException('Mint request was updated by another admin, please refresh');
+      }
+
+      const existing = await tx.mintApproval.findFirst({
+        where: { mintRequestId, adminId }
+      });
+
+      if (existing) {
+        throw new ConflictException('You have already approved this mint request');
+      }
+
+      await tx.mintApproval.create({
+        data: {
+          mintRequestId,
+          adminId,
+          adminRole: admin.role,
+          notes,
+          ipAddress,
+          userAgent
+        }
+      });
+
+      const approvals = await tx.mintApproval.findMany({
+        where: { mintRequestId },
+        orderBy: { createdAt: 'asc' }
+      });
+      const approvalStatus = evaluateApprovals(policy, mintRequest, approvals);
+
+      if (!approvalStatus.satisfied) {
+        const pending = await tx.mintRequest.update({
+          where: { id: mintRequestId },
+          data: { status: 'ADMIN_REVIEW' }
+        });
+
+        if (mintRequest.status !== 'ADMIN_REVIEW') {
+          await this.recordTransition(
+            tx,
+            mintRequestId,
+            mintRequest.status,
+            'ADMIN_REVIEW',
+            adminId,
+            `Approval ${approvalStatus.received} of ${approvalStatus.required}`
+          );
+        }
+
+        return { updated: pending, approvals, approvalStatus };
+      }
+
+      // Update mint request
+      const approved = await tx.mintRequest.update({
+        where: { id: mintRequestId },
+        data: {
+          status: 'APPROVED',
+          reviewedBy: adminId,
+          reviewNotes: notes,
+          reviewedAt: new Date()
+        }
+      });
+
+      await this.recordTransition(
+        tx,
+        mintRequestId,
+        mintRequest.status,
+        'APPROVED',
+        adminId,
+        notes ?? `Approved by ${approvals.map((a) => a.adminId).join(', ')}`
+      );
+      await this.riskScoringService.recordOutcome(tx, mintRequestId, 'APPROVED', adminId, notes);
+
+      return { updated: approved, approvals, approvalStatus };
     });
 
-    // Audit the approval
+    const approvalChain = approvals.map((a) => ({
+      adminId: a.adminId,
+      adminRole: a.adminRole,
+      notes: a.notes,
+      approvedAt: a.createdAt
+    }));
+
+    // Audit each approval, and the approval that completes the chain
     await this.auditService.logMintRequest(
-      updatedRequest.userId,
-      'mint_request_approved',
+      updated.userId,
+      'mint_request_approval_recorded',
       mintRequestId,
       {
         approvedBy: adminId,
+        adminRole: admin.role,
         notes,
-        tokenAmount: updatedRequest.tokenAmount
+        tokenAmount: updated.tokenAmount,
+        riskScore: updated.riskScore,
+        approvals: approvalChain,
+        ...approvalStatus
       },
       adminId,
       ipAddress,
       userAgent
     );
 
-    return updatedRequest;
+    if (approvalStatus.satisfied) {
+      await this.auditService.logMintRequest(
+        updated.userId,
+        'mint_request_approved',
+        mintRequestId,
+        {
+          approvedBy: adminId,
+          notes,
+          tokenAmount: updated.tokenAmount,
+          approvals: approvalChain
+        },
+        adminId,
+        ipAddress,
+        userAgent
+      );
+    }
+
+    return { ...updated, approvals, approvalStatus };
   }
 
   async rejectMintRequest(
@@ -186,47 +386,52 @@ export class MintRequestService {
     ipAddress?: string,
     userAgent?: string
   ) {
-    const mintRequest = await this.prisma.mintRequest.findUnique({
-      where: { id: mintRequestId },
-      include: {
-        user: { select: { id: true } }
-      }
-    });
+    const updatedRequest = await this.prisma.$transaction(async (tx) => {
+      // Read inside the transaction; reversals may have taken rewards out of it
+      const mintRequest = await tx.mintRequest.findUnique({
+        where: { id: mintRequestId }
+      });
 
-    if (!mintRequest) {
-      throw new BadRequestException('Mint request not found');
-    }
+      if (!mintRequest) {
+        throw new BadRequestException('Mint request not found');
+      }
 
-    if (mintRequest.status !== 'ADMIN_REVIEW' && mintRequest.status !== 'QUEUED') {
-      throw new BadRequestException('Mint request cannot be rejected in current status');
-    }
+      if (mintRequest.status !== 'ADMIN_REVIEW' && mintRequest.status !== 'QUEUED') {
+        throw new BadRequestException('Mint request cannot be rejected in current status');
+      }
 
-    // Update mint request
-    const updatedRequest = await this.prisma.mintRequest.update({
-      where: { id: mintRequestId },
-      data: {
-        status: 'REJECTED',
+      const review = {
+        status: 'REJECTED' as const,
         reviewedBy: adminId,
         reviewNotes: reason,
         reviewedAt: new Date()
-      }
-    });
+      };
 
-    // Restore rewards to approved status
-    await this.prisma.reward.updateMany({
-      where: { id: { in: mintRequest.rewardIds } },
-      data: {
-        status: 'APPROVED',
-        claimedAt: null
+      // Only from a reviewable status; a concurrent approval or rejection wins
+      const rejected = await tx.mintRequest.updateMany({
+        where: { id: mintRequestId, status: { in: ['ADMIN_REVIEW', 'QUEUED'] } },
+        data: review
+      });
+
+      if (rejected.count === 0) {
+        throw new ConflictException('Mint request was updated by another admin, please refresh');
       }
-    });
 
-    // Update the JSON file
-    await this.updateMintRequestFile(mintRequestId, { 
-      rejected: true,
-      rejectedBy: adminId,
-      rejectedAt: new Date().toISOString(),
-      reason
+      // Restore rewards to approved status
+      await tx.reward.updateMany({
+        where: { id: { in: mintRequest.rewardIds }, status: 'CLAIMED' },
+        data: {
+          status: 'APPROVED',
+          claimedAt: null
+        }
+      });
+
+      await this.reopenDebts(tx, mintRequest.userId, mintRequest.debtOffset);
+      await this.ledgerService.recordClaimRejected(tx, mintRequest);
+      await this.recordTransition(tx, mintRequestId, mintRequest.status, 'REJECTED', adminId, reason);
+      await this.riskScoringService.recordOutcome(tx, mintRequestId, 'REJECTED', adminId, reason);
+
+      return { ...mintRequest, ...review };
     });
 
     // Audit the rejection
@@ -247,32 +452,146 @@ export class MintRequestService {
     return updatedRequest;
   }
 
+  /**
+   * Record a finished mint. Only the worker holding the lease on a request
+   * that is being minted can complete it.
+   */
   async updateMintStatus(
     mintRequestId: string,
+    workerId: string,
     signature: string,
     explorerUrl?: string
   ) {
-    const mintRequest = await this.prisma.mintRequest.update({
-      where: { id: mintRequestId },
-      data: {
-        status: 'COMPLETED',
-        mintSignature: signature,
-        explorerUrl,
-        mintedAt: new Date()
+    return await this.prisma.$transaction(async (tx) => {
+      const completed = await tx.mintRequest.updateMany({
+        where: { id: mintRequestId, status: 'MINTING', leasedBy: workerId },
+        data: {
+          status: 'COMPLETED',
+          mintSignature: signature,
+          explorerUrl,
+          mintedAt: new Date(),
+          leasedBy: null,
+          leaseExpiresAt: null
+        }
+      });
+
+      if (completed.count === 0) {
+        throw new ConflictException(`Mint request ${mintRequestId} is not being minted by ${workerId}`);
       }
+
+      const updated = await tx.mintRequest.findUnique({
+        where: { id: mintRequestId }
+      });
+
+      await this.ledgerService.recordClaimMinted(tx, updated);
+      await this.recordTransition(tx, mintRequestId, 'MINTING', 'COMPLETED', workerId, signature);
+
+      return updated;
     });
+  }
 
-    // Update the JSON file
-    await this.updateMintRequestFile(mintRequestId, {
-      minted: true,
-      mintSignature: signature,
-      explorerUrl,
-      mintedAt: new Date().toISOString()
+  /**
+   * Status transitions, approvals and mint attempts for one request, oldest first
+   */
+  async getMintRequestHistory(mintRequestId: string) {
+    const mintRequest = await this.prisma.mintRequest.findUnique({
+      where: { id: mintRequestId },
+      include: {
+        transitions: { orderBy: { createdAt: 'asc' } },
+        approvals: { orderBy: { createdAt: 'asc' } },
+        attempts: { orderBy: { attempt: 'asc' } },
+        riskAssessment: true
+      }
     });
 
+    if (!mintRequest) {
+      throw new BadRequestException('Mint request not found');
+    }
+
     return mintRequest;
   }
 
+  /**
+   * Take reversed rewards out of a claim that has not been minted. Runs in
+   * the reversal transaction. The claim keeps its remaining rewards; if it
+   * was already approved it goes back to admin review for the new amount.
+   */
+  async removeReversedRewards(
+    tx: any,
+    mintRequest: any,
+    rewards: Array<{ id: string; amount: number }>,
+    reason: string
+  ): Promise<MintRequestReversal> {
+    let tokenAmount = mintRequest.tokenAmount;
+    let debtOffset = mintRequest.debtOffset;
+    const shortfalls = new Map<string, number>();
+
+    // The mint shrinks first; past that the reward was paying off debt, which reopens
+    for (const reward of rewards) {
+      const covered = Math.min(tokenAmount, reward.amount);
+      tokenAmount -= covered;
+      if (reward.amount > covered) {
+        shortfalls.set(reward.id, reward.amount - covered);
+        debtOffset -= reward.amount - covered;
+      }
+    }
+
+    const removed = new Set(rewards.map((r) => r.id));
+    const rewardIds = mintRequest.rewardIds.filter((id: string) => !removed.has(id));
+
+    let status = mintRequest.status;
+    if (rewardIds.length === 0) {
+      status = 'REJECTED';
+    } else if (tokenAmount === 0) {
+      status = 'COMPLETED';
+    } else if (status === 'APPROVED') {
+      status = 'ADMIN_REVIEW';
+    }
+
+    // Only from the status the amounts were worked out for
+    const updated = await tx.mintRequest.updateMany({
+      where: { id: mintRequest.id, status: mintRequest.status },
+      data: {
+        rewardIds,
+        tokenAmount,
+        debtOffset,
+        status,
+        ...(status === 'REJECTED' && {
+          reviewNotes: `All rewards reversed: ${reason}`,
+          reviewedAt: new Date()
+        })
+      }
+    });
+    if (updated.count === 0) {
+      throw new ConflictException('Mint request changed while being reversed, please retry');
+    }
+
+    if (status !== mintRequest.status) {
+      await this.recordTransition(tx, mintRequest.id, mintRequest.status, status, 'reward_clawback', reason);
+    }
+
+    // A claim sent back for review is approved afresh for its new amount;
+    // the earlier approvals stay in the audit trail
+    if (mintRequest.status === 'APPROVED' && status === 'ADMIN_REVIEW') {
+      await tx.mintApproval.deleteMany({ where: { mintRequestId: mintRequest.id } });
+    }
+
+    return {
+      mintRequestId: mintRequest.id,
+      userId: mintRequest.userId,
+      previousStatus: mintRequest.status,
+      status,
+      tokenAmount,
+      debtOffset,
+      removedRewardIds: [...removed],
+      shortfalls
+    };
+  }
+
+  /**
+   * Open requests with the approvals collected so far, what the policy still
+   * needs, and whether this admin can add their approval
+   */
   async getPendingMintRequests(adminId: string) {
     const requests = await this.prisma.mintRequest.findMany({
       where: {
@@ -281,6 +600,15 @@ export class MintRequestService {
       include: {
         user: {
           select: { id: true, username: true, email: true }
+        },
+        approvals: {
+          include: {
+            admin: { select: { id: true, username: true } }
+          },
+          orderBy: { createdAt: 'asc' }
+        },
+        riskAssessment: {
+          select: { score: true, flagged: true, features: true, reasoning: true }
         }
       },
       orderBy: [
@@ -290,7 +618,15 @@ export class MintRequestService {
       ]
     });
 
-    return requests;
+    const policy = this.approvalPolicy;
+
+    return requests.map((request) => ({
+      ...request,
+      approvalStatus: evaluateApprovals(policy, request, request.approvals),
+      canApprove: request.status !== 'APPROVED' &&
+        request.userId !== adminId &&
+        !request.approvals.some((a) => a.adminId === adminId)
+    }));
   }
 
   async getUserMintRequests(userId: string, page = 1, limit = 20) {
@@ -317,170 +653,180 @@ export class MintRequestService {
     };
   }
 
-  private async assessRisk(
-    userId: string,
-    amount: number,
-    wallet: string
-  ): Promise<RiskAssessment> {
-    const factors: string[] = [];
-    let score = 0;
+  /**
+   * Net a claim against outstanding debt, oldest first. The conditional
+   * decrement fails if a concurrent claim already used the same debt.
+   */
+  private async settleDebts(
+    tx: any,
+    debts: Array<{ id: string; outstanding: number }>,
+    amount: number
+  ) {
+    let remaining = amount;
 
-    // Check user account age
-    const user = await this.prisma.user.findUnique({
-      where: { id: userId },
-      select: { createdAt: true }
-    });
+    for (const debt of debts) {
+      if (remaining <= 0) break;
 
-    if (user) {
-      const accountAgeMs = Date.now() - user.createdAt.getTime();
-      const accountAgeDays = accountAgeMs / (1000 * 60 * 60 * 24);
+      const take = Math.min(remaining, debt.outstanding);
+      const settled = await tx.rewardDebt.updateMany({
+        where: { id: debt.id, outstanding: { gte: take } },
+        data: {
+          outstanding: { decrement: take },
+          ...(take === debt.outstanding && { settledAt: new Date() })
+        }
+      });
 
-      if (accountAgeDays < 7) {
-        score += 0.4;
-        factors.push('New account (< 7 days)');
-      } else if (accountAgeDays < 30) {
-        score += 0.2;
-        factors.push('Recent account (< 30 days)');
+      if (settled.count === 0) {
+        throw new ConflictException('Reward debt changed while claiming, please retry');
       }
-    }
 
-    // Check claim amount
-    if (amount > 10000) {
-      score += 0.3;
-      factors.push('Large claim amount (> 10,000 tokens)');
-    } else if (amount > 5000) {
-      score += 0.1;
-      factors.push('Moderate claim amount (> 5,000 tokens)');
+      remaining -= take;
     }
+  }
 
-    // Check recent mint requests
-    const recentRequests = await this.prisma.mintRequest.count({
-      where: {
-        userId,
-        requestedAt: {
-          gte: new Date(Date.now() - 24 * 60 * 60 * 1000) // Last 24 hours
+  /**
+   * Undo the debt a rejected claim paid off, most recently settled first
+   */
+  private async reopenDebts(tx: any, userId: string, amount: number) {
+    if (amount <= 0) return;
+
+    const debts = await tx.rewardDebt.findMany({
+      where: { userId },
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    let remaining = amount;
+    for (const debt of debts) {
+      if (remaining <= 0) break;
+
+      const reopen = Math.min(remaining, debt.amount - debt.outstanding);
+      if (reopen <= 0) continue;
+
+      await tx.rewardDebt.update({
+        where: { id: debt.id },
+        data: {
+          outstanding: { increment: reopen },
+          settledAt: null
         }
-      }
+      });
+
+      remaining -= reopen;
+    }
+  }
+
+  /**
+   * The wallet the user proved they own through /wallet/verify
+   */
+  private async getVerifiedWallet(userId: string): Promise<string> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { walletAddress: true, walletLastVerified: true }
     });
 
-    if (recentRequests > 3) {
-      score += 0.3;
-      factors.push('Multiple recent requests (> 3 in 24h)');
-    } else if (recentRequests > 1) {
-      score += 0.1;
-      factors.push('Recent request activity');
+    if (!user?.walletAddress || !user.walletLastVerified) {
+      throw new BadRequestException('Verify your wallet before claiming rewards');
     }
 
-    // Check if wallet has been used before
-    const walletUsage = await this.prisma.mintRequest.count({
+    return user.walletAddress;
+  }
+
+  /**
+   * What claiming these rewards would mint, after paying off reward debt
+   */
+  private async quoteClaim(userId: string, rewardIds: string[]) {
+    // Validate rewards belong to user and are claimable
+    const rewards = await this.prisma.reward.findMany({
       where: {
-        recipientWallet: wallet,
-        userId: { not: userId },
-        status: { in: ['COMPLETED', 'APPROVED'] }
+        id: { in: rewardIds },
+        userId,
+        status: 'APPROVED'
       }
     });
 
-    if (walletUsage > 0) {
-      score += 0.2;
-      factors.push('Wallet used by other users');
+    if (rewards.length !== rewardIds.length) {
+      throw new BadRequestException('Some rewards are not available for claiming');
     }
 
-    const reasoning = factors.length > 0 
-      ? `Risk factors: ${factors.join(', ')}`
-      : 'No significant risk factors detected';
+    const totalAmount = rewards.reduce((sum, reward) => sum + reward.amount, 0);
+
+    if (totalAmount <= 0) {
+      throw new BadRequestException('No tokens to claim');
+    }
 
-    return {
-      score: Math.min(score, 1), // Cap at 1.0
-      factors,
-      reasoning
-    };
-  }
+    // Debt from reversed rewards that were already minted is paid off first
+    const debts = await this.prisma.rewardDebt.findMany({
+      where: { userId, outstanding: { gt: 0 } },
+      orderBy: { createdAt: 'asc' }
+    });
+    const outstandingDebt = debts.reduce((sum, debt) => sum + debt.outstanding, 0);
+    const debtOffset = Math.min(totalAmount, outstandingDebt);
 
-  private isValidSolanaAddress(address: string): boolean {
-    // Basic Solana address validation
-    return /^[A-HJ-NP-Za-km-z1-9]{32,44}$/.test(address);
+    return { rewards, totalAmount, debts, debtOffset, tokenAmount: totalAmount - debtOffset };
   }
 
-  private async createMintRequestFile(
-    mintRequest: any,
-    rewards: any[],
-    riskAssessment: RiskAssessment
+  /**
+   * Check a signed claim challenge matches this claim. Returns the challenge
+   * to be used up with the claim, or null when none was given and none is
+   * required.
+   */
+  private async checkClaimAuthorization(
+    userId: string,
+    walletAddress: string,
+    rewardIds: string[],
+    tokenAmount: number,
+    authorization?: ClaimAuthorization
   ) {
-    const fileName = `mint-request-${mintRequest.id}.json`;
-    const filePath = path.join(this.mintRequestStorePath, fileName);
+    if (!authorization) {
+      if (this.claimSignatureConfig.required) {
+        throw new UnauthorizedException('Sign a claim challenge with your wallet to claim rewards');
+      }
+      return null;
+    }
 
-    const data = {
-      mintRequestId: mintRequest.id,
-      userId: mintRequest.userId,
-      tokenAmount: mintRequest.tokenAmount,
-      recipientWallet: mintRequest.recipientWallet,
-      status: mintRequest.status,
-      requestedAt: mintRequest.requestedAt,
-      description: mintRequest.description,
-      
-      // Risk assessment
-      riskScore: riskAssessment.score,
-      riskFactors: riskAssessment.factors,
-      riskReasoning: riskAssessment.reasoning,
-      
-      // Reward details
-      rewardCount: rewards.length,
-      rewardBreakdown: rewards.map(r => ({
-        id: r.id,
-        type: r.type,
-        amount: r.amount,
-        reason: r.reason,
-        earnedAt: r.earnedAt
-      })),
-      
-      // Operator instructions
-      instructions: {
-        network: process.env.SOLANA_NETWORK || 'devnet',
-        program: 'token_program',
-        action: 'mint_to_account',
-        requiresReview: mintRequest.status === 'ADMIN_REVIEW'
-      },
-      
-      // Audit trail
-      auditTrail: [
-        {
-          action: 'request_created',
-          timestamp: mintRequest.requestedAt,
-          actor: 'user',
-          data: { tokenAmount: mintRequest.tokenAmount }
-        }
-      ]
-    };
+    const challenge = await this.prisma.claimChallenge.findUnique({
+      where: { nonce: authorization.nonce }
+    });
 
-    try {
-      await fs.writeFile(filePath, JSON.stringify(data, null, 2));
-    } catch (error) {
-      console.error(`Failed to create mint request file ${fileName}:`, error);
+    if (!challenge || challenge.userId !== userId || challenge.status !== 'PENDING') {
+      throw new BadRequestException('Invalid or already used claim challenge');
+    }
+    if (challenge.expiresAt <= new Date()) {
+      throw new BadRequestException('Claim challenge has expired');
+    }
+    if (challenge.walletAddress !== walletAddress) {
+      throw new BadRequestException('Claim challenge was issued for a different wallet');
     }
-  }
 
-  private async updateMintRequestFile(mintRequestId: string, update: any) {
-    const fileName = `mint-request-${mintRequestId}.json`;
-    const filePath = path.join(this.mintRequestStorePath, fileName);
-
-    try {
-      const existingData = await fs.readFile(filePath, 'utf-8');
-      const data = JSON.parse(existingData);
-      
-      // Update data
-      Object.assign(data, update);
-      
-      // Add to audit trail
-      data.auditTrail.push({
-        action: Object.keys(update)[0],
-        timestamp: new Date().toISOString(),
-        actor: update.approvedBy || update.rejectedBy || 'system',
-        data: update
-      });
+    // Debt or rewards that changed since signing change what would be minted
+    const sortedRewardIds = [...rewardIds].sort();
+    const sameRewards = challenge.rewardIds.length === sortedRewardIds.length &&
+      challenge.rewardIds.every((id, i) => id === sortedRewardIds[i]);
+    if (!sameRewards || challenge.tokenAmount !== tokenAmount) {
+      throw new BadRequestException('Claim does not match the signed challenge, request a new one');
+    }
 
-      await fs.writeFile(filePath, JSON.stringify(data, null, 2));
-    } catch (error) {
-      console.error(`Failed to update mint request file ${fileName}:`, error);
+    const result = SignatureVerifier.verifySignature(challenge.message, authorization.signature, walletAddress);
+    if (!result.isValid) {
+      await this.prisma.claimChallenge.updateMany({
+        where: { id: challenge.id, status: 'PENDING' },
+        data: { status: 'REJECTED', signature: authorization.signature }
+      });
+      throw new UnauthorizedException('Invalid claim signature');
     }
+
+    return challenge;
   }
-}
\ No newline at end of file
+
+  private async recordTransition(
+    tx: any,
+    mintRequestId: string,
+    fromStatus: string | null,
+    toStatus: string,
+    actor: string,
+    reason?: string
+  ) {
+    await tx.mintRequestTransition.create({
+      data: { mintRequestId, fromStatus, toStatus, actor, reason }
+    });
+  }
+}
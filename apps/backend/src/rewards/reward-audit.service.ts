@@ -76,6 +76,25 @@ export class RewardAuditService {
     });
   }
 
+  async logEmissionEvent(
+    action: string,
+    ledgerId: string,
+    metadata: any,
+    triggeredBy?: string
+  ) {
+    return await this.prisma.rewardAudit.create({
+      data: {
+        userId: triggeredBy || 'system',
+        action,
+        resource: 'emission_ledger',
+        resourceId: ledgerId,
+        newValues: metadata,
+        triggeredBy: triggeredBy || 'system',
+        metadata
+      }
+    });
+  }
+
   async getAuditTrail(
     filters: {
       userId?: string;
@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException } from '@nestjs/common';
+import { RewardClawbackService } from './reward-clawback.service';
+import { RewardAuditService } from './reward-audit.service';
+import { MintRequestService } from './mint-request.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('RewardClawbackService', () => {
+  let service: RewardClawbackService;
+  let prismaService: any;
+  let mintRequestService: any;
+  let auditService: any;
+  let ledgerService: any;
+  let tx: any;
+
+  const reward = (id: string, status: string, amount: number) => ({
+    id,
+    userId: 'user-a',
+    eventId: 'event-1',
+    status,
+    amount,
+  });
+
+  beforeEach(async () => {
+    tx = {
+      reward: { updateMany: jest.fn().mockImplementation(({ where }) => ({ count: where.id.in.length })) },
+      mintRequest: { findMany: jest.fn() },
+      rewardDebt: {
+        create: jest.fn().mockImplementation(({ data }) => ({ id: `debt-${data.rewardId}`, ...data })),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RewardClawbackService,
+        {
+          provide: PrismaService,
+          useValue: {
+            reward: { findMany: jest.fn() },
+            $transaction: jest.fn().mockImplementation((fn) => fn(tx)),
+          },
+        },
+        {
+          provide: RewardAuditService,
+          useValue: {
+            logRewardProcessing: jest.fn(),
+            logMintRequest: jest.fn(),
+          },
+        },
+        {
+          provide: MintRequestService,
+          useValue: {
+            removeReversedRewards: jest.fn(),
+          },
+        },
+        {
+          provide: LedgerService,
+          useValue: {
+            recordRewardReversed: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RewardClawbackService>(RewardClawbackService);
+    prismaService = module.get(PrismaService);
+    mintRequestService = module.get(MintRequestService);
+    auditService = module.get(RewardAuditService);
+    ledgerService = module.get(LedgerService);
+  });
+
+  it('should reverse rewards in the ledger and record minted tokens as debt', async () => {
+    prismaService.reward.findMany.mockResolvedValue([
+      reward('activity-1', 'CLAIMED', 40),
+      reward('bonus-1', 'APPROVED', 20),
+    ]);
+    tx.mintRequest.findMany.mockResolvedValue([
+      { id: 'mint-1', userId: 'user-a', status: 'COMPLETED', rewardIds: ['activity-1', 'other'] },
+    ]);
+
+    const result = await service.reverseEventRewards('event-1', 'fraud', { triggeredBy: 'admin-id' });
+
+    expect(result).toEqual({ reversed: 2, tokens: 60, debt: 40, mintRequests: [] });
+    expect(ledgerService.recordRewardReversed).toHaveBeenCalledWith(
+      tx, expect.objectContaining({ id: 'activity-1' }), { DEBT: 40 }, 'fraud'
+    );
+    expect(ledgerService.recordRewardReversed).toHaveBeenCalledWith(
+      tx, expect.objectContaining({ id: 'bonus-1' }), { EARNED: 20 }, 'fraud'
+    );
+    expect(tx.rewardDebt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ rewardId: 'activity-1', mintRequestId: 'mint-1', amount: 40, outstanding: 40 }),
+    });
+    expect(mintRequestService.removeReversedRewards).not.toHaveBeenCalled();
+    expect(auditService.logRewardProcessing).toHaveBeenCalledWith(
+      'user-a',
+      'reward_reversed',
+      expect.objectContaining({ rewardId: 'activity-1', previousStatus: 'CLAIMED', reason: 'fraud' }),
+      'admin-id',
+      undefined,
+      undefined
+    );
+  });
+
+  it('should take reversed rewards out of claims that have not been minted', async () => {
+    prismaService.reward.findMany.mockResolvedValue([reward('activity-1', 'CLAIMED', 40)]);
+    tx.reward.updateMany.mockResolvedValue({ count: 1 });
+    const mintRequest = { id: 'mint-1', userId: 'user-a', status: 'APPROVED', rewardIds: ['activity-1', 'other'] };
+    tx.mintRequest.findMany.mockResolvedValue([mintRequest]);
+    mintRequestService.removeReversedRewards.mockResolvedValue({
+      mintRequestId: 'mint-1',
+      userId: 'user-a',
+      previousStatus: 'APPROVED',
+      status: 'ADMIN_REVIEW',
+      tokenAmount: 10,
+      debtOffset: 0,
+      removedRewardIds: ['activity-1'],
+      shortfalls: new Map([['activity-1', 15]]),
+    });
+
+    const result = await service.reverseEventRewards('event-1', 'partner_rejected', { triggeredBy: 'partner-id' });
+
+    expect(mintRequestService.removeReversedRewards).toHaveBeenCalledWith(
+      tx,
+      mintRequest,
+      [expect.objectContaining({ id: 'activity-1' })],
+      'partner_rejected'
+    );
+    expect(result.mintRequests).toEqual([{ mintRequestId: 'mint-1', status: 'ADMIN_REVIEW', tokenAmount: 10 }]);
+    // The part that had paid off earlier debt is owed again
+    expect(result.debt).toBe(15);
+    expect(ledgerService.recordRewardReversed).toHaveBeenCalledWith(
+      tx, expect.objectContaining({ id: 'activity-1' }), { PENDING_CLAIM: 25, DEBT: 15 }, 'partner_rejected'
+    );
+    expect(auditService.logMintRequest).toHaveBeenCalledWith(
+      'user-a',
+      'mint_request_adjusted',
+      'mint-1',
+      expect.objectContaining({ status: 'ADMIN_REVIEW' }),
+      'partner-id',
+      undefined,
+      undefined
+    );
+  });
+
+  it('should only reverse rewards from the status they were read in', async () => {
+    prismaService.reward.findMany.mockResolvedValue([
+      reward('activity-1', 'CLAIMED', 40),
+      reward('bonus-1', 'APPROVED', 20),
+    ]);
+    // bonus-1 was claimed after it was read
+    tx.reward.updateMany.mockImplementation(({ where }) => ({ count: where.status === 'APPROVED' ? 0 : 1 }));
+
+    await expect(service.reverseEventRewards('event-1', 'fraud', { triggeredBy: 'admin-id' })).rejects.toThrow(
+      ConflictException
+    );
+    expect(tx.reward.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: { in: ['bonus-1'] }, status: 'APPROVED' } })
+    );
+    expect(ledgerService.recordRewardReversed).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,263 @@
+import { Injectable, Logger, BadRequestException, ConflictException } from '@nestjs/common';
+import { Prisma, Reward, RewardDebt } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RewardAuditService } from './reward-audit.service';
+import { MintRequestService, MintRequestReversal } from './mint-request.service';
+import { LedgerService, ReversalLegs } from '../ledger/ledger.service';
+
+// Rewards that have been paid or are about to be
+const REVERSIBLE_STATUSES = ['PENDING', 'APPROVED', 'CLAIMED'];
+// Tokens for these requests are on chain, or about to be
+const MINTED_STATUSES = ['MINTING', 'COMPLETED'];
+
+export interface ReversalContext {
+  triggeredBy: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface ReversalResult {
+  reversed: number;
+  tokens: number;
+  debt: number;
+  mintRequests: Array<{ mintRequestId: string; status: string; tokenAmount: number }>;
+}
+
+/**
+ * Claws back rewards for events that were rejected after being paid, or
+ * that turned out to be fraudulent. Reversed rewards are not re-issued,
+ * except those reversed with EDITED_EVENT_REVERSAL, which RewardQueueService
+ * prices again from the edited event. Tokens already minted for reversed
+ * rewards become debt netted against later claims.
+ */
+@Injectable()
+export class RewardClawbackService {
+  private readonly logger = new Logger(RewardClawbackService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: RewardAuditService,
+    private readonly mintRequestService: MintRequestService,
+    private readonly ledgerService: LedgerService
+  ) {}
+
+  async reverseEventRewards(eventId: string, reason: string, context: ReversalContext): Promise<ReversalResult> {
+    const rewards = await this.prisma.reward.findMany({
+      where: { eventId, status: { in: REVERSIBLE_STATUSES } }
+    });
+
+    return await this.reverseRewards(rewards, reason, context);
+  }
+
+  async reverseRewardsById(rewardIds: string[], reason: string, context: ReversalContext): Promise<ReversalResult> {
+    const rewards = await this.prisma.reward.findMany({
+      where: { id: { in: rewardIds } }
+    });
+
+    if (rewards.length !== rewardIds.length) {
+      throw new BadRequestException('Some rewards were not found');
+    }
+
+    const irreversible = rewards.filter((r) => !REVERSIBLE_STATUSES.includes(r.status));
+    if (irreversible.length > 0) {
+      throw new BadRequestException(
+        `Rewards cannot be reversed in their current status: ${irreversible.map((r) => r.id).join(', ')}`
+      );
+    }
+
+    return await this.reverseRewards(rewards, reason, context);
+  }
+
+  /**
+   * Outstanding debt for a user, or every user with debt
+   */
+  async getDebts(userId?: string) {
+    const where: any = { outstanding: { gt: 0 } };
+    if (userId) where.userId = userId;
+
+    const [debts, total] = await Promise.all([
+      this.prisma.rewardDebt.findMany({
+        where,
+        orderBy: { createdAt: 'asc' }
+      }),
+      this.prisma.rewardDebt.aggregate({
+        where,
+        _sum: { outstanding: true }
+      })
+    ]);
+
+    return {
+      debts,
+      totalOutstanding: total._sum.outstanding || 0
+    };
+  }
+
+  private async reverseRewards(rewards: Reward[], reason: string, context: ReversalContext): Promise<ReversalResult> {
+    if (rewards.length === 0) {
+      return { reversed: 0, tokens: 0, debt: 0, mintRequests: [] };
+    }
+
+    const claimed = rewards.filter((r) => r.status === 'CLAIMED');
+
+    const { debts, reversals } = await this.prisma.$transaction(async (tx) => {
+      // Each reward is reversed from the status it was read in, so the ledger
+      // legs below match; one that moved on since fails the whole reversal
+      let updated = 0;
+      for (const status of new Set(rewards.map((r) => r.status))) {
+        const result = await tx.reward.updateMany({
+          where: { id: { in: rewards.filter((r) => r.status === status).map((r) => r.id) }, status },
+          data: {
+            status: 'REVERSED',
+            reversedAt: new Date(),
+            reversalReason: reason
+          }
+        });
+        updated += result.count;
+      }
+
+      if (updated !== rewards.length) {
+        throw new ConflictException('Rewards changed while being reversed, please retry');
+      }
+
+      // Rejected claims have already returned their rewards to APPROVED
+      const mintRequests = claimed.length > 0
+        ? await tx.mintRequest.findMany({
+            where: {
+              rewardIds: { hasSome: claimed.map((r) => r.id) },
+              status: { not: 'REJECTED' }
+            }
+          })
+        : [];
+
+      // Where each reward's tokens sit in the ledger; pending rewards were never posted
+      const legs = new Map<string, ReversalLegs>();
+      for (const reward of rewards) {
+        if (reward.status === 'APPROVED') legs.set(reward.id, { EARNED: reward.amount });
+        if (reward.status === 'CLAIMED') legs.set(reward.id, { PENDING_CLAIM: reward.amount });
+      }
+
+      const debts: RewardDebt[] = [];
+      const reversals: MintRequestReversal[] = [];
+
+      for (const mintRequest of mintRequests) {
+        const inRequest = claimed.filter((r) => mintRequest.rewardIds.includes(r.id));
+
+        if (MINTED_STATUSES.includes(mintRequest.status)) {
+          for (const reward of inRequest) {
+            debts.push(await this.recordDebt(tx, reward, mintRequest.id, reward.amount, reason));
+            legs.set(reward.id, { DEBT: reward.amount });
+          }
+          continue;
+        }
+
+        const reversal = await this.mintRequestService.removeReversedRewards(tx, mintRequest, inRequest, reason);
+        reversals.push(reversal);
+
+        for (const [rewardId, shortfall] of reversal.shortfalls) {
+          const reward = inRequest.find((r) => r.id === rewardId);
+          debts.push(await this.recordDebt(tx, reward, mintRequest.id, shortfall, reason));
+          legs.set(rewardId, { PENDING_CLAIM: reward.amount - shortfall, DEBT: shortfall });
+        }
+      }
+
+      for (const reward of rewards) {
+        const rewardLegs = legs.get(reward.id);
+        if (rewardLegs) {
+          await this.ledgerService.recordRewardReversed(tx, reward, rewardLegs, reason);
+        }
+      }
+
+      return { debts, reversals };
+    });
+
+    for (const reward of rewards) {
+      await this.auditService.logRewardProcessing(
+        reward.userId,
+        'reward_reversed',
+        {
+          rewardId: reward.id,
+          eventId: reward.eventId,
+          amount: reward.amount,
+          previousStatus: reward.status,
+          reason
+        },
+        context.triggeredBy,
+        context.ipAddress,
+        context.userAgent
+      );
+    }
+
+    for (const reversal of reversals) {
+      await this.auditService.logMintRequest(
+        reversal.userId,
+        'mint_request_adjusted',
+        reversal.mintRequestId,
+        {
+          removedRewardIds: reversal.removedRewardIds,
+          previousStatus: reversal.previousStatus,
+          status: reversal.status,
+          tokenAmount: reversal.tokenAmount,
+          debtOffset: reversal.debtOffset,
+          reason
+        },
+        context.triggeredBy,
+        context.ipAddress,
+        context.userAgent
+      );
+    }
+
+    for (const debt of debts) {
+      await this.auditService.logRewardProcessing(
+        debt.userId,
+        'reward_debt_recorded',
+        {
+          rewardId: debt.rewardId,
+          debtId: debt.id,
+          mintRequestId: debt.mintRequestId,
+          amount: debt.amount,
+          reason
+        },
+        context.triggeredBy,
+        context.ipAddress,
+        context.userAgent
+      );
+    }
+
+    const tokens = rewards
+      .filter((r) => r.status !== 'PENDING')
+      .reduce((sum, r) => sum + r.amount, 0);
+    const debt = debts.reduce((sum, d) => sum + d.amount, 0);
+
+    this.logger.log(`Reversed ${rewards.length} rewards (${tokens} tokens, ${debt} as debt): ${reason}`);
+
+    return {
+      reversed: rewards.length,
+      tokens,
+      debt,
+      mintRequests: reversals.map((r) => ({
+        mintRequestId: r.mintRequestId,
+        status: r.status,
+        tokenAmount: r.tokenAmount
+      }))
+    };
+  }
+
+  private async recordDebt(
+    tx: Prisma.TransactionClient,
+    reward: Reward,
+    mintRequestId: string,
+    amount: number,
+    reason: string
+  ): Promise<RewardDebt> {
+    return await tx.rewardDebt.create({
+      data: {
+        userId: reward.userId,
+        rewardId: reward.id,
+        mintRequestId,
+        amount,
+        outstanding: amount,
+        reason
+      }
+    });
+  }
+}
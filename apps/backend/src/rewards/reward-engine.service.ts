@@ -1,6 +1,15 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import type { Event, RewardRule, RewardType } from '@omnifit/shared';
+import { RewardPolicyService, ActivePolicy } from './reward-policy.service';
+import {
+  ConditionContext,
+  ConditionExpression,
+  compileRuleConditions,
+  evaluateCondition,
+  resolveMultiplierCondition
+} from './rule-conditions';
+import { calculateActivityReward, getZonedDateParts, getZonedDayBounds, resolveTimezone } from '@omnifit/shared';
+import type { Event, RewardRule, RewardType, RewardPolicyConfig } from '@omnifit/shared';
 
 interface RewardConditions {
   eventType?: string[];
@@ -13,17 +22,40 @@ interface RewardConditions {
   partnerApproved?: boolean;
   timeOfDay?: string; // "morning", "afternoon", "evening"
   dayOfWeek?: number[]; // 0-6, Sunday=0
+  expression?: ConditionExpression;
 }
 
 interface MultiplierRule {
-  condition: string;
+  condition: string | ConditionExpression; // legacy name or expression
   multiplier: number;
   description: string;
 }
 
-interface ProcessedReward {
+/**
+ * Running totals that caps are checked against
+ */
+export interface RewardCapLedger {
+  getUserDayTotal(userId: string, dayStart: Date): Promise<number>;
+  getUserTotal(userId: string): Promise<number>;
+}
+
+export type EvaluatedPolicy = Pick<ActivePolicy, 'version' | 'config' | 'rules'>;
+
+export interface ConditionContextSources {
+  profile: {
+    timezone?: string | null;
+    currentFitnessStreak?: number | null;
+    currentSpiritualStreak?: number | null;
+    currentCombinedStreak?: number | null;
+  } | null;
+  approval: { status: string } | null;
+  firstOfDay: boolean;
+}
+
+export interface ProcessedReward {
   baseAmount: number;
   finalAmount: number;
+  policyVersion: number;
   rulesApplied: string[];
   multipliers: Array<{ rule: string; multiplier: number; description: string }>;
   cappingApplied?: {
@@ -37,7 +69,28 @@ interface ProcessedReward {
 export class RewardEngineService {
   private readonly logger = new Logger(RewardEngineService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  // Caps for real rewards are checked against what has already been awarded
+  private readonly liveLedger: RewardCapLedger = {
+    getUserDayTotal: (userId, dayStart) => this.sumAwarded({ userId, createdAt: { gte: dayStart } }),
+    getUserTotal: (userId) => this.sumAwarded({ userId })
+  };
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly policyService: RewardPolicyService
+  ) {}
+
+  private async sumAwarded(where: Record<string, any>): Promise<number> {
+    const result = await this.prisma.reward.aggregate({
+      _sum: { amount: true },
+      where: {
+        ...where,
+        status: { in: ['APPROVED', 'CLAIMED'] }
+      }
+    });
+
+    return result._sum.amount || 0;
+  }
 
   async processEventReward(
     userId: string,
@@ -47,79 +100,26 @@ export class RewardEngineService {
     try {
       this.logger.log(`Processing reward for event ${eventId} by user ${userId}`);
 
-      // Get active reward rules, sorted by priority
-      const rules = await this.prisma.rewardRule.findMany({
-        where: {
-          isActive: true,
-          OR: [
-            { validFrom: null },
-            { validFrom: { lte: new Date() } }
-          ],
-          AND: {
-            OR: [
-              { validTo: null },
-              { validTo: { gte: new Date() } }
-            ]
-          }
-        },
-        orderBy: { priority: 'desc' }
-      });
-
-      let totalAmount = 0;
-      const rulesApplied: string[] = [];
-      const multipliers: Array<{ rule: string; multiplier: number; description: string }> = [];
-
-      // Process each applicable rule
-      for (const rule of rules) {
-        if (await this.isRuleApplicable(rule, eventData, userId)) {
-          const ruleAmount = await this.calculateRuleAmount(rule, eventData, userId);
-          
-          if (ruleAmount > 0) {
-            // Check daily and user caps
-            const cappedAmount = await this.applyCapping(rule, ruleAmount, userId);
-            
-            totalAmount += cappedAmount;
-            rulesApplied.push(rule.name);
-
-            // Apply multipliers
-            const ruleMultipliers = await this.calculateMultipliers(rule, eventData, userId);
-            multipliers.push(...ruleMultipliers);
-
-            this.logger.debug(`Rule ${rule.name} applied: ${cappedAmount} tokens`);
-          }
-        }
-      }
+      const policy = await this.policyService.getActivePolicy();
+      const context = await this.buildConditionContext(userId, eventData);
 
-      // Apply multipliers
-      let finalAmount = totalAmount;
-      for (const mult of multipliers) {
-        finalAmount = Math.round(finalAmount * mult.multiplier);
-      }
-
-      // Check for partner approval bonus
-      const partnerBonus = await this.calculatePartnerBonus(eventData);
-      if (partnerBonus > 0) {
-        finalAmount += partnerBonus;
-        multipliers.push({
-          rule: 'partner_approval',
-          multiplier: partnerBonus / finalAmount,
-          description: 'Partner approval bonus'
-        });
-      }
+      const reward = await this.evaluateEventReward(
+        policy,
+        userId,
+        eventData,
+        context,
+        this.liveLedger,
+        new Date()
+      );
 
-      if (finalAmount <= 0) {
+      if (!reward || reward.finalAmount <= 0) {
         this.logger.debug(`No rewards applicable for event ${eventId}`);
         return null;
       }
 
-      this.logger.log(`Processed reward: ${finalAmount} tokens for event ${eventId}`);
-      
-      return {
-        baseAmount: totalAmount,
-        finalAmount,
-        rulesApplied,
-        multipliers
-      };
+      this.logger.log(`Processed reward: ${reward.finalAmount} tokens for event ${eventId}`);
+
+      return reward;
 
     } catch (error) {
       this.logger.error(`Error processing reward for event ${eventId}:`, error);
@@ -127,6 +127,94 @@ export class RewardEngineService {
     }
   }
 
+  /**
+   * Compute the reward for one event under a policy without writing anything.
+   * Returns null when nothing applies.
+   * Caps are checked against the given ledger: live rewards for real
+   * processing, running in-memory totals for simulations.
+   */
+  async evaluateEventReward(
+    policy: EvaluatedPolicy,
+    userId: string,
+    eventData: Event,
+    context: ConditionContext,
+    ledger: RewardCapLedger,
+    awardedAt: Date
+  ): Promise<ProcessedReward | null> {
+    const rules = this.getApplicableRules(policy.rules, awardedAt);
+
+    // Policy base reward, identical to the client-side preview
+    const streakDays = this.getCategoryStreak(context, eventData.category);
+    const policyBase = calculateActivityReward(eventData, policy.config, streakDays);
+
+    let totalAmount = policyBase;
+    const rulesApplied: string[] = policyBase > 0 ? [`policy_v${policy.version}`] : [];
+    const multipliers: Array<{ rule: string; multiplier: number; description: string }> = [];
+    let ruleCap: ProcessedReward['cappingApplied'];
+
+    // Process each applicable bonus rule
+    for (const rule of rules) {
+      if (this.isRuleApplicable(rule, context)) {
+        const ruleAmount = await this.calculateRuleAmount(rule, eventData, userId);
+
+        if (ruleAmount > 0) {
+          // Check daily and user caps
+          const capped = await this.applyCapping(rule, ruleAmount, userId, context.timezone, ledger, awardedAt);
+          if (capped.type) {
+            ruleCap = { type: capped.type, originalAmount: ruleAmount, cappedAmount: capped.amount };
+          }
+
+          totalAmount += capped.amount;
+          rulesApplied.push(rule.name);
+
+          // Apply multipliers
+          const ruleMultipliers = this.calculateMultipliers(rule, context);
+          multipliers.push(...ruleMultipliers);
+
+          this.logger.debug(`Rule ${rule.name} applied: ${capped.amount} tokens`);
+        }
+      }
+    }
+
+    // Apply multipliers
+    let finalAmount = totalAmount;
+    for (const mult of multipliers) {
+      finalAmount = Math.round(finalAmount * mult.multiplier);
+    }
+
+    // The partner approval bonus is a separate payout; see calculatePartnerBonus
+
+    // Policy daily cap applies to the total
+    const uncappedAmount = finalAmount;
+    const policyCap = await this.applyPolicyCaps(
+      policy.config,
+      finalAmount,
+      userId,
+      context.timezone,
+      ledger,
+      awardedAt
+    );
+    finalAmount = policyCap.amount;
+
+    // Awards capped down to nothing are still returned so callers can see the cap
+    if (uncappedAmount <= 0) {
+      return null;
+    }
+
+    return {
+      baseAmount: totalAmount,
+      finalAmount,
+      policyVersion: policy.version,
+      rulesApplied,
+      multipliers,
+      cappingApplied: policyCap.type ? {
+        type: policyCap.type,
+        originalAmount: uncappedAmount,
+        cappedAmount: finalAmount
+      } : ruleCap
+    };
+  }
+
   async processStreakReward(
     userId: string,
     streakType: string,
@@ -136,16 +224,8 @@ export class RewardEngineService {
     try {
       this.logger.log(`Processing streak reward: ${streakType} streak of ${streakCount} for user ${userId}`);
 
-      const rules = await this.prisma.rewardRule.findMany({
-        where: {
-          isActive: true,
-          conditions: {
-            path: ['streakCount'],
-            lte: streakCount
-          }
-        },
-        orderBy: { priority: 'desc' }
-      });
+      const policy = await this.policyService.getActivePolicy();
+      const rules = this.getApplicableRules(policy.rules);
 
       let bestRule: RewardRule | null = null;
       let bestAmount = 0;
@@ -170,11 +250,22 @@ export class RewardEngineService {
         return null;
       }
 
-      const finalAmount = await this.applyCapping(bestRule, bestAmount, userId);
+      const now = new Date();
+      const timezone = await this.getUserTimezone(userId);
+      const ruleCapped = await this.applyCapping(bestRule, bestAmount, userId, timezone, this.liveLedger, now);
+      const finalAmount = (await this.applyPolicyCaps(
+        policy.config,
+        ruleCapped.amount,
+        userId,
+        timezone,
+        this.liveLedger,
+        now
+      )).amount;
 
       return {
         baseAmount: bestAmount,
         finalAmount,
+        policyVersion: policy.version,
         rulesApplied: [bestRule.name],
         multipliers: []
       };
@@ -185,61 +276,124 @@ export class RewardEngineService {
     }
   }
 
-  private async isRuleApplicable(
-    rule: RewardRule,
-    eventData: Event,
-    userId: string
-  ): Promise<boolean> {
-    const conditions = rule.conditions as RewardConditions;
+  private getApplicableRules(rules: RewardRule[], at: Date = new Date()): RewardRule[] {
+    return rules.filter((rule: any) =>
+      rule.isActive &&
+      (!rule.validFrom || new Date(rule.validFrom) <= at) &&
+      (!rule.validTo || new Date(rule.validTo) >= at)
+    );
+  }
 
-    // Check event type
-    if (conditions.eventType && !conditions.eventType.includes(eventData.type)) {
-      return false;
-    }
+  /**
+   * Gather everything rule conditions can reference for one event
+   */
+  async buildConditionContext(userId: string, eventData: Event): Promise<ConditionContext> {
+    const [profile, approval] = await Promise.all([
+      this.prisma.userProfile.findUnique({
+        where: { userId },
+        select: {
+          timezone: true,
+          currentFitnessStreak: true,
+          currentSpiritualStreak: true,
+          currentCombinedStreak: true
+        }
+      }),
+      eventData.id
+        ? this.prisma.eventApproval.findUnique({ where: { eventId: eventData.id } })
+        : Promise.resolve(null)
+    ]);
+
+    const completedAt = new Date(eventData.completedAt);
+
+    return this.createConditionContext(eventData, {
+      profile,
+      approval,
+      firstOfDay: await this.isFirstActivityOfDay(userId, completedAt, resolveTimezone(profile?.timezone))
+    });
+  }
 
-    // Check category
-    if (conditions.category && !conditions.category.includes(eventData.category)) {
-      return false;
-    }
+  /**
+   * Assemble a condition context from data the caller has already loaded,
+   * so simulations can prefetch profiles and approvals in bulk
+   */
+  createConditionContext(eventData: Event, sources: ConditionContextSources): ConditionContext {
+    const { profile, approval, firstOfDay } = sources;
+    const timezone = resolveTimezone(profile?.timezone);
+    const localTime = getZonedDateParts(new Date(eventData.completedAt), timezone);
 
-    // Check duration
-    if (eventData.duration) {
-      if (conditions.minDuration && eventData.duration < conditions.minDuration) {
-        return false;
-      }
-      if (conditions.maxDuration && eventData.duration > conditions.maxDuration) {
-        return false;
-      }
-    }
+    return {
+      event: {
+        type: eventData.type,
+        category: eventData.category,
+        duration: eventData.duration,
+        intensity: eventData.intensity,
+        mood: eventData.mood,
+        energy: eventData.energy,
+        caloriesBurned: eventData.caloriesBurned
+      },
+      streak: {
+        fitness: profile?.currentFitnessStreak || 0,
+        spiritual: profile?.currentSpiritualStreak || 0,
+        combined: profile?.currentCombinedStreak || 0
+      },
+      partner: {
+        approved: approval?.status === 'APPROVED'
+      },
+      activity: {
+        firstOfDay
+      },
+      time: {
+        hour: localTime.hour,
+        minute: localTime.minute,
+        dayOfWeek: localTime.dayOfWeek
+      },
+      timezone
+    };
+  }
 
-    // Check intensity
-    if (eventData.intensity) {
-      if (conditions.minIntensity && eventData.intensity < conditions.minIntensity) {
-        return false;
-      }
-      if (conditions.maxIntensity && eventData.intensity > conditions.maxIntensity) {
-        return false;
-      }
+  private getCategoryStreak(context: ConditionContext, category: string): number {
+    switch (category) {
+      case 'FITNESS':
+        return context.streak.fitness;
+      case 'SPIRITUAL':
+        return context.streak.spiritual;
+      default:
+        return context.streak.combined;
     }
+  }
 
-    // Check time of day
-    if (conditions.timeOfDay) {
-      const hour = new Date(eventData.completedAt).getHours();
-      const timeOfDay = this.getTimeOfDay(hour);
-      if (timeOfDay !== conditions.timeOfDay) {
-        return false;
-      }
-    }
+  private async getUserTimezone(userId: string): Promise<string> {
+    const profile = await this.prisma.userProfile.findUnique({
+      where: { userId },
+      select: { timezone: true }
+    });
 
-    // Check day of week
-    if (conditions.dayOfWeek) {
-      const dayOfWeek = new Date(eventData.completedAt).getDay();
-      if (!conditions.dayOfWeek.includes(dayOfWeek)) {
-        return false;
-      }
+    return resolveTimezone(profile?.timezone);
+  }
+
+  /**
+   * Enforce the policy's per-user daily cap, which resets at the user's local
+   * midnight. The platform-wide dailyCaps.total is enforced by EmissionBudgetService.
+   */
+  private async applyPolicyCaps(
+    config: RewardPolicyConfig,
+    amount: number,
+    userId: string,
+    timezone: string,
+    ledger: RewardCapLedger,
+    at: Date
+  ): Promise<{ amount: number; type?: 'user' }> {
+    const userToday = await ledger.getUserDayTotal(userId, this.getDayStart(at, timezone));
+    const remainingUser = Math.max(0, config.dailyCaps.individual - userToday);
+
+    if (amount > remainingUser) {
+      return { amount: remainingUser, type: 'user' };
     }
+    return { amount };
+  }
 
-    return true;
+  private isRuleApplicable(rule: RewardRule, context: ConditionContext): boolean {
+    return evaluateCondition(compileRuleConditions(rule.conditions), context);
   }
 
   private async calculateRuleAmount(
@@ -264,11 +418,10 @@ export class RewardEngineService {
     return amount;
   }
 
-  private async calculateMultipliers(
+  private calculateMultipliers(
     rule: RewardRule,
-    eventData: Event,
-    userId: string
-  ): Promise<Array<{ rule: string; multiplier: number; description: string }>> {
+    context: ConditionContext
+  ): Array<{ rule: string; multiplier: number; description: string }> {
     const multipliers: Array<{ rule: string; multiplier: number; description: string }> = [];
     
     if (!rule.multiplierRules) {
@@ -278,9 +431,11 @@ export class RewardEngineService {
     const multiplierRules = rule.multiplierRules as MultiplierRule[];
 
     for (const multRule of multiplierRules) {
-      if (await this.evaluateMultiplierCondition(multRule.condition, eventData, userId)) {
+      // Rules are validated on save; anything unresolvable here never applies
+      const condition = resolveMultiplierCondition(multRule.condition);
+      if (condition && evaluateCondition(condition, context)) {
         multipliers.push({
-          rule: multRule.condition,
+          rule: typeof multRule.condition === 'string' ? multRule.condition : multRule.description,
           multiplier: multRule.multiplier,
           description: multRule.description
         });
@@ -290,46 +445,15 @@ export class RewardEngineService {
     return multipliers;
   }
 
-  private async evaluateMultiplierCondition(
-    condition: string,
-    eventData: Event,
-    userId: string
-  ): Promise<boolean> {
-    switch (condition) {
-      case 'first_activity_of_day':
-        return await this.isFirstActivityOfDay(userId, eventData.completedAt);
-      
-      case 'weekend_activity':
-        const dayOfWeek = new Date(eventData.completedAt).getDay();
-        return dayOfWeek === 0 || dayOfWeek === 6;
-      
-      case 'early_morning': // Before 7 AM
-        const hour = new Date(eventData.completedAt).getHours();
-        return hour < 7;
-      
-      case 'high_intensity':
-        return eventData.intensity ? eventData.intensity >= 8 : false;
-      
-      case 'long_duration':
-        return eventData.duration ? eventData.duration >= 60 : false;
-      
-      default:
-        return false;
-    }
-  }
-
-  private async calculatePartnerBonus(eventData: Event): Promise<number> {
-    // Check if event has partner approval
-    const approval = await this.prisma.eventApproval.findUnique({
-      where: { eventId: eventData.id }
-    });
-
-    if (approval?.status === 'APPROVED') {
-      // Apply approval multiplier (default 50% bonus)
-      return Math.round((approval.approvalMultiplier || 1.5 - 1) * 100); // Convert to bonus tokens
-    }
-
-    return 0;
+  /**
+   * Bonus paid once for a partner-approved event, on top of its activity reward.
+   * It is issued as its own reward so approvals before or after processing
+   * cannot pay it twice.
+   */
+  calculatePartnerBonus(activityAmount: number, approvalMultiplier?: number | null): number {
+    // Default approval multiplier is a 50% bonus
+    const multiplier = approvalMultiplier ?? 1.5;
+    return Math.max(0, Math.floor(activityAmount * (multiplier - 1)));
   }
 
   private async calculateStreakAmount(
@@ -347,53 +471,46 @@ export class RewardEngineService {
   private async applyCapping(
     rule: RewardRule,
     amount: number,
-    userId: string
-  ): Promise<number> {
+    userId: string,
+    timezone: string,
+    ledger: RewardCapLedger,
+    at: Date
+  ): Promise<{ amount: number; type?: 'daily' | 'user' }> {
     let cappedAmount = amount;
+    let type: 'daily' | 'user' | undefined;
 
     // Apply daily cap
     if (rule.maxDailyAmount) {
-      const todayStart = new Date();
-      todayStart.setHours(0, 0, 0, 0);
-      
-      const todayRewards = await this.prisma.reward.aggregate({
-        _sum: { amount: true },
-        where: {
-          userId,
-          createdAt: { gte: todayStart },
-          status: { in: ['APPROVED', 'CLAIMED'] }
-        }
-      });
-
-      const todayTotal = todayRewards._sum.amount || 0;
+      const todayTotal = await ledger.getUserDayTotal(userId, this.getDayStart(at, timezone));
       const remainingDaily = Math.max(0, rule.maxDailyAmount - todayTotal);
-      cappedAmount = Math.min(cappedAmount, remainingDaily);
+      if (remainingDaily < cappedAmount) {
+        cappedAmount = remainingDaily;
+        type = 'daily';
+      }
     }
 
     // Apply user total cap
     if (rule.maxUserAmount) {
-      const userTotal = await this.prisma.reward.aggregate({
-        _sum: { amount: true },
-        where: {
-          userId,
-          status: { in: ['APPROVED', 'CLAIMED'] }
-        }
-      });
-
-      const totalEarned = userTotal._sum.amount || 0;
+      const totalEarned = await ledger.getUserTotal(userId);
       const remainingUser = Math.max(0, rule.maxUserAmount - totalEarned);
-      cappedAmount = Math.min(cappedAmount, remainingUser);
+      if (remainingUser < cappedAmount) {
+        cappedAmount = remainingUser;
+        type = 'user';
+      }
     }
 
-    return cappedAmount;
+    return { amount: cappedAmount, type };
   }
 
-  private async isFirstActivityOfDay(userId: string, completedAt: Date): Promise<boolean> {
-    const dayStart = new Date(completedAt);
-    dayStart.setHours(0, 0, 0, 0);
-    
-    const dayEnd = new Date(completedAt);
-    dayEnd.setHours(23, 59, 59, 999);
+  /**
+   * Start of the local day containing the instant, used for daily caps
+   */
+  getDayStart(at: Date, timezone: string): Date {
+    return getZonedDayBounds(at, timezone).start;
+  }
+
+  private async isFirstActivityOfDay(userId: string, completedAt: Date, timezone: string): Promise<boolean> {
+    const dayStart = this.getDayStart(completedAt, timezone);
 
     const earlierActivity = await this.prisma.event.findFirst({
       where: {
@@ -408,64 +525,14 @@ export class RewardEngineService {
     return !earlierActivity;
   }
 
-  private getTimeOfDay(hour: number): string {
-    if (hour < 12) return 'morning';
-    if (hour < 18) return 'afternoon';
-    return 'evening';
-  }
-
-  // Admin methods for rule management
-  async createRewardRule(ruleData: {
-    name: string;
-    description: string;
-    conditions: RewardConditions;
-    baseAmount: number;
-    multiplierRules?: MultiplierRule[];
-    maxDailyAmount?: number;
-    maxUserAmount?: number;
-    validFrom?: Date;
-    validTo?: Date;
-    createdBy: string;
-  }): Promise<RewardRule> {
-    return await this.prisma.rewardRule.create({
-      data: {
-        name: ruleData.name,
-        description: ruleData.description,
-        conditions: ruleData.conditions,
-        baseAmount: ruleData.baseAmount,
-        multiplierRules: ruleData.multiplierRules || null,
-        maxDailyAmount: ruleData.maxDailyAmount,
-        maxUserAmount: ruleData.maxUserAmount,
-        validFrom: ruleData.validFrom,
-        validTo: ruleData.validTo,
-        createdBy: ruleData.createdBy
-      }
-    });
-  }
-
-  async updateRewardRule(
-    ruleId: string,
-    updates: Partial<{
-      description: string;
-      isActive: boolean;
-      conditions: RewardConditions;
-      baseAmount: number;
-      multiplierRules: MultiplierRule[];
-      maxDailyAmount: number;
-      maxUserAmount: number;
-    }>
-  ): Promise<RewardRule> {
-    return await this.prisma.rewardRule.update({
-      where: { id: ruleId },
-      data: updates
-    });
-  }
-
+  // Admin methods for rule management.
+  // Rules are created and updated through RewardPolicyService, which versions them.
   async getRewardRules(isActive?: boolean) {
-    return await this.prisma.rewardRule.findMany({
-      where: isActive !== undefined ? { isActive } : undefined,
-      orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }]
-    });
+    const policy = await this.policyService.getActivePolicy();
+
+    return policy.rules.filter((rule) =>
+      isActive === undefined ? true : rule.isActive === isActive
+    );
   }
 
   async testRuleAgainstEvent(
@@ -481,14 +548,15 @@ export class RewardEngineService {
       throw new Error('Rule not found');
     }
 
-    const isApplicable = await this.isRuleApplicable(rule, eventData, userId);
+    const context = await this.buildConditionContext(userId, eventData);
+    const isApplicable = this.isRuleApplicable(rule, context);
     
     if (!isApplicable) {
       return { applicable: false };
     }
 
     const amount = await this.calculateRuleAmount(rule, eventData, userId);
-    const multipliers = await this.calculateMultipliers(rule, eventData, userId);
+    const multipliers = this.calculateMultipliers(rule, context);
     
     return {
       applicable: true,
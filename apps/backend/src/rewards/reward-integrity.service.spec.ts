@@ -0,0 +1,102 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RewardIntegrityService } from './reward-integrity.service';
+import { RewardAuditService } from './reward-audit.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('RewardIntegrityService', () => {
+  let service: RewardIntegrityService;
+  let prismaService: any;
+
+  const reward = (id: string, fields: Record<string, any>) => ({
+    id,
+    userId: 'user-a',
+    eventId: 'event-1',
+    type: 'ACTIVITY',
+    sourceType: 'event',
+    sourceId: null,
+    ruleKey: null,
+    status: 'APPROVED',
+    bonusReason: null,
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RewardIntegrityService,
+        {
+          provide: PrismaService,
+          useValue: {
+            reward: {
+              groupBy: jest.fn().mockResolvedValue([{ eventId: 'event-1', _count: { id: 4 } }]),
+              findMany: jest.fn(),
+              findUnique: jest.fn(),
+              update: jest.fn(),
+            },
+            eventApproval: {
+              findMany: jest.fn().mockResolvedValue([{ eventId: 'event-1', approvalMultiplier: 1.5 }]),
+            },
+          },
+        },
+        {
+          provide: RewardAuditService,
+          useValue: {
+            logRewardProcessing: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RewardIntegrityService>(RewardIntegrityService);
+    prismaService = module.get(PrismaService);
+  });
+
+  describe('findDuplicateRewards', () => {
+    it('should flag repeated payouts and a bonus paid both inline and separately', async () => {
+      prismaService.reward.findMany.mockResolvedValue([
+        reward('activity-1', { amount: 60, reason: 'Activity: Run', bonusReason: 'Partner approval bonus' }),
+        reward('activity-2', { amount: 60, reason: 'Activity: Run' }),
+        reward('bonus-1', { amount: 5, reason: 'Partner approval bonus' }),
+        reward('bonus-2', { amount: 5, reason: 'Partner approval bonus' }),
+      ]);
+
+      const report = await service.findDuplicateRewards();
+
+      expect(report.groups).toEqual([
+        expect.objectContaining({ kind: 'activity', keptRewardId: 'activity-1', excessTokens: 60 }),
+        expect.objectContaining({ kind: 'partner_bonus', keptRewardId: 'bonus-1', excessTokens: 5 }),
+        expect.objectContaining({ kind: 'embedded_partner_bonus', keptRewardId: 'bonus-1', excessTokens: 60 }),
+      ]);
+      expect(report.summary).toEqual({ groups: 3, affectedEvents: 1, affectedUsers: 1, excessTokens: 125 });
+    });
+  });
+
+  describe('backfillIdempotencyKeys', () => {
+    it('should key the earliest reward per rule and leave duplicates unkeyed', async () => {
+      prismaService.reward.findMany
+        .mockResolvedValueOnce([
+          reward('activity-1', { amount: 10, reason: 'Activity: Run' }),
+          reward('bonus-1', { amount: 5, reason: 'Partner approval bonus' }),
+          reward('activity-2', { amount: 10, reason: 'Activity: Run' }),
+        ])
+        .mockResolvedValueOnce([]);
+      prismaService.reward.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'activity-1' });
+
+      const result = await service.backfillIdempotencyKeys({ adminId: 'admin-id' });
+
+      expect(result).toEqual({ keyed: 2, skippedDuplicates: 1 });
+      expect(prismaService.reward.update).toHaveBeenCalledWith({
+        where: { id: 'activity-1' },
+        data: { sourceId: 'event-1', ruleKey: 'activity' },
+      });
+      expect(prismaService.reward.update).toHaveBeenCalledWith({
+        where: { id: 'bonus-1' },
+        data: { sourceId: 'event-1', ruleKey: 'partner_approval' },
+      });
+      expect(prismaService.reward.update).toHaveBeenCalledTimes(2);
+    });
+  });
+});
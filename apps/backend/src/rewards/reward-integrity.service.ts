@@ -0,0 +1,195 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { RewardAuditService } from './reward-audit.service';
+import { ACTIVITY_RULE_KEY, PARTNER_BONUS_RULE_KEY } from './reward-queue.service';
+
+const PARTNER_BONUS_REASON = 'Partner approval bonus';
+const BACKFILL_BATCH_SIZE = 500;
+
+export type DuplicateRewardKind = 'activity' | 'partner_bonus' | 'embedded_partner_bonus';
+
+export interface DuplicateRewardGroup {
+  kind: DuplicateRewardKind;
+  eventId: string;
+  userId: string;
+  rewardIds: string[];
+  keptRewardId: string;
+  excessTokens: number;
+}
+
+/**
+ * Finds payouts issued more than once before rewards were keyed by
+ * (sourceType, sourceId, ruleKey), and keys the rewards that predate it.
+ */
+@Injectable()
+export class RewardIntegrityService {
+  private readonly logger = new Logger(RewardIntegrityService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: RewardAuditService
+  ) {}
+
+  /**
+   * Event payouts paid more than once. Reports only; nothing is reversed.
+   * The earliest reward in a group is the one that is kept.
+   */
+  async findDuplicateRewards() {
+    const grouped = await this.prisma.reward.groupBy({
+      by: ['eventId'],
+      where: {
+        type: 'ACTIVITY',
+        sourceType: 'event',
+        eventId: { not: null },
+        status: { notIn: ['REJECTED', 'REVERSED'] }
+      },
+      _count: { id: true },
+      having: { id: { _count: { gt: 1 } } }
+    });
+
+    const eventIds = grouped.map((g) => g.eventId!);
+    const [rewards, approvals] = await Promise.all([
+      this.prisma.reward.findMany({
+        where: {
+          eventId: { in: eventIds },
+          type: 'ACTIVITY',
+          sourceType: 'event',
+          status: { notIn: ['REJECTED', 'REVERSED'] }
+        },
+        orderBy: { earnedAt: 'asc' }
+      }),
+      this.prisma.eventApproval.findMany({
+        where: { eventId: { in: eventIds } },
+        select: { eventId: true, approvalMultiplier: true }
+      })
+    ]);
+
+    const multipliers = new Map(approvals.map((a) => [a.eventId, a.approvalMultiplier]));
+    const byEvent = new Map<string, any[]>();
+    for (const reward of rewards) {
+      byEvent.set(reward.eventId!, [...(byEvent.get(reward.eventId!) || []), reward]);
+    }
+
+    const groups: DuplicateRewardGroup[] = [];
+    for (const [eventId, eventRewards] of byEvent) {
+      const bonuses = eventRewards.filter((r) => this.isPartnerBonus(r));
+      const payouts = eventRewards.filter((r) => !this.isPartnerBonus(r));
+
+      if (payouts.length > 1) {
+        groups.push(this.toGroup('activity', eventId, payouts, this.sumExcess(payouts)));
+      }
+      if (bonuses.length > 1) {
+        groups.push(this.toGroup('partner_bonus', eventId, bonuses, this.sumExcess(bonuses)));
+      }
+
+      // The engine used to fold a bonus into the activity reward as well
+      const embedded = payouts.find((r) => r.bonusReason?.includes(PARTNER_BONUS_REASON));
+      if (embedded && bonuses.length > 0) {
+        const embeddedAmount = Math.round((multipliers.get(eventId) || 0.5) * 100);
+        groups.push({
+          ...this.toGroup('embedded_partner_bonus', eventId, [bonuses[0], embedded], 0),
+          excessTokens: Math.min(embeddedAmount, embedded.amount)
+        });
+      }
+    }
+
+    return {
+      groups,
+      summary: {
+        groups: groups.length,
+        affectedEvents: new Set(groups.map((g) => g.eventId)).size,
+        affectedUsers: new Set(groups.map((g) => g.userId)).size,
+        excessTokens: groups.reduce((sum, g) => sum + g.excessTokens, 0)
+      }
+    };
+  }
+
+  /**
+   * Key legacy event rewards so replays of old events converge on them.
+   * Only the earliest reward per event and rule is keyed; duplicates stay
+   * unkeyed for review.
+   */
+  async backfillIdempotencyKeys(context: { adminId: string; ipAddress?: string; userAgent?: string }) {
+    let keyed = 0;
+    let skipped = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const batch = await this.prisma.reward.findMany({
+        where: {
+          type: 'ACTIVITY',
+          sourceType: 'event',
+          sourceId: null,
+          eventId: { not: null },
+          status: { not: 'REJECTED' }
+        },
+        orderBy: [{ earnedAt: 'asc' }, { id: 'asc' }],
+        take: BACKFILL_BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } })
+      });
+
+      if (batch.length === 0) break;
+      cursor = batch[batch.length - 1].id;
+
+      for (const reward of batch) {
+        const ruleKey = this.isPartnerBonus(reward) ? PARTNER_BONUS_RULE_KEY : ACTIVITY_RULE_KEY;
+        const taken = await this.prisma.reward.findUnique({
+          where: {
+            sourceType_sourceId_ruleKey: { sourceType: 'event', sourceId: reward.eventId!, ruleKey }
+          },
+          select: { id: true }
+        });
+
+        if (taken) {
+          skipped++;
+          continue;
+        }
+
+        await this.prisma.reward.update({
+          where: { id: reward.id },
+          data: { sourceId: reward.eventId, ruleKey }
+        });
+        keyed++;
+      }
+    }
+
+    const result = { keyed, skippedDuplicates: skipped };
+
+    this.logger.log(`Backfilled idempotency keys: ${keyed} keyed, ${skipped} duplicates left unkeyed`);
+
+    await this.auditService.logRewardProcessing(
+      context.adminId,
+      'reward_keys_backfilled',
+      result,
+      context.adminId,
+      context.ipAddress,
+      context.userAgent
+    );
+
+    return result;
+  }
+
+  private isPartnerBonus(reward: { ruleKey?: string | null; reason: string }): boolean {
+    return reward.ruleKey === PARTNER_BONUS_RULE_KEY || reward.reason === PARTNER_BONUS_REASON;
+  }
+
+  private sumExcess(rewards: Array<{ amount: number }>): number {
+    return rewards.slice(1).reduce((sum, r) => sum + r.amount, 0);
+  }
+
+  private toGroup(
+    kind: DuplicateRewardKind,
+    eventId: string,
+    rewards: Array<{ id: string; userId: string }>,
+    excessTokens: number
+  ): DuplicateRewardGroup {
+    return {
+      kind,
+      eventId,
+      userId: rewards[0].userId,
+      rewardIds: rewards.map((r) => r.id),
+      keptRewardId: rewards[0].id,
+      excessTokens
+    };
+  }
+}
@@ -0,0 +1,360 @@
+import { Injectable, Logger, NotFoundException, ConflictException, BadRequestException, OnModuleInit } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { RewardAuditService } from './reward-audit.service';
+import { RewardPolicyConfigSchema, RewardPolicyConfigChangesSchema } from '@omnifit/shared';
+import type { RewardPolicyConfig } from '@omnifit/shared';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Sections of rewards.config.json that make up the reward policy
+const POLICY_SECTIONS: Array<keyof RewardPolicyConfig> = [
+  'baseRewards',
+  'categoryMultipliers',
+  'durationScaling',
+  'intensityScaling',
+  'moodMultipliers',
+  'streakBonuses',
+  'partnerBonuses',
+  'dailyCaps',
+  'minimums'
+];
+
+const POLICY_CACHE_TTL_MS = 60 * 1000;
+
+export interface PolicyRuleInput {
+  name: string;
+  description: string;
+  conditions: any;
+  baseAmount: number;
+  multiplierRules?: any[];
+  maxDailyAmount?: number;
+  maxUserAmount?: number;
+  priority?: number;
+  isActive?: boolean;
+  validFrom?: Date;
+  validTo?: Date;
+}
+
+export interface ActivePolicy {
+  id: string;
+  version: number;
+  config: RewardPolicyConfig;
+  rules: any[];
+}
+
+/**
+ * Check config changes before they are published or simulated
+ */
+export function parsePolicyConfigChanges(changes: unknown): Partial<RewardPolicyConfig> {
+  const result = RewardPolicyConfigChangesSchema.safeParse(changes ?? {});
+  if (!result.success) {
+    throw new BadRequestException({
+      message: 'Invalid reward policy config',
+      errors: result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+    });
+  }
+  return result.data as Partial<RewardPolicyConfig>;
+}
+
+interface ChangeContext {
+  adminId: string;
+  description?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+@Injectable()
+export class RewardPolicyService implements OnModuleInit {
+  private readonly logger = new Logger(RewardPolicyService.name);
+  private cachedPolicy: ActivePolicy | null = null;
+  private cachedAt = 0;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly auditService: RewardAuditService
+  ) {}
+
+  async onModuleInit() {
+    await this.seedFromConfigFile();
+  }
+
+  /**
+   * Create policy version 1 from rewards.config.json on first boot.
+   * Rules created before policies existed are attached to it.
+   */
+  async seedFromConfigFile() {
+    const existing = await this.prisma.rewardPolicy.count();
+    if (existing > 0) {
+      return;
+    }
+
+    const config = this.loadConfigFile();
+
+    const policy = await this.prisma.rewardPolicy.create({
+      data: {
+        version: 1,
+        status: 'ACTIVE',
+        description: 'Seeded from rewards.config.json',
+        config: config as any,
+        source: 'config_file',
+        activatedAt: new Date()
+      }
+    });
+
+    await this.prisma.rewardRule.updateMany({
+      where: { policyId: null },
+      data: { policyId: policy.id }
+    });
+
+    this.logger.log('Seeded reward policy v1 from rewards.config.json');
+  }
+
+  /**
+   * The active policy with its rules, cached briefly since every reward reads it
+   */
+  async getActivePolicy(): Promise<ActivePolicy> {
+    if (this.cachedPolicy && Date.now() - this.cachedAt < POLICY_CACHE_TTL_MS) {
+      return this.cachedPolicy;
+    }
+
+    const policy = await this.prisma.rewardPolicy.findFirst({
+      where: { status: 'ACTIVE' },
+      include: {
+        rules: {
+          orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }]
+        }
+      }
+    });
+
+    if (!policy) {
+      throw new NotFoundException('No active reward policy');
+    }
+
+    this.cachedPolicy = {
+      id: policy.id,
+      version: policy.version,
+      config: policy.config as unknown as RewardPolicyConfig,
+      rules: policy.rules
+    };
+    this.cachedAt = Date.now();
+
+    return this.cachedPolicy;
+  }
+
+  async getPolicyVersion(version: number) {
+    const policy = await this.prisma.rewardPolicy.findUnique({
+      where: { version },
+      include: { rules: true }
+    });
+
+    if (!policy) {
+      throw new NotFoundException(`Reward policy v${version} not found`);
+    }
+
+    return policy;
+  }
+
+  async getPolicyHistory() {
+    return await this.prisma.rewardPolicy.findMany({
+      orderBy: { version: 'desc' },
+      include: {
+        _count: { select: { rules: true } }
+      }
+    });
+  }
+
+  /**
+   * Publish a new version with updated economics. Sections not supplied
+   * are carried over from the active version.
+   */
+  async updateConfig(changes: Partial<RewardPolicyConfig>, context: ChangeContext) {
+    const sections = parsePolicyConfigChanges(changes);
+
+    return await this.publishVersion(context, 'policy_config_updated', (config, rules) => ({
+      config: { ...config, ...sections },
+      rules
+    }));
+  }
+
+  async createRule(rule: PolicyRuleInput, context: ChangeContext) {
+    const policy = await this.publishVersion(context, 'rule_created', (config, rules) => {
+      if (rules.some((r) => r.name === rule.name)) {
+        throw new ConflictException(`Rule "${rule.name}" already exists in the active policy`);
+      }
+      return { config, rules: [...rules, rule] };
+    });
+
+    return policy.rules.find((r) => r.name === rule.name);
+  }
+
+  /**
+   * Rules are immutable within a version, so an update republishes the policy.
+   * The returned rule has a new id in the new version.
+   */
+  async updateRule(ruleId: string, updates: Partial<PolicyRuleInput>, context: ChangeContext) {
+    const active = await this.getActivePolicy();
+    const existing = active.rules.find((r) => r.id === ruleId);
+
+    if (!existing) {
+      throw new NotFoundException('Reward rule not found in the active policy');
+    }
+
+    const name = updates.name || existing.name;
+    const policy = await this.publishVersion(context, 'rule_updated', (config, rules) => ({
+      config,
+      rules: rules.map((r) => (r.name === existing.name ? { ...r, ...updates } : r))
+    }));
+
+    return policy.rules.find((r) => r.name === name);
+  }
+
+  /**
+   * Roll back (or forward) to a previously published version
+   */
+  async activateVersion(version: number, context: ChangeContext) {
+    const target = await this.getPolicyVersion(version);
+    const current = await this.getActivePolicy();
+
+    if (target.id === current.id) {
+      return target;
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.rewardPolicy.update({
+        where: { id: current.id },
+        data: { status: 'RETIRED', retiredAt: new Date() }
+      }),
+      this.prisma.rewardPolicy.update({
+        where: { id: target.id },
+        data: {
+          status: 'ACTIVE',
+          activatedAt: new Date(),
+          activatedBy: context.adminId,
+          retiredAt: null
+        }
+      })
+    ]);
+
+    this.invalidateCache();
+
+    await this.auditService.logRuleChange(
+      context.adminId,
+      'policy_activated',
+      target.id,
+      { version: current.version },
+      { version: target.version },
+      context.ipAddress,
+      context.userAgent
+    );
+
+    return target;
+  }
+
+  private async publishVersion(
+    context: ChangeContext,
+    action: string,
+    change: (config: RewardPolicyConfig, rules: PolicyRuleInput[]) => { config: RewardPolicyConfig; rules: PolicyRuleInput[] }
+  ) {
+    const current = await this.getActivePolicy();
+    const currentRules = current.rules.map((r) => this.toRuleInput(r));
+    const next = change(current.config, currentRules);
+
+    const latest = await this.prisma.rewardPolicy.aggregate({
+      _max: { version: true }
+    });
+    const version = (latest._max.version || 0) + 1;
+
+    const policy = await this.prisma.$transaction(async (tx) => {
+      await tx.rewardPolicy.update({
+        where: { id: current.id },
+        data: { status: 'RETIRED', retiredAt: new Date() }
+      });
+
+      return await tx.rewardPolicy.create({
+        data: {
+          version,
+          status: 'ACTIVE',
+          description: context.description,
+          config: next.config as any,
+          createdBy: context.adminId,
+          activatedBy: context.adminId,
+          activatedAt: new Date(),
+          rules: {
+            create: next.rules.map((r) => ({
+              ...r,
+              multiplierRules: r.multiplierRules || undefined,
+              createdBy: context.adminId
+            }))
+          }
+        },
+        include: { rules: true }
+      });
+    });
+
+    this.invalidateCache();
+
+    await this.auditService.logRuleChange(
+      context.adminId,
+      action,
+      policy.id,
+      { version: current.version, config: current.config, rules: currentRules },
+      { version, config: next.config, rules: next.rules },
+      context.ipAddress,
+      context.userAgent
+    );
+
+    this.logger.log(`Published reward policy v${version}`);
+
+    return policy;
+  }
+
+  private toRuleInput(rule: any): PolicyRuleInput {
+    return {
+      name: rule.name,
+      description: rule.description,
+      conditions: rule.conditions,
+      baseAmount: rule.baseAmount,
+      multiplierRules: rule.multiplierRules || undefined,
+      maxDailyAmount: rule.maxDailyAmount ?? undefined,
+      maxUserAmount: rule.maxUserAmount ?? undefined,
+      priority: rule.priority,
+      isActive: rule.isActive,
+      validFrom: rule.validFrom ?? undefined,
+      validTo: rule.validTo ?? undefined
+    };
+  }
+
+  private pickPolicySections(source: any): Partial<RewardPolicyConfig> {
+    const config: any = {};
+    for (const section of POLICY_SECTIONS) {
+      if (source[section] !== undefined) {
+        config[section] = source[section];
+      }
+    }
+    return config;
+  }
+
+  private loadConfigFile(): RewardPolicyConfig {
+    const configPath = process.env.REWARDS_CONFIG_PATH || path.join(process.cwd(), 'rewards.config.json');
+    const raw = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    const config = this.pickPolicySections(raw);
+
+    const missing = POLICY_SECTIONS.filter((section) => config[section] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`rewards.config.json is missing policy sections: ${missing.join(', ')}`);
+    }
+
+    const result = RewardPolicyConfigSchema.safeParse(config);
+    if (!result.success) {
+      const errors = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+      throw new Error(`rewards.config.json has an invalid reward policy: ${errors.join('; ')}`);
+    }
+
+    return config as RewardPolicyConfig;
+  }
+
+  private invalidateCache() {
+    this.cachedPolicy = null;
+    this.cachedAt = 0;
+  }
+}
@@ -0,0 +1,87 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RewardQueueService } from './reward-queue.service';
+import { RewardEngineService } from './reward-engine.service';
+import { RewardAuditService } from './reward-audit.service';
+import { EmissionBudgetService } from './emission-budget.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+jest.mock('ioredis');
+
+describe('RewardQueueService', () => {
+  let service: RewardQueueService;
+  let prismaService: any;
+  let rewardEngine: any;
+
+  const job = { id: 'job-1', data: { userId: 'user-1', eventId: 'event-1', type: 'ACTIVITY' } };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RewardQueueService,
+        {
+          provide: PrismaService,
+          useValue: {
+            event: {
+              findUnique: jest.fn().mockResolvedValue({ id: 'event-1', title: 'Run', eventApproval: null })
+            },
+            auditLog: { findFirst: jest.fn().mockResolvedValue(null) },
+            reward: { findFirst: jest.fn().mockResolvedValue(null) },
+            rewardJob: { update: jest.fn() },
+            $transaction: jest.fn()
+          }
+        },
+        { provide: RewardEngineService, useValue: { processEventReward: jest.fn() } },
+        { provide: RewardAuditService, useValue: { logRewardProcessing: jest.fn() } },
+        { provide: EmissionBudgetService, useValue: { reserve: jest.fn(), checkAlerts: jest.fn() } },
+        { provide: LedgerService, useValue: { recordRewardIssued: jest.fn() } }
+      ]
+    }).compile();
+
+    service = module.get<RewardQueueService>(RewardQueueService);
+    prismaService = module.get(PrismaService);
+    rewardEngine = module.get(RewardEngineService);
+  });
+
+  const runJob = () => (service as any).processRewardJob(job);
+
+  it('should not pay an event its partner rejected before the job ran', async () => {
+    prismaService.event.findUnique.mockResolvedValue({
+      id: 'event-1',
+      title: 'Run',
+      eventApproval: { status: 'REJECTED' }
+    });
+
+    const result = await runJob();
+
+    expect(result).toEqual({ tokensEarned: 0, skipped: true, reason: 'Event rejected by partner' });
+    expect(rewardEngine.processEventReward).not.toHaveBeenCalled();
+    expect(prismaService.$transaction).not.toHaveBeenCalled();
+    expect(prismaService.rewardJob.update).toHaveBeenLastCalledWith({
+      where: { jobId: 'job-1' },
+      data: expect.objectContaining({ status: 'COMPLETED', errorMessage: 'Event rejected by partner' })
+    });
+  });
+
+  it('should not pay an event rejected by AI review or clawed back', async () => {
+    prismaService.auditLog.findFirst.mockResolvedValueOnce({ id: 'audit-1' });
+    await expect(runJob()).resolves.toMatchObject({ skipped: true, reason: 'Event rejected by AI review' });
+
+    prismaService.reward.findFirst.mockResolvedValueOnce({ reversalReason: 'fraud' });
+    await expect(runJob()).resolves.toMatchObject({ skipped: true, reason: 'Event rewards were reversed: fraud' });
+
+    // Rewards reversed by an edit are re-issued, so they do not count
+    expect(prismaService.reward.findFirst).toHaveBeenCalledWith({
+      where: { eventId: 'event-1', status: 'REVERSED', NOT: { reversalReason: 'event_updated' } },
+      select: { reversalReason: true }
+    });
+    expect(rewardEngine.processEventReward).not.toHaveBeenCalled();
+  });
+
+  it('should price events that were not rejected', async () => {
+    rewardEngine.processEventReward.mockResolvedValue(null);
+
+    await expect(runJob()).resolves.toEqual({ tokensEarned: 0, reason: 'No applicable rules' });
+    expect(rewardEngine.processEventReward).toHaveBeenCalled();
+  });
+});
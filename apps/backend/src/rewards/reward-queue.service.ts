@@ -3,6 +3,8 @@ import { Queue, Worker, Job } from 'bullmq';
 import { PrismaService } from '../prisma/prisma.service';
 import { RewardEngineService } from './reward-engine.service';
 import { RewardAuditService } from './reward-audit.service';
+import { EmissionBudgetService, EmissionBudgetExhaustedError } from './emission-budget.service';
+import { LedgerService } from '../ledger/ledger.service';
 import Redis from 'ioredis';
 
 interface RewardJobData {
@@ -18,9 +20,27 @@ interface StreakJobData extends RewardJobData {
     streakType: string;
     streakCount: number;
     category: string;
+    runStartDate?: string; // identifies the streak run the milestone belongs to
   };
 }
 
+interface IssueRewardData {
+  userId: string;
+  type: 'ACTIVITY' | 'STREAK' | 'MILESTONE';
+  amount: number;
+  sourceType: string;
+  sourceId: string | null;
+  ruleKey: string;
+  [field: string]: any;
+}
+
+// Rule keys for the payouts an event can earn
+export const ACTIVITY_RULE_KEY = 'activity';
+export const PARTNER_BONUS_RULE_KEY = 'partner_approval';
+
+// Reversal reason for payouts of an edited event; those are re-issued
+export const EDITED_EVENT_REVERSAL = 'event_updated';
+
 interface MilestoneJobData extends RewardJobData {
   type: 'MILESTONE';
   metadata: {
@@ -41,7 +61,9 @@ export class RewardQueueService implements OnModuleInit, OnModuleDestroy {
   constructor(
     private readonly prisma: PrismaService,
     private readonly rewardEngine: RewardEngineService,
-    private readonly auditService: RewardAuditService
+    private readonly auditService: RewardAuditService,
+    private readonly emissionService: EmissionBudgetService,
+    private readonly ledgerService: LedgerService
   ) {
     // Initialize Redis connection
     this.redis = new Redis({
@@ -168,7 +190,8 @@ export class RewardQueueService implements OnModuleInit, OnModuleDestroy {
     userId: string,
     streakType: string,
     streakCount: number,
-    category: string
+    category: string,
+    runStartDate?: string
   ): Promise<string> {
     try {
       const job = await this.rewardQueue.add(
@@ -179,7 +202,8 @@ export class RewardQueueService implements OnModuleInit, OnModuleDestroy {
           metadata: {
             streakType,
             streakCount,
-            category
+            category,
+            runStartDate
           }
         } as StreakJobData,
         {
@@ -250,6 +274,45 @@ export class RewardQueueService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Pay the partner approval bonus for an event. Safe to call on every
+   * approval: the bonus is issued at most once per event.
+   */
+  async queuePartnerBonus(userId: string, eventId: string): Promise<string> {
+    try {
+      const job = await this.rewardQueue.add(
+        'process-partner-bonus',
+        {
+          userId,
+          eventId,
+          type: 'ACTIVITY',
+          metadata: { ruleKey: PARTNER_BONUS_RULE_KEY }
+        } as RewardJobData,
+        {
+          priority: 5,
+          removeOnComplete: true,
+          removeOnFail: false
+        }
+      );
+
+      await this.prisma.rewardJob.create({
+        data: {
+          jobId: job.id!,
+          userId,
+          eventId,
+          type: 'ACTIVITY',
+          status: 'PENDING'
+        }
+      });
+
+      this.logger.log(`Queued partner bonus job ${job.id} for user ${userId}, event ${eventId}`);
+      return job.id!;
+    } catch (error) {
+      this.logger.error(`Failed to queue partner bonus:`, error);
+      throw error;
+    }
+  }
+
   private async processRewardJob(job: Job<RewardJobData>): Promise<any> {
     const { userId, eventId, type, metadata } = job.data;
     
@@ -262,7 +325,9 @@ export class RewardQueueService implements OnModuleInit, OnModuleDestroy {
       let result;
       switch (type) {
         case 'ACTIVITY':
-          result = await this.processEventReward(userId, eventId!);
+          result = metadata?.ruleKey === PARTNER_BONUS_RULE_KEY
+            ? await this.processPartnerBonus(userId, eventId!)
+            : await this.processEventReward(userId, eventId!);
           break;
         case 'STREAK':
           result = await this.processStreakReward(userId, metadata);
@@ -274,13 +339,17 @@ export class RewardQueueService implements OnModuleInit, OnModuleDestroy {
           throw new Error(`Unknown reward type: ${type}`);
       }
 
-      // Update job status to completed
-      await this.updateJobStatus(job.id!, 'COMPLETED', result);
+      // Update job status to completed; a skipped job keeps why, like a deferred one
+      await this.updateJobStatus(job.id!, 'COMPLETED', result, result?.skipped ? result.reason : undefined);
       
       this.logger.log(`Completed reward job ${job.id}: ${result?.tokensEarned || 0} tokens`);
       return result;
 
     } catch (error) {
+      if (error instanceof EmissionBudgetExhaustedError) {
+        return await this.deferJob(job, error);
+      }
+
       this.logger.error(`Error processing job ${job.id}:`, error);
       
       // Update job status to failed
@@ -308,6 +377,14 @@ export class RewardQueueService implements OnModuleInit, OnModuleDestroy {
       throw new Error(`Event ${eventId} not found`);
     }
 
+    // The event was rejected before this job ran (a deferred job makes that
+    // likely); its clawback has already happened, so nothing is paid
+    const rejection = await this.findEventRejection(event);
+    if (rejection) {
+      this.logger.log(`Skipping reward for event ${eventId}: ${rejection}`);
+      return { tokensEarned: 0, skipped: true, reason: rejection };
+    }
+
     // Process reward using engine
     const rewardResult = await this.rewardEngine.processEventReward(userId, eventId, event);
     
@@ -316,47 +393,132 @@ export class RewardQueueService implements OnModuleInit, OnModuleDestroy {
     }
 
     // Create reward record
-    const reward = await this.prisma.reward.create({
-      data: {
-        userId,
+    const { reward, issued } = await this.issueReward({
+      userId,
+      eventId,
+      type: 'ACTIVITY',
+      amount: rewardResult.finalAmount,
+      reason: `Activity: ${event.title}`,
+      sourceType: 'event',
+      sourceId: eventId,
+      ruleKey: ACTIVITY_RULE_KEY,
+      multiplier: rewardResult.multipliers.length > 0 ? 
+        rewardResult.multipliers.reduce((acc, m) => acc * m.multiplier, 1) : null,
+      bonusReason: rewardResult.multipliers.map(m => m.description).join(', '),
+      policyVersion: rewardResult.policyVersion,
+      status: 'APPROVED' // Auto-approve event rewards
+    });
+
+    if (issued) {
+      // Audit the reward processing
+      await this.auditService.logRewardProcessing(userId, 'reward_created', {
+        rewardId: reward.id,
         eventId,
-        type: 'ACTIVITY',
         amount: rewardResult.finalAmount,
-        reason: `Activity: ${event.title}`,
-        sourceType: 'event',
-        multiplier: rewardResult.multipliers.length > 0 ? 
-          rewardResult.multipliers.reduce((acc, m) => acc * m.multiplier, 1) : null,
-        bonusReason: rewardResult.multipliers.map(m => m.description).join(', '),
-        status: 'APPROVED' // Auto-approve event rewards
-      }
-    });
+        rulesApplied: rewardResult.rulesApplied
+      });
+    }
 
-    // Update user total tokens
-    await this.prisma.userProfile.update({
-      where: { userId },
-      data: {
-        totalTokens: { increment: rewardResult.finalAmount }
-      }
-    });
+    // An approval that landed before this job ran is paid here
+    const bonus = await this.processPartnerBonus(userId, eventId);
 
-    // Audit the reward processing
-    await this.auditService.logRewardProcessing(userId, 'reward_created', {
+    return {
+      tokensEarned: (issued ? reward.amount : 0) + bonus.tokensEarned,
       rewardId: reward.id,
+      duplicate: !issued,
+      rulesApplied: rewardResult.rulesApplied,
+      multipliers: rewardResult.multipliers
+    };
+  }
+
+  /**
+   * Why an event must not be paid, if it was rejected by its partner or by
+   * AI review, or had its rewards reversed for a reason other than an edit
+   */
+  private async findEventRejection(event: { id: string; eventApproval: { status: string } | null }): Promise<string | null> {
+    if (event.eventApproval?.status === 'REJECTED') {
+      return 'Event rejected by partner';
+    }
+
+    const [aiRejection, reversed] = await Promise.all([
+      this.prisma.auditLog.findFirst({
+        where: { action: 'EVENT_AUTO_REJECTED', resource: 'Event', resourceId: event.id },
+        select: { id: true }
+      }),
+      this.prisma.reward.findFirst({
+        where: { eventId: event.id, status: 'REVERSED', NOT: { reversalReason: EDITED_EVENT_REVERSAL } },
+        select: { reversalReason: true }
+      })
+    ]);
+
+    if (aiRejection) {
+      return 'Event rejected by AI review';
+    }
+    if (reversed) {
+      return `Event rewards were reversed: ${reversed.reversalReason}`;
+    }
+    return null;
+  }
+
+  private async processPartnerBonus(userId: string, eventId: string) {
+    const [approval, activityReward] = await Promise.all([
+      this.prisma.eventApproval.findUnique({ where: { eventId } }),
+      this.prisma.reward.findUnique({
+        where: {
+          sourceType_sourceId_ruleKey: { sourceType: 'event', sourceId: eventId, ruleKey: ACTIVITY_RULE_KEY }
+        }
+      })
+    ]);
+
+    if (approval?.status !== 'APPROVED') {
+      return { tokensEarned: 0, reason: 'Event not partner approved' };
+    }
+
+    // The bonus scales the activity reward; if that has not been paid yet,
+    // its job pays the bonus once it has
+    if (!activityReward || !['APPROVED', 'CLAIMED'].includes(activityReward.status)) {
+      return { tokensEarned: 0, reason: 'Activity reward not issued yet' };
+    }
+
+    const amount = this.rewardEngine.calculatePartnerBonus(activityReward.amount, approval.approvalMultiplier);
+    if (amount <= 0) {
+      return { tokensEarned: 0, reason: 'No partner bonus' };
+    }
+
+    const { reward, issued } = await this.issueReward({
+      userId,
       eventId,
-      amount: rewardResult.finalAmount,
-      rulesApplied: rewardResult.rulesApplied
+      type: 'ACTIVITY',
+      amount,
+      reason: 'Partner approval bonus',
+      sourceType: 'event',
+      sourceId: eventId,
+      ruleKey: PARTNER_BONUS_RULE_KEY,
+      multiplier: approval.approvalMultiplier,
+      bonusReason: 'Partner approved activity',
+      policyVersion: activityReward.policyVersion,
+      status: 'APPROVED'
     });
 
+    if (issued) {
+      await this.auditService.logRewardProcessing(userId, 'reward_created', {
+        rewardId: reward.id,
+        eventId,
+        amount,
+        rulesApplied: [PARTNER_BONUS_RULE_KEY]
+      });
+    }
+
     return {
-      tokensEarned: rewardResult.finalAmount,
+      tokensEarned: issued ? amount : 0,
       rewardId: reward.id,
-      rulesApplied: rewardResult.rulesApplied,
-      multipliers: rewardResult.multipliers
+      duplicate: !issued,
+      rulesApplied: [PARTNER_BONUS_RULE_KEY]
     };
   }
 
   private async processStreakReward(userId: string, metadata: any) {
-    const { streakType, streakCount, category } = metadata;
+    const { streakType, streakCount, category, runStartDate } = metadata;
 
     // Process streak reward using engine
     const rewardResult = await this.rewardEngine.processStreakReward(
@@ -371,28 +533,23 @@ export class RewardQueueService implements OnModuleInit, OnModuleDestroy {
     }
 
     // Create reward record
-    const reward = await this.prisma.reward.create({
-      data: {
-        userId,
-        type: 'STREAK',
-        amount: rewardResult.finalAmount,
-        reason: `${streakType} streak of ${streakCount} days (${category})`,
-        sourceType: 'streak',
-        status: 'APPROVED'
-      }
-    });
-
-    // Update user total tokens
-    await this.prisma.userProfile.update({
-      where: { userId },
-      data: {
-        totalTokens: { increment: rewardResult.finalAmount }
-      }
+    const { reward, issued } = await this.issueReward({
+      userId,
+      type: 'STREAK',
+      amount: rewardResult.finalAmount,
+      reason: `${streakType} streak of ${streakCount} days (${category})`,
+      sourceType: 'streak',
+      // Jobs queued before runs were tracked carry no run and are not deduplicated
+      sourceId: runStartDate ? `${userId}:${streakType}:${category}:${runStartDate}` : null,
+      ruleKey: `streak_${streakCount}`,
+      policyVersion: rewardResult.policyVersion,
+      status: 'APPROVED'
     });
 
     return {
-      tokensEarned: rewardResult.finalAmount,
+      tokensEarned: issued ? reward.amount : 0,
       rewardId: reward.id,
+      duplicate: !issued,
       streakCount,
       rulesApplied: rewardResult.rulesApplied
     };
@@ -402,33 +559,132 @@ export class RewardQueueService implements OnModuleInit, OnModuleDestroy {
     const { milestoneId, planId, description, tokenAmount } = metadata;
 
     // Create milestone reward
-    const reward = await this.prisma.reward.create({
-      data: {
-        userId,
-        type: 'MILESTONE',
-        amount: tokenAmount,
-        reason: `Milestone completed: ${description}`,
-        sourceType: 'milestone',
-        status: 'APPROVED'
-      }
-    });
-
-    // Update user total tokens
-    await this.prisma.userProfile.update({
-      where: { userId },
-      data: {
-        totalTokens: { increment: tokenAmount }
-      }
+    const { reward, issued } = await this.issueReward({
+      userId,
+      type: 'MILESTONE',
+      amount: tokenAmount,
+      reason: `Milestone completed: ${description}`,
+      sourceType: 'milestone',
+      sourceId: `${planId}:${milestoneId}`,
+      ruleKey: 'milestone',
+      status: 'APPROVED'
     });
 
     return {
-      tokensEarned: tokenAmount,
+      tokensEarned: issued ? tokenAmount : 0,
       rewardId: reward.id,
+      duplicate: !issued,
       milestoneId,
       planId
     };
   }
 
+  /**
+   * Create an approved reward and post it to the ledger, counting it against the
+   * emission budgets in the same transaction. Throws
+   * EmissionBudgetExhaustedError (nothing written) when a budget is full.
+   *
+   * Idempotent on (sourceType, sourceId, ruleKey): if that payout already
+   * exists it is returned with issued = false. A payout reversed because its
+   * event was edited (or a legacy REJECTED one) is re-issued in place, which
+   * is how edited events are repaid; other reversals are final.
+   */
+  private async issueReward(data: IssueRewardData): Promise<{ reward: any; issued: boolean }> {
+    const key = data.sourceId
+      ? { sourceType: data.sourceType, sourceId: data.sourceId, ruleKey: data.ruleKey }
+      : null;
+
+    try {
+      const result = await this.prisma.$transaction(async (tx) => {
+        const existing = key
+          ? await tx.reward.findUnique({ where: { sourceType_sourceId_ruleKey: key } })
+          : null;
+
+        if (existing && !this.isReissuable(existing)) {
+          return { reward: existing, issued: false, reservations: [] };
+        }
+
+        const reservations = await this.emissionService.reserve(tx, data.type, data.amount);
+
+        const reward = existing
+          ? await tx.reward.update({
+              where: { id: existing.id },
+              data: { ...data, earnedAt: new Date(), claimedAt: null, reversedAt: null, reversalReason: null }
+            })
+          : await tx.reward.create({ data });
+
+        await this.ledgerService.recordRewardIssued(tx, reward);
+
+        return { reward, issued: true, reservations };
+      });
+
+      await this.emissionService.checkAlerts(result.reservations);
+
+      return { reward: result.reward, issued: result.issued };
+    } catch (error) {
+      // A concurrent job created the same payout first
+      if (key && error?.code === 'P2002') {
+        const reward = await this.prisma.reward.findUnique({
+          where: { sourceType_sourceId_ruleKey: key }
+        });
+        if (reward) {
+          return { reward, issued: false };
+        }
+      }
+      throw error;
+    }
+  }
+
+  private isReissuable(reward: { status: string; reversalReason: string | null }): boolean {
+    return reward.status === 'REJECTED' ||
+      (reward.status === 'REVERSED' && reward.reversalReason === EDITED_EVENT_REVERSAL);
+  }
+
+  /**
+   * Re-queue a job whose budget is exhausted for when the period rolls over.
+   * The amount is recomputed then, so nothing is dropped.
+   */
+  private async deferJob(job: Job<RewardJobData>, exhausted: EmissionBudgetExhaustedError) {
+    const delay = Math.max(0, exhausted.resumeAt.getTime() - Date.now());
+
+    const deferred = await this.rewardQueue.add(job.name, job.data, {
+      priority: job.opts.priority,
+      delay,
+      removeOnComplete: true,
+      removeOnFail: false
+    });
+
+    await this.prisma.rewardJob.update({
+      where: { jobId: job.id! },
+      data: {
+        jobId: deferred.id!,
+        status: 'DEFERRED',
+        scheduledFor: exhausted.resumeAt,
+        errorMessage: exhausted.message
+      }
+    });
+
+    try {
+      await this.emissionService.recordDeferral(exhausted);
+    } catch (error) {
+      this.logger.error(`Failed to record emission deferral for job ${job.id}:`, error);
+    }
+
+    await this.auditService.logRewardProcessing(job.data.userId, 'reward_deferred', {
+      jobId: deferred.id!,
+      previousJobId: job.id!,
+      eventId: job.data.eventId,
+      type: job.data.type,
+      scope: exhausted.scope,
+      period: exhausted.period,
+      resumeAt: exhausted.resumeAt
+    });
+
+    this.logger.warn(`Deferred reward job ${job.id} as ${deferred.id}: ${exhausted.message}`);
+
+    return { tokensEarned: 0, deferredUntil: exhausted.resumeAt, jobId: deferred.id };
+  }
+
   private async updateJobStatus(
     jobId: string,
     status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED',
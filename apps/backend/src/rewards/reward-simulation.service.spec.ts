@@ -0,0 +1,138 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { RewardSimulationService } from './reward-simulation.service';
+import { RewardEngineService } from './reward-engine.service';
+import { RewardPolicyService } from './reward-policy.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('RewardSimulationService', () => {
+  let service: RewardSimulationService;
+  let prismaService: any;
+
+  const config = {
+    baseRewards: { WORKOUT: 10 },
+    categoryMultipliers: { FITNESS: 1.0 },
+    durationScaling: { referenceMinutes: 30, maxMultiplier: 3.0 },
+    intensityScaling: { neutral: 5 },
+    moodMultipliers: {},
+    streakBonuses: {},
+    partnerBonuses: { approved: 5, featured: 10 },
+    dailyCaps: { individual: 25, total: 10000 },
+    minimums: { duration: 5, intensity: 1 },
+  };
+
+  const workout = (id: string, userId: string, completedAt: string) => ({
+    id,
+    userId,
+    type: 'WORKOUT',
+    category: 'FITNESS',
+    duration: 30,
+    intensity: 5,
+    mood: null,
+    energy: null,
+    caloriesBurned: null,
+    completedAt: new Date(completedAt),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RewardSimulationService,
+        RewardEngineService,
+        {
+          provide: PrismaService,
+          useValue: {
+            event: {
+              findMany: jest.fn(),
+            },
+            userProfile: {
+              findMany: jest.fn().mockResolvedValue([]),
+            },
+            eventApproval: {
+              findMany: jest.fn().mockResolvedValue([]),
+            },
+            reward: {
+              groupBy: jest.fn().mockResolvedValue([]),
+              create: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: RewardPolicyService,
+          useValue: {
+            getActivePolicy: jest.fn().mockResolvedValue({
+              id: 'policy-id',
+              version: 4,
+              config,
+              rules: [],
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RewardSimulationService>(RewardSimulationService);
+    prismaService = module.get(PrismaService);
+  });
+
+  it('should compare draft economics with the live policy without writing rewards', async () => {
+    prismaService.event.findMany.mockResolvedValue([
+      workout('e1', 'user-a', '2026-09-10T12:00:00Z'),
+      workout('e2', 'user-b', '2026-09-10T12:00:00Z'),
+      workout('e3', 'user-b', '2026-09-10T13:00:00Z'),
+      workout('e4', 'user-b', '2026-09-10T14:00:00Z'),
+    ]);
+
+    const result = await service.simulate({
+      from: new Date('2026-09-01T00:00:00Z'),
+      to: new Date('2026-10-01T00:00:00Z'),
+      config: { baseRewards: { WORKOUT: 20 } },
+    });
+
+    // user-b hits the daily cap of 25 in both scenarios
+    expect(result.live).toMatchObject({ policyVersion: 4, totalTokens: 35, rewardedEvents: 4, cappedAwards: 1 });
+    expect(result.draft).toMatchObject({ totalTokens: 45, rewardedEvents: 3, cappedAwards: 2 });
+    expect(result.delta.totalTokens).toBe(10);
+    expect(result.topGainers).toEqual([
+      { userId: 'user-a', events: 1, live: 10, draft: 20, delta: 10 },
+    ]);
+    expect(result.topLosers).toEqual([]);
+    expect(prismaService.reward.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid draft rule conditions', async () => {
+    await expect(service.simulate({
+      from: new Date('2026-09-01T00:00:00Z'),
+      to: new Date('2026-10-01T00:00:00Z'),
+      rules: [{
+        name: 'bad_rule',
+        description: 'Unknown condition',
+        conditions: { minDurations: 10 },
+        baseAmount: 5,
+      }],
+    })).rejects.toThrow(BadRequestException);
+  });
+
+  it('should reject draft economics out of range', async () => {
+    for (const draft of [
+      { durationScaling: { referenceMinutes: 0, maxMultiplier: 3.0 } },
+      { baseRewards: { WORKOUT: -5 } },
+      { dailyCaps: { individual: 500, total: 100 } },
+      { unknownSection: {} },
+    ]) {
+      await expect(service.simulate({
+        from: new Date('2026-09-01T00:00:00Z'),
+        to: new Date('2026-10-01T00:00:00Z'),
+        config: draft as any,
+      })).rejects.toThrow(BadRequestException);
+    }
+    expect(prismaService.event.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should reject windows longer than the maximum', async () => {
+    await expect(service.simulate({
+      from: new Date('2026-01-01T00:00:00Z'),
+      to: new Date('2026-10-01T00:00:00Z'),
+    })).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,320 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { RewardPolicyService, PolicyRuleInput, parsePolicyConfigChanges } from './reward-policy.service';
+import {
+  RewardEngineService,
+  RewardCapLedger,
+  EvaluatedPolicy,
+  ProcessedReward
+} from './reward-engine.service';
+import { validateRuleConditions } from './rule-conditions';
+import { getZonedDayBounds, resolveTimezone } from '@omnifit/shared';
+import type { RewardPolicyConfig } from '@omnifit/shared';
+
+const MAX_SIMULATION_DAYS = 92;
+const MAX_SIMULATION_EVENTS = 50000;
+const DEFAULT_TOP_USERS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RewardSimulationInput {
+  from: Date;
+  to: Date;
+  rules?: PolicyRuleInput[];            // draft rule set; defaults to the live rules
+  config?: Partial<RewardPolicyConfig>; // draft economics; merged over the live config
+  userIds?: string[];
+  top?: number;
+}
+
+interface ScenarioTotals {
+  totalTokens: number;
+  rewardedEvents: number;
+  cappedAwards: number;
+  cappedByType: Record<string, number>;
+}
+
+interface UserOutcome {
+  userId: string;
+  events: number;
+  live: number;
+  draft: number;
+  delta: number;
+}
+
+/**
+ * Cap ledger that only exists for the length of a simulation. It starts
+ * from what users had earned before the window and adds simulated awards.
+ */
+class SimulatedCapLedger implements RewardCapLedger {
+  private readonly userDay = new Map<string, number>();
+  private readonly userTotals: Map<string, number>;
+
+  constructor(openingUserTotals: Map<string, number>) {
+    this.userTotals = new Map(openingUserTotals);
+  }
+
+  async getUserDayTotal(userId: string, dayStart: Date) {
+    return this.userDay.get(`${userId}:${dayStart.getTime()}`) || 0;
+  }
+
+  async getUserTotal(userId: string) {
+    return this.userTotals.get(userId) || 0;
+  }
+
+  // Keyed the same way the engine asks: by the user's local day
+  record(userId: string, timezone: string, at: Date, amount: number) {
+    const userKey = `${userId}:${getZonedDayBounds(at, timezone).start.getTime()}`;
+
+    this.userDay.set(userKey, (this.userDay.get(userKey) || 0) + amount);
+    this.userTotals.set(userId, (this.userTotals.get(userId) || 0) + amount);
+  }
+}
+
+@Injectable()
+export class RewardSimulationService {
+  private readonly logger = new Logger(RewardSimulationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly policyService: RewardPolicyService,
+    private readonly rewardEngine: RewardEngineService
+  ) {}
+
+  /**
+   * Replay historical events through the live policy and a draft one and
+   * compare the outcomes. Read-only: no Reward rows are written.
+   *
+   * Both scenarios see the same inputs, so the comparison is exact even
+   * though streaks are taken from current profiles rather than as they
+   * were at the time of each event.
+   */
+  async simulate(input: RewardSimulationInput) {
+    const { from, to } = input;
+    this.assertValidWindow(from, to);
+
+    const live = await this.policyService.getActivePolicy();
+    const draft = this.buildDraftPolicy(live, input);
+
+    // Load a day before the window so first-of-day checks see events
+    // earlier on the same local day, whatever the user's timezone
+    const events = await this.prisma.event.findMany({
+      where: {
+        completedAt: { gte: new Date(from.getTime() - DAY_MS), lte: to },
+        ...(input.userIds?.length && { userId: { in: input.userIds } })
+      },
+      orderBy: { completedAt: 'asc' }
+    });
+
+    const inWindow = events.filter((e) => e.completedAt >= from);
+    if (inWindow.length > MAX_SIMULATION_EVENTS) {
+      throw new BadRequestException(
+        `Window contains ${inWindow.length} events; narrow it to at most ${MAX_SIMULATION_EVENTS}`
+      );
+    }
+
+    const userIds = [...new Set(inWindow.map((e) => e.userId))];
+    const [profiles, approvals, openingTotals] = await Promise.all([
+      this.prisma.userProfile.findMany({
+        where: { userId: { in: userIds } },
+        select: {
+          userId: true,
+          timezone: true,
+          currentFitnessStreak: true,
+          currentSpiritualStreak: true,
+          currentCombinedStreak: true
+        }
+      }),
+      this.prisma.eventApproval.findMany({
+        where: { event: { completedAt: { gte: from, lte: to } } },
+        select: { eventId: true, status: true, approvalMultiplier: true }
+      }),
+      this.prisma.reward.groupBy({
+        by: ['userId'],
+        _sum: { amount: true },
+        where: {
+          userId: { in: userIds },
+          createdAt: { lt: from },
+          status: { in: ['APPROVED', 'CLAIMED'] }
+        }
+      })
+    ]);
+
+    const profileByUser = new Map(profiles.map((p) => [p.userId, p]));
+    const approvalByEvent = new Map(approvals.map((a) => [a.eventId, a]));
+    const opening = new Map(openingTotals.map((t) => [t.userId, t._sum.amount || 0]));
+
+    const liveLedger = new SimulatedCapLedger(opening);
+    const draftLedger = new SimulatedCapLedger(opening);
+    const liveTotals = this.emptyTotals();
+    const draftTotals = this.emptyTotals();
+    const outcomes = new Map<string, UserOutcome>();
+    const activeDays = new Set<string>();
+
+    for (const event of events) {
+      const profile = profileByUser.get(event.userId) || null;
+      const timezone = resolveTimezone(profile?.timezone);
+      const dayStart = this.rewardEngine.getDayStart(event.completedAt, timezone);
+      const dayKey = `${event.userId}:${dayStart.getTime()}`;
+      const firstOfDay = !activeDays.has(dayKey);
+      activeDays.add(dayKey);
+
+      if (event.completedAt < from) {
+        continue;
+      }
+
+      const approval = approvalByEvent.get(event.id) || null;
+      const context = this.rewardEngine.createConditionContext(event, {
+        profile,
+        approval,
+        firstOfDay
+      });
+
+      // Rewards are awarded as events come in, so event time stands in for award time
+      const [liveReward, draftReward] = await Promise.all([
+        this.rewardEngine.evaluateEventReward(live, event.userId, event, context, liveLedger, event.completedAt),
+        this.rewardEngine.evaluateEventReward(draft, event.userId, event, context, draftLedger, event.completedAt)
+      ]);
+
+      const liveAmount = this.record(liveTotals, liveLedger, event, timezone, liveReward, approval);
+      const draftAmount = this.record(draftTotals, draftLedger, event, timezone, draftReward, approval);
+
+      const outcome = outcomes.get(event.userId) || { userId: event.userId, events: 0, live: 0, draft: 0, delta: 0 };
+      outcome.events++;
+      outcome.live += liveAmount;
+      outcome.draft += draftAmount;
+      outcome.delta = outcome.draft - outcome.live;
+      outcomes.set(event.userId, outcome);
+    }
+
+    const users = [...outcomes.values()];
+    const top = input.top || DEFAULT_TOP_USERS;
+
+    this.logger.log(
+      `Simulated ${inWindow.length} events for ${users.length} users: ` +
+      `live ${liveTotals.totalTokens}, draft ${draftTotals.totalTokens} tokens`
+    );
+
+    return {
+      window: { from, to },
+      events: inWindow.length,
+      users: users.length,
+      live: { policyVersion: live.version, ...liveTotals },
+      draft: { basedOnVersion: live.version, ...draftTotals },
+      delta: {
+        totalTokens: draftTotals.totalTokens - liveTotals.totalTokens,
+        percent: liveTotals.totalTokens > 0
+          ? Math.round(((draftTotals.totalTokens - liveTotals.totalTokens) / liveTotals.totalTokens) * 10000) / 100
+          : null
+      },
+      distribution: {
+        live: this.summarize(users.map((u) => u.live)),
+        draft: this.summarize(users.map((u) => u.draft))
+      },
+      topGainers: users
+        .filter((u) => u.delta > 0)
+        .sort((a, b) => b.delta - a.delta)
+        .slice(0, top),
+      topLosers: users
+        .filter((u) => u.delta < 0)
+        .sort((a, b) => a.delta - b.delta)
+        .slice(0, top)
+    };
+  }
+
+  private assertValidWindow(from: Date, to: Date) {
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      throw new BadRequestException('from and to must be valid dates');
+    }
+
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    if (to.getTime() - from.getTime() > MAX_SIMULATION_DAYS * 24 * 60 * 60 * 1000) {
+      throw new BadRequestException(`Simulation window cannot exceed ${MAX_SIMULATION_DAYS} days`);
+    }
+  }
+
+  private buildDraftPolicy(live: EvaluatedPolicy, input: RewardSimulationInput): EvaluatedPolicy {
+    const config = { ...live.config, ...parsePolicyConfigChanges(input.config) };
+
+    if (!input.rules) {
+      return { version: live.version, config, rules: live.rules };
+    }
+
+    const errors = input.rules.flatMap((rule, i) =>
+      validateRuleConditions(rule.conditions, rule.multiplierRules).map((error) => `rules[${i}].${error}`)
+    );
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Invalid reward rule conditions',
+        errors
+      });
+    }
+
+    // Same defaults and ordering as rules stored in a published version
+    const rules = input.rules
+      .map((rule) => ({
+        ...rule,
+        isActive: rule.isActive ?? true,
+        priority: rule.priority ?? 0,
+        validFrom: rule.validFrom ? new Date(rule.validFrom) : undefined,
+        validTo: rule.validTo ? new Date(rule.validTo) : undefined
+      }))
+      .sort((a, b) => b.priority - a.priority);
+
+    return { version: live.version, config, rules };
+  }
+
+  private emptyTotals(): ScenarioTotals {
+    return { totalTokens: 0, rewardedEvents: 0, cappedAwards: 0, cappedByType: {} };
+  }
+
+  private record(
+    totals: ScenarioTotals,
+    ledger: SimulatedCapLedger,
+    event: { userId: string; completedAt: Date },
+    timezone: string,
+    reward: ProcessedReward | null,
+    approval: { status: string; approvalMultiplier: number | null } | null
+  ): number {
+    if (reward?.cappingApplied) {
+      const type = reward.cappingApplied.type;
+      totals.cappedAwards++;
+      totals.cappedByType[type] = (totals.cappedByType[type] || 0) + 1;
+    }
+
+    if (!reward || reward.finalAmount <= 0) {
+      return 0;
+    }
+
+    // Partner approval pays a separate bonus on top of the activity reward
+    const bonus = approval?.status === 'APPROVED'
+      ? this.rewardEngine.calculatePartnerBonus(reward.finalAmount, approval.approvalMultiplier)
+      : 0;
+    const amount = reward.finalAmount + bonus;
+
+    totals.totalTokens += amount;
+    totals.rewardedEvents++;
+    ledger.record(event.userId, timezone, event.completedAt, amount);
+
+    return amount;
+  }
+
+  private summarize(amounts: number[]) {
+    if (amounts.length === 0) {
+      return { min: 0, median: 0, mean: 0, p90: 0, max: 0 };
+    }
+
+    const sorted = [...amounts].sort((a, b) => a - b);
+    const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+    return {
+      min: sorted[0],
+      median: percentile(0.5),
+      mean: Math.round(sorted.reduce((sum, n) => sum + n, 0) / sorted.length),
+      p90: percentile(0.9),
+      max: sorted[sorted.length - 1]
+    };
+  }
+}
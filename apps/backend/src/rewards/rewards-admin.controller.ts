@@ -8,15 +8,25 @@ import {
   Query,
   UseGuards,
   Request,
-  BadRequestException,
-  ForbiddenException
+  BadRequestException
 } from '@nestjs/common';
+import type { RewardPolicyConfig } from '@omnifit/shared';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Permissions } from '../auth/roles.decorator';
+import { StepUpGuard } from '../auth/step-up.guard';
 import { PrismaService } from '../prisma/prisma.service';
 import { RewardEngineService } from './reward-engine.service';
 import { RewardQueueService } from './reward-queue.service';
 import { MintRequestService } from './mint-request.service';
 import { RewardAuditService } from './reward-audit.service';
+import { RewardPolicyService } from './reward-policy.service';
+import { RewardSimulationService } from './reward-simulation.service';
+import { EmissionBudgetService, EmissionBudgetInput } from './emission-budget.service';
+import { RewardIntegrityService } from './reward-integrity.service';
+import { RewardClawbackService } from './reward-clawback.service';
+import { RiskScoringService } from './risk-scoring.service';
+import { validateRuleConditions } from './rule-conditions';
 
 interface CreateRewardRuleDto {
   name: string;
@@ -28,34 +38,49 @@ interface CreateRewardRuleDto {
   maxUserAmount?: number;
   validFrom?: string;
   validTo?: string;
+  priority?: number;
+}
+
+interface UpdateRewardPolicyDto {
+  description?: string;
+  config: Partial<RewardPolicyConfig>;
+}
+
+interface ReverseRewardsDto {
+  eventId?: string;
+  rewardIds?: string[];
+  reason: string;
+}
+
+interface SimulateRewardsDto {
+  from: string;
+  to: string;
+  rules?: CreateRewardRuleDto[];
+  config?: Partial<RewardPolicyConfig>;
+  userIds?: string[];
+  top?: number;
 }
 
 @Controller('admin/rewards')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Permissions('rewards:read')
 export class RewardsAdminController {
   constructor(
     private readonly prisma: PrismaService,
     private readonly rewardEngine: RewardEngineService,
     private readonly queueService: RewardQueueService,
     private readonly mintRequestService: MintRequestService,
-    private readonly auditService: RewardAuditService
+    private readonly auditService: RewardAuditService,
+    private readonly policyService: RewardPolicyService,
+    private readonly simulationService: RewardSimulationService,
+    private readonly emissionService: EmissionBudgetService,
+    private readonly integrityService: RewardIntegrityService,
+    private readonly clawbackService: RewardClawbackService,
+    private readonly riskScoringService: RiskScoringService
   ) {}
 
-  private async checkAdminAccess(userId: string) {
-    const user = await this.prisma.user.findUnique({
-      where: { id: userId },
-      select: { role: true }
-    });
-
-    if (!user || !['ADMIN', 'SUPER_ADMIN'].includes(user.role)) {
-      throw new ForbiddenException('Admin access required');
-    }
-  }
-
   @Get('mint-requests/pending')
   async getPendingMintRequests(@Request() req: any) {
-    await this.checkAdminAccess(req.user.id);
-
     const requests = await this.mintRequestService.getPendingMintRequests(req.user.id);
     
     return {
@@ -65,19 +90,47 @@ export class RewardsAdminController {
         adminReview: requests.filter(r => r.status === 'ADMIN_REVIEW').length,
         queued: requests.filter(r => r.status === 'QUEUED').length,
         approved: requests.filter(r => r.status === 'APPROVED').length,
+        awaitingMyApproval: requests.filter(r => r.canApprove).length,
         totalValue: requests.reduce((sum, r) => sum + r.tokenAmount, 0)
       }
     };
   }
 
+  @Get('mint-requests/:id/history')
+  async getMintRequestHistory(@Param('id') mintRequestId: string) {
+    const history = await this.mintRequestService.getMintRequestHistory(mintRequestId);
+
+    return { data: history };
+  }
+
+  @Get('risk/features')
+  async getRiskFeatures() {
+    return { data: this.riskScoringService.getFeatures() };
+  }
+
+  @Get('risk/assessments')
+  async exportRiskAssessments(
+    @Query('dateFrom') dateFrom?: string,
+    @Query('dateTo') dateTo?: string,
+    @Query('decided') decided?: string,
+    @Query('limit') limit?: string
+  ) {
+    return await this.riskScoringService.exportAssessments({
+      from: dateFrom ? new Date(dateFrom) : undefined,
+      to: dateTo ? new Date(dateTo) : undefined,
+      decidedOnly: decided === 'true',
+      limit: limit ? parseInt(limit) : undefined
+    });
+  }
+
   @Put('mint-requests/:id/approve')
+  @UseGuards(StepUpGuard)
+  @Permissions('rewards:approve')
   async approveMintRequest(
     @Request() req: any,
     @Param('id') mintRequestId: string,
     @Body() approvalData: { notes?: string }
   ) {
-    await this.checkAdminAccess(req.user.id);
-
     const ipAddress = req.ip || req.connection.remoteAddress;
     const userAgent = req.get('user-agent');
 
@@ -89,21 +142,66 @@ export class RewardsAdminController {
       userAgent
     );
 
+    const { approvalStatus } = result;
+
     return {
       success: true,
       data: result,
-      message: 'Mint request approved successfully'
+      message: approvalStatus.satisfied
+        ? 'Mint request approved successfully'
+        : `Approval recorded (${approvalStatus.received} of ${approvalStatus.required}` +
+          `${approvalStatus.hasRequiredRole ? '' : `, ${approvalStatus.requiredRole} approval required`})`
     };
   }
 
+  @Post('reversals')
+  @UseGuards(StepUpGuard)
+  @Permissions('rewards:approve')
+  async reverseRewards(
+    @Request() req: any,
+    @Body() body: ReverseRewardsDto
+  ) {
+    if (!body.reason) {
+      throw new BadRequestException('Reversal reason is required');
+    }
+    if (!body.eventId && !body.rewardIds?.length) {
+      throw new BadRequestException('eventId or rewardIds is required');
+    }
+
+    const context = {
+      triggeredBy: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    };
+
+    const result = body.eventId
+      ? await this.clawbackService.reverseEventRewards(body.eventId, body.reason, context)
+      : await this.clawbackService.reverseRewardsById(body.rewardIds!, body.reason, context);
+
+    return {
+      success: true,
+      data: result,
+      message: `Reversed ${result.reversed} rewards (${result.tokens} tokens, ${result.debt} recorded as debt)`
+    };
+  }
+
+  @Get('debts')
+  async getRewardDebts(
+    @Query('userId') userId?: string
+  ) {
+    const debts = await this.clawbackService.getDebts(userId);
+
+    return { data: debts };
+  }
+
   @Put('mint-requests/:id/reject')
+  @UseGuards(StepUpGuard)
+  @Permissions('rewards:approve')
   async rejectMintRequest(
     @Request() req: any,
     @Param('id') mintRequestId: string,
     @Body() rejectionData: { reason: string }
   ) {
-    await this.checkAdminAccess(req.user.id);
-
     if (!rejectionData.reason) {
       throw new BadRequestException('Rejection reason is required');
     }
@@ -128,40 +226,61 @@ export class RewardsAdminController {
 
   @Get('rules')
   async getRewardRules(
-    @Request() req: any,
     @Query('active') active?: string
   ) {
-    await this.checkAdminAccess(req.user.id);
-
     const isActive = active === 'true' ? true : active === 'false' ? false : undefined;
     const rules = await this.rewardEngine.getRewardRules(isActive);
 
     return { data: rules };
   }
 
+  private assertValidRuleConditions(conditions: any, multiplierRules?: any[]) {
+    const errors = validateRuleConditions(conditions, multiplierRules);
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Invalid reward rule conditions',
+        errors
+      });
+    }
+  }
+
+  @Post('rules/validate')
+  async validateRewardRule(
+    @Body() ruleData: Pick<CreateRewardRuleDto, 'conditions' | 'multiplierRules'>
+  ) {
+    const errors = validateRuleConditions(ruleData.conditions, ruleData.multiplierRules);
+
+    return {
+      data: {
+        valid: errors.length === 0,
+        errors
+      }
+    };
+  }
+
   @Post('rules')
+  @UseGuards(StepUpGuard)
+  @Permissions('rewards:manage')
   async createRewardRule(
     @Request() req: any,
     @Body() ruleData: CreateRewardRuleDto
   ) {
-    await this.checkAdminAccess(req.user.id);
-
-    const rule = await this.rewardEngine.createRewardRule({
-      ...ruleData,
-      validFrom: ruleData.validFrom ? new Date(ruleData.validFrom) : undefined,
-      validTo: ruleData.validTo ? new Date(ruleData.validTo) : undefined,
-      createdBy: req.user.id
-    });
-
-    // Audit the rule creation
-    await this.auditService.logRuleChange(
-      req.user.id,
-      'rule_created',
-      rule.id,
-      null,
-      ruleData,
-      req.ip,
-      req.get('user-agent')
+    this.assertValidRuleConditions(ruleData.conditions, ruleData.multiplierRules);
+
+    // Publishes a new policy version containing the rule; audited by the policy service
+    const rule = await this.policyService.createRule(
+      {
+        ...ruleData,
+        validFrom: ruleData.validFrom ? new Date(ruleData.validFrom) : undefined,
+        validTo: ruleData.validTo ? new Date(ruleData.validTo) : undefined
+      },
+      {
+        adminId: req.user.id,
+        description: `Added rule ${ruleData.name}`,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      }
     );
 
     return {
@@ -172,33 +291,35 @@ export class RewardsAdminController {
   }
 
   @Put('rules/:id')
+  @UseGuards(StepUpGuard)
+  @Permissions('rewards:manage')
   async updateRewardRule(
     @Request() req: any,
     @Param('id') ruleId: string,
     @Body() updates: Partial<CreateRewardRuleDto>
   ) {
-    await this.checkAdminAccess(req.user.id);
-
-    // Get existing rule for audit
-    const existingRule = await this.prisma.rewardRule.findUnique({
-      where: { id: ruleId }
-    });
-
-    if (!existingRule) {
-      throw new BadRequestException('Reward rule not found');
+    if (updates.conditions !== undefined || updates.multiplierRules !== undefined) {
+      const existing = (await this.rewardEngine.getRewardRules()).find((r) => r.id === ruleId);
+      this.assertValidRuleConditions(
+        updates.conditions ?? existing?.conditions ?? {},
+        updates.multiplierRules ?? existing?.multiplierRules ?? undefined
+      );
     }
 
-    const updatedRule = await this.rewardEngine.updateRewardRule(ruleId, updates);
-
-    // Audit the rule change
-    await this.auditService.logRuleChange(
-      req.user.id,
-      'rule_updated',
+    const { validFrom, validTo, ...rest } = updates;
+    const updatedRule = await this.policyService.updateRule(
       ruleId,
-      existingRule,
-      updates,
-      req.ip,
-      req.get('user-agent')
+      {
+        ...rest,
+        ...(validFrom !== undefined && { validFrom: new Date(validFrom) }),
+        ...(validTo !== undefined && { validTo: new Date(validTo) })
+      },
+      {
+        adminId: req.user.id,
+        description: `Updated rule ${ruleId}`,
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      }
     );
 
     return {
@@ -208,10 +329,159 @@ export class RewardsAdminController {
     };
   }
 
-  @Get('queue/stats')
-  async getQueueStats(@Request() req: any) {
-    await this.checkAdminAccess(req.user.id);
+  @Get('policy')
+  async getActivePolicy() {
+    const policy = await this.policyService.getActivePolicy();
 
+    return { data: policy };
+  }
+
+  @Get('policy/versions')
+  async getPolicyHistory() {
+    const versions = await this.policyService.getPolicyHistory();
+
+    return { data: versions };
+  }
+
+  @Get('policy/versions/:version')
+  async getPolicyVersion(
+    @Param('version') version: string
+  ) {
+    const policy = await this.policyService.getPolicyVersion(parseInt(version));
+
+    return { data: policy };
+  }
+
+  @Put('policy')
+  @UseGuards(StepUpGuard)
+  @Permissions('rewards:manage')
+  async updatePolicy(
+    @Request() req: any,
+    @Body() body: UpdateRewardPolicyDto
+  ) {
+    if (!body.config || Object.keys(body.config).length === 0) {
+      throw new BadRequestException('Policy changes are required');
+    }
+
+    const policy = await this.policyService.updateConfig(body.config, {
+      adminId: req.user.id,
+      description: body.description,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    return {
+      success: true,
+      data: policy,
+      message: `Reward policy v${policy.version} published`
+    };
+  }
+
+  @Post('policy/versions/:version/activate')
+  @UseGuards(StepUpGuard)
+  @Permissions('rewards:manage')
+  async activatePolicyVersion(
+    @Request() req: any,
+    @Param('version') version: string
+  ) {
+    const policy = await this.policyService.activateVersion(parseInt(version), {
+      adminId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    return {
+      success: true,
+      data: policy,
+      message: `Reward policy v${policy.version} activated`
+    };
+  }
+
+  @Post('simulate')
+  async simulateRewards(
+    @Body() body: SimulateRewardsDto
+  ) {
+    if (!body.from || !body.to) {
+      throw new BadRequestException('from and to are required');
+    }
+
+    // Read-only replay; nothing is published or awarded
+    const result = await this.simulationService.simulate({
+      from: new Date(body.from),
+      to: new Date(body.to),
+      rules: body.rules?.map((rule) => ({
+        ...rule,
+        validFrom: rule.validFrom ? new Date(rule.validFrom) : undefined,
+        validTo: rule.validTo ? new Date(rule.validTo) : undefined
+      })),
+      config: body.config,
+      userIds: body.userIds,
+      top: body.top
+    });
+
+    return { data: result };
+  }
+
+  @Get('emission')
+  async getEmissionBurn() {
+    const burn = await this.emissionService.getBudgetBurn();
+
+    return { data: burn };
+  }
+
+  @Get('emission/budgets')
+  async getEmissionBudgets() {
+    const budgets = await this.emissionService.getBudgets();
+
+    return { data: budgets };
+  }
+
+  @Put('emission/budgets')
+  @UseGuards(StepUpGuard)
+  @Permissions('rewards:manage')
+  async upsertEmissionBudget(
+    @Request() req: any,
+    @Body() body: EmissionBudgetInput
+  ) {
+    const budget = await this.emissionService.upsertBudget(body, {
+      adminId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    return {
+      success: true,
+      data: budget,
+      message: `${budget.period} ${budget.scope} emission budget saved`
+    };
+  }
+
+  @Get('integrity/duplicates')
+  async getDuplicateRewards() {
+    const report = await this.integrityService.findDuplicateRewards();
+
+    return { data: report };
+  }
+
+  @Post('integrity/backfill-keys')
+  @UseGuards(StepUpGuard)
+  @Permissions('rewards:manage')
+  async backfillIdempotencyKeys(@Request() req: any) {
+    const result = await this.integrityService.backfillIdempotencyKeys({
+      adminId: req.user.id,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    return {
+      success: true,
+      data: result,
+      message: `Keyed ${result.keyed} rewards, ${result.skippedDuplicates} duplicates left for review`
+    };
+  }
+
+  @Get('queue/stats')
+  async getQueueStats() {
     const stats = await this.queueService.getQueueStats();
     
     return { data: stats };
@@ -219,11 +489,8 @@ export class RewardsAdminController {
 
   @Get('queue/failed')
   async getFailedJobs(
-    @Request() req: any,
     @Query('limit') limit?: string
   ) {
-    await this.checkAdminAccess(req.user.id);
-
     const limitNum = parseInt(limit || '10');
     const failedJobs = await this.queueService.getFailedJobs(limitNum);
 
@@ -231,12 +498,11 @@ export class RewardsAdminController {
   }
 
   @Post('queue/retry/:jobId')
+  @UseGuards(StepUpGuard)
+  @Permissions('rewards:manage')
   async retryFailedJob(
-    @Request() req: any,
     @Param('jobId') jobId: string
   ) {
-    await this.checkAdminAccess(req.user.id);
-
     await this.queueService.retryFailedJob(jobId);
 
     return {
@@ -246,9 +512,9 @@ export class RewardsAdminController {
   }
 
   @Post('queue/clean')
-  async cleanCompletedJobs(@Request() req: any) {
-    await this.checkAdminAccess(req.user.id);
-
+  @UseGuards(StepUpGuard)
+  @Permissions('rewards:manage')
+  async cleanCompletedJobs() {
     await this.queueService.clearCompletedJobs();
 
     return {
@@ -259,11 +525,8 @@ export class RewardsAdminController {
 
   @Get('analytics/overview')
   async getRewardAnalytics(
-    @Request() req: any,
     @Query('days') days?: string
   ) {
-    await this.checkAdminAccess(req.user.id);
-
     const daysNum = parseInt(days || '30');
     const dateFrom = new Date(Date.now() - daysNum * 24 * 60 * 60 * 1000);
 
@@ -334,7 +597,6 @@ export class RewardsAdminController {
 
   @Get('audit')
   async getAuditTrail(
-    @Request() req: any,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
     @Query('resource') resource?: string,
@@ -343,8 +605,6 @@ export class RewardsAdminController {
     @Query('dateFrom') dateFrom?: string,
     @Query('dateTo') dateTo?: string
   ) {
-    await this.checkAdminAccess(req.user.id);
-
     const pageNum = parseInt(page || '1');
     const limitNum = parseInt(limit || '50');
 
@@ -362,12 +622,9 @@ export class RewardsAdminController {
 
   @Post('test-rule/:ruleId')
   async testRule(
-    @Request() req: any,
     @Param('ruleId') ruleId: string,
     @Body() testData: { eventId: string; userId: string }
   ) {
-    await this.checkAdminAccess(req.user.id);
-
     const event = await this.prisma.event.findUnique({
       where: { id: testData.eventId }
     });
@@ -389,13 +646,12 @@ export class RewardsAdminController {
   }
 
   @Get('metrics')
-  async getSystemMetrics(@Request() req: any) {
-    await this.checkAdminAccess(req.user.id);
-
+  async getSystemMetrics() {
     const [
       queueStats,
       pendingMints,
-      recentErrors
+      recentErrors,
+      deferredJobs
     ] = await Promise.all([
       this.queueService.getQueueStats(),
       this.prisma.mintRequest.count({
@@ -406,6 +662,9 @@ export class RewardsAdminController {
           status: 'FAILED',
           createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) }
         }
+      }),
+      this.prisma.rewardJob.count({
+        where: { status: 'DEFERRED' }
       })
     ]);
 
@@ -413,6 +672,7 @@ export class RewardsAdminController {
       queue: queueStats,
       pendingMints,
       recentErrors,
+      deferredJobs,
       health: {
         status: recentErrors === 0 ? 'healthy' : recentErrors < 10 ? 'warning' : 'error',
         message: recentErrors === 0 
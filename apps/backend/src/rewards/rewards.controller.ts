@@ -9,13 +9,23 @@ import {
   BadRequestException
 } from '@nestjs/common';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { StepUpGuard } from '../auth/step-up.guard';
+import { EmailVerifiedGuard } from '../auth/email-verified.guard';
 import { PrismaService } from '../prisma/prisma.service';
 import { MintRequestService } from './mint-request.service';
 import { RewardAuditService } from './reward-audit.service';
+import { RewardPolicyService } from './reward-policy.service';
+import { LedgerService } from '../ledger/ledger.service';
 
 interface ClaimRewardsDto {
   rewardIds: string[];
-  recipientWallet: string;
+  recipientWallet?: string; // must be the verified wallet when given
+  nonce?: string; // claim challenge signed by the wallet
+  signature?: string;
+}
+
+interface ClaimChallengeDto {
+  rewardIds: string[];
 }
 
 @Controller('rewards')
@@ -24,7 +34,9 @@ export class RewardsController {
   constructor(
     private readonly prisma: PrismaService,
     private readonly mintRequestService: MintRequestService,
-    private readonly auditService: RewardAuditService
+    private readonly auditService: RewardAuditService,
+    private readonly policyService: RewardPolicyService,
+    private readonly ledgerService: LedgerService
   ) {}
 
   @Get()
@@ -104,6 +116,13 @@ export class RewardsController {
 
     const totalAmount = rewards.reduce((sum, reward) => sum + reward.amount, 0);
 
+    // Debt from reversed rewards is netted against the next claim
+    const debt = await this.prisma.rewardDebt.aggregate({
+      where: { userId, outstanding: { gt: 0 } },
+      _sum: { outstanding: true }
+    });
+    const outstandingDebt = debt._sum.outstanding || 0;
+
     // Group by type for better UX
     const groupedRewards = rewards.reduce((acc: any, reward) => {
       const type = reward.type;
@@ -118,24 +137,75 @@ export class RewardsController {
       rewards,
       groupedRewards,
       totalClaimable: totalAmount,
+      outstandingDebt,
+      netClaimable: Math.max(0, totalAmount - outstandingDebt),
       count: rewards.length
     };
   }
 
+  // Token balance per ledger account; total is what the user holds
+  @Get('balance')
+  async getTokenBalance(@Request() req: any) {
+    const holdings = await this.ledgerService.getHoldings(req.user.id);
+
+    return { data: holdings };
+  }
+
+  // Active reward economics, used by clients to preview event rewards
+  // with calculateActivityReward from @omnifit/shared
+  @Get('policy')
+  async getRewardPolicy() {
+    const policy = await this.policyService.getActivePolicy();
+
+    return {
+      data: {
+        version: policy.version,
+        config: policy.config
+      }
+    };
+  }
+
+  @Post('claim/challenge')
+  @UseGuards(EmailVerifiedGuard)
+  async createClaimChallenge(
+    @Request() req: any,
+    @Body() challengeData: ClaimChallengeDto
+  ) {
+    const { rewardIds } = challengeData;
+
+    if (!rewardIds || rewardIds.length === 0) {
+      throw new BadRequestException('No rewards selected for claiming');
+    }
+
+    const challenge = await this.mintRequestService.createClaimChallenge(
+      req.user.id,
+      rewardIds,
+      req.ip || req.connection.remoteAddress,
+      req.get('user-agent')
+    );
+
+    return {
+      success: true,
+      data: challenge,
+      message: 'Sign this message with your wallet and submit it with the claim'
+    };
+  }
+
   @Post('claim')
+  @UseGuards(EmailVerifiedGuard, StepUpGuard)
   async claimRewards(
     @Request() req: any,
     @Body() claimData: ClaimRewardsDto
   ) {
     const userId = req.user.id;
-    const { rewardIds, recipientWallet } = claimData;
+    const { rewardIds, recipientWallet, nonce, signature } = claimData;
 
     if (!rewardIds || rewardIds.length === 0) {
       throw new BadRequestException('No rewards selected for claiming');
     }
 
-    if (!recipientWallet) {
-      throw new BadRequestException('Recipient wallet address is required');
+    if (!nonce !== !signature) {
+      throw new BadRequestException('nonce and signature must be given together');
     }
 
     // Get client IP and user agent for audit
@@ -147,7 +217,8 @@ export class RewardsController {
       rewardIds,
       recipientWallet,
       ipAddress,
-      userAgent
+      userAgent,
+      nonce && signature ? { nonce, signature } : undefined
     );
 
     return {
@@ -1,26 +1,59 @@
 import { Module } from '@nestjs/common';
 import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { LedgerModule } from '../ledger/ledger.module';
 import { RewardEngineService } from './reward-engine.service';
 import { RewardQueueService } from './reward-queue.service';
 import { RewardAuditService } from './reward-audit.service';
 import { RewardsController } from './rewards.controller';
 import { RewardsAdminController } from './rewards-admin.controller';
 import { MintRequestService } from './mint-request.service';
+import { RewardPolicyService } from './reward-policy.service';
+import { RewardSimulationService } from './reward-simulation.service';
+import { EmissionBudgetService } from './emission-budget.service';
+import { RewardIntegrityService } from './reward-integrity.service';
+import { RewardClawbackService } from './reward-clawback.service';
+import { RiskScoringService } from './risk-scoring.service';
+import { RISK_SCORING_CONFIG, loadRiskScoringConfig } from './risk-scoring-config';
+import { MINT_APPROVAL_POLICY, loadApprovalPolicy } from './mint-approval-policy';
+import { CLAIM_SIGNATURE_CONFIG, loadClaimSignatureConfig } from './claim-signature-config';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, AuthModule, LedgerModule],
   controllers: [RewardsController, RewardsAdminController],
   providers: [
     RewardEngineService,
     RewardQueueService,
     RewardAuditService,
-    MintRequestService
+    MintRequestService,
+    RewardPolicyService,
+    RewardSimulationService,
+    EmissionBudgetService,
+    RewardIntegrityService,
+    RewardClawbackService,
+    {
+      provide: RISK_SCORING_CONFIG,
+      useFactory: loadRiskScoringConfig
+    },
+    {
+      provide: MINT_APPROVAL_POLICY,
+      useFactory: loadApprovalPolicy
+    },
+    {
+      provide: CLAIM_SIGNATURE_CONFIG,
+      useFactory: loadClaimSignatureConfig
+    },
+    RiskScoringService
   ],
   exports: [
     RewardEngineService,
     RewardQueueService,
     RewardAuditService,
-    MintRequestService
+    MintRequestService,
+    RewardPolicyService,
+    EmissionBudgetService,
+    RewardClawbackService,
+    RiskScoringService
   ]
 })
 export class RewardsModule {}
\ No newline at end of file
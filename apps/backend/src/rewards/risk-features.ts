@@ -0,0 +1,269 @@
+/**
+ * Risk features for claims
+ *
+ * Each extractor looks at one aspect of the claimant's history and returns a
+ * signal from 0 (nothing unusual) to 1 (strongly suspicious) with a detail
+ * line for the explanation. Weights live in the riskScoring section of
+ * rewards.config.json; RiskScoringService combines them.
+ */
+
+import { PrismaService } from '../prisma/prisma.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RiskContext {
+  userId: string;
+  tokenAmount: number;
+  recipientWallet: string;
+  ipAddress?: string;
+  userAgent?: string;
+  now: Date;
+}
+
+export interface RiskSignal {
+  value: number; // 0-1
+  detail: string;
+}
+
+export interface RiskFeatureExtractor {
+  key: string;
+  description: string;
+  extract(prisma: PrismaService, context: RiskContext): Promise<RiskSignal>;
+}
+
+const daysAgo = (context: RiskContext, days: number) => new Date(context.now.getTime() - days * DAY_MS);
+
+export const accountAgeFeature: RiskFeatureExtractor = {
+  key: 'account_age',
+  description: 'New accounts',
+  async extract(prisma, context) {
+    const user = await prisma.user.findUnique({
+      where: { id: context.userId },
+      select: { createdAt: true }
+    });
+
+    if (!user) {
+      return { value: 1, detail: 'User not found' };
+    }
+
+    const ageDays = (context.now.getTime() - user.createdAt.getTime()) / DAY_MS;
+    if (ageDays < 7) return { value: 1, detail: 'New account (< 7 days)' };
+    if (ageDays < 30) return { value: 0.5, detail: 'Recent account (< 30 days)' };
+    return { value: 0, detail: `Account is ${Math.floor(ageDays)} days old` };
+  }
+};
+
+export const claimAmountFeature: RiskFeatureExtractor = {
+  key: 'claim_amount',
+  description: 'Large claims',
+  async extract(_prisma, context) {
+    if (context.tokenAmount > 10000) return { value: 1, detail: 'Large claim amount (> 10,000 tokens)' };
+    if (context.tokenAmount > 5000) return { value: 1 / 3, detail: 'Moderate claim amount (> 5,000 tokens)' };
+    return { value: 0, detail: `${context.tokenAmount} tokens` };
+  }
+};
+
+export const requestFrequencyFeature: RiskFeatureExtractor = {
+  key: 'request_frequency',
+  description: 'Several claims in the last 24 hours',
+  async extract(prisma, context) {
+    const recent = await prisma.mintRequest.count({
+      where: { userId: context.userId, requestedAt: { gte: daysAgo(context, 1) } }
+    });
+
+    if (recent > 3) return { value: 1, detail: `Multiple recent requests (${recent} in 24h)` };
+    if (recent > 1) return { value: 1 / 3, detail: `Recent request activity (${recent} in 24h)` };
+    return { value: 0, detail: `${recent} requests in 24h` };
+  }
+};
+
+export const sharedWalletFeature: RiskFeatureExtractor = {
+  key: 'shared_wallet',
+  description: 'Recipient wallet used by other users',
+  async extract(prisma, context) {
+    const users = await prisma.mintRequest.findMany({
+      where: {
+        recipientWallet: context.recipientWallet,
+        userId: { not: context.userId },
+        status: { in: ['COMPLETED', 'APPROVED'] }
+      },
+      distinct: ['userId'],
+      select: { userId: true }
+    });
+
+    return users.length > 0
+      ? { value: 1, detail: `Wallet used by ${users.length} other user(s)` }
+      : { value: 0, detail: 'Wallet not used by other users' };
+  }
+};
+
+export const eventVelocityFeature: RiskFeatureExtractor = {
+  key: 'event_velocity',
+  description: 'Activities logged faster than the user normally does',
+  async extract(prisma, context) {
+    const [lastDay, lastMonth] = await Promise.all([
+      prisma.event.count({ where: { userId: context.userId, createdAt: { gte: daysAgo(context, 1) } } }),
+      prisma.event.count({ where: { userId: context.userId, createdAt: { gte: daysAgo(context, 30) } } })
+    ]);
+    const dailyAverage = lastMonth / 30;
+
+    if (lastDay > 10 && lastDay > dailyAverage * 3) {
+      return { value: 1, detail: `${lastDay} activities in 24h against ${dailyAverage.toFixed(1)}/day over 30 days` };
+    }
+    if (lastDay > 5 && lastDay > dailyAverage * 2) {
+      return { value: 0.5, detail: `${lastDay} activities in 24h against ${dailyAverage.toFixed(1)}/day over 30 days` };
+    }
+    return { value: 0, detail: `${lastDay} activities in 24h` };
+  }
+};
+
+export const durationOutliersFeature: RiskFeatureExtractor = {
+  key: 'duration_outliers',
+  description: 'Recent activity durations far outside the user\'s history',
+  async extract(prisma, context) {
+    const events = await prisma.event.findMany({
+      where: { userId: context.userId, duration: { not: null }, createdAt: { gte: daysAgo(context, 90) } },
+      select: { duration: true, createdAt: true }
+    });
+
+    const weekAgo = daysAgo(context, 7);
+    const history = events.filter((e) => e.createdAt < weekAgo).map((e) => e.duration!);
+    const recent = events.filter((e) => e.createdAt >= weekAgo).map((e) => e.duration!);
+
+    if (history.length < 5 || recent.length === 0) {
+      return { value: 0, detail: 'Not enough history to compare durations' };
+    }
+
+    const mean = history.reduce((sum, d) => sum + d, 0) / history.length;
+    const stdDev = Math.sqrt(history.reduce((sum, d) => sum + (d - mean) ** 2, 0) / history.length);
+    // Floor the spread so a user with very regular sessions is not flagged for a slightly longer one
+    const limit = mean + 3 * Math.max(stdDev, mean * 0.25);
+    const outliers = recent.filter((d) => d > limit).length;
+
+    return {
+      value: Math.min(1, (outliers / recent.length) * 2),
+      detail: `${outliers} of ${recent.length} activities this week over ${Math.round(limit)} min (usual ${Math.round(mean)} min)`
+    };
+  }
+};
+
+export const aiRejectionsFeature: RiskFeatureExtractor = {
+  key: 'ai_rejections',
+  description: 'Activities rejected by AI review in the last 90 days',
+  async extract(prisma, context) {
+    const rejected = await prisma.reward.findMany({
+      where: {
+        userId: context.userId,
+        status: 'REVERSED',
+        reversalReason: 'ai_rejected',
+        reversedAt: { gte: daysAgo(context, 90) }
+      },
+      distinct: ['eventId'],
+      select: { eventId: true }
+    });
+
+    if (rejected.length >= 3) return { value: 1, detail: `${rejected.length} activities rejected by AI review` };
+    if (rejected.length > 0) return { value: 0.5, detail: `${rejected.length} activity rejected by AI review` };
+    return { value: 0, detail: 'No AI review rejections' };
+  }
+};
+
+export const suspiciousWalletFeature: RiskFeatureExtractor = {
+  key: 'suspicious_wallet',
+  description: 'Wallet activity flagged as suspicious',
+  async extract(prisma, context) {
+    const flagged = await prisma.walletAudit.findMany({
+      where: {
+        suspicious: true,
+        OR: [{ userId: context.userId }, { publicKey: context.recipientWallet }]
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 5,
+      select: { reason: true }
+    });
+
+    if (flagged.length === 0) {
+      return { value: 0, detail: 'No suspicious wallet activity' };
+    }
+
+    const reasons = [...new Set(flagged.map((f) => f.reason).filter(Boolean))];
+    return {
+      value: 1,
+      detail: `Suspicious wallet activity${reasons.length > 0 ? `: ${reasons.join(', ')}` : ''}`
+    };
+  }
+};
+
+export const sharedNetworkFeature: RiskFeatureExtractor = {
+  key: 'shared_network',
+  description: 'IP address and user agent shared with other accounts',
+  async extract(prisma, context) {
+    if (!context.ipAddress) {
+      return { value: 0, detail: 'No IP address recorded' };
+    }
+
+    const since = daysAgo(context, 30);
+    const [claims, walletAudits] = await Promise.all([
+      prisma.mintRequest.findMany({
+        where: { ipAddress: context.ipAddress, userId: { not: context.userId }, requestedAt: { gte: since } },
+        select: { userId: true, userAgent: true }
+      }),
+      prisma.walletAudit.findMany({
+        where: { ipAddress: context.ipAddress, userId: { not: context.userId }, createdAt: { gte: since } },
+        select: { userId: true, userAgent: true }
+      })
+    ]);
+
+    const seen = [...claims, ...walletAudits];
+    const sameIp = new Set(seen.map((s) => s.userId)).size;
+    const sameDevice = new Set(
+      seen.filter((s) => context.userAgent && s.userAgent === context.userAgent).map((s) => s.userId)
+    ).size;
+
+    if (sameDevice > 0 || sameIp >= 3) {
+      return { value: 1, detail: `IP shared with ${sameIp} other account(s), ${sameDevice} with the same user agent` };
+    }
+    if (sameIp > 0) {
+      return { value: 0.5, detail: `IP shared with ${sameIp} other account(s)` };
+    }
+    return { value: 0, detail: 'IP not seen on other accounts' };
+  }
+};
+
+export const partnerRejectionsFeature: RiskFeatureExtractor = {
+  key: 'partner_rejections',
+  description: 'Share of partner-reviewed activities that were rejected',
+  async extract(prisma, context) {
+    const decisions = await prisma.eventApproval.groupBy({
+      by: ['status'],
+      where: { userId: context.userId, status: { in: ['APPROVED', 'REJECTED'] } },
+      _count: { _all: true }
+    });
+
+    const count = (status: string) => decisions.find((d) => d.status === status)?._count._all ?? 0;
+    const approved = count('APPROVED');
+    const rejected = count('REJECTED');
+
+    if (approved + rejected < 3) {
+      return { value: 0, detail: 'Too few partner reviews to judge' };
+    }
+
+    return {
+      value: rejected / (approved + rejected),
+      detail: `${rejected} of ${approved + rejected} partner reviews rejected`
+    };
+  }
+};
+
+export const DEFAULT_RISK_FEATURES: RiskFeatureExtractor[] = [
+  accountAgeFeature,
+  claimAmountFeature,
+  requestFrequencyFeature,
+  sharedWalletFeature,
+  eventVelocityFeature,
+  durationOutliersFeature,
+  aiRejectionsFeature,
+  suspiciousWalletFeature,
+  sharedNetworkFeature,
+  partnerRejectionsFeature
+];
@@ -0,0 +1,29 @@
+import { DEFAULT_RISK_SCORING_CONFIG, validateRiskScoringConfig } from './risk-scoring-config';
+
+describe('risk scoring config', () => {
+  describe('validateRiskScoringConfig', () => {
+    it('should accept the defaults', () => {
+      expect(validateRiskScoringConfig(DEFAULT_RISK_SCORING_CONFIG)).toEqual([]);
+    });
+
+    it('should reject a threshold outside 0 to 1', () => {
+      expect(validateRiskScoringConfig({ ...DEFAULT_RISK_SCORING_CONFIG, reviewThreshold: 70 })).toEqual([
+        'reviewThreshold must be a number from 0 to 1'
+      ]);
+      expect(validateRiskScoringConfig({ ...DEFAULT_RISK_SCORING_CONFIG, reviewThreshold: '0.7' })).toHaveLength(1);
+    });
+
+    it('should reject weights for unknown features or below zero', () => {
+      const errors = validateRiskScoringConfig({
+        reviewThreshold: 0.7,
+        weights: { acount_age: 0.4, claim_amount: -0.3, shared_wallet: '0.2' }
+      });
+
+      expect(errors).toEqual([
+        'weights.acount_age has no risk feature extractor',
+        'weights.claim_amount must be a non-negative number',
+        'weights.shared_wallet must be a non-negative number'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Claim risk scoring settings
+ *
+ * The riskScoring section of rewards.config.json:
+ *
+ *   { "reviewThreshold": 0.7, "weights": { "account_age": 0.4, ... } }
+ *
+ * Injected into RiskScoringService under RISK_SCORING_CONFIG, so tests can
+ * hand it a config instead of a file.
+ */
+
+import { Logger } from '@nestjs/common';
+import type { RiskScoringConfig } from '@omnifit/shared';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_RISK_FEATURES } from './risk-features';
+
+export const RISK_SCORING_CONFIG = 'RISK_SCORING_CONFIG';
+
+export const DEFAULT_RISK_SCORING_CONFIG: RiskScoringConfig = {
+  reviewThreshold: 0.7,
+  weights: {
+    account_age: 0.4,
+    claim_amount: 0.3,
+    request_frequency: 0.3,
+    shared_wallet: 0.2
+  }
+};
+
+const logger = new Logger('RiskScoringConfig');
+
+/**
+ * Check the settings are usable; returns the problems found. Weights may only
+ * name extractors from risk-features.ts.
+ */
+export function validateRiskScoringConfig(
+  config: any,
+  featureKeys: string[] = DEFAULT_RISK_FEATURES.map((feature) => feature.key)
+): string[] {
+  const errors: string[] = [];
+
+  if (typeof config?.reviewThreshold !== 'number' || config.reviewThreshold < 0 || config.reviewThreshold > 1) {
+    errors.push('reviewThreshold must be a number from 0 to 1');
+  }
+
+  if (typeof config?.weights !== 'object' || config.weights === null || Array.isArray(config.weights)) {
+    errors.push('weights must be an object');
+  } else {
+    for (const [key, weight] of Object.entries(config.weights)) {
+      if (!featureKeys.includes(key)) {
+        errors.push(`weights.${key} has no risk feature extractor`);
+      }
+      if (typeof weight !== 'number' || weight < 0) {
+        errors.push(`weights.${key} must be a non-negative number`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The riskScoring section of rewards.config.json over the defaults. Only a
+ * missing file or section falls back to the defaults; a malformed file or an
+ * invalid section throws so a typo cannot silently change who gets reviewed.
+ */
+export function loadRiskScoringConfig(): RiskScoringConfig {
+  const configPath = process.env.REWARDS_CONFIG_PATH || path.join(process.cwd(), 'rewards.config.json');
+
+  if (!fs.existsSync(configPath)) {
+    logger.warn(`${configPath} not found, using default riskScoring`);
+    return DEFAULT_RISK_SCORING_CONFIG;
+  }
+
+  const raw = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  if (raw.riskScoring === undefined) {
+    return DEFAULT_RISK_SCORING_CONFIG;
+  }
+
+  const config = { ...DEFAULT_RISK_SCORING_CONFIG, ...raw.riskScoring };
+  const errors = validateRiskScoringConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid riskScoring in rewards.config.json: ${errors.join('; ')}`);
+  }
+
+  return config;
+}
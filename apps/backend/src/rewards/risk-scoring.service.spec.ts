@@ -0,0 +1,80 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RiskScoringService } from './risk-scoring.service';
+import { RISK_SCORING_CONFIG } from './risk-scoring-config';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('RiskScoringService', () => {
+  let service: RiskScoringService;
+
+  const claim = { userId: 'user-id', tokenAmount: 100, recipientWallet: 'wallet' };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RiskScoringService,
+        { provide: PrismaService, useValue: {} },
+        {
+          provide: RISK_SCORING_CONFIG,
+          useValue: {
+            reviewThreshold: 0.5,
+            weights: { velocity: 0.4, network: 0.3, broken: 0.2, disabled: 0 },
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RiskScoringService>(RiskScoringService);
+
+    service.registerFeature({
+      key: 'velocity',
+      description: 'Event velocity',
+      extract: jest.fn().mockResolvedValue({ value: 1, detail: '12 activities in 24h' }),
+    });
+    service.registerFeature({
+      key: 'network',
+      description: 'Shared network',
+      extract: jest.fn().mockResolvedValue({ value: 0.5, detail: 'IP shared with 1 other account' }),
+    });
+    service.registerFeature({
+      key: 'broken',
+      description: 'Broken feature',
+      extract: jest.fn().mockRejectedValue(new Error('lookup failed')),
+    });
+    service.registerFeature({
+      key: 'disabled',
+      description: 'Disabled feature',
+      extract: jest.fn().mockResolvedValue({ value: 1, detail: 'always' }),
+    });
+  });
+
+  it('should combine weighted features and explain each contribution', async () => {
+    const result = await service.scoreClaim(claim);
+
+    expect(result.score).toBeCloseTo(0.55);
+    expect(result.flagged).toBe(true);
+    expect(result.features.map((f) => f.feature)).toEqual(['velocity', 'network', 'broken']);
+    expect(result.features[1]).toMatchObject({ value: 0.5, weight: 0.3, contribution: 0.15 });
+    expect(result.reasoning).toContain('12 activities in 24h (+0.40)');
+  });
+
+  it('should record a failed feature without letting it block the claim', async () => {
+    const result = await service.scoreClaim(claim);
+
+    expect(result.features.find((f) => f.feature === 'broken')).toMatchObject({
+      contribution: 0,
+      error: 'lookup failed',
+    });
+    expect(result.reasoning).toContain('Not evaluated: broken');
+  });
+
+  it('should store the admin decision as feedback on the assessment', async () => {
+    const tx = { riskAssessment: { updateMany: jest.fn() } };
+
+    await service.recordOutcome(tx, 'mint-request-id', 'REJECTED', 'admin-id', 'Shared device farm');
+
+    expect(tx.riskAssessment.updateMany).toHaveBeenCalledWith({
+      where: { mintRequestId: 'mint-request-id' },
+      data: expect.objectContaining({ outcome: 'REJECTED', outcomeBy: 'admin-id', outcomeNotes: 'Shared device farm' }),
+    });
+  });
+});
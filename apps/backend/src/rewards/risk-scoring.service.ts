@@ -0,0 +1,175 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { DEFAULT_RISK_FEATURES, RiskContext, RiskFeatureExtractor } from './risk-features';
+import { RISK_SCORING_CONFIG } from './risk-scoring-config';
+import type { RiskFeatureContribution, RiskOutcome, RiskScoringConfig } from '@omnifit/shared';
+
+export interface ClaimRiskScore {
+  score: number; // 0-1, higher is riskier
+  reviewThreshold: number;
+  flagged: boolean;
+  features: RiskFeatureContribution[];
+  reasoning: string;
+}
+
+/**
+ * Claim risk scoring. Registered feature extractors each produce a 0-1
+ * signal; the score is their weighted sum, capped at 1. Every assessment is
+ * stored with its explanation, and the admin's approve or reject decision is
+ * added to it later so weights can be calibrated offline.
+ */
+@Injectable()
+export class RiskScoringService {
+  private readonly logger = new Logger(RiskScoringService.name);
+  private readonly features = new Map<string, RiskFeatureExtractor>();
+  private weightsChecked = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(RISK_SCORING_CONFIG) private readonly config: RiskScoringConfig
+  ) {
+    for (const feature of DEFAULT_RISK_FEATURES) {
+      this.registerFeature(feature);
+    }
+  }
+
+  /**
+   * Add or replace a feature. It only counts once it has a weight in
+   * riskScoring.weights.
+   */
+  registerFeature(feature: RiskFeatureExtractor) {
+    this.features.set(feature.key, feature);
+  }
+
+  getFeatures() {
+    const { weights } = this.getConfig();
+    return [...this.features.values()].map((feature) => ({
+      key: feature.key,
+      description: feature.description,
+      weight: weights[feature.key] ?? 0
+    }));
+  }
+
+  async scoreClaim(context: Omit<RiskContext, 'now'>): Promise<ClaimRiskScore> {
+    const { weights, reviewThreshold } = this.getConfig();
+    const fullContext: RiskContext = { ...context, now: new Date() };
+
+    const weighted = [...this.features.values()].filter((feature) => (weights[feature.key] ?? 0) > 0);
+
+    const features = await Promise.all(
+      weighted.map(async (feature): Promise<RiskFeatureContribution> => {
+        const weight = weights[feature.key];
+        try {
+          const signal = await feature.extract(this.prisma, fullContext);
+          const value = Math.min(1, Math.max(0, signal.value));
+          return { feature: feature.key, value, weight, contribution: value * weight, detail: signal.detail };
+        } catch (error) {
+          this.logger.warn(`Risk feature ${feature.key} failed for user ${context.userId}: ${error.message}`);
+          return {
+            feature: feature.key,
+            value: 0,
+            weight,
+            contribution: 0,
+            detail: feature.description,
+            error: error.message
+          };
+        }
+      })
+    );
+
+    features.sort((a, b) => b.contribution - a.contribution);
+
+    const score = Math.min(1, features.reduce((sum, f) => sum + f.contribution, 0));
+    const factors = features.filter((f) => f.contribution > 0);
+    const failed = features.filter((f) => f.error);
+
+    let reasoning = factors.length > 0
+      ? `Risk factors: ${factors.map((f) => `${f.detail} (+${f.contribution.toFixed(2)})`).join(', ')}`
+      : 'No significant risk factors detected';
+    if (failed.length > 0) {
+      reasoning += `. Not evaluated: ${failed.map((f) => f.feature).join(', ')}`;
+    }
+
+    return {
+      score,
+      reviewThreshold,
+      flagged: score > reviewThreshold,
+      features,
+      reasoning
+    };
+  }
+
+  /**
+   * Store a claim's assessment. Runs in the transaction that creates the claim.
+   */
+  async recordAssessment(tx: any, mintRequestId: string, userId: string, risk: ClaimRiskScore) {
+    await tx.riskAssessment.create({
+      data: {
+        mintRequestId,
+        userId,
+        score: risk.score,
+        reviewThreshold: risk.reviewThreshold,
+        flagged: risk.flagged,
+        features: risk.features as any,
+        reasoning: risk.reasoning
+      }
+    });
+  }
+
+  /**
+   * Record the admin decision on a scored claim as calibration feedback
+   */
+  async recordOutcome(tx: any, mintRequestId: string, outcome: RiskOutcome, adminId: string, notes?: string) {
+    await tx.riskAssessment.updateMany({
+      where: { mintRequestId },
+      data: {
+        outcome,
+        outcomeBy: adminId,
+        outcomeNotes: notes,
+        outcomeAt: new Date()
+      }
+    });
+  }
+
+  /**
+   * Assessments with their features and outcomes, for offline calibration
+   */
+  async exportAssessments(options: { from?: Date; to?: Date; decidedOnly?: boolean; limit?: number }) {
+    const assessments = await this.prisma.riskAssessment.findMany({
+      where: {
+        createdAt: { gte: options.from, lte: options.to },
+        ...(options.decidedOnly && { outcome: { not: null } })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(options.limit ?? 1000, 10000)
+    });
+
+    const decided = assessments.filter((a) => a.outcome);
+    const rejected = decided.filter((a) => a.outcome === 'REJECTED');
+
+    return {
+      config: this.getConfig(),
+      summary: {
+        total: assessments.length,
+        decided: decided.length,
+        flagged: assessments.filter((a) => a.flagged).length,
+        flaggedRejected: rejected.filter((a) => a.flagged).length,
+        unflaggedRejected: rejected.filter((a) => !a.flagged).length,
+        flaggedApproved: decided.filter((a) => a.flagged && a.outcome === 'APPROVED').length
+      },
+      data: assessments
+    };
+  }
+
+  private getConfig(): RiskScoringConfig {
+    // Checked on first use, once extra features have been registered
+    if (!this.weightsChecked) {
+      this.weightsChecked = true;
+      const unknown = Object.keys(this.config.weights).filter((key) => !this.features.has(key));
+      if (unknown.length > 0) {
+        this.logger.warn(`riskScoring.weights has no extractor for: ${unknown.join(', ')}`);
+      }
+    }
+    return this.config;
+  }
+}
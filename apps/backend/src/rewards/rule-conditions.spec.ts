@@ -0,0 +1,106 @@
+import {
+  ConditionContext,
+  compileRuleConditions,
+  evaluateCondition,
+  resolveMultiplierCondition,
+  validateConditionExpression,
+  validateRuleConditions,
+} from './rule-conditions';
+
+describe('rule conditions', () => {
+  const baseContext: ConditionContext = {
+    event: {
+      type: 'WORKOUT',
+      category: 'FITNESS',
+      duration: 45,
+      intensity: 8,
+      mood: 'GOOD',
+      energy: null,
+      caloriesBurned: null,
+    },
+    streak: { fitness: 5, spiritual: 0, combined: 5 },
+    partner: { approved: false },
+    activity: { firstOfDay: true },
+    time: { hour: 6, minute: 30, dayOfWeek: 6 },
+    timezone: 'UTC',
+  };
+
+  describe('evaluateCondition', () => {
+    it('should compare event fields', () => {
+      expect(evaluateCondition({ field: 'event.duration', op: 'gte', value: 45 }, baseContext)).toBe(true);
+      expect(evaluateCondition({ field: 'event.type', op: 'in', value: ['MEDITATION'] }, baseContext)).toBe(false);
+    });
+
+    it('should treat missing fields as not matching', () => {
+      expect(evaluateCondition({ field: 'event.caloriesBurned', op: 'lt', value: 100 }, baseContext)).toBe(false);
+    });
+
+    it('should combine with and/or/not', () => {
+      const expr = {
+        and: [
+          { field: 'streak.fitness', op: 'gte', value: 3 },
+          { or: [
+            { field: 'partner.approved', op: 'eq', value: true },
+            { not: { field: 'time.dayOfWeek', op: 'in', value: [1, 2, 3, 4, 5] } },
+          ] },
+        ],
+      } as any;
+
+      expect(evaluateCondition(expr, baseContext)).toBe(true);
+      expect(evaluateCondition(expr, { ...baseContext, time: { hour: 6, minute: 30, dayOfWeek: 2 } })).toBe(false);
+    });
+
+    it('should evaluate time windows, including ones crossing midnight', () => {
+      expect(evaluateCondition({ timeWindow: { from: '05:00', to: '07:00' } }, baseContext)).toBe(true);
+      expect(evaluateCondition({ timeWindow: { from: '05:00', to: '07:00', days: [1] } }, baseContext)).toBe(false);
+      expect(evaluateCondition({ timeWindow: { from: '22:00', to: '07:00' } }, baseContext)).toBe(true);
+    });
+
+    it('should keep the legacy condition names working', () => {
+      expect(evaluateCondition(resolveMultiplierCondition('early_morning')!, baseContext)).toBe(true);
+      expect(evaluateCondition(resolveMultiplierCondition('weekend_activity')!, baseContext)).toBe(true);
+      expect(evaluateCondition(resolveMultiplierCondition('long_duration')!, baseContext)).toBe(false);
+    });
+  });
+
+  describe('compileRuleConditions', () => {
+    it('should skip duration bounds when the event has no duration', () => {
+      const expr = compileRuleConditions({ minDuration: 30 });
+
+      expect(evaluateCondition(expr, baseContext)).toBe(true);
+      expect(evaluateCondition(expr, { ...baseContext, event: { ...baseContext.event, duration: 10 } })).toBe(false);
+      expect(evaluateCondition(expr, { ...baseContext, event: { ...baseContext.event, duration: null } })).toBe(true);
+    });
+  });
+
+  describe('validation', () => {
+    it('should accept a well-formed expression', () => {
+      expect(validateConditionExpression({
+        and: [
+          { field: 'event.intensity', op: 'gte', value: 7 },
+          { timeWindow: { from: '05:00', to: '09:00', days: [1, 2, 3] } },
+        ],
+      })).toEqual([]);
+    });
+
+    it('should reject unknown fields, bad operators and bad values', () => {
+      expect(validateConditionExpression({ field: 'event.colour', op: 'eq', value: 'red' })).toHaveLength(1);
+      expect(validateConditionExpression({ field: 'partner.approved', op: 'gt', value: true })).toHaveLength(1);
+      expect(validateConditionExpression({ field: 'event.category', op: 'eq', value: 'CARDIO' })).toHaveLength(1);
+      expect(validateConditionExpression({ timeWindow: { from: '5am', to: '07:00' } })).toHaveLength(1);
+      expect(validateConditionExpression({ and: [] })).toHaveLength(1);
+    });
+
+    it('should reject unknown multiplier condition names', () => {
+      const errors = validateRuleConditions({}, [
+        { condition: 'full_moon', multiplier: 2, description: 'Full moon bonus' },
+      ]);
+
+      expect(errors).toEqual(['multiplierRules[0].condition: unknown condition "full_moon"']);
+    });
+
+    it('should reject unknown structured condition keys', () => {
+      expect(validateRuleConditions({ minDurations: 10 })).toEqual(['conditions.minDurations: unknown condition']);
+    });
+  });
+});
@@ -0,0 +1,449 @@
+/**
+ * Reward rule condition language
+ *
+ * Conditions are JSON expression trees stored on RewardRule.conditions
+ * (as `expression`) and RewardRule.multiplierRules (as `condition`):
+ *
+ *   { "and": [ {...}, {...} ] }
+ *   { "or":  [ {...}, {...} ] }
+ *   { "not": {...} }
+ *   { "field": "event.duration", "op": "gte", "value": 45 }
+ *   { "timeWindow": { "from": "05:00", "to": "07:00", "days": [1, 2, 3, 4, 5] } }
+ *
+ * Time fields and windows are evaluated in the user's timezone. A comparison
+ * against a field the event does not have (e.g. no intensity) is false.
+ */
+
+const EVENT_TYPES = ['WORKOUT', 'MEDITATION', 'PRAYER', 'STUDY', 'SERVICE', 'OTHER'];
+const EVENT_CATEGORIES = ['FITNESS', 'SPIRITUAL', 'HYBRID'];
+const MOOD_LEVELS = ['VERY_LOW', 'LOW', 'NEUTRAL', 'GOOD', 'VERY_GOOD'];
+const ENERGY_LEVELS = ['VERY_LOW', 'LOW', 'MODERATE', 'HIGH', 'VERY_HIGH'];
+
+const MAX_DEPTH = 8;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export type ComparisonOp = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'notIn';
+
+export type ConditionField =
+  | 'event.type'
+  | 'event.category'
+  | 'event.duration'
+  | 'event.intensity'
+  | 'event.mood'
+  | 'event.energy'
+  | 'event.caloriesBurned'
+  | 'streak.fitness'
+  | 'streak.spiritual'
+  | 'streak.combined'
+  | 'partner.approved'
+  | 'activity.firstOfDay'
+  | 'time.hour'
+  | 'time.dayOfWeek';
+
+export type ConditionExpression =
+  | { and: ConditionExpression[] }
+  | { or: ConditionExpression[] }
+  | { not: ConditionExpression }
+  | { field: ConditionField; op: ComparisonOp; value: string | number | boolean | Array<string | number> }
+  | { timeWindow: { from: string; to: string; days?: number[] } };
+
+export interface ConditionContext {
+  event: {
+    type: string;
+    category: string;
+    duration?: number | null;
+    intensity?: number | null;
+    mood?: string | null;
+    energy?: string | null;
+    caloriesBurned?: number | null;
+  };
+  streak: {
+    fitness: number;
+    spiritual: number;
+    combined: number;
+  };
+  partner: {
+    approved: boolean;
+  };
+  activity: {
+    firstOfDay: boolean;
+  };
+  // Local to the user's timezone
+  time: {
+    hour: number;
+    minute: number;
+    dayOfWeek: number; // 0-6, Sunday=0
+  };
+  timezone: string; // user's IANA timezone, for day boundaries
+}
+
+type FieldSpec =
+  | { kind: 'number'; min?: number; max?: number }
+  | { kind: 'enum'; values: string[] }
+  | { kind: 'boolean' };
+
+const FIELDS: Record<ConditionField, FieldSpec> = {
+  'event.type': { kind: 'enum', values: EVENT_TYPES },
+  'event.category': { kind: 'enum', values: EVENT_CATEGORIES },
+  'event.duration': { kind: 'number', min: 0 },
+  'event.intensity': { kind: 'number', min: 1, max: 10 },
+  'event.mood': { kind: 'enum', values: MOOD_LEVELS },
+  'event.energy': { kind: 'enum', values: ENERGY_LEVELS },
+  'event.caloriesBurned': { kind: 'number', min: 0 },
+  'streak.fitness': { kind: 'number', min: 0 },
+  'streak.spiritual': { kind: 'number', min: 0 },
+  'streak.combined': { kind: 'number', min: 0 },
+  'partner.approved': { kind: 'boolean' },
+  'activity.firstOfDay': { kind: 'boolean' },
+  'time.hour': { kind: 'number', min: 0, max: 23 },
+  'time.dayOfWeek': { kind: 'number', min: 0, max: 6 }
+};
+
+const OPS_BY_KIND: Record<FieldSpec['kind'], ComparisonOp[]> = {
+  number: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'notIn'],
+  enum: ['eq', 'neq', 'in', 'notIn'],
+  boolean: ['eq', 'neq']
+};
+
+// The condition names multiplier rules used before the expression language
+export const LEGACY_CONDITIONS: Record<string, ConditionExpression> = {
+  first_activity_of_day: { field: 'activity.firstOfDay', op: 'eq', value: true },
+  weekend_activity: { field: 'time.dayOfWeek', op: 'in', value: [0, 6] },
+  early_morning: { field: 'time.hour', op: 'lt', value: 7 },
+  high_intensity: { field: 'event.intensity', op: 'gte', value: 8 },
+  long_duration: { field: 'event.duration', op: 'gte', value: 60 }
+};
+
+// Keys allowed in RewardRule.conditions alongside `expression`
+const STRUCTURED_CONDITION_KEYS = [
+  'eventType',
+  'category',
+  'minDuration',
+  'maxDuration',
+  'minIntensity',
+  'maxIntensity',
+  'streakCount',
+  'partnerApproved',
+  'timeOfDay',
+  'dayOfWeek',
+  'expression'
+];
+
+const TIME_OF_DAY_WINDOWS: Record<string, { from: string; to: string }> = {
+  morning: { from: '00:00', to: '12:00' },
+  afternoon: { from: '12:00', to: '18:00' },
+  evening: { from: '18:00', to: '00:00' }
+};
+
+/**
+ * Validate an expression tree. Returns a list of errors; empty means valid.
+ */
+export function validateConditionExpression(expr: any, path = 'condition', depth = 0): string[] {
+  if (depth > MAX_DEPTH) {
+    return [`${path}: nesting deeper than ${MAX_DEPTH} levels`];
+  }
+
+  if (!expr || typeof expr !== 'object' || Array.isArray(expr)) {
+    return [`${path}: must be an object`];
+  }
+
+  const keys = Object.keys(expr);
+
+  if ('and' in expr || 'or' in expr) {
+    const key = 'and' in expr ? 'and' : 'or';
+    if (keys.length !== 1) {
+      return [`${path}: "${key}" cannot be combined with other keys`];
+    }
+    if (!Array.isArray(expr[key]) || expr[key].length === 0) {
+      return [`${path}.${key}: must be a non-empty array`];
+    }
+    return expr[key].flatMap((child: any, i: number) =>
+      validateConditionExpression(child, `${path}.${key}[${i}]`, depth + 1)
+    );
+  }
+
+  if ('not' in expr) {
+    if (keys.length !== 1) {
+      return [`${path}: "not" cannot be combined with other keys`];
+    }
+    return validateConditionExpression(expr.not, `${path}.not`, depth + 1);
+  }
+
+  if ('timeWindow' in expr) {
+    return validateTimeWindow(expr.timeWindow, `${path}.timeWindow`);
+  }
+
+  if ('field' in expr) {
+    return validateComparison(expr, path);
+  }
+
+  return [`${path}: expected one of and, or, not, field, timeWindow`];
+}
+
+/**
+ * Validate a rule's conditions and multiplierRules before it is saved
+ */
+export function validateRuleConditions(conditions: any, multiplierRules?: any): string[] {
+  const errors: string[] = [];
+
+  if (!conditions || typeof conditions !== 'object' || Array.isArray(conditions)) {
+    errors.push('conditions: must be an object');
+  } else {
+    for (const key of Object.keys(conditions)) {
+      if (!STRUCTURED_CONDITION_KEYS.includes(key)) {
+        errors.push(`conditions.${key}: unknown condition`);
+      }
+    }
+
+    const listChecks: Array<[string, string[]]> = [
+      ['eventType', EVENT_TYPES],
+      ['category', EVENT_CATEGORIES]
+    ];
+    for (const [key, allowed] of listChecks) {
+      const value = conditions[key];
+      if (value !== undefined && (!Array.isArray(value) || value.some((v) => !allowed.includes(v)))) {
+        errors.push(`conditions.${key}: must be an array of ${allowed.join(', ')}`);
+      }
+    }
+
+    for (const key of ['minDuration', 'maxDuration', 'minIntensity', 'maxIntensity', 'streakCount']) {
+      const value = conditions[key];
+      if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+        errors.push(`conditions.${key}: must be a non-negative number`);
+      }
+    }
+
+    if (conditions.partnerApproved !== undefined && typeof conditions.partnerApproved !== 'boolean') {
+      errors.push('conditions.partnerApproved: must be a boolean');
+    }
+
+    if (conditions.timeOfDay !== undefined && !TIME_OF_DAY_WINDOWS[conditions.timeOfDay]) {
+      errors.push(`conditions.timeOfDay: must be one of ${Object.keys(TIME_OF_DAY_WINDOWS).join(', ')}`);
+    }
+
+    if (conditions.dayOfWeek !== undefined && !isDayList(conditions.dayOfWeek)) {
+      errors.push('conditions.dayOfWeek: must be an array of days 0-6');
+    }
+
+    if (conditions.expression !== undefined) {
+      errors.push(...validateConditionExpression(conditions.expression, 'conditions.expression'));
+    }
+  }
+
+  if (multiplierRules !== undefined && multiplierRules !== null) {
+    if (!Array.isArray(multiplierRules)) {
+      errors.push('multiplierRules: must be an array');
+    } else {
+      multiplierRules.forEach((rule: any, i: number) => {
+        const path = `multiplierRules[${i}]`;
+        if (typeof rule?.multiplier !== 'number' || rule.multiplier <= 0 || rule.multiplier > 10) {
+          errors.push(`${path}.multiplier: must be a number in (0, 10]`);
+        }
+        if (typeof rule?.condition === 'string') {
+          if (!LEGACY_CONDITIONS[rule.condition]) {
+            errors.push(`${path}.condition: unknown condition "${rule.condition}"`);
+          }
+        } else {
+          errors.push(...validateConditionExpression(rule?.condition, `${path}.condition`));
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Turn the structured RewardRule.conditions keys into one expression so
+ * rule applicability and multipliers share a single evaluator.
+ * streakCount is not included: it selects streak rules rather than filtering events.
+ */
+export function compileRuleConditions(conditions: any): ConditionExpression {
+  const parts: ConditionExpression[] = [];
+
+  if (conditions?.eventType) {
+    parts.push({ field: 'event.type', op: 'in', value: conditions.eventType });
+  }
+  if (conditions?.category) {
+    parts.push({ field: 'event.category', op: 'in', value: conditions.category });
+  }
+  // Min/max bounds only apply when the event reports the value
+  if (conditions?.minDuration) {
+    parts.push(boundIfPresent('event.duration', 'gte', conditions.minDuration));
+  }
+  if (conditions?.maxDuration) {
+    parts.push(boundIfPresent('event.duration', 'lte', conditions.maxDuration));
+  }
+  if (conditions?.minIntensity) {
+    parts.push(boundIfPresent('event.intensity', 'gte', conditions.minIntensity));
+  }
+  if (conditions?.maxIntensity) {
+    parts.push(boundIfPresent('event.intensity', 'lte', conditions.maxIntensity));
+  }
+  if (conditions?.partnerApproved !== undefined) {
+    parts.push({ field: 'partner.approved', op: 'eq', value: conditions.partnerApproved });
+  }
+  if (conditions?.timeOfDay) {
+    parts.push({ timeWindow: TIME_OF_DAY_WINDOWS[conditions.timeOfDay] });
+  }
+  if (conditions?.dayOfWeek) {
+    parts.push({ field: 'time.dayOfWeek', op: 'in', value: conditions.dayOfWeek });
+  }
+  if (conditions?.expression) {
+    parts.push(conditions.expression);
+  }
+
+  return { and: parts };
+}
+
+/**
+ * Resolve a multiplier rule's condition, accepting legacy names
+ */
+export function resolveMultiplierCondition(condition: string | ConditionExpression): ConditionExpression | null {
+  if (typeof condition === 'string') {
+    return LEGACY_CONDITIONS[condition] || null;
+  }
+  return condition;
+}
+
+export function evaluateCondition(expr: ConditionExpression, context: ConditionContext): boolean {
+  if ('and' in expr) {
+    return expr.and.every((child) => evaluateCondition(child, context));
+  }
+
+  if ('or' in expr) {
+    return expr.or.some((child) => evaluateCondition(child, context));
+  }
+
+  if ('not' in expr) {
+    return !evaluateCondition(expr.not, context);
+  }
+
+  if ('timeWindow' in expr) {
+    const { from, to, days } = expr.timeWindow;
+    if (days && !days.includes(context.time.dayOfWeek)) {
+      return false;
+    }
+    const minute = context.time.hour * 60 + context.time.minute;
+    const start = toMinutes(from);
+    const end = toMinutes(to);
+    // Windows that cross midnight, e.g. 22:00-02:00
+    return start <= end
+      ? minute >= start && minute < end
+      : minute >= start || minute < end;
+  }
+
+  const actual = readField(expr.field, context);
+  if (actual === undefined || actual === null) {
+    return false;
+  }
+
+  const expected = expr.value;
+  switch (expr.op) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'gt':
+      return actual > expected;
+    case 'gte':
+      return actual >= expected;
+    case 'lt':
+      return actual < expected;
+    case 'lte':
+      return actual <= expected;
+    case 'in':
+      return (expected as Array<string | number>).includes(actual as string | number);
+    case 'notIn':
+      return !(expected as Array<string | number>).includes(actual as string | number);
+    default:
+      return false;
+  }
+}
+
+function boundIfPresent(field: ConditionField, op: ComparisonOp, value: number): ConditionExpression {
+  return {
+    or: [
+      { not: { field, op: 'gte', value: 0 } },
+      { field, op, value }
+    ]
+  };
+}
+
+function readField(field: ConditionField, context: ConditionContext): any {
+  const [scope, key] = field.split('.');
+  return (context as any)[scope]?.[key];
+}
+
+function validateComparison(expr: any, path: string): string[] {
+  const errors: string[] = [];
+  const extraKeys = Object.keys(expr).filter((k) => !['field', 'op', 'value'].includes(k));
+  if (extraKeys.length > 0) {
+    errors.push(`${path}: unexpected keys ${extraKeys.join(', ')}`);
+  }
+
+  const spec = FIELDS[expr.field as ConditionField];
+  if (!spec) {
+    return [...errors, `${path}.field: unknown field "${expr.field}"`];
+  }
+
+  if (!OPS_BY_KIND[spec.kind].includes(expr.op)) {
+    return [...errors, `${path}.op: "${expr.op}" is not valid for ${expr.field}`];
+  }
+
+  const isList = expr.op === 'in' || expr.op === 'notIn';
+  if (isList && (!Array.isArray(expr.value) || expr.value.length === 0)) {
+    return [...errors, `${path}.value: "${expr.op}" needs a non-empty array`];
+  }
+
+  const values = isList ? expr.value : [expr.value];
+  for (const value of values) {
+    const error = checkValue(spec, value);
+    if (error) {
+      errors.push(`${path}.value: ${error} for ${expr.field}`);
+    }
+  }
+
+  return errors;
+}
+
+function checkValue(spec: FieldSpec, value: any): string | null {
+  switch (spec.kind) {
+    case 'number':
+      if (typeof value !== 'number' || isNaN(value)) return 'expected a number';
+      if (spec.min !== undefined && value < spec.min) return `must be >= ${spec.min}`;
+      if (spec.max !== undefined && value > spec.max) return `must be <= ${spec.max}`;
+      return null;
+    case 'enum':
+      return spec.values.includes(value) ? null : `expected one of ${spec.values.join(', ')}`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'expected a boolean';
+  }
+}
+
+function validateTimeWindow(window: any, path: string): string[] {
+  if (!window || typeof window !== 'object') {
+    return [`${path}: must be an object with from and to`];
+  }
+
+  const errors: string[] = [];
+  if (!TIME_PATTERN.test(window.from)) {
+    errors.push(`${path}.from: expected HH:MM`);
+  }
+  if (!TIME_PATTERN.test(window.to)) {
+    errors.push(`${path}.to: expected HH:MM`);
+  }
+  if (window.days !== undefined && !isDayList(window.days)) {
+    errors.push(`${path}.days: must be an array of days 0-6`);
+  }
+  return errors;
+}
+
+function isDayList(days: any): boolean {
+  return Array.isArray(days) && days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part));
+  return hours * 60 + minutes;
+}
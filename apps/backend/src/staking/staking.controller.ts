@@ -0,0 +1,106 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+  BadRequestException
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { StakingService } from './staking.service';
+
+interface StakeDto {
+  amount: number;
+  lockupDays: number;
+}
+
+interface UnstakeDto {
+  stakeAccount: string;
+}
+
+interface ConfirmStakingTransactionDto {
+  signature: string;
+}
+
+@Controller('staking')
+@UseGuards(JwtAuthGuard)
+export class StakingController {
+  constructor(private readonly stakingService: StakingService) {}
+
+  @Get('terms')
+  async getTerms() {
+    const terms = await this.stakingService.getTerms();
+
+    return { data: terms };
+  }
+
+  @Get('positions')
+  async getPositions(@Request() req: any) {
+    const positions = await this.stakingService.getPositions(req.user.id);
+
+    return { data: positions };
+  }
+
+  @Get('transactions')
+  async getTransactions(@Request() req: any) {
+    const transactions = await this.stakingService.getTransactions(req.user.id);
+
+    return { data: transactions };
+  }
+
+  @Post('stake')
+  @HttpCode(HttpStatus.OK)
+  async stake(@Request() req: any, @Body() body: StakeDto) {
+    if (typeof body.amount !== 'number' || typeof body.lockupDays !== 'number') {
+      throw new BadRequestException('amount and lockupDays are required');
+    }
+
+    const result = await this.stakingService.prepareStake(req.user.id, body.amount, body.lockupDays);
+
+    return {
+      success: true,
+      data: result,
+      message: 'Sign and send the transaction with your wallet, then confirm it with the signature'
+    };
+  }
+
+  @Post('unstake')
+  @HttpCode(HttpStatus.OK)
+  async unstake(@Request() req: any, @Body() body: UnstakeDto) {
+    if (!body.stakeAccount) {
+      throw new BadRequestException('stakeAccount is required');
+    }
+
+    const result = await this.stakingService.prepareUnstake(req.user.id, body.stakeAccount);
+
+    return {
+      success: true,
+      data: result,
+      message: 'Sign and send the transaction with your wallet, then confirm it with the signature'
+    };
+  }
+
+  @Post('transactions/:id/confirm')
+  @HttpCode(HttpStatus.OK)
+  async confirmTransaction(
+    @Request() req: any,
+    @Param('id') transactionId: string,
+    @Body() body: ConfirmStakingTransactionDto
+  ) {
+    if (!body.signature) {
+      throw new BadRequestException('signature is required');
+    }
+
+    const transaction = await this.stakingService.confirmTransaction(req.user.id, transactionId, body.signature);
+
+    return {
+      success: true,
+      data: transaction,
+      message: `${transaction.type === 'STAKE' ? 'Stake' : 'Unstake'} confirmed`
+    };
+  }
+}
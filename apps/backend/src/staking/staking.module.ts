@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { StakingController } from './staking.controller';
+import { StakingService } from './staking.service';
+
+@Module({
+  imports: [PrismaModule, LedgerModule],
+  controllers: [StakingController],
+  providers: [StakingService],
+  exports: [StakingService]
+})
+export class StakingModule {}
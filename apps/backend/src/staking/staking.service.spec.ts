@@ -0,0 +1,104 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Keypair } from '@solana/web3.js';
+import { StakingService } from './staking.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+
+describe('StakingService', () => {
+  let service: StakingService;
+  let prismaService: any;
+  let ledgerService: any;
+  let getTransaction: jest.Mock;
+
+  const wallet = Keypair.generate().publicKey.toBase58();
+  const stakeAccount = Keypair.generate().publicKey.toBase58();
+  const programId = Keypair.generate().publicKey;
+
+  const pendingStake = {
+    id: 'tx-1',
+    userId: 'user-1',
+    type: 'STAKE',
+    amount: 1000,
+    fromAddress: wallet,
+    toAddress: stakeAccount,
+    status: 'PENDING',
+    metadata: { stakeAccount, lockupDays: 30 }
+  };
+
+  const chainTransaction = (keys: string[], err: any = null) => ({
+    meta: { err },
+    transaction: {
+      message: {
+        getAccountKeys: () => ({ staticAccountKeys: keys.map((key) => ({ toBase58: () => key })) })
+      }
+    }
+  });
+
+  beforeEach(async () => {
+    const tx = {
+      transaction: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUnique: jest.fn().mockResolvedValue({ ...pendingStake, status: 'CONFIRMED', signature: 'sig' })
+      }
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StakingService,
+        {
+          provide: PrismaService,
+          useValue: {
+            user: { findUnique: jest.fn() },
+            transaction: {
+              findFirst: jest.fn().mockResolvedValueOnce(pendingStake).mockResolvedValueOnce(null),
+              create: jest.fn()
+            },
+            $transaction: jest.fn((callback) => callback(tx))
+          }
+        },
+        {
+          provide: LedgerService,
+          useValue: { recordStakeConfirmed: jest.fn(), recordUnstakeConfirmed: jest.fn() }
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } }
+      ]
+    }).compile();
+
+    service = module.get<StakingService>(StakingService);
+    prismaService = module.get(PrismaService);
+    ledgerService = module.get(LedgerService);
+
+    getTransaction = jest.fn();
+    (service as any).program = { programId, provider: { connection: { getTransaction } } };
+  });
+
+  it('should require a verified wallet to stake', async () => {
+    prismaService.user.findUnique.mockResolvedValue({ walletAddress: wallet, walletLastVerified: null });
+
+    await expect(service.prepareStake('user-1', 1000, 30)).rejects.toThrow(ForbiddenException);
+    expect(prismaService.transaction.create).not.toHaveBeenCalled();
+  });
+
+  it('should confirm a stake signed by the wallet and post it to the ledger', async () => {
+    getTransaction.mockResolvedValue(chainTransaction([wallet, stakeAccount, programId.toBase58()]));
+
+    const result = await service.confirmTransaction('user-1', 'tx-1', 'sig');
+
+    expect(result.status).toBe('CONFIRMED');
+    expect(ledgerService.recordStakeConfirmed).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ id: 'tx-1', amount: 1000 })
+    );
+  });
+
+  it('should reject a signature paid by another wallet', async () => {
+    const other = Keypair.generate().publicKey.toBase58();
+    getTransaction.mockResolvedValue(chainTransaction([other, stakeAccount, programId.toBase58()]));
+
+    await expect(service.confirmTransaction('user-1', 'tx-1', 'sig')).rejects.toThrow(BadRequestException);
+    expect(prismaService.$transaction).not.toHaveBeenCalled();
+    expect(ledgerService.recordStakeConfirmed).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,374 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+  ServiceUnavailableException
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cluster, Connection, PublicKey, SystemProgram, Transaction, clusterApiUrl } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { AnchorProvider, BN, Idl, Program } from '@coral-xyz/anchor';
+import {
+  DEFAULT_STAKING_TERMS,
+  STAKE_ACCOUNT_OWNER_OFFSET,
+  STAKING_IDL,
+  STAKING_SEEDS,
+  TOKEN_CONFIG,
+  calculateStakingRewards,
+  validateStake
+} from '@omnifit/shared';
+import type { StakePosition, StakingTerms } from '@omnifit/shared';
+import { PrismaService } from '../prisma/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DECIMALS = new BN(10).pow(new BN(TOKEN_CONFIG.DECIMALS));
+
+/**
+ * Staking from a user's verified wallet. The backend builds the program
+ * transaction and records it as a PENDING Transaction; the wallet signs and
+ * sends it, and the Transaction is confirmed (with its ledger posting) only
+ * once the signature is found on chain.
+ */
+@Injectable()
+export class StakingService {
+  private readonly logger = new Logger(StakingService.name);
+  private program: Program | null = null;
+  private mint: PublicKey | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ledgerService: LedgerService,
+    private readonly configService: ConfigService
+  ) {}
+
+  async getTerms(): Promise<StakingTerms> {
+    const pool: any = await this.getProgram().account.stakePool.fetchNullable(this.getPoolAddress());
+    if (!pool) {
+      return DEFAULT_STAKING_TERMS;
+    }
+
+    return {
+      minimumStake: pool.minimumStake.div(DECIMALS).toNumber(),
+      lockupPeriods: pool.lockupOptions.map((option: any) => option.days),
+      rewardRates: pool.lockupOptions.map((option: any) => option.rateBps / 10000)
+    };
+  }
+
+  async getPositions(userId: string): Promise<StakePosition[]> {
+    const wallet = await this.getVerifiedWallet(userId);
+
+    const accounts = await this.getProgram().account.stakeAccount.all([
+      { memcmp: { offset: STAKE_ACCOUNT_OWNER_OFFSET, bytes: wallet.toBase58() } }
+    ]);
+
+    return accounts.map(({ publicKey, account }) => this.toPosition(publicKey, account));
+  }
+
+  /**
+   * Build a stake transaction for the user's wallet to sign
+   */
+  async prepareStake(userId: string, amount: number, lockupDays: number) {
+    const wallet = await this.getVerifiedWallet(userId);
+
+    const validation = validateStake(amount, lockupDays, await this.getTerms());
+    if ('error' in validation) {
+      throw new BadRequestException(validation.error);
+    }
+
+    const stakeId = Date.now();
+    const pool = this.getPoolAddress();
+    const stakeAccount = this.findStakeAccountAddress(pool, wallet, stakeId);
+
+    const instruction = await this.getProgram().methods
+      .stake(new BN(stakeId), new BN(amount).mul(DECIMALS), lockupDays)
+      .accounts({
+        pool,
+        stakeAccount,
+        vault: this.findAddress([Buffer.from(STAKING_SEEDS.VAULT), pool.toBuffer()]),
+        ownerTokenAccount: getAssociatedTokenAddressSync(this.getMint(), wallet),
+        owner: wallet,
+        systemProgram: SystemProgram.programId,
+        tokenProgram: TOKEN_PROGRAM_ID
+      })
+      .instruction();
+
+    const record = await this.prisma.transaction.create({
+      data: {
+        userId,
+        type: 'STAKE',
+        amount,
+        fromAddress: wallet.toBase58(),
+        toAddress: stakeAccount.toBase58(),
+        status: 'PENDING',
+        metadata: {
+          stakeAccount: stakeAccount.toBase58(),
+          stakeId,
+          lockupDays,
+          apy: validation.apy,
+          unlockAt: new Date(Date.now() + lockupDays * DAY_MS).toISOString()
+        }
+      }
+    });
+
+    return {
+      transactionId: record.id,
+      stakeAccount: stakeAccount.toBase58(),
+      apy: validation.apy,
+      transaction: await this.serializeForWallet(new Transaction().add(instruction), wallet)
+    };
+  }
+
+  /**
+   * Build an unstake transaction for an unlocked stake owned by the user's wallet
+   */
+  async prepareUnstake(userId: string, stakeAccountAddress: string) {
+    const wallet = await this.getVerifiedWallet(userId);
+    const stakeAccount = this.parsePublicKey(stakeAccountAddress, 'Invalid stake account address');
+
+    const account: any = await this.getProgram().account.stakeAccount.fetchNullable(stakeAccount);
+    if (!account) {
+      throw new NotFoundException('Stake account not found');
+    }
+    if (!account.owner.equals(wallet)) {
+      throw new ForbiddenException('Stake account belongs to another wallet');
+    }
+
+    const position = this.toPosition(stakeAccount, account);
+    if (position.unlockAt.getTime() > Date.now()) {
+      throw new BadRequestException(`Stake is locked until ${position.unlockAt.toISOString()}`);
+    }
+
+    const pool = this.getPoolAddress();
+    const instruction = await this.getProgram().methods
+      .unstake()
+      .accounts({
+        pool,
+        stakeAccount,
+        vault: this.findAddress([Buffer.from(STAKING_SEEDS.VAULT), pool.toBuffer()]),
+        rewardVault: this.findAddress([Buffer.from(STAKING_SEEDS.REWARD_VAULT), pool.toBuffer()]),
+        ownerTokenAccount: getAssociatedTokenAddressSync(this.getMint(), wallet),
+        owner: wallet,
+        tokenProgram: TOKEN_PROGRAM_ID
+      })
+      .instruction();
+
+    // Accrual stops at unlock, so the payout is fixed from here on
+    const record = await this.prisma.transaction.create({
+      data: {
+        userId,
+        type: 'UNSTAKE',
+        amount: position.amount,
+        fromAddress: stakeAccount.toBase58(),
+        toAddress: wallet.toBase58(),
+        status: 'PENDING',
+        metadata: {
+          stakeAccount: stakeAccount.toBase58(),
+          stakeId: position.stakeId,
+          rewards: position.claimableRewards
+        }
+      }
+    });
+
+    return {
+      transactionId: record.id,
+      amount: position.amount,
+      rewards: position.claimableRewards,
+      transaction: await this.serializeForWallet(new Transaction().add(instruction), wallet)
+    };
+  }
+
+  /**
+   * Confirm a pending STAKE or UNSTAKE once the wallet has sent it. The
+   * signature must be a successful transaction, paid by the user's wallet,
+   * that touches the recorded stake account.
+   */
+  async confirmTransaction(userId: string, transactionId: string, signature: string) {
+    const record = await this.prisma.transaction.findFirst({
+      where: { id: transactionId, userId, type: { in: ['STAKE', 'UNSTAKE'] } }
+    });
+
+    if (!record) {
+      throw new NotFoundException('Staking transaction not found');
+    }
+    if (record.status === 'CONFIRMED') {
+      return record;
+    }
+    if (record.status !== 'PENDING') {
+      throw new BadRequestException(`Staking transaction is ${record.status}`);
+    }
+
+    const reused = await this.prisma.transaction.findFirst({
+      where: { signature, id: { not: transactionId } },
+      select: { id: true }
+    });
+    if (reused) {
+      throw new ConflictException('Signature already recorded for another transaction');
+    }
+
+    const metadata = record.metadata as any;
+    await this.verifyOnChain(signature, record.type === 'STAKE' ? record.fromAddress! : record.toAddress!, metadata.stakeAccount);
+
+    return await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.transaction.updateMany({
+        where: { id: transactionId, status: 'PENDING' },
+        data: { status: 'CONFIRMED', signature, confirmedAt: new Date() }
+      });
+
+      const confirmed = await tx.transaction.findUnique({ where: { id: transactionId } });
+      if (updated.count === 0) {
+        return confirmed;
+      }
+
+      if (record.type === 'STAKE') {
+        await this.ledgerService.recordStakeConfirmed(tx, confirmed);
+      } else {
+        await this.ledgerService.recordUnstakeConfirmed(tx, confirmed, metadata.rewards ?? 0);
+      }
+
+      this.logger.log(`${record.type} ${transactionId} confirmed: ${signature}`);
+      return confirmed;
+    });
+  }
+
+  async getTransactions(userId: string) {
+    return await this.prisma.transaction.findMany({
+      where: { userId, type: { in: ['STAKE', 'UNSTAKE'] } },
+      orderBy: { createdAt: 'desc' },
+      take: 50
+    });
+  }
+
+  private async verifyOnChain(signature: string, wallet: string, stakeAccount: string) {
+    const result = await this.getConnection().getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+
+    if (!result) {
+      throw new BadRequestException('Transaction not found on chain yet, retry once it is confirmed');
+    }
+    if (result.meta?.err) {
+      throw new BadRequestException('Transaction failed on chain');
+    }
+
+    const keys = result.transaction.message.getAccountKeys().staticAccountKeys.map((key) => key.toBase58());
+    if (keys[0] !== wallet) {
+      throw new BadRequestException('Transaction was not signed by your verified wallet');
+    }
+    if (!keys.includes(stakeAccount) || !keys.includes(this.getProgram().programId.toBase58())) {
+      throw new BadRequestException('Transaction does not match this staking request');
+    }
+  }
+
+  private async getVerifiedWallet(userId: string): Promise<PublicKey> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { walletAddress: true, walletLastVerified: true }
+    });
+
+    if (!user?.walletAddress || !user.walletLastVerified) {
+      throw new ForbiddenException('Connect and verify a wallet before staking');
+    }
+
+    return new PublicKey(user.walletAddress);
+  }
+
+  private toPosition(address: PublicKey, account: any): StakePosition {
+    const amount = account.amount.div(DECIMALS).toNumber();
+    const apy = account.rateBps / 10000;
+    const stakedAt = new Date(account.stakedAt.toNumber() * 1000);
+    const unlockAt = new Date(account.unlockAt.toNumber() * 1000);
+    const rewardsClaimed = account.rewardsClaimed.div(DECIMALS).toNumber();
+
+    return {
+      address: address.toBase58(),
+      owner: account.owner.toBase58(),
+      stakeId: account.stakeId.toNumber(),
+      amount,
+      lockupDays: account.lockupDays,
+      apy,
+      stakedAt,
+      unlockAt,
+      rewardsClaimed,
+      claimableRewards: calculateStakingRewards(amount, apy, stakedAt, unlockAt) - rewardsClaimed
+    };
+  }
+
+  private async serializeForWallet(transaction: Transaction, wallet: PublicKey): Promise<string> {
+    const { blockhash, lastValidBlockHeight } = await this.getConnection().getLatestBlockhash('confirmed');
+    transaction.feePayer = wallet;
+    transaction.recentBlockhash = blockhash;
+    transaction.lastValidBlockHeight = lastValidBlockHeight;
+
+    return transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64');
+  }
+
+  private findStakeAccountAddress(pool: PublicKey, owner: PublicKey, stakeId: number): PublicKey {
+    return this.findAddress([
+      Buffer.from(STAKING_SEEDS.STAKE),
+      pool.toBuffer(),
+      owner.toBuffer(),
+      new BN(stakeId).toArrayLike(Buffer, 'le', 8)
+    ]);
+  }
+
+  private getPoolAddress(): PublicKey {
+    return this.findAddress([Buffer.from(STAKING_SEEDS.POOL), this.getMint().toBuffer()]);
+  }
+
+  private findAddress(seeds: Buffer[]): PublicKey {
+    return PublicKey.findProgramAddressSync(seeds, this.getProgram().programId)[0];
+  }
+
+  private parsePublicKey(value: string, message: string): PublicKey {
+    try {
+      return new PublicKey(value);
+    } catch {
+      throw new BadRequestException(message);
+    }
+  }
+
+  private getConnection(): Connection {
+    return this.getProgram().provider.connection;
+  }
+
+  private getMint(): PublicKey {
+    if (!this.mint) {
+      const mintAddress = this.configService.get<string>('TOKEN_MINT_ADDRESS');
+      if (!mintAddress) {
+        throw new ServiceUnavailableException('Staking is not configured');
+      }
+      this.mint = new PublicKey(mintAddress);
+    }
+    return this.mint;
+  }
+
+  private getProgram(): Program {
+    if (!this.program) {
+      const programId = this.configService.get<string>('STAKING_PROGRAM_ID');
+      if (!programId) {
+        throw new ServiceUnavailableException('Staking is not configured');
+      }
+
+      const cluster = this.configService.get<string>('SOLANA_CLUSTER', 'devnet') as Cluster;
+      const connection = new Connection(
+        this.configService.get<string>('SOLANA_RPC_URL') || clusterApiUrl(cluster),
+        'confirmed'
+      );
+
+      // The user's wallet signs; the provider is only used to read accounts and build instructions
+      const readOnlyWallet = {
+        publicKey: PublicKey.default,
+        signTransaction: async <T>(tx: T) => tx,
+        signAllTransactions: async <T>(txs: T[]) => txs
+      };
+      const provider = new AnchorProvider(connection, readOnlyWallet as any, { commitment: 'confirmed' });
+      this.program = new Program(STAKING_IDL as Idl, new PublicKey(programId), provider);
+    }
+    return this.program;
+  }
+}
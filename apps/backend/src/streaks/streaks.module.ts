@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { UsersModule } from '../users/users.module';
+import { RewardsModule } from '../rewards/rewards.module';
+import { StreaksService } from './streaks.service';
+
+@Module({
+  imports: [PrismaModule, UsersModule, RewardsModule],
+  providers: [StreaksService],
+  exports: [StreaksService]
+})
+export class StreaksModule {}
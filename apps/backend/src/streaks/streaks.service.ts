@@ -0,0 +1,276 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { UsersService } from '../users/users.service';
+import { RewardQueueService } from '../rewards/reward-queue.service';
+import { RewardPolicyService } from '../rewards/reward-policy.service';
+import { getZonedDateParts, getZonedDayNumber, resolveTimezone } from '@omnifit/shared';
+
+type StreakPeriod = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+type StreakCategory = 'FITNESS' | 'SPIRITUAL' | 'HYBRID';
+
+interface StreakMilestone {
+  threshold: number;
+  runStartDate: string; // identifies the run the milestone was reached in
+  reachedAt: string;
+  rewardJobId?: string | null;
+}
+
+interface StreakRun {
+  count: number;
+  startDate: Date;
+  lastActiveDate: Date;
+  lastPeriod: number;
+}
+
+interface StreakSnapshot {
+  current: StreakRun | null; // run that is still alive as of now
+  latest: StreakRun | null;  // most recent run, alive or broken
+  longestCount: number;
+}
+
+const STREAK_PERIODS: StreakPeriod[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+
+// HYBRID streak rows track the combined streak: any logged event keeps it alive.
+// Hybrid events also count towards both the fitness and spiritual streaks.
+const STREAK_CATEGORY_SOURCES: Record<StreakCategory, string[]> = {
+  FITNESS: ['FITNESS', 'HYBRID'],
+  SPIRITUAL: ['SPIRITUAL', 'HYBRID'],
+  HYBRID: ['FITNESS', 'SPIRITUAL', 'HYBRID'],
+};
+
+@Injectable()
+export class StreaksService {
+  private readonly logger = new Logger(StreaksService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly usersService: UsersService,
+    private readonly rewardQueue: RewardQueueService,
+    private readonly policyService: RewardPolicyService
+  ) {}
+
+  /**
+   * Recompute every streak for a user from their event history.
+   * Called after an event is logged, edited or deleted; backdated and removed
+   * events are handled the same way because nothing is incremented in place.
+   */
+  async updateUserStreaks(userId: string) {
+    const [profile, events] = await Promise.all([
+      this.prisma.userProfile.findUnique({
+        where: { userId },
+        select: { timezone: true }
+      }),
+      this.prisma.event.findMany({
+        where: { userId },
+        select: { category: true, completedAt: true },
+        orderBy: { completedAt: 'asc' }
+      })
+    ]);
+
+    const timezone = resolveTimezone(profile?.timezone);
+    const thresholds = await this.getMilestoneThresholds();
+    const now = new Date();
+    const dailyCounts: Record<StreakCategory, { current: number; longest: number }> = {
+      FITNESS: { current: 0, longest: 0 },
+      SPIRITUAL: { current: 0, longest: 0 },
+      HYBRID: { current: 0, longest: 0 }
+    };
+
+    for (const category of Object.keys(STREAK_CATEGORY_SOURCES) as StreakCategory[]) {
+      const sources = STREAK_CATEGORY_SOURCES[category];
+      const dates = events
+        .filter((e) => sources.includes(e.category))
+        .map((e) => e.completedAt);
+
+      for (const period of STREAK_PERIODS) {
+        const snapshot = this.computeSnapshot(dates, period, timezone, now);
+        const count = await this.syncStreak(userId, period, category, snapshot, thresholds);
+
+        if (period === 'DAILY') {
+          dailyCounts[category] = count;
+        }
+      }
+    }
+
+    // UserProfile counters mirror the daily streaks
+    await this.usersService.updateStreakStats(userId, {
+      currentFitnessStreak: dailyCounts.FITNESS.current,
+      longestFitnessStreak: dailyCounts.FITNESS.longest,
+      currentSpiritualStreak: dailyCounts.SPIRITUAL.current,
+      longestSpiritualStreak: dailyCounts.SPIRITUAL.longest,
+      currentCombinedStreak: dailyCounts.HYBRID.current,
+      longestCombinedStreak: dailyCounts.HYBRID.longest
+    });
+  }
+
+  /**
+   * Get a user's streaks, refreshing them first so breaks since the last event show up
+   */
+  async getUserStreaks(userId: string) {
+    await this.updateUserStreaks(userId);
+
+    return this.prisma.streak.findMany({
+      where: { userId },
+      orderBy: [{ type: 'asc' }, { category: 'asc' }]
+    });
+  }
+
+  private async syncStreak(
+    userId: string,
+    type: StreakPeriod,
+    category: StreakCategory,
+    snapshot: StreakSnapshot,
+    thresholds: number[]
+  ): Promise<{ current: number; longest: number }> {
+    const existing = await this.prisma.streak.findFirst({
+      where: { userId, type, category }
+    });
+
+    if (!snapshot.latest) {
+      // No qualifying events (e.g. the only one was deleted)
+      if (existing) {
+        await this.prisma.streak.update({
+          where: { id: existing.id },
+          data: { currentCount: 0, longestCount: 0, isActive: false, endDate: existing.endDate || new Date() }
+        });
+      }
+      return { current: 0, longest: 0 };
+    }
+
+    const currentCount = snapshot.current?.count || 0;
+    const run = snapshot.latest;
+    const milestones = ((existing?.milestones as unknown) as StreakMilestone[]) || [];
+    const runStartDate = run.startDate.toISOString();
+
+    if (existing?.isActive && existing.currentCount > 0 && !snapshot.current) {
+      this.logger.log(
+        `${type} ${category} streak of ${existing.currentCount} broken for user ${userId}`
+      );
+    }
+
+    // Milestones are recorded once per run so deleting and re-logging
+    // an event cannot earn the same streak bonus twice.
+    const previousCount = existing && existing.startDate.toISOString() === runStartDate
+      ? existing.currentCount
+      : 0;
+    const crossed = thresholds.filter((threshold) =>
+      previousCount < threshold &&
+      currentCount >= threshold &&
+      !milestones.some((m) => m.threshold === threshold && m.runStartDate === runStartDate)
+    );
+
+    for (const threshold of crossed) {
+      let rewardJobId: string | null = null;
+      try {
+        rewardJobId = await this.rewardQueue.queueStreakReward(
+          userId,
+          type,
+          threshold,
+          category,
+          runStartDate
+        );
+      } catch (error) {
+        this.logger.error(`Failed to queue ${type} streak reward for user ${userId}:`, error);
+      }
+
+      milestones.push({
+        threshold,
+        runStartDate,
+        reachedAt: new Date().toISOString(),
+        rewardJobId
+      });
+    }
+
+    const data = {
+      currentCount,
+      longestCount: snapshot.longestCount,
+      lastActiveDate: run.lastActiveDate,
+      startDate: run.startDate,
+      endDate: snapshot.current ? null : run.lastActiveDate,
+      isActive: !!snapshot.current,
+      milestones: milestones as any
+    };
+
+    if (existing) {
+      await this.prisma.streak.update({
+        where: { id: existing.id },
+        data
+      });
+    } else {
+      await this.prisma.streak.create({
+        data: {
+          userId,
+          type,
+          category,
+          ...data
+        }
+      });
+    }
+
+    return { current: currentCount, longest: snapshot.longestCount };
+  }
+
+  private computeSnapshot(
+    dates: Date[],
+    period: StreakPeriod,
+    timezone: string,
+    now: Date
+  ): StreakSnapshot {
+    const runs: StreakRun[] = [];
+    let run: StreakRun | null = null;
+
+    for (const date of dates) {
+      const index = this.getPeriodIndex(date, period, timezone);
+
+      if (run && index === run.lastPeriod) {
+        run.lastActiveDate = date;
+      } else if (run && index === run.lastPeriod + 1) {
+        run.count++;
+        run.lastPeriod = index;
+        run.lastActiveDate = date;
+      } else {
+        run = { count: 1, startDate: date, lastActiveDate: date, lastPeriod: index };
+        runs.push(run);
+      }
+    }
+
+    const latest = runs.length > 0 ? runs[runs.length - 1] : null;
+    const longestCount = runs.reduce((max, r) => Math.max(max, r.count), 0);
+
+    // A streak survives until the end of the period after its last activity
+    const nowIndex = this.getPeriodIndex(now, period, timezone);
+    const current = latest && nowIndex - latest.lastPeriod <= 1 ? latest : null;
+
+    return { current, latest, longestCount };
+  }
+
+  /**
+   * Sequential index of the day, week (Monday start) or month containing
+   * the given instant, in the user's timezone
+   */
+  private getPeriodIndex(date: Date, period: StreakPeriod, timezone: string): number {
+    switch (period) {
+      case 'DAILY':
+        return getZonedDayNumber(date, timezone);
+      case 'WEEKLY':
+        // 1970-01-01 was a Thursday; shift so weeks start on Monday
+        return Math.floor((getZonedDayNumber(date, timezone) + 3) / 7);
+      case 'MONTHLY': {
+        const { year, month } = getZonedDateParts(date, timezone);
+        return year * 12 + (month - 1);
+      }
+    }
+  }
+
+  /**
+   * Milestone thresholds are the streak lengths listed in the active policy's streakBonuses
+   */
+  private async getMilestoneThresholds(): Promise<number[]> {
+    const policy = await this.policyService.getActivePolicy();
+
+    return Object.keys(policy.config.streakBonuses || {})
+      .map((key) => parseInt(key))
+      .filter((n) => !isNaN(n) && n > 0)
+      .sort((a, b) => a - b);
+  }
+}
@@ -67,6 +67,27 @@ export class UsersService {
     });
   }
 
+  async updatePassword(id: string, passwordHash: string): Promise<void> {
+    await this.prisma.user.update({
+      where: { id },
+      data: { passwordHash },
+    });
+  }
+
+  async updateEmail(id: string, email: string): Promise<void> {
+    await this.prisma.user.update({
+      where: { id },
+      data: { email, emailVerified: false },
+    });
+  }
+
+  async markEmailVerified(id: string): Promise<void> {
+    await this.prisma.user.update({
+      where: { id },
+      data: { emailVerified: true },
+    });
+  }
+
   async updateProfile(userId: string, profileData: Partial<UserProfile>): Promise<UserProfile> {
     const user = await this.findById(userId);
     if (!user) {
@@ -94,15 +115,4 @@ export class UsersService {
       data: streakData,
     });
   }
-
-  async updateTokenBalance(userId: string, amount: number): Promise<void> {
-    await this.prisma.userProfile.update({
-      where: { userId },
-      data: {
-        totalTokens: {
-          increment: amount,
-        },
-      },
-    });
-  }
 }
\ No newline at end of file
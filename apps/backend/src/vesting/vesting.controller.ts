@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  HttpCode,
+  HttpStatus,
+  BadRequestException
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Permissions } from '../auth/roles.decorator';
+import { VestingService, CreateVestingScheduleInput } from './vesting.service';
+
+interface RevokeVestingScheduleDto {
+  reason: string;
+}
+
+@Controller('admin/vesting')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Permissions('vesting:read')
+export class VestingController {
+  constructor(private readonly vestingService: VestingService) {}
+
+  @Get('schedules')
+  async getSchedules(
+    @Query('status') status?: string,
+    @Query('beneficiaryId') beneficiaryId?: string,
+    @Query('category') category?: string
+  ) {
+    const schedules = await this.vestingService.getSchedules({ status, beneficiaryId, category });
+
+    return { data: schedules };
+  }
+
+  @Post('schedules')
+  @Permissions('vesting:manage')
+  async createSchedule(@Request() req: any, @Body() body: CreateVestingScheduleInput) {
+    if (!body.beneficiaryWallet || !body.category || typeof body.totalAmount !== 'number') {
+      throw new BadRequestException('beneficiaryWallet, category and totalAmount are required');
+    }
+
+    const schedule = await this.vestingService.createSchedule(req.user.id, body, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    return {
+      success: true,
+      data: schedule,
+      message: 'Vesting schedule created; it vests once funded on chain'
+    };
+  }
+
+  @Post('schedules/:id/release')
+  @HttpCode(HttpStatus.OK)
+  @Permissions('vesting:manage')
+  async releaseVestedTokens(@Request() req: any, @Param('id') scheduleId: string) {
+    const release = await this.vestingService.requestRelease(req.user.id, scheduleId, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    return {
+      success: true,
+      data: release,
+      message: `Release of ${release.amount} tokens queued`
+    };
+  }
+
+  @Post('schedules/:id/revoke')
+  @HttpCode(HttpStatus.OK)
+  @Permissions('vesting:manage')
+  async revokeSchedule(
+    @Request() req: any,
+    @Param('id') scheduleId: string,
+    @Body() body: RevokeVestingScheduleDto
+  ) {
+    if (!body.reason) {
+      throw new BadRequestException('Revocation reason is required');
+    }
+
+    const schedule = await this.vestingService.revokeSchedule(req.user.id, scheduleId, body.reason, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    return {
+      success: true,
+      data: schedule,
+      message: 'Vesting schedule revoked'
+    };
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { VestingController } from './vesting.controller';
+import { VestingService } from './vesting.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [VestingController],
+  providers: [VestingService],
+  exports: [VestingService]
+})
+export class VestingModule {}
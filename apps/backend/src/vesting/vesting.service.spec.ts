@@ -0,0 +1,110 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { VestingService } from './vesting.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('VestingService', () => {
+  let service: VestingService;
+  let prismaService: any;
+  let tx: any;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  // 100 of 365 days into a schedule with a 90 day cliff
+  const schedule = {
+    id: 'schedule-1',
+    beneficiaryId: 'user-1',
+    beneficiaryWallet: 'wallet-1',
+    category: 'partner',
+    status: 'ACTIVE',
+    totalAmount: 3650,
+    releasedAmount: 0,
+    startAt: new Date(Date.now() - 100 * DAY_MS),
+    cliffDays: 90,
+    durationDays: 365,
+    revokedAt: null
+  };
+
+  beforeEach(async () => {
+    tx = {
+      vestingSchedule: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUnique: jest.fn().mockResolvedValue({ ...schedule, status: 'REVOKED' })
+      },
+      vestingRelease: {
+        create: jest.fn().mockResolvedValue({ id: 'release-1', amount: 1000 }),
+        updateMany: jest.fn()
+      },
+      auditLog: { create: jest.fn() }
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VestingService,
+        {
+          provide: PrismaService,
+          useValue: {
+            user: { findUnique: jest.fn() },
+            vestingSchedule: { findUnique: jest.fn().mockResolvedValue(schedule), findMany: jest.fn() },
+            vestingRelease: { findFirst: jest.fn().mockResolvedValue(null) },
+            $transaction: jest.fn((callback) => callback(tx))
+          }
+        }
+      ]
+    }).compile();
+
+    service = module.get<VestingService>(VestingService);
+    prismaService = module.get(PrismaService);
+  });
+
+  it('should reject a cliff longer than the vesting period', async () => {
+    await expect(
+      service.createSchedule('admin-1', {
+        beneficiaryWallet: 'wallet-1',
+        category: 'team',
+        totalAmount: 1000,
+        cliffDays: 400,
+        durationDays: 365
+      })
+    ).rejects.toThrow(BadRequestException);
+    expect(prismaService.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should queue a release of the vested amount once', async () => {
+    const release = await service.requestRelease('admin-1', 'schedule-1');
+
+    expect(release.amount).toBe(1000);
+    expect(tx.vestingRelease.create).toHaveBeenCalledWith({
+      data: { scheduleId: 'schedule-1', amount: 1000, requestedBy: 'admin-1' }
+    });
+
+    prismaService.vestingRelease.findFirst.mockResolvedValue({ id: 'release-1' });
+    await expect(service.requestRelease('admin-1', 'schedule-1')).rejects.toThrow(ConflictException);
+  });
+
+  it('should audit revocations and cancel queued releases', async () => {
+    const result = await service.revokeSchedule('admin-1', 'schedule-1', 'Left the company', { ipAddress: '10.0.0.1' });
+
+    expect(result.balance).toMatchObject({ vested: 1000, claimable: 1000, locked: 0 });
+    expect(tx.vestingRelease.updateMany).toHaveBeenCalledWith({
+      where: { scheduleId: 'schedule-1', status: 'PENDING' },
+      data: { status: 'CANCELLED', error: 'Schedule revoked' }
+    });
+    expect(tx.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'admin-1',
+        action: 'vesting_schedule_revoked',
+        resourceId: 'schedule-1',
+        ipAddress: '10.0.0.1',
+        details: expect.objectContaining({ reason: 'Left the company', vested: 1000, returnedToTreasury: 2650 })
+      })
+    });
+  });
+
+  it('should not revoke a completed schedule', async () => {
+    tx.vestingSchedule.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.revokeSchedule('admin-1', 'schedule-1', 'Too late')).rejects.toThrow(BadRequestException);
+    expect(tx.auditLog.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,246 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException
+} from '@nestjs/common';
+import { PublicKey } from '@solana/web3.js';
+import { VESTING_CONFIG, getVestingBalance, validateVestingSchedule } from '@omnifit/shared';
+import type { VestingBalance, VestingCategory } from '@omnifit/shared';
+import { PrismaService } from '../prisma/prisma.service';
+
+export interface CreateVestingScheduleInput {
+  beneficiaryWallet: string;
+  category: VestingCategory;
+  totalAmount: number;
+  cliffDays?: number;
+  durationDays?: number;
+  startAt?: string;
+  notes?: string;
+}
+
+interface AuditContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Vesting schedules for team, advisor and partner allocations. Admins create
+ * schedules and queue releases and revocations here; the blockchain CLI
+ * (`omnifit-blockchain vesting process`) carries them out on chain.
+ */
+@Injectable()
+export class VestingService {
+  private readonly logger = new Logger(VestingService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async createSchedule(adminId: string, input: CreateVestingScheduleInput, context: AuditContext = {}) {
+    const defaults = VESTING_CONFIG.CATEGORIES[input.category];
+    if (!defaults) {
+      throw new BadRequestException(
+        `category must be one of: ${Object.keys(VESTING_CONFIG.CATEGORIES).join(', ')}`
+      );
+    }
+
+    const cliffDays = input.cliffDays ?? defaults.cliffDays;
+    const durationDays = input.durationDays ?? defaults.durationDays;
+    const error = validateVestingSchedule(input.totalAmount, cliffDays, durationDays);
+    if (error) {
+      throw new BadRequestException(error);
+    }
+
+    const startAt = input.startAt ? new Date(input.startAt) : new Date();
+    if (isNaN(startAt.getTime())) {
+      throw new BadRequestException('startAt must be an ISO 8601 date');
+    }
+
+    let beneficiaryWallet: string;
+    try {
+      beneficiaryWallet = new PublicKey(input.beneficiaryWallet).toBase58();
+    } catch {
+      throw new BadRequestException('Invalid beneficiary wallet address');
+    }
+
+    const beneficiary = await this.prisma.user.findUnique({
+      where: { walletAddress: beneficiaryWallet },
+      select: { id: true }
+    });
+
+    return await this.prisma.$transaction(async (tx) => {
+      const schedule = await tx.vestingSchedule.create({
+        data: {
+          beneficiaryId: beneficiary?.id,
+          beneficiaryWallet,
+          category: input.category,
+          totalAmount: input.totalAmount,
+          startAt,
+          cliffDays,
+          durationDays,
+          notes: input.notes,
+          createdBy: adminId
+        }
+      });
+
+      await this.audit(tx, adminId, 'vesting_schedule_created', schedule.id, context, {
+        beneficiaryWallet,
+        category: schedule.category,
+        totalAmount: schedule.totalAmount,
+        startAt,
+        cliffDays,
+        durationDays
+      });
+
+      this.logger.log(`Vesting schedule ${schedule.id} created by ${adminId}: ${schedule.totalAmount} tokens`);
+      return { ...schedule, balance: getVestingBalance(schedule) };
+    });
+  }
+
+  async getSchedules(filters: { status?: string; beneficiaryId?: string; category?: string } = {}) {
+    const schedules = await this.prisma.vestingSchedule.findMany({
+      where: {
+        ...(filters.status && { status: filters.status as any }),
+        ...(filters.beneficiaryId && { beneficiaryId: filters.beneficiaryId }),
+        ...(filters.category && { category: filters.category })
+      },
+      include: {
+        beneficiary: { select: { id: true, username: true, email: true } },
+        releases: { orderBy: { createdAt: 'desc' }, take: 5 }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return schedules.map((schedule) => ({ ...schedule, balance: getVestingBalance(schedule) }));
+  }
+
+  /**
+   * Queue a release of everything vested so far on an active schedule
+   */
+  async requestRelease(adminId: string, scheduleId: string, context: AuditContext = {}) {
+    const schedule = await this.getSchedule(scheduleId);
+    if (schedule.status !== 'ACTIVE') {
+      throw new BadRequestException(`Vesting schedule is ${schedule.status}`);
+    }
+
+    const { claimable } = getVestingBalance(schedule);
+    if (claimable <= 0) {
+      throw new BadRequestException('Nothing has vested since the last release');
+    }
+
+    const pending = await this.prisma.vestingRelease.findFirst({
+      where: { scheduleId, status: 'PENDING' },
+      select: { id: true }
+    });
+    if (pending) {
+      throw new ConflictException('A release is already queued for this schedule');
+    }
+
+    return await this.prisma.$transaction(async (tx) => {
+      const release = await tx.vestingRelease.create({
+        data: { scheduleId, amount: claimable, requestedBy: adminId }
+      });
+
+      await this.audit(tx, adminId, 'vesting_release_requested', scheduleId, context, {
+        releaseId: release.id,
+        amount: claimable
+      });
+
+      return release;
+    });
+  }
+
+  /**
+   * Stop a schedule. Vesting ends now: what has vested stays claimable for the
+   * beneficiary, the rest returns to the treasury when the CLI executes it.
+   */
+  async revokeSchedule(adminId: string, scheduleId: string, reason: string, context: AuditContext = {}) {
+    const schedule = await this.getSchedule(scheduleId);
+    const revokedAt = new Date();
+
+    return await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.vestingSchedule.updateMany({
+        where: { id: scheduleId, status: { in: ['PENDING', 'ACTIVE'] } },
+        data: { status: 'REVOKED', revokedAt, revokedBy: adminId, revokeReason: reason }
+      });
+      if (updated.count === 0) {
+        throw new BadRequestException(`Vesting schedule is ${schedule.status}`);
+      }
+
+      // The on-chain revocation pays out what has vested
+      await tx.vestingRelease.updateMany({
+        where: { scheduleId, status: 'PENDING' },
+        data: { status: 'CANCELLED', error: 'Schedule revoked' }
+      });
+
+      const balance = getVestingBalance({ ...schedule, revokedAt });
+      await this.audit(tx, adminId, 'vesting_schedule_revoked', scheduleId, context, {
+        reason,
+        previousStatus: schedule.status,
+        vested: balance.vested,
+        returnedToTreasury: schedule.totalAmount - balance.vested
+      });
+
+      this.logger.warn(`Vesting schedule ${scheduleId} revoked by ${adminId}: ${reason}`);
+
+      const revoked = await tx.vestingSchedule.findUnique({ where: { id: scheduleId } });
+      return { ...revoked, balance };
+    });
+  }
+
+  /**
+   * Vested and locked tokens across the schedules paying a user or their wallet
+   */
+  async getBeneficiaryBalance(userId: string, walletAddress?: string | null): Promise<VestingBalance & { schedules: number }> {
+    const schedules = await this.prisma.vestingSchedule.findMany({
+      where: {
+        status: { not: 'PENDING' },
+        OR: [{ beneficiaryId: userId }, ...(walletAddress ? [{ beneficiaryWallet: walletAddress }] : [])]
+      }
+    });
+
+    return schedules.reduce(
+      (total, schedule) => {
+        const balance = getVestingBalance(schedule);
+        return {
+          total: total.total + balance.total,
+          vested: total.vested + balance.vested,
+          released: total.released + balance.released,
+          claimable: total.claimable + balance.claimable,
+          locked: total.locked + balance.locked,
+          schedules: total.schedules + 1
+        };
+      },
+      { total: 0, vested: 0, released: 0, claimable: 0, locked: 0, schedules: 0 }
+    );
+  }
+
+  private async getSchedule(scheduleId: string) {
+    const schedule = await this.prisma.vestingSchedule.findUnique({ where: { id: scheduleId } });
+    if (!schedule) {
+      throw new NotFoundException('Vesting schedule not found');
+    }
+    return schedule;
+  }
+
+  private async audit(
+    tx: any,
+    adminId: string,
+    action: string,
+    scheduleId: string,
+    context: AuditContext,
+    details: Record<string, unknown>
+  ) {
+    await tx.auditLog.create({
+      data: {
+        userId: adminId,
+        action,
+        resource: 'vesting_schedule',
+        resourceId: scheduleId,
+        details,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    });
+  }
+}
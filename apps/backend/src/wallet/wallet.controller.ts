@@ -11,6 +11,9 @@ import {
   HttpStatus
 } from '@nestjs/common';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { StepUpGuard } from '../auth/step-up.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Permissions } from '../auth/roles.decorator';
 import { WalletService } from './wallet.service';
 
 interface GenerateChallengeDto {
@@ -54,6 +57,7 @@ export class WalletController {
 
   @Post('verify')
   @HttpCode(HttpStatus.OK)
+  @UseGuards(StepUpGuard)
   async verifyWallet(
     @Request() req: any,
     @Body() verificationData: VerifyWalletDto
@@ -78,6 +82,7 @@ export class WalletController {
 
   @Delete('disconnect')
   @HttpCode(HttpStatus.OK)
+  @UseGuards(StepUpGuard)
   async disconnectWallet(@Request() req: any) {
     const userId = req.user.id;
     const ipAddress = req.ip || req.connection?.remoteAddress;
@@ -130,12 +135,12 @@ export class WalletController {
    * Admin endpoint for monitoring suspicious wallet activity
    */
   @Get('admin/suspicious')
+  @UseGuards(RolesGuard)
+  @Permissions('wallets:audit')
   async getSuspiciousActivity(
-    @Request() req: any,
     @Query('page') page?: string,
     @Query('limit') limit?: string
   ) {
-    // TODO: Add admin role check
     const pageNum = parseInt(page || '1');
     const limitNum = parseInt(limit || '50');
 
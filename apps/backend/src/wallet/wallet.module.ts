@@ -1,10 +1,12 @@
 import { Module } from '@nestjs/common';
 import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { VestingModule } from '../vesting/vesting.module';
 import { WalletController } from './wallet.controller';
 import { WalletService } from './wallet.service';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, AuthModule, VestingModule],
   controllers: [WalletController],
   providers: [WalletService],
   exports: [WalletService]
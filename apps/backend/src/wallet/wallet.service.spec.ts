@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { BadRequestException, ConflictException, UnauthorizedException } from '@nestjs/common';
 import { WalletService } from './wallet.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { VestingService } from '../vesting/vesting.service';
 import * as crypto from 'crypto';
 import * as nacl from 'tweetnacl';
 import * as bs58 from 'bs58';
@@ -9,6 +10,7 @@ import * as bs58 from 'bs58';
 describe('WalletService', () => {
   let service: WalletService;
   let prismaService: jest.Mocked<PrismaService>;
+  let vestingService: { getBeneficiaryBalance: jest.Mock };
 
   // Test data
   const testUserId = 'test-user-id';
@@ -43,11 +45,20 @@ describe('WalletService', () => {
             },
           },
         },
+        {
+          provide: VestingService,
+          useValue: {
+            getBeneficiaryBalance: jest.fn().mockResolvedValue({
+              total: 0, vested: 0, released: 0, claimable: 0, locked: 0, schedules: 0,
+            }),
+          },
+        },
       ],
     }).compile();
 
     service = module.get<WalletService>(WalletService);
     prismaService = module.get(PrismaService);
+    vestingService = module.get(VestingService);
   });
 
   it('should be defined', () => {
@@ -190,6 +201,7 @@ describe('WalletService', () => {
       prismaService.user.findUnique.mockResolvedValue({
         id: testUserId,
         walletAddress: testPublicKey,
+        passwordHash: 'hashed-password',
       } as any);
 
       prismaService.user.update.mockResolvedValue({} as any);
@@ -219,6 +231,19 @@ describe('WalletService', () => {
         service.disconnectWallet(testUserId)
       ).rejects.toThrow(BadRequestException);
     });
+
+    it('should keep the wallet of an account that signs in with it', async () => {
+      prismaService.user.findUnique.mockResolvedValue({
+        id: testUserId,
+        walletAddress: testPublicKey,
+        passwordHash: null,
+      } as any);
+
+      await expect(
+        service.disconnectWallet(testUserId)
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.user.update).not.toHaveBeenCalled();
+    });
   });
 
   describe('getWalletStatus', () => {
@@ -240,6 +265,23 @@ describe('WalletService', () => {
       expect(status.pendingVerifications).toBe(0);
     });
 
+    it('should include vested and locked tokens', async () => {
+      prismaService.user.findUnique.mockResolvedValue({
+        walletAddress: testPublicKey,
+        walletConnectedAt: new Date(),
+        walletLastVerified: new Date(),
+      } as any);
+      prismaService.walletVerification.count.mockResolvedValue(0);
+      vestingService.getBeneficiaryBalance.mockResolvedValue({
+        total: 10000, vested: 2500, released: 1000, claimable: 1500, locked: 7500, schedules: 1,
+      });
+
+      const status = await service.getWalletStatus(testUserId);
+
+      expect(vestingService.getBeneficiaryBalance).toHaveBeenCalledWith(testUserId, testPublicKey);
+      expect(status.vesting).toMatchObject({ vested: 2500, locked: 7500, claimable: 1500 });
+    });
+
     it('should return disconnected status', async () => {
       prismaService.user.findUnique.mockResolvedValue({
         walletAddress: null,
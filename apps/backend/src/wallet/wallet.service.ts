@@ -1,5 +1,6 @@
 import { Injectable, BadRequestException, UnauthorizedException, ConflictException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { VestingService } from '../vesting/vesting.service';
 import * as crypto from 'crypto';
 import * as nacl from 'tweetnacl';
 import * as bs58 from 'bs58';
@@ -19,7 +20,10 @@ interface WalletConnectionChallenge {
 
 @Injectable()
 export class WalletService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly vestingService: VestingService
+  ) {}
 
   /**
    * Generate a wallet connection challenge for signature verification
@@ -228,13 +232,18 @@ export class WalletService {
   ): Promise<{ success: boolean }> {
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
-      select: { walletAddress: true }
+      select: { walletAddress: true, passwordHash: true }
     });
 
     if (!user?.walletAddress) {
       throw new BadRequestException('No wallet connected to this account');
     }
 
+    // Accounts created by signing in with the wallet would be locked out
+    if (!user.passwordHash) {
+      throw new BadRequestException('Set a password before disconnecting the wallet you sign in with');
+    }
+
     const oldWalletAddress = user.walletAddress;
 
     // Remove wallet from user
@@ -273,7 +282,8 @@ export class WalletService {
   }
 
   /**
-   * Get wallet connection status for user
+   * Get wallet connection status for user, with vested and locked tokens
+   * from any vesting schedules paying them
    */
   async getWalletStatus(userId: string) {
     const user = await this.prisma.user.findUnique({
@@ -293,12 +303,15 @@ export class WalletService {
       }
     });
 
+    const vesting = await this.vestingService.getBeneficiaryBalance(userId, user?.walletAddress);
+
     return {
       connected: !!user?.walletAddress,
       walletAddress: user?.walletAddress,
       connectedAt: user?.walletConnectedAt,
       lastVerified: user?.walletLastVerified,
-      pendingVerifications
+      pendingVerifications,
+      vesting
     };
   }
 
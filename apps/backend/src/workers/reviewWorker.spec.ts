@@ -0,0 +1,96 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import axios from 'axios';
+import { ReviewWorkerService } from './reviewWorker';
+import { RewardClawbackService } from '../rewards/reward-clawback.service';
+import { RewardAuditService } from '../rewards/reward-audit.service';
+import { MintRequestService } from '../rewards/mint-request.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+jest.mock('axios');
+
+describe('ReviewWorkerService', () => {
+  let service: ReviewWorkerService;
+  let prismaService: any;
+  let rewards: any[];
+  let tx: any;
+
+  beforeEach(async () => {
+    rewards = [
+      { id: 'reward-approved', userId: 'user-1', eventId: 'event-1', status: 'APPROVED', amount: 20 },
+      { id: 'reward-claimed', userId: 'user-1', eventId: 'event-1', status: 'CLAIMED', amount: 40 },
+    ];
+
+    // Applies reward updates to the fixtures so the test can read the outcome
+    tx = {
+      reward: {
+        updateMany: jest.fn().mockImplementation(({ where, data }) => {
+          const matched = rewards.filter((r) => where.id.in.includes(r.id) && r.status === where.status);
+          matched.forEach((r) => Object.assign(r, data));
+          return { count: matched.length };
+        }),
+      },
+      mintRequest: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'mint-1', userId: 'user-1', status: 'COMPLETED', rewardIds: ['reward-claimed'] },
+        ]),
+      },
+      rewardDebt: {
+        create: jest.fn().mockImplementation(({ data }) => ({ id: `debt-${data.rewardId}`, ...data })),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewWorkerService,
+        RewardClawbackService,
+        {
+          provide: PrismaService,
+          useValue: {
+            event: {
+              findUnique: jest.fn().mockResolvedValue({ id: 'event-1', userId: 'user-1', user: { id: 'user-1' } }),
+              update: jest.fn(),
+            },
+            reward: {
+              findMany: jest.fn().mockImplementation(({ where }) =>
+                rewards.filter((r) => r.eventId === where.eventId && where.status.in.includes(r.status))
+              ),
+            },
+            auditLog: { create: jest.fn() },
+            $transaction: jest.fn((callback) => callback(tx)),
+          },
+        },
+        { provide: RewardAuditService, useValue: { logRewardProcessing: jest.fn(), logMintRequest: jest.fn() } },
+        { provide: MintRequestService, useValue: { removeReversedRewards: jest.fn() } },
+        { provide: LedgerService, useValue: { recordRewardReversed: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<ReviewWorkerService>(ReviewWorkerService);
+    prismaService = module.get(PrismaService);
+  });
+
+  it('should reverse the rewards of an event the AI review rejects', async () => {
+    (axios.post as jest.Mock).mockResolvedValue({
+      data: { confidence: 0.1, approved: false, reasoning: 'Implausible duration', flagged_concerns: ['duration'] },
+    });
+
+    await service.processEventReview('event-1');
+
+    expect(rewards.map((r) => [r.id, r.status, r.reversalReason])).toEqual([
+      ['reward-approved', 'REVERSED', 'ai_rejected'],
+      ['reward-claimed', 'REVERSED', 'ai_rejected'],
+    ]);
+    // The claimed reward was already minted, so it is owed back
+    expect(tx.rewardDebt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ rewardId: 'reward-claimed', mintRequestId: 'mint-1', amount: 40 }),
+    });
+    expect(prismaService.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'user-1',
+        action: 'EVENT_AUTO_REJECTED',
+        details: expect.objectContaining({ ai_confidence: 0.1 }),
+      }),
+    });
+  });
+});
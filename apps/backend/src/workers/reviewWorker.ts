@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { RewardClawbackService } from '../rewards/reward-clawback.service';
 import { EventType, EventCategory } from '@prisma/client';
 import axios from 'axios';
 
@@ -22,7 +23,10 @@ export class ReviewWorkerService {
   private readonly thresholds: ReviewThresholds;
   private readonly aiServiceUrl: string;
 
-  constructor(private prisma: PrismaService) {
+  constructor(
+    private prisma: PrismaService,
+    private clawbackService: RewardClawbackService,
+  ) {
     // TODO: Load thresholds from admin settings or config
     this.thresholds = {
       auto_approve: parseFloat(process.env.AI_AUTO_APPROVE_THRESHOLD || '0.85'),
@@ -70,11 +74,11 @@ export class ReviewWorkerService {
 
       // Process based on AI confidence score
       if (aiResult.confidence >= this.thresholds.auto_approve) {
-        await this.autoApproveEvent(eventId, aiResult);
+        await this.autoApproveEvent(eventId, event.userId, aiResult);
       } else if (aiResult.confidence <= this.thresholds.auto_reject) {
-        await this.autoRejectEvent(eventId, aiResult);
+        await this.autoRejectEvent(eventId, event.userId, aiResult);
       } else {
-        await this.sendToHumanReview(eventId, aiResult);
+        await this.sendToHumanReview(eventId, event.userId, aiResult);
       }
 
     } catch (error) {
@@ -131,7 +135,7 @@ export class ReviewWorkerService {
     }
   }
 
-  private async autoApproveEvent(eventId: string, aiResult: AIReviewResult): Promise<void> {
+  private async autoApproveEvent(eventId: string, userId: string, aiResult: AIReviewResult): Promise<void> {
     try {
       this.logger.log(`Auto-approving event ${eventId} (confidence: ${aiResult.confidence})`);
 
@@ -151,11 +155,11 @@ export class ReviewWorkerService {
         // Log audit trail
         await tx.auditLog.create({
           data: {
-            userId: '', // TODO: Get from event
+            userId,
             action: 'EVENT_AUTO_APPROVED',
             resource: 'Event',
             resourceId: eventId,
-            metadata: {
+            details: {
               ai_confidence: aiResult.confidence,
               reasoning: aiResult.reasoning,
             },
@@ -171,7 +175,7 @@ export class ReviewWorkerService {
     }
   }
 
-  private async autoRejectEvent(eventId: string, aiResult: AIReviewResult): Promise<void> {
+  private async autoRejectEvent(eventId: string, userId: string, aiResult: AIReviewResult): Promise<void> {
     try {
       this.logger.log(`Auto-rejecting event ${eventId} (confidence: ${aiResult.confidence})`);
 
@@ -183,14 +187,17 @@ export class ReviewWorkerService {
         },
       });
 
+      // Claw back anything the event earned before the review finished
+      await this.clawbackService.reverseEventRewards(eventId, 'ai_rejected', { triggeredBy: 'system' });
+
       // Log audit trail
       await this.prisma.auditLog.create({
         data: {
-          userId: '', // TODO: Get from event
+          userId,
           action: 'EVENT_AUTO_REJECTED',
           resource: 'Event',
           resourceId: eventId,
-          metadata: {
+          details: {
             ai_confidence: aiResult.confidence,
             reasoning: aiResult.reasoning,
             concerns: aiResult.flagged_concerns,
@@ -206,7 +213,7 @@ export class ReviewWorkerService {
     }
   }
 
-  private async sendToHumanReview(eventId: string, aiResult: AIReviewResult): Promise<void> {
+  private async sendToHumanReview(eventId: string, userId: string, aiResult: AIReviewResult): Promise<void> {
     try {
       this.logger.log(`Sending event ${eventId} to human review (confidence: ${aiResult.confidence})`);
 
@@ -236,11 +243,11 @@ export class ReviewWorkerService {
         // Log audit trail
         await tx.auditLog.create({
           data: {
-            userId: '', // TODO: Get from event
+            userId,
             action: 'EVENT_SENT_TO_HUMAN_REVIEW',
             resource: 'Event',
             resourceId: eventId,
-            metadata: {
+            details: {
               ai_confidence: aiResult.confidence,
               reasoning: aiResult.reasoning,
               concerns: aiResult.flagged_concerns,
@@ -271,11 +278,11 @@ export class ReviewWorkerService {
       // Log error
       await this.prisma.auditLog.create({
         data: {
-          userId: '', // TODO: Get from event
+          userId: null, // system action
           action: 'EVENT_REVIEW_ERROR',
           resource: 'Event',
           resourceId: eventId,
-          metadata: {
+          details: {
             error: error.message,
             stack: error.stack,
           },
@@ -15,16 +15,7 @@ import {
 } from '@solana/spl-token';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-
-interface MintRequest {
-  mintRequestId: string;
-  userId: string;
-  tokenAmount: number;
-  recipientWallet: string;
-  status: string;
-  description: string;
-  rewardIds: string[];
-}
+import { SolanaMintProcessor } from '../solana-scripts/sign_and_submit_mint_request';
 
 interface MintOperation {
   mintAddress: string;
@@ -49,7 +40,7 @@ interface MintResult {
 class TokenMinter {
   private connection: Connection;
   private payerKeypair: Keypair;
-  private mintRequestsPath: string;
+  private network: string;
   private mintLogsPath: string;
 
   constructor(network: string = 'devnet') {
@@ -57,7 +48,7 @@ class TokenMinter {
     this.connection = new Connection(rpcUrl, 'confirmed');
     
     this.payerKeypair = this.loadPayerKeypair();
-    this.mintRequestsPath = path.join(process.cwd(), 'apps/blockchain/mint-requests');
+    this.network = network;
     this.mintLogsPath = path.join(process.cwd(), 'apps/blockchain/mint-logs');
     
     this.ensureDirectories();
@@ -105,7 +96,6 @@ class TokenMinter {
 
   private async ensureDirectories() {
     try {
-      await fs.mkdir(this.mintRequestsPath, { recursive: true });
       await fs.mkdir(this.mintLogsPath, { recursive: true });
     } catch (error) {
       console.error('Failed to create directories:', error);
@@ -186,11 +176,6 @@ class TokenMinter {
       // Log the operation
       await this.logMintOperation(result, operation);
 
-      // Update mint request file if provided
-      if (operation.mintRequestId) {
-        await this.updateMintRequestFile(operation.mintRequestId, result);
-      }
-
       console.log(`🎉 Minted ${operation.amount / Math.pow(10, operation.decimals)} tokens successfully!`);
       console.log(`Explorer: ${result.explorerUrl}`);
 
@@ -259,95 +244,38 @@ class TokenMinter {
     }
   }
 
-  private async updateMintRequestFile(mintRequestId: string, result: MintResult) {
-    const requestFile = path.join(this.mintRequestsPath, `mint-request-${mintRequestId}.json`);
-    
-    try {
-      const requestData = await fs.readFile(requestFile, 'utf-8');
-      const request = JSON.parse(requestData);
-      
-      // Update with mint result
-      request.mintSignature = result.signature;
-      request.explorerUrl = result.explorerUrl;
-      request.tokenAccount = result.tokenAccount;
-      request.mintedAt = result.timestamp;
-      request.status = result.success ? 'COMPLETED' : 'FAILED';
-      request.mintError = result.error;
-
-      // Add to audit trail
-      request.auditTrail.push({
-        action: result.success ? 'minting_completed' : 'minting_failed',
-        timestamp: result.timestamp,
-        actor: 'blockchain_operator',
-        data: {
-          signature: result.signature,
-          explorerUrl: result.explorerUrl,
-          error: result.error
-        }
-      });
+  /**
+   * Mint approved requests leased from the database mint queue, through the
+   * same processor as the sign_and_submit worker
+   */
+  async processPendingMintRequests(limit?: number) {
+    console.log('🔍 Processing pending mint requests...');
 
-      await fs.writeFile(requestFile, JSON.stringify(request, null, 2));
-      console.log(`📋 Updated mint request file: ${requestFile}`);
-    } catch (error) {
-      console.error(`Failed to update mint request file: ${error}`);
+    const mintAddress = process.env.OMNIFIT_MINT_ADDRESS;
+    if (!mintAddress) {
+      throw new Error('OMNIFIT_MINT_ADDRESS environment variable not set');
     }
-  }
 
-  async processPendingMintRequests(): Promise<MintResult[]> {
-    console.log('🔍 Processing pending mint requests...');
-    
+    const processor = new SolanaMintProcessor({
+      cluster: this.network,
+      connection: this.connection,
+      payer: this.payerKeypair,
+      mintAuthority: this.loadMintAuthority(mintAddress),
+      tokenMintAddress: new PublicKey(mintAddress)
+    });
+
     try {
-      const files = await fs.readdir(this.mintRequestsPath);
-      const requestFiles = files.filter(file => file.startsWith('mint-request-') && file.endsWith('.json'));
-      
-      const results: MintResult[] = [];
-      
-      for (const file of requestFiles) {
-        const filePath = path.join(this.mintRequestsPath, file);
-        
-        try {
-          const requestData = await fs.readFile(filePath, 'utf-8');
-          const request: MintRequest = JSON.parse(requestData);
-          
-          // Only process approved requests that haven't been minted
-          if (request.status === 'APPROVED' && !request.mintSignature) {
-            console.log(`\n📋 Processing request: ${request.mintRequestId}`);
-            
-            // Get mint configuration (assuming OmniFit token for now)
-            const mintAddress = process.env.OMNIFIT_MINT_ADDRESS;
-            if (!mintAddress) {
-              throw new Error('OMNIFIT_MINT_ADDRESS environment variable not set');
-            }
-
-            const operation: MintOperation = {
-              mintAddress,
-              recipientWallet: request.recipientWallet,
-              amount: request.tokenAmount * Math.pow(10, 9), // Convert to lamports (9 decimals)
-              decimals: 9,
-              mintRequestId: request.mintRequestId
-            };
-
-            const result = await this.mintTokens(operation);
-            results.push(result);
-            
-            // Small delay between operations
-            await new Promise(resolve => setTimeout(resolve, 1000));
-          }
-        } catch (error) {
-          console.error(`Failed to process ${file}:`, error);
-        }
-      }
-      
-      if (results.length === 0) {
+      // Settle requests a crashed run left in MINTING before taking new ones
+      await processor.recoverStaleMintRequests();
+
+      const result = await processor.processApprovedMintRequests(limit);
+      if (result.processed === 0) {
         console.log('📭 No pending mint requests found');
-      } else {
-        console.log(`🎉 Processed ${results.length} mint requests`);
       }
-      
-      return results;
-    } catch (error) {
-      console.error('Failed to process pending requests:', error);
-      throw error;
+
+      return result;
+    } finally {
+      await processor.close();
     }
   }
 
@@ -388,7 +316,7 @@ async function main() {
       break;
 
     case 'process':
-      await minter.processPendingMintRequests();
+      await minter.processPendingMintRequests(args[1] ? parseInt(args[1]) : undefined);
       break;
 
     case 'balance':
@@ -408,7 +336,7 @@ OmniFit Token Minter
 
 Commands:
   mint <mint> <recipient> <amount> [decimals] - Mint tokens to account
-  process                                    - Process pending mint requests  
+  process [limit]                            - Mint approved requests from the queue
   balance <tokenAccount> [decimals]          - Check token account balance
 
 Environment Variables:
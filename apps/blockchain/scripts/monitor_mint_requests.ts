@@ -1,127 +1,62 @@
 #!/usr/bin/env node
 
-import * as fs from 'fs/promises';
 import * as path from 'path';
 import { TokenMinter } from './mint_to_account';
-
-interface MintRequestSummary {
-  total: number;
-  queued: number;
-  adminReview: number;
-  approved: number;
-  rejected: number;
-  completed: number;
-  failed: number;
-  totalValue: number;
-}
+import { MintQueueService, MintQueueSummary } from '../src/services/mint-queue.service';
+import { loadMintingConfig } from '../src/services/minting-config';
 
 class MintRequestMonitor {
-  private mintRequestsPath: string;
+  private queue: MintQueueService;
   private minter: TokenMinter;
 
   constructor() {
-    this.mintRequestsPath = path.join(process.cwd(), 'apps/blockchain/mint-requests');
-    this.minter = new TokenMinter(process.env.SOLANA_NETWORK || 'devnet');
+    const network = process.env.SOLANA_NETWORK || 'devnet';
+    this.queue = new MintQueueService(network);
+    this.minter = new TokenMinter(network);
   }
 
   async scanMintRequests(): Promise<{
-    summary: MintRequestSummary;
+    summary: MintQueueSummary;
     pendingRequests: any[];
     recentActivity: any[];
+    staleRequests: any[];
   }> {
     try {
-      const files = await fs.readdir(this.mintRequestsPath);
-      const requestFiles = files.filter(file => 
-        file.startsWith('mint-request-') && file.endsWith('.json')
-      );
-
-      const summary: MintRequestSummary = {
-        total: 0,
-        queued: 0,
-        adminReview: 0,
-        approved: 0,
-        rejected: 0,
-        completed: 0,
-        failed: 0,
-        totalValue: 0
-      };
+      const twentyFourHoursAgo = new Date(Date.now() - (24 * 60 * 60 * 1000));
 
-      const pendingRequests: any[] = [];
-      const recentActivity: any[] = [];
-      const now = Date.now();
-      const twentyFourHoursAgo = now - (24 * 60 * 60 * 1000);
-
-      for (const file of requestFiles) {
-        const filePath = path.join(this.mintRequestsPath, file);
-        
-        try {
-          const requestData = await fs.readFile(filePath, 'utf-8');
-          const request = JSON.parse(requestData);
-          
-          summary.total++;
-          summary.totalValue += request.tokenAmount;
-
-          // Count by status
-          switch (request.status) {
-            case 'QUEUED':
-              summary.queued++;
-              pendingRequests.push(request);
-              break;
-            case 'ADMIN_REVIEW':
-              summary.adminReview++;
-              pendingRequests.push(request);
-              break;
-            case 'APPROVED':
-              summary.approved++;
-              if (!request.mintSignature) {
-                pendingRequests.push(request);
-              }
-              break;
-            case 'REJECTED':
-              summary.rejected++;
-              break;
-            case 'COMPLETED':
-              summary.completed++;
-              break;
-            case 'FAILED':
-              summary.failed++;
-              break;
-          }
-
-          // Check for recent activity
-          const requestTime = new Date(request.requestedAt).getTime();
-          if (requestTime > twentyFourHoursAgo) {
-            recentActivity.push({
-              id: request.mintRequestId,
-              status: request.status,
-              amount: request.tokenAmount,
-              wallet: request.recipientWallet,
-              requestedAt: request.requestedAt,
-              userId: request.userId
-            });
-          }
-
-        } catch (error) {
-          console.error(`Failed to parse ${file}:`, error);
-        }
-      }
-
-      // Sort pending by priority (admin review first, then by amount)
-      pendingRequests.sort((a, b) => {
-        if (a.status === 'ADMIN_REVIEW' && b.status !== 'ADMIN_REVIEW') return -1;
-        if (b.status === 'ADMIN_REVIEW' && a.status !== 'ADMIN_REVIEW') return 1;
-        return b.tokenAmount - a.tokenAmount;
-      });
-
-      // Sort recent activity by time (newest first)
-      recentActivity.sort((a, b) => 
-        new Date(b.requestedAt).getTime() - new Date(a.requestedAt).getTime()
-      );
+      const [summary, pending, recent, stale] = await Promise.all([
+        this.queue.getSummary(),
+        this.queue.getPending(20),
+        this.queue.getRecentActivity(twentyFourHoursAgo, 10),
+        this.queue.getStale()
+      ]);
 
       return {
         summary,
-        pendingRequests: pendingRequests.slice(0, 20), // Top 20 pending
-        recentActivity: recentActivity.slice(0, 10)     // Last 10 recent
+        pendingRequests: pending.map(request => ({
+          mintRequestId: request.id,
+          status: request.status,
+          tokenAmount: request.tokenAmount,
+          recipientWallet: request.recipientWallet,
+          riskScore: request.riskScore,
+          userId: request.userId,
+          requestedAt: request.requestedAt
+        })),
+        recentActivity: recent.map(request => ({
+          id: request.id,
+          status: request.status,
+          amount: request.tokenAmount,
+          wallet: request.recipientWallet,
+          updatedAt: request.updatedAt,
+          userId: request.userId,
+          lastError: request.lastError
+        })),
+        staleRequests: stale.map(request => ({
+          mintRequestId: request.id,
+          leasedBy: request.leasedBy,
+          leaseExpiresAt: request.leaseExpiresAt,
+          attempt: request.attempts[0]?.attempt
+        }))
       };
 
     } catch (error) {
@@ -130,52 +65,11 @@ class MintRequestMonitor {
     }
   }
 
-  async processNextBatch(batchSize: number = 5): Promise<void> {
+  async processNextBatch(batchSize: number = loadMintingConfig().batchSize): Promise<void> {
     console.log(`🔄 Processing next batch of ${batchSize} approved requests...`);
     
     try {
-      const { pendingRequests } = await this.scanMintRequests();
-      
-      // Filter only approved requests that need minting
-      const readyToMint = pendingRequests.filter(
-        req => req.status === 'APPROVED' && !req.mintSignature
-      );
-
-      if (readyToMint.length === 0) {
-        console.log('📭 No requests ready for minting');
-        return;
-      }
-
-      const batch = readyToMint.slice(0, batchSize);
-      console.log(`🔨 Processing ${batch.length} requests...`);
-
-      for (const request of batch) {
-        try {
-          console.log(`\n💰 Minting ${request.tokenAmount} tokens for ${request.recipientWallet}`);
-          
-          const mintAddress = process.env.OMNIFIT_MINT_ADDRESS;
-          if (!mintAddress) {
-            throw new Error('OMNIFIT_MINT_ADDRESS not configured');
-          }
-
-          await this.minter.mintTokens({
-            mintAddress,
-            recipientWallet: request.recipientWallet,
-            amount: request.tokenAmount * Math.pow(10, 9), // Convert to lamports
-            decimals: 9,
-            mintRequestId: request.mintRequestId
-          });
-
-          console.log(`✅ Successfully minted tokens for request ${request.mintRequestId}`);
-
-        } catch (error) {
-          console.error(`❌ Failed to process request ${request.mintRequestId}:`, error);
-        }
-
-        // Delay between mints to avoid rate limits
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      }
-
+      await this.minter.processPendingMintRequests(batchSize);
       console.log(`🎉 Batch processing completed`);
 
     } catch (error) {
@@ -184,6 +78,15 @@ class MintRequestMonitor {
     }
   }
 
+  async exportRequests(directory: string): Promise<void> {
+    const count = await this.queue.exportRequests(directory);
+    console.log(`📁 Exported ${count} mint requests to ${directory}`);
+  }
+
+  async close(): Promise<void> {
+    await this.queue.close();
+  }
+
   async generateReport(): Promise<void> {
     console.log('📊 Generating Mint Request Report\n');
     
@@ -200,6 +103,7 @@ class MintRequestMonitor {
       console.log(`  🟡 Queued: ${data.summary.queued}`);
       console.log(`  🔴 Admin Review: ${data.summary.adminReview}`);
       console.log(`  🟠 Approved: ${data.summary.approved}`);
+      console.log(`  🔵 Minting: ${data.summary.minting}`);
       console.log(`  ⚫ Rejected: ${data.summary.rejected}`);
       console.log(`  🟢 Completed: ${data.summary.completed}`);
       console.log(`  ❌ Failed: ${data.summary.failed}`);
@@ -236,11 +140,12 @@ class MintRequestMonitor {
         console.log('=' .repeat(50));
         
         data.recentActivity.forEach(activity => {
-          const time = new Date(activity.requestedAt).toLocaleTimeString();
+          const time = new Date(activity.updatedAt).toLocaleTimeString();
           const status = activity.status;
           const amount = activity.amount.toLocaleString();
+          const error = activity.lastError ? ` (${activity.lastError})` : '';
           
-          console.log(`${time} - ${status} - ${amount} tokens`);
+          console.log(`${time} - ${status} - ${amount} tokens${error}`);
         });
         console.log('');
       }
@@ -253,6 +158,9 @@ class MintRequestMonitor {
       if (data.summary.failed > 0) {
         alerts.push(`⚠️  Failed mint requests detected (${data.summary.failed})`);
       }
+      if (data.summary.stale > 0) {
+        alerts.push(`🔴 Mint requests stuck in MINTING after their lease expired (${data.summary.stale})`);
+      }
       if (data.pendingRequests.filter(r => r.riskScore > 0.8).length > 0) {
         alerts.push(`🔴 High-risk requests pending review`);
       }
@@ -291,18 +199,18 @@ class MintRequestMonitor {
     console.log('👀 Watching for mint request changes...');
     console.log('Press Ctrl+C to stop\n');
 
-    let lastFileCount = 0;
+    let lastTotal = 0;
     let lastSummary: any = null;
 
     const checkChanges = async () => {
       try {
         const data = await this.scanMintRequests();
         
-        // Check for new files
-        if (data.summary.total !== lastFileCount) {
-          const newRequests = data.summary.total - lastFileCount;
+        // Check for new requests
+        if (data.summary.total !== lastTotal) {
+          const newRequests = data.summary.total - lastTotal;
           console.log(`📥 ${newRequests} new mint request(s) detected`);
-          lastFileCount = data.summary.total;
+          lastTotal = data.summary.total;
         }
 
         // Check for status changes
@@ -349,11 +257,12 @@ async function main() {
   switch (command) {
     case 'report':
       await monitor.generateReport();
+      await monitor.close();
       break;
 
     case 'process':
-      const batchSize = parseInt(args[1] || '5');
-      await monitor.processNextBatch(batchSize);
+      await monitor.processNextBatch(args[1] ? parseInt(args[1]) : undefined);
+      await monitor.close();
       break;
 
     case 'watch':
@@ -363,6 +272,12 @@ async function main() {
     case 'scan':
       const data = await monitor.scanMintRequests();
       console.log(JSON.stringify(data, null, 2));
+      await monitor.close();
+      break;
+
+    case 'export':
+      await monitor.exportRequests(args[1] || path.join(process.cwd(), 'apps/blockchain/mint-requests'));
+      await monitor.close();
       break;
 
     default:
@@ -371,14 +286,16 @@ OmniFit Mint Request Monitor
 
 Commands:
   report          - Generate comprehensive status report
-  process [size]  - Process next batch of approved requests (default: 5)
+  process [size]  - Process next batch of approved requests (default: mintingConfig.batchSize)
   watch          - Watch for real-time changes
   scan           - Scan and output raw JSON data
+  export [dir]   - Write mint-request-*.json snapshots (optional, read-only copy)
 
 Examples:
   npm run mint:monitor report
   npm run mint:monitor process 10
   npm run mint:monitor watch
+  npm run mint:export ./mint-requests
       `);
   }
 }
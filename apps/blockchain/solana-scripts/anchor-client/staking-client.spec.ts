@@ -0,0 +1,63 @@
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { createMint, getAccount, getOrCreateAssociatedTokenAccount, mintTo } from '@solana/spl-token';
+import { StakingClient, findStakeAccountAddress } from './staking-client';
+
+// Runs against a local validator with the staking program loaded:
+// solana-test-validator --reset --bpf-program <program id> omnifit_staking.so, then
+// SOLANA_TEST_VALIDATOR_URL=http://127.0.0.1:8899 STAKING_PROGRAM_ID=<program id> pnpm test
+const validatorUrl = process.env.SOLANA_TEST_VALIDATOR_URL;
+const programId = process.env.STAKING_PROGRAM_ID;
+const describeWithProgram = validatorUrl && programId ? describe : describe.skip;
+
+describeWithProgram('staking client against a local validator', () => {
+  jest.setTimeout(60000);
+
+  let connection: Connection;
+  let authority: Keypair;
+  let staker: Keypair;
+  let client: StakingClient;
+
+  beforeAll(async () => {
+    connection = new Connection(validatorUrl!, 'confirmed');
+    authority = Keypair.generate();
+    staker = Keypair.generate();
+
+    for (const keypair of [authority, staker]) {
+      const airdrop = await connection.requestAirdrop(keypair.publicKey, 2 * LAMPORTS_PER_SOL);
+      await connection.confirmTransaction(airdrop, 'confirmed');
+    }
+
+    const mint = await createMint(connection, authority, authority.publicKey, null, 9);
+    const stakerAccount = await getOrCreateAssociatedTokenAccount(connection, staker, mint, staker.publicKey);
+    await mintTo(connection, authority, mint, stakerAccount.address, authority, 5_000n * 10n ** 9n);
+
+    client = new StakingClient(connection, programId!, mint.toBase58());
+    await client.initializePool(authority);
+    await client.loadConfig();
+  });
+
+  it('should stake into a derived stake account and read it back', async () => {
+    const { stakeAccount } = await client.stakeTokens(staker, 1000, 30);
+
+    const stake = await client.getStakingAccount(stakeAccount);
+    expect(stake).toMatchObject({ stakedAmount: 1000, lockupPeriod: 30, rewardRate: 0.05 });
+    expect(stake!.authority.equals(staker.publicKey)).toBe(true);
+    expect(stakeAccount.equals(
+      findStakeAccountAddress(new PublicKey(programId!), client.getConfig().stakingPoolAddress, staker.publicKey, stake!.stakeId)
+    )).toBe(true);
+
+    const tokenAccount = await getAccount(connection, stake!.tokenAccount);
+    expect(Number(tokenAccount.amount)).toBe(4000 * 10 ** 9);
+
+    const positions = await client.getUserStakingAccounts(staker.publicKey);
+    expect(positions.map((p) => p.address.toBase58())).toContain(stakeAccount.toBase58());
+  });
+
+  it('should refuse unsupported lockups, small stakes and early unstaking', async () => {
+    await expect(client.stakeTokens(staker, 1000, 45)).rejects.toThrow('Unsupported lockup period');
+    await expect(client.stakeTokens(staker, 10, 30)).rejects.toThrow('below minimum stake');
+
+    const [position] = await client.getUserStakingAccounts(staker.publicKey);
+    await expect(client.unstakeTokens(staker, position.address)).rejects.toThrow('locked until');
+  });
+});
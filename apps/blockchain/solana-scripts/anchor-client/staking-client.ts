@@ -1,90 +1,268 @@
-import { Connection, PublicKey, Keypair } from '@solana/web3.js';
+import {
+  Connection,
+  PublicKey,
+  Keypair,
+  SYSVAR_RENT_PUBKEY,
+  SystemProgram,
+  Transaction,
+  sendAndConfirmTransaction,
+} from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { AnchorProvider, BN, Idl, Program } from '@coral-xyz/anchor';
+import {
+  DEFAULT_STAKING_TERMS,
+  STAKE_ACCOUNT_OWNER_OFFSET,
+  STAKING_IDL,
+  STAKING_SEEDS,
+  TOKEN_CONFIG,
+  calculateStakingRewards,
+  validateStake,
+} from '@omnifit/shared';
 
 /**
- * Staking Client for OmniFit Token Staking Program
- * 
- * TODO: This is a placeholder for future Anchor program integration
- * Actual implementation requires:
- * 1. Deployed Anchor program for token staking
- * 2. Program IDL and generated TypeScript client
- * 3. Comprehensive security audit of smart contracts
- * 4. Multi-signature setup for program authority
+ * Staking Client for the OmniFit Token Staking Program
+ *
+ * Builds transactions from the program IDL (@omnifit/shared). The build*
+ * methods return unsigned transactions for a wallet to sign; stakeTokens,
+ * claimRewards and unstakeTokens sign with a local keypair and send.
+ * Amounts are whole tokens; the program works in base units.
  */
 
 export interface StakingAccount {
+  address: PublicKey;
   authority: PublicKey;
   tokenAccount: PublicKey;
+  stakeId: number;
   stakedAmount: number;
   rewardRate: number;
   lockupPeriod: number;
   stakeTimestamp: Date;
+  unlockTimestamp: Date;
+  rewardsClaimed: number;
   claimableRewards: number;
 }
 
 export interface StakingProgramConfig {
   programId: PublicKey;
+  mint: PublicKey;
   stakingPoolAddress: PublicKey;
+  stakingVaultAddress: PublicKey;
   rewardVaultAddress: PublicKey;
   minimumStakeAmount: number;
   lockupPeriods: number[]; // Available lockup periods in days
   rewardRates: number[];   // Corresponding reward rates (APY)
 }
 
+export interface BuiltStakingTransaction {
+  transaction: Transaction;
+  stakeAccount: PublicKey;
+  stakeId: number;
+}
+
+export function findStakePoolAddress(programId: PublicKey, mint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync([Buffer.from(STAKING_SEEDS.POOL), mint.toBuffer()], programId)[0];
+}
+
+export function findStakeVaultAddress(programId: PublicKey, pool: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync([Buffer.from(STAKING_SEEDS.VAULT), pool.toBuffer()], programId)[0];
+}
+
+export function findRewardVaultAddress(programId: PublicKey, pool: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync([Buffer.from(STAKING_SEEDS.REWARD_VAULT), pool.toBuffer()], programId)[0];
+}
+
+export function findStakeAccountAddress(
+  programId: PublicKey,
+  pool: PublicKey,
+  owner: PublicKey,
+  stakeId: number
+): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [
+      Buffer.from(STAKING_SEEDS.STAKE),
+      pool.toBuffer(),
+      owner.toBuffer(),
+      new BN(stakeId).toArrayLike(Buffer, 'le', 8),
+    ],
+    programId
+  )[0];
+}
+
+const toBaseUnits = (tokens: number) => new BN(tokens).mul(new BN(10).pow(new BN(TOKEN_CONFIG.DECIMALS)));
+const toTokens = (baseUnits: BN) => baseUnits.div(new BN(10).pow(new BN(TOKEN_CONFIG.DECIMALS))).toNumber();
+
 export class StakingClient {
   private connection: Connection;
   private programId: PublicKey;
+  private program: Program;
   private config: StakingProgramConfig;
 
-  constructor(connection: Connection, programId: string) {
+  constructor(connection: Connection, programId: string, mintAddress: string) {
     this.connection = connection;
     this.programId = new PublicKey(programId);
-    
-    // TODO: Load configuration from deployed program
+
+    // Transactions are signed by the caller, so the provider never signs
+    const readOnlyWallet = {
+      publicKey: PublicKey.default,
+      signTransaction: async <T>(tx: T) => tx,
+      signAllTransactions: async <T>(txs: T[]) => txs,
+    };
+    const provider = new AnchorProvider(connection, readOnlyWallet as any, { commitment: 'confirmed' });
+    this.program = new Program(STAKING_IDL as Idl, this.programId, provider);
+
+    const mint = new PublicKey(mintAddress);
+    const pool = findStakePoolAddress(this.programId, mint);
+
+    // Defaults until loadConfig reads the deployed pool
     this.config = {
       programId: this.programId,
-      stakingPoolAddress: PublicKey.default, // TODO: Set from deployed program
-      rewardVaultAddress: PublicKey.default, // TODO: Set from deployed program
-      minimumStakeAmount: 100, // 100 tokens minimum
-      lockupPeriods: [30, 90, 180, 365], // 30 days, 3 months, 6 months, 1 year
-      rewardRates: [0.05, 0.08, 0.12, 0.20], // 5%, 8%, 12%, 20% APY
+      mint,
+      stakingPoolAddress: pool,
+      stakingVaultAddress: findStakeVaultAddress(this.programId, pool),
+      rewardVaultAddress: findRewardVaultAddress(this.programId, pool),
+      minimumStakeAmount: DEFAULT_STAKING_TERMS.minimumStake,
+      lockupPeriods: DEFAULT_STAKING_TERMS.lockupPeriods,
+      rewardRates: DEFAULT_STAKING_TERMS.rewardRates,
     };
   }
 
+  /**
+   * Read the minimum stake and lockup options from the deployed pool
+   */
+  async loadConfig(): Promise<StakingProgramConfig> {
+    const pool: any = await this.program.account.stakePool.fetch(this.config.stakingPoolAddress);
+
+    this.config = {
+      ...this.config,
+      minimumStakeAmount: toTokens(pool.minimumStake),
+      lockupPeriods: pool.lockupOptions.map((option: any) => option.days),
+      rewardRates: pool.lockupOptions.map((option: any) => option.rateBps / 10000),
+    };
+
+    return this.getConfig();
+  }
+
+  /**
+   * Create the pool and its vaults. Run once per mint by the pool authority.
+   */
+  async initializePool(authority: Keypair): Promise<string> {
+    const transaction = await this.program.methods
+      .initializePool(
+        toBaseUnits(this.config.minimumStakeAmount),
+        this.config.lockupPeriods.map((days, i) => ({
+          days,
+          rateBps: Math.round(this.config.rewardRates[i] * 10000),
+        }))
+      )
+      .accounts({
+        pool: this.config.stakingPoolAddress,
+        mint: this.config.mint,
+        vault: this.config.stakingVaultAddress,
+        rewardVault: this.config.rewardVaultAddress,
+        authority: authority.publicKey,
+        systemProgram: SystemProgram.programId,
+        tokenProgram: TOKEN_PROGRAM_ID,
+        rent: SYSVAR_RENT_PUBKEY,
+      })
+      .transaction();
+
+    return await sendAndConfirmTransaction(this.connection, transaction, [authority]);
+  }
+
+  /**
+   * Unsigned stake transaction for `owner`, who must sign it
+   */
+  async buildStakeTransaction(
+    owner: PublicKey,
+    amount: number,
+    lockupDays: number,
+    stakeId: number = Date.now()
+  ): Promise<BuiltStakingTransaction> {
+    const validation = validateStake(amount, lockupDays, this.getTerms());
+    if ('error' in validation) {
+      throw new Error(validation.error);
+    }
+
+    const stakeAccount = findStakeAccountAddress(this.programId, this.config.stakingPoolAddress, owner, stakeId);
+
+    const transaction = await this.program.methods
+      .stake(new BN(stakeId), toBaseUnits(amount), lockupDays)
+      .accounts({
+        pool: this.config.stakingPoolAddress,
+        stakeAccount,
+        vault: this.config.stakingVaultAddress,
+        ownerTokenAccount: getAssociatedTokenAddressSync(this.config.mint, owner),
+        owner,
+        systemProgram: SystemProgram.programId,
+        tokenProgram: TOKEN_PROGRAM_ID,
+      })
+      .transaction();
+
+    return { transaction: await this.prepare(transaction, owner), stakeAccount, stakeId };
+  }
+
+  async buildClaimRewardsTransaction(owner: PublicKey, stakingAccount: PublicKey): Promise<Transaction> {
+    const stake = await this.requireOwnedStake(owner, stakingAccount);
+    if (stake.claimableRewards <= 0) {
+      throw new Error('No rewards have accrued since the last claim');
+    }
+
+    const transaction = await this.program.methods
+      .claimRewards()
+      .accounts({
+        pool: this.config.stakingPoolAddress,
+        stakeAccount: stakingAccount,
+        rewardVault: this.config.rewardVaultAddress,
+        ownerTokenAccount: stake.tokenAccount,
+        owner,
+        tokenProgram: TOKEN_PROGRAM_ID,
+      })
+      .transaction();
+
+    return await this.prepare(transaction, owner);
+  }
+
+  async buildUnstakeTransaction(owner: PublicKey, stakingAccount: PublicKey): Promise<Transaction> {
+    const stake = await this.requireOwnedStake(owner, stakingAccount);
+    if (stake.unlockTimestamp.getTime() > Date.now()) {
+      throw new Error(`Stake is locked until ${stake.unlockTimestamp.toISOString()}`);
+    }
+
+    const transaction = await this.program.methods
+      .unstake()
+      .accounts({
+        pool: this.config.stakingPoolAddress,
+        stakeAccount: stakingAccount,
+        vault: this.config.stakingVaultAddress,
+        rewardVault: this.config.rewardVaultAddress,
+        ownerTokenAccount: stake.tokenAccount,
+        owner,
+        tokenProgram: TOKEN_PROGRAM_ID,
+      })
+      .transaction();
+
+    return await this.prepare(transaction, owner);
+  }
+
   /**
    * Stake tokens for a specific lockup period
-   * TODO: Implement actual Anchor program interaction
    */
   async stakeTokens(
     authority: Keypair,
-    tokenAccount: PublicKey,
     amount: number,
     lockupDays: number
-  ): Promise<string> {
+  ): Promise<{ signature: string; stakeAccount: PublicKey }> {
     try {
-      // TODO: Validate lockup period is supported
-      const lockupIndex = this.config.lockupPeriods.indexOf(lockupDays);
-      if (lockupIndex === -1) {
-        throw new Error(`Unsupported lockup period: ${lockupDays} days`);
-      }
+      console.log(`Staking ${amount} tokens for ${lockupDays} days...`);
 
-      if (amount < this.config.minimumStakeAmount) {
-        throw new Error(`Amount ${amount} below minimum stake of ${this.config.minimumStakeAmount}`);
-      }
+      const { transaction, stakeAccount } = await this.buildStakeTransaction(authority.publicKey, amount, lockupDays);
+      const signature = await sendAndConfirmTransaction(this.connection, transaction, [authority]);
 
-      console.log(`Staking ${amount} tokens for ${lockupDays} days...`);
-      
-      // TODO: Build Anchor transaction
-      // 1. Create staking account PDA
-      // 2. Transfer tokens to staking pool
-      // 3. Initialize staking account with lockup parameters
-      
-      const signature = 'placeholder_signature';
-      
-      console.log(`Staking transaction submitted: ${signature}`);
-      console.log(`Lockup period: ${lockupDays} days`);
-      console.log(`Estimated APY: ${this.config.rewardRates[lockupIndex] * 100}%`);
-      
-      return signature;
+      console.log(`Staking transaction confirmed: ${signature}`);
+      console.log(`Stake account: ${stakeAccount.toBase58()}`);
+      console.log(`Estimated APY: ${this.calculateRewards(amount, lockupDays).apy * 100}%`);
+
+      return { signature, stakeAccount };
 
     } catch (error) {
       console.error('Failed to stake tokens:', error);
@@ -94,19 +272,14 @@ export class StakingClient {
 
   /**
    * Claim accumulated staking rewards
-   * TODO: Implement actual Anchor program interaction
    */
   async claimRewards(authority: Keypair, stakingAccount: PublicKey): Promise<string> {
     try {
       console.log('Claiming staking rewards...');
-      
-      // TODO: Build Anchor transaction
-      // 1. Calculate claimable rewards
-      // 2. Transfer rewards from vault to user
-      // 3. Update staking account state
-      
-      const signature = 'placeholder_signature';
-      
+
+      const transaction = await this.buildClaimRewardsTransaction(authority.publicKey, stakingAccount);
+      const signature = await sendAndConfirmTransaction(this.connection, transaction, [authority]);
+
       console.log(`Rewards claimed: ${signature}`);
       return signature;
 
@@ -118,21 +291,15 @@ export class StakingClient {
 
   /**
    * Unstake tokens (only after lockup period)
-   * TODO: Implement actual Anchor program interaction
    */
   async unstakeTokens(authority: Keypair, stakingAccount: PublicKey): Promise<string> {
     try {
       console.log('Unstaking tokens...');
-      
-      // TODO: Build Anchor transaction
-      // 1. Verify lockup period has passed
-      // 2. Calculate final rewards
-      // 3. Transfer staked tokens + rewards to user
-      // 4. Close staking account
-      
-      const signature = 'placeholder_signature';
-      
-      console.log(`Unstaking transaction submitted: ${signature}`);
+
+      const transaction = await this.buildUnstakeTransaction(authority.publicKey, stakingAccount);
+      const signature = await sendAndConfirmTransaction(this.connection, transaction, [authority]);
+
+      console.log(`Unstaking transaction confirmed: ${signature}`);
       return signature;
 
     } catch (error) {
@@ -143,27 +310,11 @@ export class StakingClient {
 
   /**
    * Get staking account information
-   * TODO: Implement actual account deserialization
    */
   async getStakingAccount(stakingAccount: PublicKey): Promise<StakingAccount | null> {
     try {
-      // TODO: Fetch and deserialize account data using Anchor
-      const accountInfo = await this.connection.getAccountInfo(stakingAccount);
-      
-      if (!accountInfo) {
-        return null;
-      }
-
-      // TODO: Deserialize account data based on Anchor IDL
-      return {
-        authority: PublicKey.default, // TODO: Parse from account data
-        tokenAccount: PublicKey.default, // TODO: Parse from account data
-        stakedAmount: 0, // TODO: Parse from account data
-        rewardRate: 0, // TODO: Parse from account data
-        lockupPeriod: 0, // TODO: Parse from account data
-        stakeTimestamp: new Date(), // TODO: Parse from account data
-        claimableRewards: 0, // TODO: Calculate based on time elapsed
-      };
+      const account = await this.program.account.stakeAccount.fetchNullable(stakingAccount);
+      return account ? this.toStakingAccount(stakingAccount, account) : null;
 
     } catch (error) {
       console.error('Failed to get staking account:', error);
@@ -173,15 +324,14 @@ export class StakingClient {
 
   /**
    * Get all staking accounts for a user
-   * TODO: Implement using program account filters
    */
   async getUserStakingAccounts(authority: PublicKey): Promise<StakingAccount[]> {
     try {
-      // TODO: Use getProgramAccounts with memcmp filter for authority
-      console.log(`Fetching staking accounts for ${authority.toBase58()}`);
-      
-      // Placeholder return
-      return [];
+      const accounts = await this.program.account.stakeAccount.all([
+        { memcmp: { offset: STAKE_ACCOUNT_OWNER_OFFSET, bytes: authority.toBase58() } },
+      ]);
+
+      return accounts.map(({ publicKey, account }) => this.toStakingAccount(publicKey, account));
 
     } catch (error) {
       console.error('Failed to get user staking accounts:', error);
@@ -199,12 +349,20 @@ export class StakingClient {
     averageStakingPeriod: number;
   }> {
     try {
-      // TODO: Aggregate data from all staking accounts
+      const [pool, stakes]: [any, any[]] = await Promise.all([
+        this.program.account.stakePool.fetch(this.config.stakingPoolAddress),
+        this.program.account.stakeAccount.all(),
+      ]);
+
+      const averageStakingPeriod = stakes.length > 0
+        ? stakes.reduce((sum, { account }) => sum + account.lockupDays, 0) / stakes.length
+        : 0;
+
       return {
-        totalStaked: 0,
-        totalStakers: 0,
-        totalRewardsPaid: 0,
-        averageStakingPeriod: 0,
+        totalStaked: toTokens(pool.totalStaked),
+        totalStakers: pool.totalStakers.toNumber(),
+        totalRewardsPaid: toTokens(pool.totalRewardsPaid),
+        averageStakingPeriod,
       };
 
     } catch (error) {
@@ -222,17 +380,17 @@ export class StakingClient {
     lockupDays: number;
   } {
     const lockupIndex = this.config.lockupPeriods.indexOf(lockupDays);
-    
+
     if (lockupIndex === -1) {
       throw new Error(`Unsupported lockup period: ${lockupDays} days`);
     }
 
     const apy = this.config.rewardRates[lockupIndex];
-    const dailyRate = apy / 365;
-    const estimatedRewards = amount * dailyRate * lockupDays;
+    const start = new Date(0);
+    const end = new Date(lockupDays * 24 * 60 * 60 * 1000);
 
     return {
-      estimatedRewards,
+      estimatedRewards: calculateStakingRewards(amount, apy, start, end, end),
       apy,
       lockupDays,
     };
@@ -241,6 +399,55 @@ export class StakingClient {
   getConfig(): StakingProgramConfig {
     return { ...this.config };
   }
+
+  private getTerms() {
+    return {
+      minimumStake: this.config.minimumStakeAmount,
+      lockupPeriods: this.config.lockupPeriods,
+      rewardRates: this.config.rewardRates,
+    };
+  }
+
+  private async requireOwnedStake(owner: PublicKey, stakingAccount: PublicKey): Promise<StakingAccount> {
+    const stake = await this.getStakingAccount(stakingAccount);
+    if (!stake) {
+      throw new Error(`Staking account ${stakingAccount.toBase58()} not found`);
+    }
+    if (!stake.authority.equals(owner)) {
+      throw new Error(`Staking account ${stakingAccount.toBase58()} belongs to another wallet`);
+    }
+    return stake;
+  }
+
+  private async prepare(transaction: Transaction, feePayer: PublicKey): Promise<Transaction> {
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+    transaction.feePayer = feePayer;
+    transaction.recentBlockhash = blockhash;
+    transaction.lastValidBlockHeight = lastValidBlockHeight;
+    return transaction;
+  }
+
+  private toStakingAccount(address: PublicKey, account: any): StakingAccount {
+    const stakedAmount = toTokens(account.amount);
+    const rewardRate = account.rateBps / 10000;
+    const stakeTimestamp = new Date(account.stakedAt.toNumber() * 1000);
+    const unlockTimestamp = new Date(account.unlockAt.toNumber() * 1000);
+    const rewardsClaimed = toTokens(account.rewardsClaimed);
+
+    return {
+      address,
+      authority: account.owner,
+      tokenAccount: getAssociatedTokenAddressSync(this.config.mint, account.owner),
+      stakeId: account.stakeId.toNumber(),
+      stakedAmount,
+      rewardRate,
+      lockupPeriod: account.lockupDays,
+      stakeTimestamp,
+      unlockTimestamp,
+      rewardsClaimed,
+      claimableRewards: calculateStakingRewards(stakedAmount, rewardRate, stakeTimestamp, unlockTimestamp) - rewardsClaimed,
+    };
+  }
 }
 
 // TODO: Security and audit requirements for production:
@@ -253,4 +460,4 @@ export class StakingClient {
 // 7. ✅ Insurance fund for potential exploits
 // 8. ✅ Comprehensive testing including stress tests
 // 9. ✅ Documentation and user education
-// 10. ✅ Gradual rollout with limits before full launch
\ No newline at end of file
+// 10. ✅ Gradual rollout with limits before full launch
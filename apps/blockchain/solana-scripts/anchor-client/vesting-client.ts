@@ -1,94 +1,173 @@
-import { Connection, PublicKey, Keypair } from '@solana/web3.js';
+import {
+  Connection,
+  PublicKey,
+  Keypair,
+  SYSVAR_RENT_PUBKEY,
+  SystemProgram,
+  Transaction,
+  sendAndConfirmTransaction,
+} from '@solana/web3.js';
+import {
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { AnchorProvider, BN, Idl, Program } from '@coral-xyz/anchor';
+import {
+  TOKEN_CONFIG,
+  VESTING_ACCOUNT_BENEFICIARY_OFFSET,
+  VESTING_CONFIG,
+  VESTING_IDL,
+  VESTING_SEEDS,
+  calculateVestedAmount,
+  getVestingBalance,
+  validateVestingSchedule,
+} from '@omnifit/shared';
+import type { VestingCategory } from '@omnifit/shared';
 
 /**
- * Vesting Client for OmniFit Token Vesting Program
- * 
- * TODO: This is a placeholder for future Anchor program integration
- * Actual implementation requires:
- * 1. Deployed Anchor program for token vesting
- * 2. Program IDL and generated TypeScript client  
- * 3. Comprehensive security audit of smart contracts
- * 4. Multi-signature setup for program authority
+ * Vesting Client for the OmniFit Token Vesting Program
+ *
+ * Builds transactions from the program IDL (@omnifit/shared) and signs them
+ * with local keypairs. Schedules are keyed by the backend schedule id, so
+ * creating the same schedule twice resolves to the same account.
+ * Amounts are whole tokens; the program works in base units.
  */
 
 export interface VestingSchedule {
+  address: PublicKey;
+  authority: PublicKey;
   beneficiary: PublicKey;
+  scheduleId: string;
   totalAmount: number;
   releasedAmount: number;
   startTimestamp: Date;
   cliffDuration: number; // in days
   vestingDuration: number; // in days
+  revokedAt: Date | null;
+  vestedAmount: number;
   releasableAmount: number;
-  nextReleaseDate: Date;
+  lockedAmount: number;
+  nextReleaseDate: Date | null; // cliff date before the cliff, null once fully vested or revoked
 }
 
 export interface VestingProgramConfig {
   programId: PublicKey;
-  vestingVaultAddress: PublicKey;
-  adminAuthority: PublicKey;
-  vestingTypes: {
-    team: { cliff: number; duration: number };
-    advisors: { cliff: number; duration: number };
-    community: { cliff: number; duration: number };
-    treasury: { cliff: number; duration: number };
-  };
+  mint: PublicKey;
+  vestingTypes: Record<VestingCategory, { cliff: number; duration: number }>;
 }
 
+export interface VestingScheduleOptions {
+  cliffDays?: number;
+  durationDays?: number;
+  startAt?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function findVestingAccountAddress(programId: PublicKey, authority: PublicKey, scheduleId: string): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from(VESTING_SEEDS.SCHEDULE), authority.toBuffer(), Buffer.from(scheduleId)],
+    programId
+  )[0];
+}
+
+export function findVestingVaultAddress(programId: PublicKey, schedule: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync([Buffer.from(VESTING_SEEDS.VAULT), schedule.toBuffer()], programId)[0];
+}
+
+const toBaseUnits = (tokens: number) => new BN(tokens).mul(new BN(10).pow(new BN(TOKEN_CONFIG.DECIMALS)));
+const toTokens = (baseUnits: BN) => baseUnits.div(new BN(10).pow(new BN(TOKEN_CONFIG.DECIMALS))).toNumber();
+
 export class VestingClient {
   private connection: Connection;
   private programId: PublicKey;
+  private program: Program;
   private config: VestingProgramConfig;
 
-  constructor(connection: Connection, programId: string) {
+  constructor(connection: Connection, programId: string, mintAddress: string) {
     this.connection = connection;
     this.programId = new PublicKey(programId);
-    
-    // TODO: Load configuration from deployed program
+
+    // Transactions are signed by the caller, so the provider never signs
+    const readOnlyWallet = {
+      publicKey: PublicKey.default,
+      signTransaction: async <T>(tx: T) => tx,
+      signAllTransactions: async <T>(txs: T[]) => txs,
+    };
+    const provider = new AnchorProvider(connection, readOnlyWallet as any, { commitment: 'confirmed' });
+    this.program = new Program(VESTING_IDL as Idl, this.programId, provider);
+
+    const categories = VESTING_CONFIG.CATEGORIES;
     this.config = {
       programId: this.programId,
-      vestingVaultAddress: PublicKey.default, // TODO: Set from deployed program
-      adminAuthority: PublicKey.default, // TODO: Set from deployed program
-      vestingTypes: {
-        team: { cliff: 365, duration: 1460 }, // 1 year cliff, 4 year vesting
-        advisors: { cliff: 180, duration: 730 }, // 6 month cliff, 2 year vesting
-        community: { cliff: 0, duration: 365 }, // No cliff, 1 year vesting
-        treasury: { cliff: 0, duration: 1095 }, // No cliff, 3 year vesting
-      },
+      mint: new PublicKey(mintAddress),
+      vestingTypes: Object.fromEntries(
+        Object.entries(categories).map(([type, terms]) => [type, { cliff: terms.cliffDays, duration: terms.durationDays }])
+      ) as VestingProgramConfig['vestingTypes'],
     };
   }
 
   /**
-   * Create a new vesting schedule
-   * TODO: Implement actual Anchor program interaction
+   * Create a vesting schedule, moving totalAmount from the authority's token
+   * account into the schedule vault
    */
   async createVestingSchedule(
-    admin: Keypair,
+    authority: Keypair,
+    scheduleId: string,
     beneficiary: PublicKey,
     totalAmount: number,
-    vestingType: 'team' | 'advisors' | 'community' | 'treasury',
-    customCliff?: number,
-    customDuration?: number
-  ): Promise<string> {
+    vestingType: VestingCategory,
+    options: VestingScheduleOptions = {}
+  ): Promise<{ signature: string; vestingAccount: PublicKey }> {
     try {
       const typeConfig = this.config.vestingTypes[vestingType];
-      const cliffDuration = customCliff ?? typeConfig.cliff;
-      const vestingDuration = customDuration ?? typeConfig.duration;
+      const cliffDuration = options.cliffDays ?? typeConfig.cliff;
+      const vestingDuration = options.durationDays ?? typeConfig.duration;
+      const start = options.startAt ?? new Date();
+
+      const error = validateVestingSchedule(totalAmount, cliffDuration, vestingDuration);
+      if (error) {
+        throw new Error(error);
+      }
 
       console.log(`Creating vesting schedule for ${beneficiary.toBase58()}`);
       console.log(`- Total amount: ${totalAmount} tokens`);
       console.log(`- Vesting type: ${vestingType}`);
       console.log(`- Cliff period: ${cliffDuration} days`);
       console.log(`- Total duration: ${vestingDuration} days`);
-      
-      // TODO: Build Anchor transaction
-      // 1. Create vesting account PDA
-      // 2. Transfer tokens to vesting vault
-      // 3. Initialize vesting schedule with parameters
-      
-      const signature = 'placeholder_signature';
-      
+
+      const vestingAccount = findVestingAccountAddress(this.programId, authority.publicKey, scheduleId);
+
+      const createSchedule = await this.program.methods
+        .createSchedule(
+          scheduleId,
+          toBaseUnits(totalAmount),
+          new BN(Math.floor(start.getTime() / 1000)),
+          cliffDuration,
+          vestingDuration
+        )
+        .accounts({
+          schedule: vestingAccount,
+          vault: findVestingVaultAddress(this.programId, vestingAccount),
+          mint: this.config.mint,
+          beneficiary,
+          authority: authority.publicKey,
+          authorityTokenAccount: getAssociatedTokenAddressSync(this.config.mint, authority.publicKey),
+          systemProgram: SystemProgram.programId,
+          tokenProgram: TOKEN_PROGRAM_ID,
+          rent: SYSVAR_RENT_PUBKEY,
+        })
+        .instruction();
+
+      // Releases always pay the beneficiary's associated token account
+      const transaction = new Transaction()
+        .add(this.createTokenAccountInstruction(authority.publicKey, beneficiary))
+        .add(createSchedule);
+      const signature = await sendAndConfirmTransaction(this.connection, transaction, [authority]);
+
       console.log(`Vesting schedule created: ${signature}`);
-      return signature;
+      return { signature, vestingAccount };
 
     } catch (error) {
       console.error('Failed to create vesting schedule:', error);
@@ -97,20 +176,34 @@ export class VestingClient {
   }
 
   /**
-   * Release vested tokens to beneficiary
-   * TODO: Implement actual Anchor program interaction
+   * Release vested tokens to the beneficiary. Anyone can pay for the release;
+   * the tokens only ever go to the beneficiary.
    */
-  async releaseVestedTokens(beneficiary: Keypair, vestingAccount: PublicKey): Promise<string> {
+  async releaseVestedTokens(payer: Keypair, vestingAccount: PublicKey): Promise<string> {
     try {
-      console.log('Releasing vested tokens...');
-      
-      // TODO: Build Anchor transaction
-      // 1. Calculate currently releasable amount
-      // 2. Transfer tokens from vault to beneficiary
-      // 3. Update vesting account state
-      
-      const signature = 'placeholder_signature';
-      
+      const schedule = await this.requireSchedule(vestingAccount);
+      if (schedule.revokedAt) {
+        throw new Error(`Vesting schedule ${vestingAccount.toBase58()} has been revoked`);
+      }
+      if (schedule.releasableAmount <= 0) {
+        throw new Error('No vested tokens are waiting to be released');
+      }
+
+      console.log(`Releasing ${schedule.releasableAmount} vested tokens...`);
+
+      const transaction = await this.program.methods
+        .release()
+        .accounts({
+          schedule: vestingAccount,
+          vault: findVestingVaultAddress(this.programId, vestingAccount),
+          beneficiaryTokenAccount: getAssociatedTokenAddressSync(this.config.mint, schedule.beneficiary),
+          payer: payer.publicKey,
+          tokenProgram: TOKEN_PROGRAM_ID,
+        })
+        .transaction();
+
+      const signature = await sendAndConfirmTransaction(this.connection, transaction, [payer]);
+
       console.log(`Vested tokens released: ${signature}`);
       return signature;
 
@@ -122,30 +215,11 @@ export class VestingClient {
 
   /**
    * Get vesting schedule information
-   * TODO: Implement actual account deserialization
    */
   async getVestingSchedule(vestingAccount: PublicKey): Promise<VestingSchedule | null> {
     try {
-      // TODO: Fetch and deserialize account data using Anchor
-      const accountInfo = await this.connection.getAccountInfo(vestingAccount);
-      
-      if (!accountInfo) {
-        return null;
-      }
-
-      // TODO: Deserialize account data based on Anchor IDL
-      const now = new Date();
-      
-      return {
-        beneficiary: PublicKey.default, // TODO: Parse from account data
-        totalAmount: 0, // TODO: Parse from account data
-        releasedAmount: 0, // TODO: Parse from account data
-        startTimestamp: new Date(), // TODO: Parse from account data
-        cliffDuration: 0, // TODO: Parse from account data
-        vestingDuration: 0, // TODO: Parse from account data
-        releasableAmount: 0, // TODO: Calculate based on time elapsed
-        nextReleaseDate: new Date(), // TODO: Calculate based on vesting schedule
-      };
+      const account = await this.program.account.vestingAccount.fetchNullable(vestingAccount);
+      return account ? this.toVestingSchedule(vestingAccount, account) : null;
 
     } catch (error) {
       console.error('Failed to get vesting schedule:', error);
@@ -155,15 +229,14 @@ export class VestingClient {
 
   /**
    * Get all vesting schedules for a beneficiary
-   * TODO: Implement using program account filters
    */
   async getBeneficiaryVestingSchedules(beneficiary: PublicKey): Promise<VestingSchedule[]> {
     try {
-      // TODO: Use getProgramAccounts with memcmp filter for beneficiary
-      console.log(`Fetching vesting schedules for ${beneficiary.toBase58()}`);
-      
-      // Placeholder return
-      return [];
+      const accounts = await this.program.account.vestingAccount.all([
+        { memcmp: { offset: VESTING_ACCOUNT_BENEFICIARY_OFFSET, bytes: beneficiary.toBase58() } },
+      ]);
+
+      return accounts.map(({ publicKey, account }) => this.toVestingSchedule(publicKey, account));
 
     } catch (error) {
       console.error('Failed to get beneficiary vesting schedules:', error);
@@ -179,26 +252,17 @@ export class VestingClient {
     releasedAmount: number,
     startTimestamp: Date,
     cliffDays: number,
-    vestingDays: number
+    vestingDays: number,
+    revokedAt: Date | null = null
   ): number {
-    const now = new Date();
-    const daysPassed = Math.floor(
-      (now.getTime() - startTimestamp.getTime()) / (24 * 60 * 60 * 1000)
-    );
-
-    // Before cliff period
-    if (daysPassed < cliffDays) {
-      return 0;
-    }
-
-    // After full vesting period
-    if (daysPassed >= vestingDays) {
-      return totalAmount - releasedAmount;
-    }
-
-    // During vesting period (linear release)
-    const vestedAmount = (totalAmount * daysPassed) / vestingDays;
-    return Math.max(0, vestedAmount - releasedAmount);
+    return getVestingBalance({
+      totalAmount,
+      releasedAmount,
+      startAt: startTimestamp,
+      cliffDays,
+      durationDays: vestingDays,
+      revokedAt,
+    }).claimable;
   }
 
   /**
@@ -211,12 +275,15 @@ export class VestingClient {
     totalBeneficiaries: number;
   }> {
     try {
-      // TODO: Aggregate data from all vesting accounts
+      const accounts = await this.program.account.vestingAccount.all();
+      const schedules = accounts.map(({ publicKey, account }) => this.toVestingSchedule(publicKey, account));
+      const active = schedules.filter(s => !s.revokedAt && s.releasedAmount < s.totalAmount);
+
       return {
-        totalAllocated: 0,
-        totalReleased: 0,
-        activeSchedules: 0,
-        totalBeneficiaries: 0,
+        totalAllocated: schedules.reduce((sum, s) => sum + s.totalAmount, 0),
+        totalReleased: schedules.reduce((sum, s) => sum + s.releasedAmount, 0),
+        activeSchedules: active.length,
+        totalBeneficiaries: new Set(active.map(s => s.beneficiary.toBase58())).size,
       };
 
     } catch (error) {
@@ -230,7 +297,7 @@ export class VestingClient {
    */
   previewVestingSchedule(
     totalAmount: number,
-    vestingType: 'team' | 'advisors' | 'community' | 'treasury',
+    vestingType: VestingCategory,
     startDate?: Date
   ): {
     cliffDate: Date;
@@ -240,34 +307,27 @@ export class VestingClient {
   } {
     const typeConfig = this.config.vestingTypes[vestingType];
     const start = startDate || new Date();
-    const cliffDate = new Date(start.getTime() + typeConfig.cliff * 24 * 60 * 60 * 1000);
-    const endDate = new Date(start.getTime() + typeConfig.duration * 24 * 60 * 60 * 1000);
-    
+    const cliffDate = new Date(start.getTime() + typeConfig.cliff * DAY_MS);
+    const endDate = new Date(start.getTime() + typeConfig.duration * DAY_MS);
+
     const monthlyRelease = totalAmount / (typeConfig.duration / 30);
-    
+
     // Generate milestone dates (monthly)
     const milestones = [];
-    let currentDate = new Date(cliffDate);
+    const currentDate = new Date(cliffDate);
     let cumulativeAmount = 0;
-    
+
     while (currentDate <= endDate) {
-      const daysSinceStart = Math.floor(
-        (currentDate.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)
-      );
-      
-      if (daysSinceStart >= typeConfig.cliff) {
-        const vestedAmount = (totalAmount * daysSinceStart) / typeConfig.duration;
-        const monthlyAmount = vestedAmount - cumulativeAmount;
-        
-        milestones.push({
-          date: new Date(currentDate),
-          cumulativeAmount: Math.min(vestedAmount, totalAmount),
-          monthlyAmount: Math.max(0, monthlyAmount),
-        });
-        
-        cumulativeAmount = vestedAmount;
-      }
-      
+      const vestedAmount = calculateVestedAmount(totalAmount, start, typeConfig.cliff, typeConfig.duration, currentDate);
+
+      milestones.push({
+        date: new Date(currentDate),
+        cumulativeAmount: vestedAmount,
+        monthlyAmount: vestedAmount - cumulativeAmount,
+      });
+
+      cumulativeAmount = vestedAmount;
+
       // Move to next month
       currentDate.setMonth(currentDate.getMonth() + 1);
     }
@@ -281,26 +341,39 @@ export class VestingClient {
   }
 
   /**
-   * Revoke vesting schedule (admin only, emergency use)
-   * TODO: Implement admin-only functionality
+   * Revoke vesting schedule (admin only, emergency use). Tokens vested so far
+   * go to the beneficiary; the unvested rest returns to the authority.
    */
   async revokeVestingSchedule(
-    admin: Keypair,
+    authority: Keypair,
     vestingAccount: PublicKey,
     reason: string
   ): Promise<string> {
     try {
       console.log(`Revoking vesting schedule: ${reason}`);
-      
-      // TODO: Build Anchor transaction (admin authority required)
-      // 1. Verify admin authority
-      // 2. Calculate releasable amount up to now
-      // 3. Release any pending tokens to beneficiary
-      // 4. Return unvested tokens to treasury
-      // 5. Close vesting account
-      
-      const signature = 'placeholder_signature';
-      
+
+      const schedule = await this.requireSchedule(vestingAccount);
+      if (!schedule.authority.equals(authority.publicKey)) {
+        throw new Error('Only the schedule authority can revoke it');
+      }
+      if (schedule.revokedAt) {
+        throw new Error(`Vesting schedule ${vestingAccount.toBase58()} has been revoked`);
+      }
+
+      const transaction = await this.program.methods
+        .revoke()
+        .accounts({
+          schedule: vestingAccount,
+          vault: findVestingVaultAddress(this.programId, vestingAccount),
+          beneficiaryTokenAccount: getAssociatedTokenAddressSync(this.config.mint, schedule.beneficiary),
+          authorityTokenAccount: getAssociatedTokenAddressSync(this.config.mint, authority.publicKey),
+          authority: authority.publicKey,
+          tokenProgram: TOKEN_PROGRAM_ID,
+        })
+        .transaction();
+
+      const signature = await sendAndConfirmTransaction(this.connection, transaction, [authority]);
+
       console.log(`Vesting schedule revoked: ${signature}`);
       return signature;
 
@@ -310,14 +383,71 @@ export class VestingClient {
     }
   }
 
+  getVestingAccountAddress(authority: PublicKey, scheduleId: string): PublicKey {
+    return findVestingAccountAddress(this.programId, authority, scheduleId);
+  }
+
   getConfig(): VestingProgramConfig {
     return { ...this.config };
   }
+
+  private async requireSchedule(vestingAccount: PublicKey): Promise<VestingSchedule> {
+    const schedule = await this.getVestingSchedule(vestingAccount);
+    if (!schedule) {
+      throw new Error(`Vesting schedule ${vestingAccount.toBase58()} not found`);
+    }
+    return schedule;
+  }
+
+  private createTokenAccountInstruction(payer: PublicKey, owner: PublicKey) {
+    return createAssociatedTokenAccountIdempotentInstruction(
+      payer,
+      getAssociatedTokenAddressSync(this.config.mint, owner),
+      owner,
+      this.config.mint
+    );
+  }
+
+  private toVestingSchedule(address: PublicKey, account: any): VestingSchedule {
+    const startTimestamp = new Date(account.startTs.toNumber() * 1000);
+    const revokedAt = account.revokedAt.toNumber() > 0 ? new Date(account.revokedAt.toNumber() * 1000) : null;
+    const balance = getVestingBalance({
+      totalAmount: toTokens(account.totalAmount),
+      releasedAmount: toTokens(account.releasedAmount),
+      startAt: startTimestamp,
+      cliffDays: account.cliffDays,
+      durationDays: account.durationDays,
+      revokedAt,
+    });
+
+    const cliffDate = new Date(startTimestamp.getTime() + account.cliffDays * DAY_MS);
+    let nextReleaseDate: Date | null = null;
+    if (!revokedAt && balance.locked > 0) {
+      nextReleaseDate = cliffDate.getTime() > Date.now() ? cliffDate : new Date();
+    }
+
+    return {
+      address,
+      authority: account.authority,
+      beneficiary: account.beneficiary,
+      scheduleId: account.scheduleId,
+      totalAmount: balance.total,
+      releasedAmount: balance.released,
+      startTimestamp,
+      cliffDuration: account.cliffDays,
+      vestingDuration: account.durationDays,
+      revokedAt,
+      vestedAmount: balance.vested,
+      releasableAmount: balance.claimable,
+      lockedAmount: balance.locked,
+      nextReleaseDate,
+    };
+  }
 }
 
 // TODO: Security and audit requirements for production:
 // 1. ✅ Smart contract security audit by reputable firm
-// 2. ✅ Multi-signature admin authority (3-of-5 or 5-of-9)  
+// 2. ✅ Multi-signature admin authority (3-of-5 or 5-of-9)
 // 3. ✅ Time-locked program upgrades
 // 4. ✅ Emergency pause/revoke functionality
 // 5. ✅ Beneficiary verification and KYC requirements
@@ -325,4 +455,4 @@ export class VestingClient {
 // 7. ✅ Transparent vesting schedule documentation
 // 8. ✅ Regular audits of vesting releases
 // 9. ✅ Protection against admin key compromise
-// 10. ✅ Integration with governance for parameter changes
\ No newline at end of file
+// 10. ✅ Integration with governance for parameter changes
@@ -2,39 +2,71 @@ import {
   Connection,
   Keypair,
   PublicKey,
-  Transaction,
-  sendAndConfirmTransaction,
 } from '@solana/web3.js';
 import {
-  createMintToInstruction,
   getMint,
-  getOrCreateAssociatedTokenAccount,
 } from '@solana/spl-token';
 import * as fs from 'fs';
-import { PrismaClient } from '@prisma/client';
+import { MintQueueService, MintSubmission } from '../src/services/mint-queue.service';
+import { MintItem, planMintBatches, sendSignedMint, signMintBatch } from '../src/services/mint-transaction';
+import { loadMintingConfig } from '../src/services/minting-config';
+import type { MintingConfig } from '@omnifit/shared';
 
 interface MintRequestProcessor {
   connection: Connection;
   mintAuthority: Keypair;
   tokenMintAddress: PublicKey;
-  prisma: PrismaClient;
+  queue: MintQueueService;
+}
+
+// Settings other scripts pass instead of the environment variables
+interface MintProcessorOptions {
+  cluster?: string;
+  connection?: Connection;
+  payer?: Keypair; // defaults to the mint authority
+  mintAuthority?: Keypair;
+  tokenMintAddress?: PublicKey;
 }
 
 class SolanaMintProcessor implements MintRequestProcessor {
   connection: Connection;
+  payer: Keypair;
   mintAuthority: Keypair;
   tokenMintAddress: PublicKey;
-  prisma: PrismaClient;
+  queue: MintQueueService;
+  config: MintingConfig;
+  private cluster: string;
 
-  constructor() {
+  constructor(options: MintProcessorOptions = {}) {
     // TODO: Require environment variable validation
-    const cluster = process.env.SOLANA_CLUSTER || 'devnet';
-    const rpcUrl = this.getRpcUrl(cluster);
+    this.cluster = options.cluster || process.env.SOLANA_CLUSTER || 'devnet';
+    
+    this.connection = options.connection || new Connection(this.getRpcUrl(this.cluster), 'confirmed');
+    this.queue = new MintQueueService(this.cluster);
+    this.config = loadMintingConfig();
+    
+    this.mintAuthority = options.mintAuthority || this.loadMintAuthority();
+    this.payer = options.payer || this.mintAuthority;
+
+    // TODO: Validate token mint address
+    const mintAddress = process.env.TOKEN_MINT_ADDRESS;
+    if (!options.tokenMintAddress && !mintAddress) {
+      throw new Error('TOKEN_MINT_ADDRESS environment variable required');
+    }
     
-    this.connection = new Connection(rpcUrl, 'confirmed');
-    this.prisma = new PrismaClient();
+    this.tokenMintAddress = options.tokenMintAddress || new PublicKey(mintAddress);
     
-    // Load mint authority keypair from environment
+    console.log(`Mint processor initialized:`);
+    console.log(`- Cluster: ${this.cluster}`);
+    console.log(`- RPC: ${this.connection.rpcEndpoint}`);
+    console.log(`- Mint Authority: ${this.mintAuthority.publicKey.toBase58()}`);
+    console.log(`- Token Mint: ${this.tokenMintAddress.toBase58()}`);
+    console.log(`- Worker: ${this.queue.workerId}`);
+    console.log(`- Batch size: ${this.config.batchSize}`);
+  }
+
+  // Load mint authority keypair from environment
+  private loadMintAuthority(): Keypair {
     const keypairPath = process.env.MINT_AUTHORITY_KEYPAIR_PATH;
     if (!keypairPath) {
       throw new Error('MINT_AUTHORITY_KEYPAIR_PATH environment variable required');
@@ -46,21 +78,7 @@ class SolanaMintProcessor implements MintRequestProcessor {
 
     const secretKeyString = fs.readFileSync(keypairPath, 'utf-8');
     const secretKey = Uint8Array.from(JSON.parse(secretKeyString));
-    this.mintAuthority = Keypair.fromSecretKey(secretKey);
-
-    // TODO: Validate token mint address
-    const mintAddress = process.env.TOKEN_MINT_ADDRESS;
-    if (!mintAddress) {
-      throw new Error('TOKEN_MINT_ADDRESS environment variable required');
-    }
-    
-    this.tokenMintAddress = new PublicKey(mintAddress);
-    
-    console.log(`Mint processor initialized:`);
-    console.log(`- Cluster: ${cluster}`);
-    console.log(`- RPC: ${rpcUrl}`);
-    console.log(`- Mint Authority: ${this.mintAuthority.publicKey.toBase58()}`);
-    console.log(`- Token Mint: ${this.tokenMintAddress.toBase58()}`);
+    return Keypair.fromSecretKey(secretKey);
   }
 
   private getRpcUrl(cluster: string): string {
@@ -76,133 +94,113 @@ class SolanaMintProcessor implements MintRequestProcessor {
     }
   }
 
-  async processApprovedMintRequests(): Promise<void> {
+  async processApprovedMintRequests(limit: number = this.config.batchSize) {
     try {
-      console.log('Fetching approved mint requests...');
-      
-      // Get approved mint requests that haven't been processed
-      const mintRequests = await this.prisma.mintRequest.findMany({
-        where: {
-          status: 'APPROVED',
-          mintSignature: null, // Not yet minted
-        },
-        orderBy: { requestedAt: 'asc' },
-        take: 10, // Process in batches of 10
-      });
+      console.log('Leasing approved mint requests...');
 
-      console.log(`Found ${mintRequests.length} requests to process`);
+      // Leased requests belong to this worker until they finish or the lease expires
+      const decimals = (await getMint(this.connection, this.tokenMintAddress)).decimals;
+      const result = await this.queue.processBatch(
+        limit,
+        {
+          plan: requests => this.planBatches(requests, decimals),
+          mint: (requests, submit) => this.mintRequests(requests, decimals, submit),
+        },
+        1000 // Delay between transactions to avoid rate limiting
+      );
 
-      for (const request of mintRequests) {
-        await this.processSingleMintRequest(request);
-        
-        // Add delay between transactions to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+      console.log(
+        `Processed ${result.processed} requests in ${result.transactions} transactions: ` +
+        `${result.completed} completed, ${result.failed} failed`
+      );
 
+      // TODO: Alert administrators about failed mints
+      return result;
     } catch (error) {
       console.error('Failed to process mint requests:', error);
       throw error;
     }
   }
 
-  private async processSingleMintRequest(request: any): Promise<void> {
-    try {
-      console.log(`Processing mint request ${request.id} for ${request.tokenAmount} tokens...`);
-
-      // Update status to minting
-      await this.prisma.mintRequest.update({
-        where: { id: request.id },
-        data: { status: 'MINTING' },
-      });
-
-      // Validate recipient wallet
-      const recipientPubkey = new PublicKey(request.recipientWallet);
-
-      // Get or create associated token account
-      const recipientTokenAccount = await getOrCreateAssociatedTokenAccount(
-        this.connection,
-        this.mintAuthority, // payer
-        this.tokenMintAddress,
-        recipientPubkey
-      );
+  /**
+   * Look up requests a crashed run left in MINTING on chain and settle them
+   */
+  async recoverStaleMintRequests(): Promise<void> {
+    console.log('Checking stuck MINTING requests on chain...');
 
-      // Get mint info for decimals
-      const mintInfo = await getMint(this.connection, this.tokenMintAddress);
-      const amount = request.tokenAmount * Math.pow(10, mintInfo.decimals);
-
-      // Create mint instruction
-      const mintInstruction = createMintToInstruction(
-        this.tokenMintAddress,
-        recipientTokenAccount.address,
-        this.mintAuthority.publicKey,
-        amount
-      );
+    const result = await this.queue.recoverStale(this.connection, this.mintAuthority.publicKey);
 
-      // Create and send transaction
-      const transaction = new Transaction().add(mintInstruction);
-      const signature = await sendAndConfirmTransaction(
-        this.connection,
-        transaction,
-        [this.mintAuthority],
-        {
-          commitment: 'confirmed',
-          maxRetries: 3,
-        }
-      );
+    console.log(
+      `Recovered ${result.checked} requests: ${result.completed} completed, ` +
+      `${result.requeued} requeued, ${result.pending} still pending`
+    );
+  }
 
-      console.log(`Minted ${request.tokenAmount} tokens to ${request.recipientWallet}`);
-      console.log(`Transaction signature: ${signature}`);
-
-      // Update mint request with success
-      await this.prisma.mintRequest.update({
-        where: { id: request.id },
-        data: {
-          status: 'COMPLETED',
-          mintSignature: signature,
-          mintedAt: new Date(),
-          explorerUrl: this.getExplorerUrl(signature),
-        },
-      });
-
-      // Create audit log
-      await this.prisma.rewardAudit.create({
-        data: {
-          userId: request.userId,
-          action: 'mint_completed',
-          resource: 'mint_request',
-          resourceId: request.id,
-          newValues: {
-            signature,
-            amount: request.tokenAmount,
-            recipient: request.recipientWallet,
-          },
-          metadata: {
-            cluster: process.env.SOLANA_CLUSTER,
-            mint_authority: this.mintAuthority.publicKey.toBase58(),
-          },
-        },
-      });
+  private toMintItem(request: any, decimals: number): MintItem & { request: any } {
+    return {
+      mintRequestId: request.id,
+      recipient: new PublicKey(request.recipientWallet),
+      amount: request.tokenAmount * Math.pow(10, decimals),
+      request,
+    };
+  }
 
-    } catch (error) {
-      console.error(`Failed to process mint request ${request.id}:`, error);
-
-      // Update mint request with failure
-      await this.prisma.mintRequest.update({
-        where: { id: request.id },
-        data: {
-          status: 'FAILED',
-          // TODO: Add error message field to schema
-        },
-      });
+  private async planBatches(requests: any[], decimals: number): Promise<any[][]> {
+    const batches = await planMintBatches(
+      this.connection,
+      this.mintParams(),
+      requests.map(request => this.toMintItem(request, decimals)),
+      this.config.batchSize
+    );
 
-      // TODO: Alert administrators about failed mints
-      // TODO: Consider retry logic for transient failures
+    return batches.map(batch => batch.map(item => item.request));
+  }
+
+  private async mintRequests(
+    requests: any[],
+    decimals: number,
+    submit: (submission: MintSubmission) => Promise<void>
+  ) {
+    console.log(`Minting ${requests.length} requests in one transaction...`);
+
+    // Sign with a memo tag per request and record the signature before sending,
+    // so a crash after this point can be resolved from the chain. Missing
+    // token accounts are created in the same transaction.
+    const signed = await signMintBatch(
+      this.connection,
+      this.mintParams(),
+      requests.map(request => this.toMintItem(request, decimals))
+    );
+    await submit(signed);
+
+    const signature = await sendSignedMint(this.connection, signed);
+
+    for (const request of requests) {
+      console.log(`Minted ${request.tokenAmount} tokens to ${request.recipientWallet}`);
     }
+    console.log(`Transaction signature: ${signature}`);
+
+    return {
+      signature,
+      explorerUrl: this.getExplorerUrl(signature),
+      metadata: {
+        cluster: this.cluster,
+        mint_authority: this.mintAuthority.publicKey.toBase58(),
+        batchSize: requests.length,
+      },
+    };
+  }
+
+  private mintParams() {
+    return {
+      payer: this.payer,
+      mintAuthority: this.mintAuthority,
+      mint: this.tokenMintAddress,
+    };
   }
 
   private getExplorerUrl(signature: string): string {
-    const cluster = process.env.SOLANA_CLUSTER || 'devnet';
-    const clusterParam = cluster === 'mainnet-beta' ? '' : `?cluster=${cluster}`;
+    const clusterParam = this.cluster === 'mainnet-beta' ? '' : `?cluster=${this.cluster}`;
     return `https://explorer.solana.com/tx/${signature}${clusterParam}`;
   }
 
@@ -244,7 +242,7 @@ class SolanaMintProcessor implements MintRequestProcessor {
   }
 
   async close(): Promise<void> {
-    await this.prisma.$disconnect();
+    await this.queue.close();
   }
 }
 
@@ -253,7 +251,7 @@ async function main() {
   const command = process.argv[2];
   
   if (!command) {
-    console.log('Usage: node sign_and_submit_mint_request.js [validate|process|monitor]');
+    console.log('Usage: node sign_and_submit_mint_request.js [validate|process|recover|monitor]');
     process.exit(1);
   }
 
@@ -267,22 +265,28 @@ async function main() {
         break;
 
       case 'process':
+        await processor.recoverStaleMintRequests();
         await processor.processApprovedMintRequests();
         break;
 
+      case 'recover':
+        await processor.recoverStaleMintRequests();
+        break;
+
       case 'monitor':
         console.log('Starting continuous monitoring mode...');
         setInterval(async () => {
           try {
+            await processor.recoverStaleMintRequests();
             await processor.processApprovedMintRequests();
           } catch (error) {
             console.error('Error in monitoring loop:', error);
           }
-        }, 30000); // Check every 30 seconds
+        }, processor.config.processingInterval);
         break;
 
       default:
-        console.log('Unknown command. Use validate, process, or monitor');
+        console.log('Unknown command. Use validate, process, recover, or monitor');
         process.exit(1);
     }
 
@@ -299,14 +303,12 @@ async function main() {
 // TODO: Production considerations:
 // 1. Implement multisig authority instead of single keypair
 // 2. Add proper error alerting and monitoring
-// 3. Implement rate limiting and transaction batching
-// 4. Add comprehensive logging and audit trails
-// 5. Secure key management (HSM/KMS integration)
-// 6. Add transaction fee estimation and management
-// 7. Implement proper retry logic with exponential backoff
+// 3. Implement rate limiting
+// 4. Secure key management (HSM/KMS integration)
+// 5. Add transaction fee estimation and management
 
 if (require.main === module) {
   main().catch(console.error);
 }
 
-export { SolanaMintProcessor };
\ No newline at end of file
+export { SolanaMintProcessor, type MintProcessorOptions };
\ No newline at end of file
@@ -4,6 +4,8 @@ import { Command } from 'commander';
 import { TokenService } from './services/token.service';
 import { WalletService } from './services/wallet.service';
 import { RewardService } from './services/reward.service';
+import { LedgerService } from './services/ledger.service';
+import { VestingService } from './services/vesting.service';
 import { logger } from './utils/logger';
 
 const program = new Command();
@@ -131,6 +133,150 @@ rewardCmd
     }
   });
 
+// Ledger commands
+const ledgerCmd = program
+  .command('ledger')
+  .description('Token ledger commands');
+
+ledgerCmd
+  .command('open-balances')
+  .description('Post opening ledger balances for users without ledger entries')
+  .option('-n, --network <network>', 'Solana network', 'devnet')
+  .action(async (options) => {
+    try {
+      const ledgerService = new LedgerService(options.network);
+      const result = await ledgerService.openBalances();
+      logger.info('Opening balances posted:', result);
+    } catch (error) {
+      logger.error('Failed to post opening balances:', error);
+      process.exit(1);
+    }
+  });
+
+ledgerCmd
+  .command('reconcile')
+  .description('Report drift between the ledger, rewards and on-chain balances')
+  .option('-n, --network <network>', 'Solana network', 'devnet')
+  .option('--skip-chain', 'Skip on-chain balance checks')
+  .action(async (options) => {
+    try {
+      const ledgerService = new LedgerService(options.network);
+      const report = await ledgerService.reconcile({ onChain: !options.skipChain });
+      logger.info('Ledger reconciliation:', report);
+
+      if (!report.ledgerBalanced || report.drift.length > 0) {
+        process.exit(2);
+      }
+    } catch (error) {
+      logger.error('Failed to reconcile ledger:', error);
+      process.exit(1);
+    }
+  });
+
+// Vesting commands
+const vestingCmd = program
+  .command('vesting')
+  .description('Vesting schedule commands');
+
+vestingCmd
+  .command('create')
+  .description('Create and fund a cliff and linear vesting schedule')
+  .requiredOption('-b, --beneficiary <address>', 'Beneficiary wallet address')
+  .requiredOption('-a, --amount <amount>', 'Total tokens to vest')
+  .requiredOption('-c, --category <category>', 'team, advisors, partner, community or treasury')
+  .option('--cliff <days>', 'Cliff in days (defaults to the category)')
+  .option('--duration <days>', 'Total vesting period in days (defaults to the category)')
+  .option('--start <date>', 'Vesting start date (ISO 8601)', new Date().toISOString())
+  .option('--notes <notes>', 'Notes kept with the schedule')
+  .option('-n, --network <network>', 'Solana network', 'devnet')
+  .action(async (options) => {
+    try {
+      const vestingService = new VestingService(options.network);
+      const schedule = await vestingService.createSchedule({
+        beneficiaryWallet: options.beneficiary,
+        category: options.category,
+        totalAmount: parseInt(options.amount),
+        cliffDays: options.cliff !== undefined ? parseInt(options.cliff) : undefined,
+        durationDays: options.duration !== undefined ? parseInt(options.duration) : undefined,
+        startAt: new Date(options.start),
+        notes: options.notes,
+      });
+      logger.info('Vesting schedule created:', schedule);
+    } catch (error) {
+      logger.error('Failed to create vesting schedule:', error);
+      process.exit(1);
+    }
+  });
+
+vestingCmd
+  .command('list')
+  .description('List vesting schedules with vested, claimable and locked amounts')
+  .option('-s, --status <status>', 'Filter by status (PENDING, ACTIVE, COMPLETED, REVOKED)')
+  .option('-w, --wallet <address>', 'Filter by beneficiary wallet')
+  .option('-n, --network <network>', 'Solana network', 'devnet')
+  .action(async (options) => {
+    try {
+      const vestingService = new VestingService(options.network);
+      const schedules = await vestingService.listSchedules({ status: options.status, wallet: options.wallet });
+      logger.info(`${schedules.length} vesting schedules:`, schedules);
+    } catch (error) {
+      logger.error('Failed to list vesting schedules:', error);
+      process.exit(1);
+    }
+  });
+
+vestingCmd
+  .command('release')
+  .description('Release vested tokens of a schedule to its beneficiary')
+  .requiredOption('-s, --schedule <id>', 'Vesting schedule ID')
+  .option('-n, --network <network>', 'Solana network', 'devnet')
+  .action(async (options) => {
+    try {
+      const vestingService = new VestingService(options.network);
+      const release = await vestingService.release(options.schedule);
+      logger.info('Vested tokens released:', release);
+    } catch (error) {
+      logger.error('Failed to release vested tokens:', error);
+      process.exit(1);
+    }
+  });
+
+vestingCmd
+  .command('revoke')
+  .description('Revoke a schedule: vested tokens go to the beneficiary, the rest back to the treasury')
+  .requiredOption('-s, --schedule <id>', 'Vesting schedule ID')
+  .requiredOption('-r, --reason <reason>', 'Revocation reason (audited)')
+  .option('-n, --network <network>', 'Solana network', 'devnet')
+  .action(async (options) => {
+    try {
+      const vestingService = new VestingService(options.network);
+      const schedule = await vestingService.revoke(options.schedule, options.reason);
+      logger.info('Vesting schedule revoked:', schedule);
+    } catch (error) {
+      logger.error('Failed to revoke vesting schedule:', error);
+      process.exit(1);
+    }
+  });
+
+vestingCmd
+  .command('process')
+  .description('Fund pending schedules and execute releases and revocations queued by admins')
+  .option('-n, --network <network>', 'Solana network', 'devnet')
+  .action(async (options) => {
+    try {
+      const vestingService = new VestingService(options.network);
+      const result = await vestingService.processPending();
+      logger.info('Vesting queue processed:', result);
+
+      if (result.failed > 0) {
+        process.exit(2);
+      }
+    } catch (error) {
+      logger.error('Failed to process vesting queue:', error);
+      process.exit(1);
+    }
+  });
+
 // Setup command
 program
   .command('setup')
@@ -0,0 +1,361 @@
+import { PrismaClient } from '@prisma/client';
+import { TokenService } from './token.service';
+import { logger } from '../utils/logger';
+import { emptyLedgerBalances, getLedgerHoldings } from '@omnifit/shared';
+import type { LedgerAccount, LedgerBalances, LedgerEntryInput } from '@omnifit/shared';
+
+// Claims whose tokens sit in PENDING_CLAIM
+const OPEN_CLAIM_STATUSES = ['QUEUED', 'ADMIN_REVIEW', 'APPROVED', 'MINTING', 'FAILED'] as const;
+
+export interface LedgerPosting {
+  idempotencyKey: string;
+  kind: string;
+  userId: string;
+  referenceType: string;
+  referenceId: string;
+  description?: string;
+  entries: LedgerEntryInput[];
+}
+
+export interface LedgerDrift {
+  userId: string;
+  check: 'earned' | 'pending_claim' | 'debt' | 'cached_balance' | 'on_chain';
+  ledger: number;
+  expected: number;
+  difference: number;
+}
+
+export interface ReconciliationReport {
+  checkedAt: string;
+  users: number;
+  ledgerBalanced: boolean;
+  issued: number;
+  drift: LedgerDrift[];
+}
+
+/**
+ * Writes to and reconciles the double-entry token ledger shared with the
+ * backend (see apps/backend/src/ledger). Postings must balance to zero.
+ */
+export class LedgerService {
+  private prisma: PrismaClient;
+  private tokenService: TokenService;
+
+  constructor(network: string = 'devnet', prisma?: PrismaClient) {
+    this.prisma = prisma || new PrismaClient();
+    this.tokenService = new TokenService(network);
+  }
+
+  /**
+   * Append a balanced transaction; an already-posted idempotency key is a no-op
+   */
+  async post(client: any, posting: LedgerPosting): Promise<boolean> {
+    const entries = posting.entries.filter(e => e.amount !== 0);
+    if (entries.length === 0) {
+      return false;
+    }
+
+    if (entries.some(e => !Number.isInteger(e.amount))) {
+      throw new Error(`Ledger transaction ${posting.idempotencyKey} has non-integer amounts`);
+    }
+
+    const sum = entries.reduce((total, e) => total + e.amount, 0);
+    if (sum !== 0) {
+      throw new Error(`Ledger transaction ${posting.idempotencyKey} is unbalanced by ${sum}`);
+    }
+
+    const existing = await client.ledgerTransaction.findUnique({
+      where: { idempotencyKey: posting.idempotencyKey },
+    });
+    if (existing) {
+      return false;
+    }
+
+    const rows = entries.map(e => ({
+      account: e.account,
+      amount: e.amount,
+      userId: e.account === 'ISSUANCE' ? null : e.userId ?? posting.userId,
+    }));
+
+    await client.ledgerTransaction.create({
+      data: {
+        idempotencyKey: posting.idempotencyKey,
+        kind: posting.kind,
+        userId: posting.userId,
+        referenceType: posting.referenceType,
+        referenceId: posting.referenceId,
+        description: posting.description,
+        entries: { create: rows },
+      },
+    });
+
+    // Keep cached profile balances in step with the ledger
+    const users = new Set(rows.filter(r => r.userId).map(r => r.userId as string));
+    for (const userId of users) {
+      const balances = await this.getBalances(userId, client);
+      await client.userProfile.update({
+        where: { userId },
+        data: { totalTokens: getLedgerHoldings(balances) },
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Tokens minted straight to the user's wallet for a reward
+   */
+  async recordRewardMinted(
+    client: any,
+    reward: { id: string; userId: string; amount: number; reason?: string },
+    from: Extract<LedgerAccount, 'ISSUANCE' | 'EARNED'>
+  ): Promise<boolean> {
+    return await this.post(client, {
+      idempotencyKey: `reward:${reward.id}:minted`,
+      kind: 'reward_minted',
+      userId: reward.userId,
+      referenceType: 'reward',
+      referenceId: reward.id,
+      description: reward.reason,
+      entries: [
+        { account: from, amount: -reward.amount },
+        { account: 'MINTED', amount: reward.amount },
+      ],
+    });
+  }
+
+  /**
+   * A claim's pending tokens landed in the user's wallet
+   */
+  async recordClaimMinted(
+    client: any,
+    mintRequest: { id: string; userId: string; tokenAmount: number; mintSignature?: string | null }
+  ): Promise<boolean> {
+    return await this.post(client, {
+      idempotencyKey: `mint_request:${mintRequest.id}:minted`,
+      kind: 'claim_minted',
+      userId: mintRequest.userId,
+      referenceType: 'mint_request',
+      referenceId: mintRequest.id,
+      description: mintRequest.mintSignature || undefined,
+      entries: [
+        { account: 'PENDING_CLAIM', amount: -mintRequest.tokenAmount },
+        { account: 'MINTED', amount: mintRequest.tokenAmount },
+      ],
+    });
+  }
+
+  async getBalances(userId: string, client: any = this.prisma): Promise<LedgerBalances> {
+    const sums = await client.ledgerEntry.groupBy({
+      by: ['account'],
+      where: { userId },
+      _sum: { amount: true },
+    });
+
+    const balances = emptyLedgerBalances();
+    for (const row of sums) {
+      balances[row.account as LedgerAccount] = row._sum.amount || 0;
+    }
+
+    return balances;
+  }
+
+  /**
+   * Post each user's pre-ledger balances from the Reward, MintRequest,
+   * RewardDebt and Transaction tables. Run once when the ledger goes live;
+   * users that already have entries are skipped.
+   */
+  async openBalances(): Promise<{ opened: number; skipped: number }> {
+    const expected = await this.loadExpectedBalances();
+    const minted = await this.loadMintedTotals();
+    const posted = await this.prisma.ledgerEntry.groupBy({
+      by: ['userId'],
+      where: { userId: { not: null } },
+    });
+    const hasEntries = new Set(posted.map(p => p.userId));
+
+    let opened = 0;
+    let skipped = 0;
+
+    const userIds = new Set([...expected.keys(), ...minted.keys()]);
+    for (const userId of userIds) {
+      if (hasEntries.has(userId)) {
+        skipped++;
+        continue;
+      }
+
+      const balances = expected.get(userId) || emptyLedgerBalances();
+      balances.MINTED = minted.get(userId) || 0;
+      const total = balances.EARNED + balances.PENDING_CLAIM + balances.MINTED + balances.DEBT;
+
+      const didPost = await this.prisma.$transaction(tx =>
+        this.post(tx, {
+          idempotencyKey: `opening:${userId}`,
+          kind: 'opening_balance',
+          userId,
+          referenceType: 'user',
+          referenceId: userId,
+          entries: [
+            { account: 'EARNED', amount: balances.EARNED },
+            { account: 'PENDING_CLAIM', amount: balances.PENDING_CLAIM },
+            { account: 'MINTED', amount: balances.MINTED },
+            { account: 'DEBT', amount: balances.DEBT },
+            { account: 'ISSUANCE', amount: -total },
+          ],
+        })
+      );
+
+      if (didPost) opened++;
+    }
+
+    logger.info(`Opened ledger balances for ${opened} users (${skipped} already on the ledger)`);
+
+    return { opened, skipped };
+  }
+
+  /**
+   * Report drift between ledger balances, the tables they mirror, the
+   * cached profile balance and on-chain wallet balances
+   */
+  async reconcile(options: { onChain?: boolean } = {}): Promise<ReconciliationReport> {
+    const [ledgerSums, total, profiles, wallets] = await Promise.all([
+      this.prisma.ledgerEntry.groupBy({
+        by: ['userId', 'account'],
+        where: { userId: { not: null } },
+        _sum: { amount: true },
+      }),
+      this.prisma.ledgerEntry.aggregate({ _sum: { amount: true } }),
+      this.prisma.userProfile.findMany({ select: { userId: true, totalTokens: true } }),
+      this.prisma.user.findMany({
+        where: { walletAddress: { not: null } },
+        select: { id: true, walletAddress: true },
+      }),
+    ]);
+    const issuance = await this.prisma.ledgerEntry.aggregate({
+      where: { account: 'ISSUANCE' },
+      _sum: { amount: true },
+    });
+
+    const ledger = new Map<string, LedgerBalances>();
+    for (const row of ledgerSums) {
+      const balances = ledger.get(row.userId!) || emptyLedgerBalances();
+      balances[row.account as LedgerAccount] = row._sum.amount || 0;
+      ledger.set(row.userId!, balances);
+    }
+
+    const expected = await this.loadExpectedBalances();
+    const cached = new Map(profiles.map(p => [p.userId, p.totalTokens]));
+    const userIds = new Set([...ledger.keys(), ...expected.keys()]);
+    const drift: LedgerDrift[] = [];
+
+    const compare = (userId: string, check: LedgerDrift['check'], ledgerValue: number, expectedValue: number) => {
+      if (ledgerValue !== expectedValue) {
+        drift.push({ userId, check, ledger: ledgerValue, expected: expectedValue, difference: ledgerValue - expectedValue });
+      }
+    };
+
+    for (const userId of userIds) {
+      const balances = ledger.get(userId) || emptyLedgerBalances();
+      const tables = expected.get(userId) || emptyLedgerBalances();
+
+      compare(userId, 'earned', balances.EARNED, tables.EARNED);
+      compare(userId, 'pending_claim', balances.PENDING_CLAIM, tables.PENDING_CLAIM);
+      compare(userId, 'debt', balances.DEBT, tables.DEBT);
+      compare(userId, 'cached_balance', cached.get(userId) ?? 0, getLedgerHoldings(balances));
+    }
+
+    // Wallet balances also move with transfers the ledger does not see, so
+    // on-chain drift is a prompt to look rather than proof of an error
+    if (options.onChain !== false) {
+      for (const wallet of wallets) {
+        try {
+          const onChain = await this.tokenService.getTokenBalance(wallet.walletAddress!);
+          const minted = ledger.get(wallet.id)?.MINTED || 0;
+          compare(wallet.id, 'on_chain', minted, Math.round(onChain));
+        } catch (error) {
+          logger.error(`Failed to read on-chain balance for user ${wallet.id}:`, error);
+        }
+
+        // Small delay to avoid rate limiting
+        await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+
+    const report: ReconciliationReport = {
+      checkedAt: new Date().toISOString(),
+      users: userIds.size,
+      ledgerBalanced: (total._sum.amount || 0) === 0,
+      issued: -(issuance._sum.amount || 0),
+      drift,
+    };
+
+    if (!report.ledgerBalanced) {
+      logger.error(`Ledger entries sum to ${total._sum.amount}, expected 0`);
+    }
+    logger.info(`Reconciled ${report.users} users: ${drift.length} drift findings`);
+
+    return report;
+  }
+
+  /**
+   * Balances the Reward, MintRequest and RewardDebt tables imply
+   */
+  private async loadExpectedBalances(): Promise<Map<string, LedgerBalances>> {
+    const [earned, pending, debts] = await Promise.all([
+      this.prisma.reward.groupBy({
+        by: ['userId'],
+        where: { status: 'APPROVED' },
+        _sum: { amount: true },
+      }),
+      this.prisma.mintRequest.groupBy({
+        by: ['userId'],
+        where: { status: { in: [...OPEN_CLAIM_STATUSES] } },
+        _sum: { tokenAmount: true },
+      }),
+      this.prisma.rewardDebt.groupBy({
+        by: ['userId'],
+        where: { outstanding: { gt: 0 } },
+        _sum: { outstanding: true },
+      }),
+    ]);
+
+    const expected = new Map<string, LedgerBalances>();
+    const get = (userId: string) => {
+      const balances = expected.get(userId) || emptyLedgerBalances();
+      expected.set(userId, balances);
+      return balances;
+    };
+
+    for (const row of earned) get(row.userId).EARNED = row._sum.amount || 0;
+    for (const row of pending) get(row.userId).PENDING_CLAIM = row._sum.tokenAmount || 0;
+    for (const row of debts) get(row.userId).DEBT = -(row._sum.outstanding || 0);
+
+    return expected;
+  }
+
+  /**
+   * Tokens minted before the ledger: completed claims plus direct distributions
+   */
+  private async loadMintedTotals(): Promise<Map<string, number>> {
+    const [claims, transfers] = await Promise.all([
+      this.prisma.mintRequest.groupBy({
+        by: ['userId'],
+        where: { status: 'COMPLETED' },
+        _sum: { tokenAmount: true },
+      }),
+      this.prisma.transaction.groupBy({
+        by: ['userId'],
+        where: { type: { in: ['REWARD', 'CLAIM'] }, status: 'CONFIRMED' },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const minted = new Map<string, number>();
+    for (const row of [...claims.map(c => ({ userId: c.userId, amount: c._sum.tokenAmount })),
+                       ...transfers.map(t => ({ userId: t.userId, amount: t._sum.amount }))]) {
+      minted.set(row.userId, (minted.get(row.userId) || 0) + (row.amount || 0));
+    }
+
+    return minted;
+  }
+}
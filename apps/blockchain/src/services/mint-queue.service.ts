@@ -0,0 +1,593 @@
+import { PrismaClient } from '@prisma/client';
+import { Connection, PublicKey } from '@solana/web3.js';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LedgerService } from './ledger.service';
+import { MintRejectedError, findMintByMemo, getSubmissionState } from './mint-transaction';
+import { logger } from '../utils/logger';
+
+// How long a worker owns a leased request before another may take it
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
+export interface MintQueueSummary {
+  total: number;
+  queued: number;
+  adminReview: number;
+  approved: number;
+  rejected: number;
+  minting: number;
+  completed: number;
+  failed: number;
+  stale: number;
+  totalValue: number;
+}
+
+export interface MintOutcome {
+  signature: string;
+  explorerUrl?: string;
+  batchId?: string; // signature of the transaction the mint landed in
+  metadata?: Record<string, any>;
+}
+
+export interface MintSubmission {
+  signature: string;
+  lastValidBlockHeight: number;
+}
+
+export interface MintExecutor {
+  // Group requests into as few transactions as fit
+  plan(requests: any[]): Promise<any[][]>;
+  // Sign one transaction minting every request given, submit() it, then send it
+  mint(requests: any[], submit: (submission: MintSubmission) => Promise<void>): Promise<MintOutcome>;
+}
+
+export interface RecoveryResult {
+  checked: number;
+  completed: number;
+  requeued: number;
+  pending: number;
+}
+
+// MINTING requests whose worker is gone; pre-lease requests have no expiry
+const staleMinting = () => ({
+  status: 'MINTING' as const,
+  OR: [{ leaseExpiresAt: null }, { leaseExpiresAt: { lt: new Date() } }],
+});
+
+/**
+ * The mint queue is the mint_requests table. A worker leases APPROVED
+ * requests so only it mints them, records each try as a MintAttempt and
+ * every status change as a MintRequestTransition.
+ */
+export class MintQueueService {
+  private prisma: PrismaClient;
+  private ledgerService: LedgerService;
+  readonly workerId: string;
+
+  constructor(network: string = 'devnet', prisma?: PrismaClient, workerId?: string) {
+    this.prisma = prisma || new PrismaClient();
+    this.ledgerService = new LedgerService(network, this.prisma);
+    this.workerId = workerId || `${os.hostname()}:${process.pid}`;
+  }
+
+  /**
+   * Take ownership of up to `limit` approved requests nobody holds a live lease on
+   */
+  async lease(limit: number = 10, leaseMs: number = DEFAULT_LEASE_MS): Promise<any[]> {
+    const now = new Date();
+    const available = {
+      status: 'APPROVED' as const,
+      mintSignature: null,
+      OR: [{ leaseExpiresAt: null }, { leaseExpiresAt: { lt: now } }],
+    };
+
+    const candidates = await this.prisma.mintRequest.findMany({
+      where: available,
+      orderBy: { requestedAt: 'asc' },
+      take: limit,
+    });
+
+    const leased: any[] = [];
+    const leaseExpiresAt = new Date(now.getTime() + leaseMs);
+
+    for (const candidate of candidates) {
+      // Conditional update so two workers cannot lease the same request
+      const taken = await this.prisma.mintRequest.updateMany({
+        where: { id: candidate.id, ...available },
+        data: { leasedBy: this.workerId, leaseExpiresAt },
+      });
+
+      if (taken.count === 1) {
+        leased.push({ ...candidate, leasedBy: this.workerId, leaseExpiresAt });
+      }
+    }
+
+    return leased;
+  }
+
+  /**
+   * Mint every request leased in one pass, packed into as few transactions
+   * as the executor can fit. A batch that was rejected is split and each of
+   * its requests retried on its own.
+   */
+  async processBatch(
+    limit: number,
+    executor: MintExecutor,
+    delayMs: number = 1000
+  ): Promise<{ processed: number; completed: number; failed: number; transactions: number }> {
+    const requests = await this.lease(limit);
+    const attempts = new Map<string, any>();
+    const counts = { completed: 0, failed: 0, transactions: 0 };
+
+    logger.info(`Leased ${requests.length} mint requests as ${this.workerId}`);
+
+    for (const request of requests) {
+      try {
+        attempts.set(request.id, await this.startAttempt(request));
+      } catch (error) {
+        logger.error(`Could not start mint request ${request.id}:`, error);
+        await this.release(request);
+      }
+    }
+
+    const started = requests.filter(r => attempts.has(r.id));
+    if (started.length === 0) {
+      return { processed: requests.length, ...counts };
+    }
+
+    let batches: any[][];
+    try {
+      batches = await executor.plan(started);
+    } catch (error) {
+      logger.error('Could not plan mint batches, minting one request per transaction:', error);
+      batches = started.map(r => [r]);
+    }
+
+    for (const batch of batches) {
+      await this.mintBatch(batch, attempts, executor, counts);
+
+      // Delay between transactions to avoid rate limits
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+
+    return { processed: requests.length, ...counts };
+  }
+
+  private async mintBatch(
+    requests: any[],
+    attempts: Map<string, any>,
+    executor: MintExecutor,
+    counts: { completed: number; failed: number; transactions: number }
+  ) {
+    let submitted = false;
+    let outcome: MintOutcome | undefined;
+
+    try {
+      outcome = await executor.mint(requests, async submission => {
+        for (const request of requests) {
+          await this.recordSubmission(request, attempts.get(request.id), submission);
+        }
+        submitted = true;
+      });
+      counts.transactions++;
+
+      for (const request of requests) {
+        await this.complete(request, attempts.get(request.id), { ...outcome, batchId: outcome.signature });
+        counts.completed++;
+      }
+    } catch (error) {
+      if (outcome) {
+        // Tokens are on chain; marking the request failed would invite a second mint
+        logger.error(
+          `Mint batch ${outcome.signature} landed but was not fully recorded, left in MINTING:`,
+          error
+        );
+      } else if (submitted && !(error instanceof MintRejectedError)) {
+        // The transaction may still land; leave it to the recovery sweep
+        for (const request of requests) {
+          await this.markUncertain(request, attempts.get(request.id), error);
+        }
+      } else if (requests.length > 1) {
+        // Nothing landed; find the request that sank the batch
+        logger.warn(`Mint batch of ${requests.length} rejected, retrying each request: ${error}`);
+        for (const request of requests) {
+          await this.mintBatch([request], attempts, executor, counts);
+        }
+      } else {
+        await this.fail(requests[0], attempts.get(requests[0].id), error);
+        counts.failed++;
+      }
+    }
+  }
+
+  async startAttempt(request: any) {
+    return await this.prisma.$transaction(async tx => {
+      const started = await tx.mintRequest.updateMany({
+        where: { id: request.id, status: 'APPROVED', leasedBy: this.workerId },
+        data: { status: 'MINTING', attemptCount: { increment: 1 } },
+      });
+
+      if (started.count === 0) {
+        throw new Error(`Lease on mint request ${request.id} was lost`);
+      }
+
+      await this.recordTransition(tx, request.id, 'APPROVED', 'MINTING');
+
+      return await tx.mintAttempt.create({
+        data: {
+          mintRequestId: request.id,
+          attempt: request.attemptCount + 1,
+          workerId: this.workerId,
+        },
+      });
+    });
+  }
+
+  /**
+   * Store the signed transaction's signature before it is sent. Fails, and
+   * so stops the send, if this worker no longer holds the lease.
+   */
+  async recordSubmission(request: any, attempt: any, submission: MintSubmission) {
+    await this.prisma.$transaction(async tx => {
+      const held = await tx.mintRequest.updateMany({
+        where: { id: request.id, status: 'MINTING', leasedBy: this.workerId },
+        data: { leaseExpiresAt: new Date(Date.now() + DEFAULT_LEASE_MS) },
+      });
+
+      if (held.count === 0) {
+        throw new Error(`Lease on mint request ${request.id} was lost before submission`);
+      }
+
+      await tx.mintAttempt.update({
+        where: { id: attempt.id },
+        data: {
+          signature: submission.signature,
+          lastValidBlockHeight: submission.lastValidBlockHeight,
+          submittedAt: new Date(),
+        },
+      });
+    });
+  }
+
+  async complete(request: any, attempt: any, outcome: MintOutcome) {
+    await this.prisma.$transaction(async tx => {
+      const completed = await tx.mintRequest.updateMany({
+        where: { id: request.id, status: 'MINTING', leasedBy: this.workerId },
+        data: {
+          status: 'COMPLETED',
+          mintSignature: outcome.signature,
+          batchId: outcome.batchId,
+          explorerUrl: outcome.explorerUrl,
+          mintedAt: new Date(),
+          lastError: null,
+          leasedBy: null,
+          leaseExpiresAt: null,
+        },
+      });
+
+      if (completed.count === 0) {
+        throw new Error(`Mint request ${request.id} is no longer held by ${this.workerId}`);
+      }
+
+      await tx.mintAttempt.update({
+        where: { id: attempt.id },
+        data: { status: 'SUCCEEDED', signature: outcome.signature, finishedAt: new Date() },
+      });
+
+      await this.recordTransition(tx, request.id, 'MINTING', 'COMPLETED', outcome.signature);
+      await this.ledgerService.recordClaimMinted(tx, { ...request, mintSignature: outcome.signature });
+
+      await tx.rewardAudit.create({
+        data: {
+          userId: request.userId,
+          action: 'mint_completed',
+          resource: 'mint_request',
+          resourceId: request.id,
+          newValues: {
+            signature: outcome.signature,
+            amount: request.tokenAmount,
+            recipient: request.recipientWallet,
+          },
+          metadata: {
+            workerId: this.workerId,
+            attempt: attempt.attempt,
+            ...outcome.metadata,
+          },
+        },
+      });
+    });
+
+    logger.info(`Mint request ${request.id} completed: ${outcome.signature}`);
+  }
+
+  async fail(request: any, attempt: any, error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    await this.prisma.$transaction(async tx => {
+      await tx.mintRequest.updateMany({
+        where: { id: request.id, status: 'MINTING', leasedBy: this.workerId },
+        data: {
+          status: 'FAILED',
+          lastError: errorMessage,
+          leasedBy: null,
+          leaseExpiresAt: null,
+        },
+      });
+
+      await tx.mintAttempt.update({
+        where: { id: attempt.id },
+        data: { status: 'FAILED', errorMessage, finishedAt: new Date() },
+      });
+
+      await this.recordTransition(tx, request.id, 'MINTING', 'FAILED', errorMessage);
+
+      await tx.rewardAudit.create({
+        data: {
+          userId: request.userId,
+          action: 'mint_failed',
+          resource: 'mint_request',
+          resourceId: request.id,
+          newValues: { error: errorMessage, attempt: attempt.attempt },
+          metadata: { workerId: this.workerId },
+        },
+      });
+    });
+
+    logger.error(`Mint request ${request.id} failed on attempt ${attempt.attempt}: ${errorMessage}`);
+  }
+
+  /**
+   * A submitted mint whose outcome is unknown. It stays MINTING with an
+   * expired lease so the recovery sweep looks it up on chain.
+   */
+  async markUncertain(request: any, attempt: any, error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    await this.prisma.$transaction(async tx => {
+      await tx.mintRequest.updateMany({
+        where: { id: request.id, status: 'MINTING', leasedBy: this.workerId },
+        data: { lastError: errorMessage, leaseExpiresAt: new Date() },
+      });
+
+      await tx.mintAttempt.update({
+        where: { id: attempt.id },
+        data: { errorMessage },
+      });
+    });
+
+    logger.warn(`Mint request ${request.id} outcome unknown after submission: ${errorMessage}`);
+  }
+
+  /**
+   * Resolve requests stuck in MINTING from the chain: completed if their
+   * mint landed, back to APPROVED if it provably never can, left alone
+   * while it still might.
+   */
+  async recoverStale(connection: Connection, authority: PublicKey): Promise<RecoveryResult> {
+    const stale = await this.prisma.mintRequest.findMany({
+      where: staleMinting(),
+      include: { attempts: { orderBy: { attempt: 'desc' }, take: 1 } },
+    });
+
+    const result: RecoveryResult = { checked: 0, completed: 0, requeued: 0, pending: 0 };
+
+    for (const candidate of stale) {
+      // Take the lease so no other sweep or worker acts on it at the same time
+      const taken = await this.prisma.mintRequest.updateMany({
+        where: { id: candidate.id, ...staleMinting() },
+        data: { leasedBy: this.workerId, leaseExpiresAt: new Date(Date.now() + DEFAULT_LEASE_MS) },
+      });
+      if (taken.count === 0) continue;
+
+      const request = { ...candidate, leasedBy: this.workerId };
+      const attempt = candidate.attempts[0];
+      result.checked++;
+
+      try {
+        if (attempt?.signature && attempt.lastValidBlockHeight !== null) {
+          const state = await getSubmissionState(connection, attempt.signature, attempt.lastValidBlockHeight);
+
+          if (state === 'confirmed') {
+            await this.complete(request, attempt, {
+              signature: attempt.signature,
+              batchId: attempt.signature,
+              metadata: { recovered: true },
+            });
+            result.completed++;
+          } else if (state === 'pending') {
+            await this.release(request, new Date());
+            result.pending++;
+          } else {
+            await this.requeue(request, attempt, state === 'failed'
+              ? `Transaction ${attempt.signature} failed on chain`
+              : `Transaction ${attempt.signature} expired without landing`);
+            result.requeued++;
+          }
+          continue;
+        }
+
+        // Nothing was recorded as sent; check the memo before trusting that
+        const landed = await findMintByMemo(connection, authority, request.id);
+
+        if (landed && !landed.failed) {
+          const recoveredAttempt = attempt || await this.prisma.mintAttempt.create({
+            data: { mintRequestId: request.id, attempt: request.attemptCount + 1, workerId: this.workerId },
+          });
+          await this.complete(request, recoveredAttempt, {
+            signature: landed.signature,
+            batchId: landed.signature,
+            metadata: { recovered: true },
+          });
+          result.completed++;
+        } else {
+          await this.requeue(request, attempt, 'No transaction was submitted');
+          result.requeued++;
+        }
+      } catch (error) {
+        logger.error(`Failed to recover mint request ${request.id}:`, error);
+        await this.release(request, new Date());
+      }
+    }
+
+    logger.info(
+      `Recovery sweep: ${result.checked} checked, ${result.completed} completed, ` +
+      `${result.requeued} requeued, ${result.pending} still pending`
+    );
+
+    return result;
+  }
+
+  /**
+   * Return a request whose mint can no longer land to APPROVED for another attempt
+   */
+  private async requeue(request: any, attempt: any, reason: string) {
+    await this.prisma.$transaction(async tx => {
+      const requeued = await tx.mintRequest.updateMany({
+        where: { id: request.id, status: 'MINTING', leasedBy: this.workerId },
+        data: { status: 'APPROVED', lastError: reason, leasedBy: null, leaseExpiresAt: null },
+      });
+
+      if (requeued.count === 0) {
+        throw new Error(`Mint request ${request.id} is no longer held by ${this.workerId}`);
+      }
+
+      if (attempt) {
+        await tx.mintAttempt.update({
+          where: { id: attempt.id },
+          data: { status: 'FAILED', errorMessage: reason, finishedAt: new Date() },
+        });
+      }
+
+      await this.recordTransition(tx, request.id, 'MINTING', 'APPROVED', reason);
+    });
+
+    logger.warn(`Mint request ${request.id} requeued: ${reason}`);
+  }
+
+  async release(request: { id: string }, leaseExpiresAt: Date | null = null) {
+    await this.prisma.mintRequest.updateMany({
+      where: { id: request.id, leasedBy: this.workerId },
+      data: { leasedBy: null, leaseExpiresAt },
+    });
+  }
+
+  async getSummary(): Promise<MintQueueSummary> {
+    const [byStatus, stale] = await Promise.all([
+      this.prisma.mintRequest.groupBy({
+        by: ['status'],
+        _count: { id: true },
+        _sum: { tokenAmount: true },
+      }),
+      this.prisma.mintRequest.count({ where: staleMinting() }),
+    ]);
+
+    const count = (status: string) => byStatus.find(s => s.status === status)?._count.id || 0;
+
+    return {
+      total: byStatus.reduce((sum, s) => sum + s._count.id, 0),
+      queued: count('QUEUED'),
+      adminReview: count('ADMIN_REVIEW'),
+      approved: count('APPROVED'),
+      rejected: count('REJECTED'),
+      minting: count('MINTING'),
+      completed: count('COMPLETED'),
+      failed: count('FAILED'),
+      stale,
+      totalValue: byStatus.reduce((sum, s) => sum + (s._sum.tokenAmount || 0), 0),
+    };
+  }
+
+  /**
+   * Requests still waiting on review or minting, admin review first
+   */
+  async getPending(limit: number = 20) {
+    const requests = await this.prisma.mintRequest.findMany({
+      where: { status: { in: ['QUEUED', 'ADMIN_REVIEW', 'APPROVED'] } },
+      orderBy: [{ riskScore: 'desc' }, { requestedAt: 'asc' }],
+    });
+
+    return requests
+      .sort((a, b) => Number(b.status === 'ADMIN_REVIEW') - Number(a.status === 'ADMIN_REVIEW'))
+      .slice(0, limit);
+  }
+
+  async getRecentActivity(since: Date, limit: number = 10) {
+    return await this.prisma.mintRequest.findMany({
+      where: { updatedAt: { gt: since } },
+      orderBy: { updatedAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Requests in MINTING whose worker's lease ran out before it finished
+   */
+  async getStale() {
+    return await this.prisma.mintRequest.findMany({
+      where: staleMinting(),
+      include: { attempts: { orderBy: { attempt: 'desc' }, take: 1 } },
+    });
+  }
+
+  async getHistory(mintRequestId: string) {
+    return await this.prisma.mintRequest.findUnique({
+      where: { id: mintRequestId },
+      include: {
+        transitions: { orderBy: { createdAt: 'asc' } },
+        attempts: { orderBy: { attempt: 'asc' } },
+      },
+    });
+  }
+
+  /**
+   * Write mint-request-*.json snapshots for operators who want files.
+   * The database stays the source of truth; files are never read back.
+   */
+  async exportRequests(directory: string, statuses?: string[]): Promise<number> {
+    await fs.mkdir(directory, { recursive: true });
+
+    const requests = await this.prisma.mintRequest.findMany({
+      where: statuses ? { status: { in: statuses as any } } : undefined,
+      include: {
+        transitions: { orderBy: { createdAt: 'asc' } },
+        attempts: { orderBy: { attempt: 'asc' } },
+      },
+    });
+
+    for (const request of requests) {
+      const { transitions, attempts, ...fields } = request;
+      const data = {
+        mintRequestId: request.id,
+        ...fields,
+        auditTrail: transitions.map(t => ({
+          action: t.fromStatus ? `${t.fromStatus} -> ${t.toStatus}` : `created ${t.toStatus}`,
+          timestamp: t.createdAt,
+          actor: t.actor,
+          reason: t.reason,
+        })),
+        attempts,
+        exportedAt: new Date().toISOString(),
+      };
+
+      await fs.writeFile(
+        path.join(directory, `mint-request-${request.id}.json`),
+        JSON.stringify(data, null, 2)
+      );
+    }
+
+    logger.info(`Exported ${requests.length} mint requests to ${directory}`);
+
+    return requests.length;
+  }
+
+  async close(): Promise<void> {
+    await this.prisma.$disconnect();
+  }
+
+  private async recordTransition(tx: any, mintRequestId: string, fromStatus: string, toStatus: string, reason?: string) {
+    await tx.mintRequestTransition.create({
+      data: { mintRequestId, fromStatus, toStatus, actor: this.workerId, reason },
+    });
+  }
+}
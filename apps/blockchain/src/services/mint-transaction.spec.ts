@@ -0,0 +1,98 @@
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { createMint, getAccount, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import {
+  findMintByMemo,
+  getSubmissionState,
+  planMintBatches,
+  sendSignedMint,
+  signMintBatch,
+  signMintTransaction,
+} from './mint-transaction';
+
+// Runs against a local validator: solana-test-validator --reset, then
+// SOLANA_TEST_VALIDATOR_URL=http://127.0.0.1:8899 pnpm test
+const validatorUrl = process.env.SOLANA_TEST_VALIDATOR_URL;
+const describeWithValidator = validatorUrl ? describe : describe.skip;
+
+describeWithValidator('mint transactions against a local validator', () => {
+  jest.setTimeout(60000);
+
+  let connection: Connection;
+  let authority: Keypair;
+  let mint: PublicKey;
+  let owner: PublicKey;
+
+  beforeAll(async () => {
+    connection = new Connection(validatorUrl!, 'confirmed');
+    authority = Keypair.generate();
+
+    const airdrop = await connection.requestAirdrop(authority.publicKey, 2 * LAMPORTS_PER_SOL);
+    await connection.confirmTransaction(airdrop, 'confirmed');
+
+    mint = await createMint(connection, authority, authority.publicKey, null, 9);
+    owner = Keypair.generate().publicKey;
+  });
+
+  const sign = (mintRequestId: string) =>
+    signMintTransaction(connection, {
+      payer: authority,
+      mintAuthority: authority,
+      mint,
+      destinationOwner: owner,
+      amount: 5,
+      mintRequestId,
+    });
+
+  it('should create the token account and find the landed mint by signature and memo', async () => {
+    const signed = await sign('request-landed');
+    await sendSignedMint(connection, signed);
+
+    expect(await getSubmissionState(connection, signed.signature, signed.lastValidBlockHeight)).toBe('confirmed');
+    expect(await findMintByMemo(connection, authority.publicKey, 'request-landed')).toEqual({
+      signature: signed.signature,
+      failed: false,
+    });
+  });
+
+  it('should not mint twice when the same signed transaction is resent', async () => {
+    const signed = await sign('request-resent');
+    await sendSignedMint(connection, signed);
+    await sendSignedMint(connection, signed).catch(() => undefined);
+
+    const account = await getAccount(connection, getAssociatedTokenAddressSync(mint, owner));
+    // 5 from the first test, 5 from this one
+    expect(Number(account.amount)).toBe(10);
+  });
+
+  it('should report a signed but unsent mint as pending, and find nothing by memo', async () => {
+    const signed = await sign('request-unsent');
+
+    expect(await getSubmissionState(connection, signed.signature, signed.lastValidBlockHeight)).toBe('pending');
+    expect(await getSubmissionState(connection, signed.signature, 0)).toBe('expired');
+    expect(await findMintByMemo(connection, authority.publicKey, 'request-unsent')).toBeNull();
+  });
+
+  it('should pack many recipients into few transactions and mint each of them', async () => {
+    const params = { payer: authority, mintAuthority: authority, mint };
+    const items = Array.from({ length: 12 }, (_, i) => ({
+      mintRequestId: `request-batch-${i}`,
+      recipient: Keypair.generate().publicKey,
+      amount: 1,
+    }));
+
+    const batches = await planMintBatches(connection, params, items, 10);
+    expect(batches.length).toBeGreaterThan(1);
+    expect(batches.length).toBeLessThan(items.length);
+    expect(batches.flat()).toEqual(items);
+
+    for (const batch of batches) {
+      await sendSignedMint(connection, await signMintBatch(connection, params, batch));
+    }
+
+    for (const item of items) {
+      const account = await getAccount(connection, getAssociatedTokenAddressSync(mint, item.recipient));
+      expect(Number(account.amount)).toBe(1);
+    }
+    expect(await findMintByMemo(connection, authority.publicKey, 'request-batch-11')).not.toBeNull();
+  });
+});
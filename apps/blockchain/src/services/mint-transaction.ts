@@ -0,0 +1,300 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SendTransactionError,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createMintToInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import bs58 from 'bs58';
+
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+// How far back the recovery sweep looks through the authority's signatures
+const MEMO_SEARCH_LIMIT = 1000;
+
+// Compute estimates per instruction, with headroom; the limit is set per transaction
+const MINT_TO_COMPUTE_UNITS = 6_000;
+const CREATE_ACCOUNT_COMPUTE_UNITS = 35_000;
+const MEMO_COMPUTE_UNITS = 30_000;
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+export type SubmissionState = 'confirmed' | 'failed' | 'pending' | 'expired';
+
+export interface MintItem {
+  mintRequestId: string;
+  recipient: PublicKey; // wallet owner, not the token account
+  amount: number | bigint;
+}
+
+export interface MintBatchParams {
+  payer: Keypair;
+  mintAuthority: Keypair;
+  mint: PublicKey;
+}
+
+export interface SignedMint {
+  transaction: Transaction;
+  signature: string;
+  blockhash: string;
+  lastValidBlockHeight: number;
+}
+
+/**
+ * The transaction was refused before landing, or landed and failed. Either
+ * way nothing was minted, so its requests can be retried.
+ */
+export class MintRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MintRejectedError';
+  }
+}
+
+/**
+ * Memo tag carried by every mint for a request, so the chain can be
+ * searched for it even when no signature was recorded
+ */
+export function mintMemo(mintRequestId: string): string {
+  return `omnifit-mint:${mintRequestId}`;
+}
+
+/**
+ * Pack mints into as few transactions as the packet size and compute limit
+ * allow, at most `maxPerTransaction` each. Missing token accounts are
+ * created in the same transaction.
+ */
+export async function planMintBatches<T extends MintItem>(
+  connection: Connection,
+  params: MintBatchParams,
+  items: T[],
+  maxPerTransaction: number
+): Promise<T[][]> {
+  const missing = await findMissingTokenAccounts(connection, params.mint, items);
+  const batches: T[][] = [];
+  let current: T[] = [];
+
+  for (const item of items) {
+    const candidate = [...current, item];
+    const fits = candidate.length <= maxPerTransaction && fitsInTransaction(params, candidate, missing);
+
+    if (fits || current.length === 0) {
+      current = candidate;
+    } else {
+      batches.push(current);
+      current = [item];
+    }
+  }
+
+  if (current.length > 0) batches.push(current);
+
+  return batches;
+}
+
+/**
+ * Build and sign a memo-tagged mint for one or more requests without sending
+ * it. The signature is known before submission, so it can be recorded first;
+ * the blockhash bounds how long the transaction can still land.
+ */
+export async function signMintBatch(
+  connection: Connection,
+  params: MintBatchParams,
+  items: MintItem[]
+): Promise<SignedMint> {
+  const missing = await findMissingTokenAccounts(connection, params.mint, items);
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+
+  const transaction = new Transaction({
+    feePayer: params.payer.publicKey,
+    blockhash,
+    lastValidBlockHeight,
+  }).add(...buildInstructions(params, items, missing));
+
+  const signers = params.payer.publicKey.equals(params.mintAuthority.publicKey)
+    ? [params.payer]
+    : [params.payer, params.mintAuthority];
+  transaction.sign(...signers);
+
+  return {
+    transaction,
+    signature: bs58.encode(transaction.signature!),
+    blockhash,
+    lastValidBlockHeight,
+  };
+}
+
+export async function signMintTransaction(
+  connection: Connection,
+  params: MintBatchParams & { destinationOwner: PublicKey; amount: number | bigint; mintRequestId: string }
+): Promise<SignedMint> {
+  return await signMintBatch(connection, params, [
+    { mintRequestId: params.mintRequestId, recipient: params.destinationOwner, amount: params.amount },
+  ]);
+}
+
+/**
+ * Send a signed mint and wait for confirmation. Resending the same signed
+ * transaction is safe; the network processes a signature at most once.
+ */
+export async function sendSignedMint(connection: Connection, signed: SignedMint): Promise<string> {
+  try {
+    await connection.sendRawTransaction(signed.transaction.serialize(), {
+      preflightCommitment: 'confirmed',
+      maxRetries: 3,
+    });
+  } catch (error) {
+    // The RPC refused it during preflight, so it was never forwarded
+    if (error instanceof SendTransactionError) {
+      throw new MintRejectedError(`Mint transaction ${signed.signature} rejected: ${error.message}`);
+    }
+    throw error;
+  }
+
+  const confirmation = await connection.confirmTransaction(
+    {
+      signature: signed.signature,
+      blockhash: signed.blockhash,
+      lastValidBlockHeight: signed.lastValidBlockHeight,
+    },
+    'confirmed'
+  );
+
+  if (confirmation.value.err) {
+    throw new MintRejectedError(
+      `Mint transaction ${signed.signature} failed: ${JSON.stringify(confirmation.value.err)}`
+    );
+  }
+
+  return signed.signature;
+}
+
+/**
+ * Where a recorded submission stands. 'expired' means it was never seen and
+ * its blockhash has passed, so it can no longer land and a retry cannot
+ * double-mint. 'pending' means it still might land.
+ */
+export async function getSubmissionState(
+  connection: Connection,
+  signature: string,
+  lastValidBlockHeight: number
+): Promise<SubmissionState> {
+  const { value } = await connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+
+  if (value) {
+    if (value.err) return 'failed';
+    if (value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized') {
+      return 'confirmed';
+    }
+    return 'pending';
+  }
+
+  const blockHeight = await connection.getBlockHeight('confirmed');
+  return blockHeight > lastValidBlockHeight ? 'expired' : 'pending';
+}
+
+/**
+ * Find a landed mint for a request by its memo among the authority's
+ * recent transactions
+ */
+export async function findMintByMemo(
+  connection: Connection,
+  authority: PublicKey,
+  mintRequestId: string
+): Promise<{ signature: string; failed: boolean } | null> {
+  const tag = mintMemo(mintRequestId);
+  const signatures = await connection.getSignaturesForAddress(
+    authority,
+    { limit: MEMO_SEARCH_LIMIT },
+    'confirmed'
+  );
+
+  // The RPC reports memos as "[length] text"; a batch carries one tag per request
+  const match = signatures.find(s => s.memo?.split(/\s+/).includes(tag));
+  if (!match) {
+    return null;
+  }
+
+  return { signature: match.signature, failed: match.err !== null };
+}
+
+function buildInstructions(
+  params: MintBatchParams,
+  items: MintItem[],
+  missing: Set<string>
+): TransactionInstruction[] {
+  const instructions: TransactionInstruction[] = [];
+  let computeUnits = MEMO_COMPUTE_UNITS;
+
+  for (const item of items) {
+    const tokenAccount = getAssociatedTokenAddressSync(params.mint, item.recipient);
+
+    if (missing.has(tokenAccount.toBase58())) {
+      instructions.push(
+        createAssociatedTokenAccountIdempotentInstruction(
+          params.payer.publicKey,
+          tokenAccount,
+          item.recipient,
+          params.mint
+        )
+      );
+      computeUnits += CREATE_ACCOUNT_COMPUTE_UNITS;
+    }
+
+    instructions.push(
+      createMintToInstruction(params.mint, tokenAccount, params.mintAuthority.publicKey, item.amount)
+    );
+    computeUnits += MINT_TO_COMPUTE_UNITS;
+  }
+
+  instructions.push(
+    new TransactionInstruction({
+      programId: MEMO_PROGRAM_ID,
+      keys: [{ pubkey: params.mintAuthority.publicKey, isSigner: true, isWritable: false }],
+      data: Buffer.from(items.map(item => mintMemo(item.mintRequestId)).join(' '), 'utf-8'),
+    })
+  );
+
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: Math.min(computeUnits, MAX_COMPUTE_UNITS) }),
+    ...instructions,
+  ];
+}
+
+function fitsInTransaction(params: MintBatchParams, items: MintItem[], missing: Set<string>): boolean {
+  const instructions = buildInstructions(params, items, missing);
+  const computeUnits = items.reduce((total, item) => {
+    const tokenAccount = getAssociatedTokenAddressSync(params.mint, item.recipient);
+    return total + MINT_TO_COMPUTE_UNITS + (missing.has(tokenAccount.toBase58()) ? CREATE_ACCOUNT_COMPUTE_UNITS : 0);
+  }, MEMO_COMPUTE_UNITS);
+
+  if (computeUnits > MAX_COMPUTE_UNITS) {
+    return false;
+  }
+
+  // Size with placeholder blockhash and signatures; both are fixed length
+  const transaction = new Transaction({
+    feePayer: params.payer.publicKey,
+    recentBlockhash: PublicKey.default.toBase58(),
+  }).add(...instructions);
+  const size = transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).length;
+
+  return size <= PACKET_DATA_SIZE;
+}
+
+async function findMissingTokenAccounts(
+  connection: Connection,
+  mint: PublicKey,
+  items: MintItem[]
+): Promise<Set<string>> {
+  const addresses = items.map(item => getAssociatedTokenAddressSync(mint, item.recipient));
+  const accounts = await connection.getMultipleAccountsInfo(addresses, 'confirmed');
+
+  return new Set(addresses.filter((_, i) => accounts[i] === null).map(address => address.toBase58()));
+}
@@ -0,0 +1,27 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { MintingConfig } from '@omnifit/shared';
+import { logger } from '../utils/logger';
+
+const DEFAULT_MINTING_CONFIG: MintingConfig = {
+  batchSize: 10,
+  processingInterval: 30000,
+  maxRetries: 3,
+  minimumMintAmount: 1,
+  maximumMintAmount: 10000,
+};
+
+/**
+ * The mintingConfig section of rewards.config.json, falling back to defaults
+ */
+export function loadMintingConfig(): MintingConfig {
+  const configPath = process.env.REWARDS_CONFIG_PATH || path.join(process.cwd(), 'rewards.config.json');
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    return { ...DEFAULT_MINTING_CONFIG, ...raw.mintingConfig };
+  } catch (error) {
+    logger.warn(`Could not read mintingConfig from ${configPath}, using defaults`);
+    return DEFAULT_MINTING_CONFIG;
+  }
+}
@@ -1,6 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import { TokenService } from './token.service';
 import { WalletService } from './wallet.service';
+import { LedgerService } from './ledger.service';
 import { logger } from '../utils/logger';
 import type { Reward, User } from '@omnifit/shared';
 
@@ -8,11 +9,13 @@ export class RewardService {
   private prisma: PrismaClient;
   private tokenService: TokenService;
   private walletService: WalletService;
+  private ledgerService: LedgerService;
 
   constructor(network: string = 'devnet') {
     this.prisma = new PrismaClient();
     this.tokenService = new TokenService(network);
     this.walletService = new WalletService(network);
+    this.ledgerService = new LedgerService(network, this.prisma);
   }
 
   async distributeReward(
@@ -57,36 +60,30 @@ export class RewardService {
           const result = await this.tokenService.mintTokens(user.walletAddress, amount);
           signature = result.signature;
 
-          // Update reward status
-          await this.prisma.reward.update({
-            where: { id: reward.id },
-            data: {
-              status: 'APPROVED',
-              claimedAt: new Date(),
-            },
-          });
-
-          // Update user's token balance
-          await this.prisma.userProfile.update({
-            where: { userId },
-            data: {
-              totalTokens: {
-                increment: amount,
+          await this.prisma.$transaction(async tx => {
+            // Already minted, so the reward must not be claimable again
+            await tx.reward.update({
+              where: { id: reward.id },
+              data: {
+                status: 'CLAIMED',
+                claimedAt: new Date(),
               },
-            },
-          });
-
-          // Create transaction record
-          await this.prisma.transaction.create({
-            data: {
-              userId,
-              type: 'REWARD',
-              amount,
-              toAddress: user.walletAddress,
-              signature,
-              status: 'CONFIRMED',
-              confirmedAt: new Date(),
-            },
+            });
+
+            await this.ledgerService.recordRewardMinted(tx, reward, 'ISSUANCE');
+
+            // Create transaction record
+            await tx.transaction.create({
+              data: {
+                userId,
+                type: 'REWARD',
+                amount,
+                toAddress: user.walletAddress,
+                signature,
+                status: 'CONFIRMED',
+                confirmedAt: new Date(),
+              },
+            });
           });
 
           logger.info(`Distributed ${amount} OMF tokens to ${user.walletAddress}. Signature: ${signature}`);
@@ -144,36 +141,30 @@ export class RewardService {
             reward.amount
           );
 
-          // Update reward status
-          await this.prisma.reward.update({
-            where: { id: reward.id },
-            data: {
-              status: 'APPROVED',
-              claimedAt: new Date(),
-            },
-          });
-
-          // Update user's token balance
-          await this.prisma.userProfile.update({
-            where: { userId: reward.userId },
-            data: {
-              totalTokens: {
-                increment: reward.amount,
+          await this.prisma.$transaction(async tx => {
+            // Already minted, so the reward must not be claimable again
+            await tx.reward.update({
+              where: { id: reward.id },
+              data: {
+                status: 'CLAIMED',
+                claimedAt: new Date(),
               },
-            },
-          });
-
-          // Create transaction record
-          await this.prisma.transaction.create({
-            data: {
-              userId: reward.userId,
-              type: 'REWARD',
-              amount: reward.amount,
-              toAddress: reward.user.walletAddress,
-              signature: result.signature,
-              status: 'CONFIRMED',
-              confirmedAt: new Date(),
-            },
+            });
+
+            await this.ledgerService.recordRewardMinted(tx, reward, 'ISSUANCE');
+
+            // Create transaction record
+            await tx.transaction.create({
+              data: {
+                userId: reward.userId,
+                type: 'REWARD',
+                amount: reward.amount,
+                toAddress: reward.user.walletAddress,
+                signature: result.signature,
+                status: 'CONFIRMED',
+                confirmedAt: new Date(),
+              },
+            });
           });
 
           successful++;
@@ -240,36 +231,31 @@ export class RewardService {
       // Mint tokens to user's wallet
       const result = await this.tokenService.mintTokens(userWalletAddress, reward.amount);
 
-      // Update reward as claimed
-      await this.prisma.reward.update({
-        where: { id: rewardId },
-        data: {
-          status: 'CLAIMED',
-          claimedAt: new Date(),
-        },
-      });
-
-      // Update user's token balance
-      await this.prisma.userProfile.update({
-        where: { userId: reward.userId },
-        data: {
-          totalTokens: {
-            increment: reward.amount,
+      await this.prisma.$transaction(async tx => {
+        // Update reward as claimed
+        await tx.reward.update({
+          where: { id: rewardId },
+          data: {
+            status: 'CLAIMED',
+            claimedAt: new Date(),
           },
-        },
-      });
+        });
 
-      // Create transaction record
-      await this.prisma.transaction.create({
-        data: {
-          userId: reward.userId,
-          type: 'CLAIM',
-          amount: reward.amount,
-          toAddress: userWalletAddress,
-          signature: result.signature,
-          status: 'CONFIRMED',
-          confirmedAt: new Date(),
-        },
+        // Approved rewards were posted as earned when they were issued
+        await this.ledgerService.recordRewardMinted(tx, reward, 'EARNED');
+
+        // Create transaction record
+        await tx.transaction.create({
+          data: {
+            userId: reward.userId,
+            type: 'CLAIM',
+            amount: reward.amount,
+            toAddress: userWalletAddress,
+            signature: result.signature,
+            status: 'CONFIRMED',
+            confirmedAt: new Date(),
+          },
+        });
       });
 
       logger.info(`Reward ${rewardId} claimed: ${reward.amount} OMF → ${userWalletAddress}`);
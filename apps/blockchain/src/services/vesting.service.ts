@@ -0,0 +1,348 @@
+import * as fs from 'fs';
+import { Cluster, Connection, Keypair, PublicKey, clusterApiUrl } from '@solana/web3.js';
+import { PrismaClient } from '@prisma/client';
+import { VESTING_CONFIG, getVestingBalance, validateVestingSchedule } from '@omnifit/shared';
+import type { VestingCategory } from '@omnifit/shared';
+import { VestingClient } from '../../solana-scripts/anchor-client/vesting-client';
+import { logger } from '../utils/logger';
+
+const CLI_ACTOR = 'cli';
+
+export interface CreateVestingScheduleOptions {
+  beneficiaryWallet: string;
+  category: VestingCategory;
+  totalAmount: number;
+  cliffDays?: number;
+  durationDays?: number;
+  startAt?: Date;
+  notes?: string;
+}
+
+export interface VestingProcessResult {
+  funded: number;
+  released: number;
+  revoked: number;
+  failed: number;
+}
+
+/**
+ * Carries out vesting schedules on chain. Admins create schedules and queue
+ * releases and revocations in the backend; this service funds PENDING
+ * schedules from the vesting authority's token account, executes the queued
+ * releases and revocations, and keeps the rows in step with the program.
+ */
+export class VestingService {
+  private prisma: PrismaClient;
+  private client: VestingClient;
+  private authority: Keypair;
+
+  constructor(network: string = 'devnet', prisma?: PrismaClient) {
+    this.prisma = prisma || new PrismaClient();
+
+    const programId = process.env.VESTING_PROGRAM_ID;
+    const mintAddress = process.env.TOKEN_MINT_ADDRESS;
+    if (!programId || !mintAddress) {
+      throw new Error('VESTING_PROGRAM_ID and TOKEN_MINT_ADDRESS environment variables required');
+    }
+
+    const keypairPath = process.env.VESTING_AUTHORITY_KEYPAIR_PATH;
+    if (!keypairPath || !fs.existsSync(keypairPath)) {
+      throw new Error('VESTING_AUTHORITY_KEYPAIR_PATH must point to the vesting authority keypair');
+    }
+    this.authority = Keypair.fromSecretKey(Uint8Array.from(JSON.parse(fs.readFileSync(keypairPath, 'utf-8'))));
+
+    const connection = new Connection(process.env.SOLANA_RPC_URL || clusterApiUrl(network as Cluster), 'confirmed');
+    this.client = new VestingClient(connection, programId, mintAddress);
+  }
+
+  /**
+   * Record a schedule and fund it on chain
+   */
+  async createSchedule(options: CreateVestingScheduleOptions) {
+    const defaults = VESTING_CONFIG.CATEGORIES[options.category];
+    if (!defaults) {
+      throw new Error(`Unknown vesting category: ${options.category}`);
+    }
+
+    const cliffDays = options.cliffDays ?? defaults.cliffDays;
+    const durationDays = options.durationDays ?? defaults.durationDays;
+    const error = validateVestingSchedule(options.totalAmount, cliffDays, durationDays);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const beneficiaryWallet = new PublicKey(options.beneficiaryWallet).toBase58();
+    const beneficiary = await this.prisma.user.findUnique({
+      where: { walletAddress: beneficiaryWallet },
+      select: { id: true },
+    });
+
+    const schedule = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.vestingSchedule.create({
+        data: {
+          beneficiaryId: beneficiary?.id,
+          beneficiaryWallet,
+          category: options.category,
+          totalAmount: options.totalAmount,
+          startAt: options.startAt ?? new Date(),
+          cliffDays,
+          durationDays,
+          notes: options.notes,
+          createdBy: CLI_ACTOR,
+        },
+      });
+
+      await this.audit(tx, 'vesting_schedule_created', created.id, {
+        beneficiaryWallet,
+        category: created.category,
+        totalAmount: created.totalAmount,
+        cliffDays,
+        durationDays,
+      });
+
+      return created;
+    });
+
+    return await this.fundSchedule(schedule.id);
+  }
+
+  /**
+   * Fund a PENDING schedule. The program account is derived from the
+   * schedule id, so a schedule funded before a crash is picked up, not
+   * funded twice.
+   */
+  async fundSchedule(scheduleId: string) {
+    const schedule = await this.requireSchedule(scheduleId);
+    if (schedule.status !== 'PENDING') {
+      throw new Error(`Vesting schedule ${scheduleId} is ${schedule.status}`);
+    }
+
+    const address = this.client.getVestingAccountAddress(this.authority.publicKey, schedule.id);
+    let signature: string | null = null;
+
+    if (!(await this.client.getVestingSchedule(address))) {
+      const result = await this.client.createVestingSchedule(
+        this.authority,
+        schedule.id,
+        new PublicKey(schedule.beneficiaryWallet),
+        schedule.totalAmount,
+        schedule.category as VestingCategory,
+        { cliffDays: schedule.cliffDays, durationDays: schedule.durationDays, startAt: schedule.startAt }
+      );
+      signature = result.signature;
+    }
+
+    const funded = await this.prisma.vestingSchedule.update({
+      where: { id: schedule.id },
+      data: { status: 'ACTIVE', vestingAccount: address.toBase58(), createSignature: signature },
+    });
+
+    logger.info(`Vesting schedule ${schedule.id} funded: ${address.toBase58()}`);
+    return funded;
+  }
+
+  async listSchedules(filters: { status?: string; wallet?: string } = {}) {
+    const schedules = await this.prisma.vestingSchedule.findMany({
+      where: {
+        ...(filters.status && { status: filters.status as any }),
+        ...(filters.wallet && { beneficiaryWallet: filters.wallet }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return schedules.map(schedule => ({ ...schedule, balance: getVestingBalance(schedule) }));
+  }
+
+  /**
+   * Release what has vested on an active schedule, queueing the release
+   * first so the attempt is on record
+   */
+  async release(scheduleId: string, requestedBy: string = CLI_ACTOR) {
+    const schedule = await this.requireSchedule(scheduleId);
+    if (schedule.status !== 'ACTIVE') {
+      throw new Error(`Vesting schedule ${scheduleId} is ${schedule.status}`);
+    }
+
+    const pending = await this.prisma.vestingRelease.findFirst({
+      where: { scheduleId, status: 'PENDING' },
+    });
+    if (!pending && getVestingBalance(schedule).claimable <= 0) {
+      throw new Error(`Nothing has vested on schedule ${scheduleId} since the last release`);
+    }
+
+    const release = pending ?? await this.prisma.vestingRelease.create({
+      data: { scheduleId, amount: getVestingBalance(schedule).claimable, requestedBy },
+    });
+
+    return await this.executeRelease(release.id);
+  }
+
+  /**
+   * Revoke a schedule and carry it out on chain. Already revoked schedules
+   * (e.g. by an admin in the backend) are only executed.
+   */
+  async revoke(scheduleId: string, reason: string) {
+    const schedule = await this.requireSchedule(scheduleId);
+
+    if (schedule.status !== 'REVOKED') {
+      if (!['PENDING', 'ACTIVE'].includes(schedule.status)) {
+        throw new Error(`Vesting schedule ${scheduleId} is ${schedule.status}`);
+      }
+
+      const revokedAt = new Date();
+      await this.prisma.$transaction(async (tx) => {
+        await tx.vestingSchedule.update({
+          where: { id: scheduleId },
+          data: { status: 'REVOKED', revokedAt, revokedBy: CLI_ACTOR, revokeReason: reason },
+        });
+        await tx.vestingRelease.updateMany({
+          where: { scheduleId, status: 'PENDING' },
+          data: { status: 'CANCELLED', error: 'Schedule revoked' },
+        });
+
+        await this.audit(tx, 'vesting_schedule_revoked', scheduleId, {
+          reason,
+          ...getVestingBalance({ ...schedule, revokedAt }),
+        });
+      });
+    }
+
+    return await this.executeRevocation(scheduleId);
+  }
+
+  /**
+   * Fund pending schedules, then execute queued releases and revocations
+   */
+  async processPending(): Promise<VestingProcessResult> {
+    const result: VestingProcessResult = { funded: 0, released: 0, revoked: 0, failed: 0 };
+
+    const run = async (label: string, id: string, action: () => Promise<unknown>, counter: keyof VestingProcessResult) => {
+      try {
+        await action();
+        result[counter]++;
+      } catch (error) {
+        result.failed++;
+        logger.error(`Failed to ${label} ${id}:`, error);
+      }
+    };
+
+    const pendingSchedules = await this.prisma.vestingSchedule.findMany({
+      where: { status: 'PENDING' },
+      select: { id: true },
+    });
+    for (const { id } of pendingSchedules) {
+      await run('fund vesting schedule', id, () => this.fundSchedule(id), 'funded');
+    }
+
+    const pendingReleases = await this.prisma.vestingRelease.findMany({
+      where: { status: 'PENDING', schedule: { status: 'ACTIVE' } },
+      select: { id: true },
+    });
+    for (const { id } of pendingReleases) {
+      await run('execute vesting release', id, () => this.executeRelease(id), 'released');
+    }
+
+    const revocations = await this.prisma.vestingSchedule.findMany({
+      where: { status: 'REVOKED', revokeSignature: null, vestingAccount: { not: null } },
+      select: { id: true },
+    });
+    for (const { id } of revocations) {
+      await run('revoke vesting schedule', id, () => this.executeRevocation(id), 'revoked');
+    }
+
+    return result;
+  }
+
+  private async executeRelease(releaseId: string) {
+    const release = await this.prisma.vestingRelease.findUniqueOrThrow({
+      where: { id: releaseId },
+      include: { schedule: true },
+    });
+    const vestingAccount = new PublicKey(release.schedule.vestingAccount!);
+
+    try {
+      const signature = await this.client.releaseVestedTokens(this.authority, vestingAccount);
+      const onChain = await this.client.getVestingSchedule(vestingAccount);
+      const releasedAmount = onChain?.releasedAmount ?? release.schedule.releasedAmount;
+
+      return await this.prisma.$transaction(async (tx) => {
+        const completed = await tx.vestingRelease.update({
+          where: { id: releaseId },
+          data: {
+            status: 'CONFIRMED',
+            amount: releasedAmount - release.schedule.releasedAmount,
+            signature,
+            executedAt: new Date(),
+          },
+        });
+
+        await tx.vestingSchedule.update({
+          where: { id: release.scheduleId },
+          data: {
+            releasedAmount,
+            ...(releasedAmount >= release.schedule.totalAmount && { status: 'COMPLETED' }),
+          },
+        });
+
+        logger.info(`Released ${completed.amount} vested tokens for schedule ${release.scheduleId}: ${signature}`);
+        return completed;
+      });
+    } catch (error) {
+      await this.prisma.vestingRelease.update({
+        where: { id: releaseId },
+        data: { status: 'FAILED', error: error instanceof Error ? error.message : String(error), executedAt: new Date() },
+      });
+      throw error;
+    }
+  }
+
+  private async executeRevocation(scheduleId: string) {
+    const schedule = await this.requireSchedule(scheduleId);
+    if (!schedule.vestingAccount || schedule.revokeSignature) {
+      // Never funded, or already carried out
+      return schedule;
+    }
+
+    const vestingAccount = new PublicKey(schedule.vestingAccount);
+    const signature = await this.client.revokeVestingSchedule(
+      this.authority,
+      vestingAccount,
+      schedule.revokeReason ?? 'revoked'
+    );
+    const onChain = await this.client.getVestingSchedule(vestingAccount);
+
+    const revoked = await this.prisma.vestingSchedule.update({
+      where: { id: scheduleId },
+      data: { revokeSignature: signature, releasedAmount: onChain?.releasedAmount ?? schedule.releasedAmount },
+    });
+
+    await this.audit(this.prisma, 'vesting_revocation_executed', scheduleId, {
+      signature,
+      releasedAmount: revoked.releasedAmount,
+      returnedAmount: revoked.totalAmount - revoked.releasedAmount,
+    });
+
+    logger.info(`Vesting schedule ${scheduleId} revoked on chain: ${signature}`);
+    return revoked;
+  }
+
+  private async requireSchedule(scheduleId: string) {
+    const schedule = await this.prisma.vestingSchedule.findUnique({ where: { id: scheduleId } });
+    if (!schedule) {
+      throw new Error(`Vesting schedule ${scheduleId} not found`);
+    }
+    return schedule;
+  }
+
+  private async audit(client: any, action: string, scheduleId: string, details: Record<string, unknown>) {
+    await client.auditLog.create({
+      data: {
+        userId: null,
+        action,
+        resource: 'vesting_schedule',
+        resourceId: scheduleId,
+        details: { ...details, actor: CLI_ACTOR },
+      },
+    });
+  }
+}
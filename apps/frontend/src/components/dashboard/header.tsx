@@ -28,7 +28,7 @@ export function Header() {
           
           <div className="flex items-center gap-2">
             <span className="text-sm text-muted-foreground">
-              {user?.email}
+              {user?.email ?? user?.username}
             </span>
             <Button variant="ghost" onClick={logout}>
               Logout
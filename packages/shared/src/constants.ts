@@ -12,54 +12,30 @@ export const TOKEN_CONFIG = {
   INITIAL_PRICE: 0.01, // $0.01 USD
 } as const;
 
-// Reward System Constants
-export const REWARD_CONFIG = {
-  // Base token amounts per activity minute
-  FITNESS_BASE_RATE: 2, // tokens per minute
-  SPIRITUAL_BASE_RATE: 3, // tokens per minute
-  
-  // Multipliers
-  INTENSITY_MULTIPLIERS: {
-    LOW: 0.8,
-    MEDIUM: 1.0,
-    HIGH: 1.3,
-    VERY_HIGH: 1.5,
-  },
-  
-  MOOD_MULTIPLIERS: {
-    VERY_LOW: 0.8,
-    LOW: 0.9,
-    NEUTRAL: 1.0,
-    GOOD: 1.2,
-    VERY_GOOD: 1.4,
-  },
-  
-  // Streak bonuses
-  STREAK_MULTIPLIERS: {
-    WEEK_1: 1.1, // 10% bonus
-    WEEK_2: 1.2, // 20% bonus
-    MONTH_1: 1.3, // 30% bonus
-    MONTH_2: 1.5, // 50% bonus
-    MONTH_3: 1.8, // 80% bonus
-    YEAR_1: 2.0, // 100% bonus
-  },
-  
-  // Milestone rewards (fixed amounts)
-  MILESTONES: {
-    FIRST_WORKOUT: 100,
-    FIRST_MEDITATION: 100,
-    WEEK_STREAK: 250,
-    MONTH_STREAK: 1000,
-    LEVEL_UP_BASE: 500, // multiplied by level
-    PERSONAL_RECORD: 200,
+// Defaults for the staking program; the deployed pool's settings take precedence
+export const STAKING_CONFIG = {
+  MINIMUM_STAKE: 100, // tokens
+  LOCKUP_PERIODS: [30, 90, 180, 365], // days
+  REWARD_RATES: [0.05, 0.08, 0.12, 0.2], // APY for the matching lockup period
+} as const;
+
+// Default cliff and total vesting length (days) per allocation category; a
+// schedule can override both
+export const VESTING_CONFIG = {
+  CATEGORIES: {
+    team: { cliffDays: 365, durationDays: 1460 },
+    advisors: { cliffDays: 180, durationDays: 730 },
+    partner: { cliffDays: 90, durationDays: 730 },
+    community: { cliffDays: 0, durationDays: 365 },
+    treasury: { cliffDays: 0, durationDays: 1095 },
   },
-  
-  // Limits
-  MAX_DAILY_TOKENS: 1000,
-  MAX_ACTIVITY_DURATION: 480, // 8 hours in minutes
-  MIN_ACTIVITY_DURATION: 1, // 1 minute
+  MAX_DURATION_DAYS: 3650,
 } as const;
 
+// Reward economics (base rewards, multipliers, streak bonuses, caps) are not
+// constants: they live in the versioned reward policy, seeded from
+// rewards.config.json. See RewardPolicyConfig.
+
 // User Levels and Experience
 export const LEVEL_CONFIG = {
   BASE_XP: 1000, // XP needed for level 2
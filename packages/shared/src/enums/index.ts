@@ -94,7 +94,8 @@ export enum RewardStatus {
   APPROVED = 'APPROVED',
   CLAIMED = 'CLAIMED',
   EXPIRED = 'EXPIRED',
-  REJECTED = 'REJECTED'
+  REJECTED = 'REJECTED',
+  REVERSED = 'REVERSED'
 }
 
 export enum StreakType {
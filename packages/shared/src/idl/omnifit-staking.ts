@@ -0,0 +1,146 @@
+/**
+ * IDL of the OmniFit staking program (Anchor 0.29 format)
+ *
+ * PDAs:
+ *   pool          ["stake_pool", mint]
+ *   vault         ["stake_vault", pool]     staked tokens
+ *   reward vault  ["reward_vault", pool]    funded by the pool authority
+ *   stake         ["stake", pool, owner, stakeId as u64 LE]
+ *
+ * Amounts are base units. Rewards accrue per calculateStakingRewards and
+ * stop at unlockAt; unstake pays principal and unclaimed rewards and closes
+ * the stake account.
+ */
+
+export const STAKING_SEEDS = {
+  POOL: 'stake_pool',
+  VAULT: 'stake_vault',
+  REWARD_VAULT: 'reward_vault',
+  STAKE: 'stake',
+} as const;
+
+// Byte offset of StakeAccount.owner, after the 8-byte account discriminator
+export const STAKE_ACCOUNT_OWNER_OFFSET = 8;
+
+export const STAKING_IDL = {
+  version: '0.1.0',
+  name: 'omnifit_staking',
+  instructions: [
+    {
+      name: 'initializePool',
+      accounts: [
+        { name: 'pool', isMut: true, isSigner: false },
+        { name: 'mint', isMut: false, isSigner: false },
+        { name: 'vault', isMut: true, isSigner: false },
+        { name: 'rewardVault', isMut: true, isSigner: false },
+        { name: 'authority', isMut: true, isSigner: true },
+        { name: 'systemProgram', isMut: false, isSigner: false },
+        { name: 'tokenProgram', isMut: false, isSigner: false },
+        { name: 'rent', isMut: false, isSigner: false },
+      ],
+      args: [
+        { name: 'minimumStake', type: 'u64' },
+        { name: 'lockupOptions', type: { vec: { defined: 'LockupOption' } } },
+      ],
+    },
+    {
+      name: 'stake',
+      accounts: [
+        { name: 'pool', isMut: true, isSigner: false },
+        { name: 'stakeAccount', isMut: true, isSigner: false },
+        { name: 'vault', isMut: true, isSigner: false },
+        { name: 'ownerTokenAccount', isMut: true, isSigner: false },
+        { name: 'owner', isMut: true, isSigner: true },
+        { name: 'systemProgram', isMut: false, isSigner: false },
+        { name: 'tokenProgram', isMut: false, isSigner: false },
+      ],
+      args: [
+        { name: 'stakeId', type: 'u64' },
+        { name: 'amount', type: 'u64' },
+        { name: 'lockupDays', type: 'u16' },
+      ],
+    },
+    {
+      name: 'claimRewards',
+      accounts: [
+        { name: 'pool', isMut: true, isSigner: false },
+        { name: 'stakeAccount', isMut: true, isSigner: false },
+        { name: 'rewardVault', isMut: true, isSigner: false },
+        { name: 'ownerTokenAccount', isMut: true, isSigner: false },
+        { name: 'owner', isMut: false, isSigner: true },
+        { name: 'tokenProgram', isMut: false, isSigner: false },
+      ],
+      args: [],
+    },
+    {
+      name: 'unstake',
+      accounts: [
+        { name: 'pool', isMut: true, isSigner: false },
+        { name: 'stakeAccount', isMut: true, isSigner: false },
+        { name: 'vault', isMut: true, isSigner: false },
+        { name: 'rewardVault', isMut: true, isSigner: false },
+        { name: 'ownerTokenAccount', isMut: true, isSigner: false },
+        { name: 'owner', isMut: true, isSigner: true },
+        { name: 'tokenProgram', isMut: false, isSigner: false },
+      ],
+      args: [],
+    },
+  ],
+  accounts: [
+    {
+      name: 'StakePool',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'authority', type: 'publicKey' },
+          { name: 'mint', type: 'publicKey' },
+          { name: 'vault', type: 'publicKey' },
+          { name: 'rewardVault', type: 'publicKey' },
+          { name: 'minimumStake', type: 'u64' },
+          { name: 'lockupOptions', type: { vec: { defined: 'LockupOption' } } },
+          { name: 'totalStaked', type: 'u64' },
+          { name: 'totalStakers', type: 'u64' },
+          { name: 'totalRewardsPaid', type: 'u64' },
+          { name: 'bump', type: 'u8' },
+        ],
+      },
+    },
+    {
+      name: 'StakeAccount',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'owner', type: 'publicKey' },
+          { name: 'pool', type: 'publicKey' },
+          { name: 'stakeId', type: 'u64' },
+          { name: 'amount', type: 'u64' },
+          { name: 'lockupDays', type: 'u16' },
+          { name: 'rateBps', type: 'u16' },
+          { name: 'stakedAt', type: 'i64' },
+          { name: 'unlockAt', type: 'i64' },
+          { name: 'rewardsClaimed', type: 'u64' },
+          { name: 'bump', type: 'u8' },
+        ],
+      },
+    },
+  ],
+  types: [
+    {
+      name: 'LockupOption',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'days', type: 'u16' },
+          { name: 'rateBps', type: 'u16' }, // APY in basis points
+        ],
+      },
+    },
+  ],
+  errors: [
+    { code: 6000, name: 'UnsupportedLockup', msg: 'Lockup period is not offered by this pool' },
+    { code: 6001, name: 'BelowMinimumStake', msg: 'Amount is below the minimum stake' },
+    { code: 6002, name: 'StillLocked', msg: 'Stake is still within its lockup period' },
+    { code: 6003, name: 'NothingToClaim', msg: 'No rewards have accrued since the last claim' },
+    { code: 6004, name: 'RewardVaultEmpty', msg: 'Reward vault cannot cover the payout' },
+  ],
+};
@@ -0,0 +1,100 @@
+/**
+ * IDL of the OmniFit vesting program (Anchor 0.29 format)
+ *
+ * PDAs:
+ *   schedule  ["vesting_schedule", authority, scheduleId]   scheduleId is the backend schedule id
+ *   vault     ["vesting_vault", schedule]                   tokens still to be released
+ *
+ * Amounts are base units, released in whole tokens per calculateVestedAmount.
+ * release is permissionless and always pays the beneficiary's token account.
+ * revoke (authority only) pays out what has vested, returns the rest to the
+ * authority's token account and stops the schedule.
+ */
+
+export const VESTING_SEEDS = {
+  SCHEDULE: 'vesting_schedule',
+  VAULT: 'vesting_vault',
+} as const;
+
+// Byte offset of VestingAccount.beneficiary, after the discriminator and authority
+export const VESTING_ACCOUNT_BENEFICIARY_OFFSET = 40;
+
+export const VESTING_IDL = {
+  version: '0.1.0',
+  name: 'omnifit_vesting',
+  instructions: [
+    {
+      name: 'createSchedule',
+      accounts: [
+        { name: 'schedule', isMut: true, isSigner: false },
+        { name: 'vault', isMut: true, isSigner: false },
+        { name: 'mint', isMut: false, isSigner: false },
+        { name: 'beneficiary', isMut: false, isSigner: false },
+        { name: 'authority', isMut: true, isSigner: true },
+        { name: 'authorityTokenAccount', isMut: true, isSigner: false },
+        { name: 'systemProgram', isMut: false, isSigner: false },
+        { name: 'tokenProgram', isMut: false, isSigner: false },
+        { name: 'rent', isMut: false, isSigner: false },
+      ],
+      args: [
+        { name: 'scheduleId', type: 'string' },
+        { name: 'totalAmount', type: 'u64' },
+        { name: 'startTs', type: 'i64' },
+        { name: 'cliffDays', type: 'u16' },
+        { name: 'durationDays', type: 'u16' },
+      ],
+    },
+    {
+      name: 'release',
+      accounts: [
+        { name: 'schedule', isMut: true, isSigner: false },
+        { name: 'vault', isMut: true, isSigner: false },
+        { name: 'beneficiaryTokenAccount', isMut: true, isSigner: false },
+        { name: 'payer', isMut: false, isSigner: true },
+        { name: 'tokenProgram', isMut: false, isSigner: false },
+      ],
+      args: [],
+    },
+    {
+      name: 'revoke',
+      accounts: [
+        { name: 'schedule', isMut: true, isSigner: false },
+        { name: 'vault', isMut: true, isSigner: false },
+        { name: 'beneficiaryTokenAccount', isMut: true, isSigner: false },
+        { name: 'authorityTokenAccount', isMut: true, isSigner: false },
+        { name: 'authority', isMut: false, isSigner: true },
+        { name: 'tokenProgram', isMut: false, isSigner: false },
+      ],
+      args: [],
+    },
+  ],
+  accounts: [
+    {
+      name: 'VestingAccount',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'authority', type: 'publicKey' },
+          { name: 'beneficiary', type: 'publicKey' },
+          { name: 'mint', type: 'publicKey' },
+          { name: 'vault', type: 'publicKey' },
+          { name: 'totalAmount', type: 'u64' },
+          { name: 'releasedAmount', type: 'u64' },
+          { name: 'startTs', type: 'i64' },
+          { name: 'cliffDays', type: 'u16' },
+          { name: 'durationDays', type: 'u16' },
+          { name: 'revokedAt', type: 'i64' }, // 0 while active
+          { name: 'scheduleId', type: 'string' },
+          { name: 'bump', type: 'u8' },
+        ],
+      },
+    },
+  ],
+  errors: [
+    { code: 6000, name: 'InvalidSchedule', msg: 'Cliff must not exceed a positive vesting duration' },
+    { code: 6001, name: 'InvalidAmount', msg: 'Vesting amount must be a positive whole number of tokens' },
+    { code: 6002, name: 'NothingToRelease', msg: 'No vested tokens are waiting to be released' },
+    { code: 6003, name: 'ScheduleRevoked', msg: 'Vesting schedule has been revoked' },
+    { code: 6004, name: 'Unauthorized', msg: 'Only the schedule authority can revoke it' },
+  ],
+};
@@ -3,4 +3,9 @@ export * from './types';
 export * from './constants';
 export * from './schemas';
 export * from './utils';
-export * from './enums';
\ No newline at end of file
+export * from './permissions';
+export { SignatureVerifier } from './signatureVerifier';
+export type { ClaimMessageParams, SignInMessageParams } from './signatureVerifier';
+export * from './enums';
+export * from './idl/omnifit-staking';
+export * from './idl/omnifit-vesting';
\ No newline at end of file
@@ -0,0 +1,58 @@
+/**
+ * OmniFit Permissions
+ * What each role may do. The backend guard and the AI service middleware
+ * both check against this matrix, so a role change is made here only.
+ */
+
+import type { UserRole } from './types';
+
+export const PERMISSIONS = [
+  // Rewards administration
+  'rewards:read',
+  'rewards:approve', // approve, reject and reverse mints
+  'rewards:manage', // rules, policy, emission budgets and the reward queue
+
+  // Partners
+  'partners:review',
+  'redemptions:fulfill',
+
+  // Users and security
+  'sessions:manage',
+  'wallets:audit',
+
+  // Treasury
+  'vesting:read',
+  'vesting:manage',
+
+  // AI service
+  'social:publish',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  'rewards:read',
+  'rewards:approve',
+  'rewards:manage',
+  'partners:review',
+  'sessions:manage',
+  'wallets:audit',
+  'vesting:read',
+  'vesting:manage',
+  'social:publish',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  USER: [],
+  PARTNER: ['redemptions:fulfill'],
+  ADMIN: ADMIN_PERMISSIONS,
+  SUPER_ADMIN: PERMISSIONS,
+};
+
+export function hasPermission(role: UserRole | string | undefined, permission: Permission): boolean {
+  return !!role && (ROLE_PERMISSIONS[role as UserRole] ?? []).includes(permission);
+}
+
+export function hasAllPermissions(role: UserRole | string | undefined, permissions: readonly Permission[]): boolean {
+  return permissions.every((permission) => hasPermission(role, permission));
+}
@@ -133,6 +133,37 @@ export const ApprovePartnerSchema = z.object({
   notes: z.string().max(500).optional(),
 });
 
+export const UpdatePartnerProfileSchema = CreatePartnerSchema.pick({
+  name: true,
+  description: true,
+  logo: true,
+  website: true,
+  contactPerson: true,
+}).partial();
+
+export const PartnerOfferSchema = CreatePartnerSchema.pick({
+  offerType: true,
+  offerDescription: true,
+  tokenRequirement: true,
+  maxRedemptions: true,
+  validUntil: true,
+});
+
+export const UpdatePartnerStatusSchema = z.object({
+  status: z.enum(['APPROVED', 'REJECTED', 'SUSPENDED']),
+  notes: z.string().max(500).optional(),
+});
+
+export const PartnerDiscoverySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  type: z.enum(['GYM', 'STUDIO', 'CHURCH', 'NONPROFIT', 'RETAILER', 'SERVICE']).optional(),
+  offerType: z.enum(['DISCOUNT', 'FREE_TRIAL', 'EXCLUSIVE_ACCESS', 'MERCHANDISE', 'SERVICE']).optional(),
+  minTokens: z.coerce.number().min(0).optional(),
+  maxTokens: z.coerce.number().min(0).optional(),
+  search: z.string().max(100).optional(),
+});
+
 // Reward schemas
 export const CreateRewardSchema = z.object({
   userId: IdSchema,
@@ -329,11 +360,13 @@ export const CreateRewardRuleSchema = z.object({
     streakCount: z.number().min(1).optional(),
     partnerApproved: z.boolean().optional(),
     timeOfDay: z.enum(['morning', 'afternoon', 'evening']).optional(),
-    dayOfWeek: z.array(z.number().min(0).max(6)).optional()
+    dayOfWeek: z.array(z.number().min(0).max(6)).optional(),
+    // Condition expression tree; validated in full by the backend
+    expression: z.record(z.any()).optional()
   }),
   baseAmount: z.number().min(1).max(10000),
   multiplierRules: z.array(z.object({
-    condition: z.string(),
+    condition: z.union([z.string(), z.record(z.any())]),
     multiplier: z.number().min(0.1).max(10),
     description: z.string()
   })).optional(),
@@ -345,6 +378,43 @@ export const CreateRewardRuleSchema = z.object({
 
 export const UpdateRewardRuleSchema = CreateRewardRuleSchema.partial();
 
+// Reward policy economics, see RewardPolicyConfig. Types missing from a
+// record fall back to no reward (or no multiplier) in the reward engine.
+const PolicyAmountSchema = z.number().int().min(0).max(10000);
+const PolicyMultiplierSchema = z.number().min(0.1).max(10);
+
+export const RewardPolicyConfigSchema = z.object({
+  baseRewards: z.record(EventTypeSchema, PolicyAmountSchema),
+  categoryMultipliers: z.record(EventCategorySchema, PolicyMultiplierSchema),
+  durationScaling: z.object({
+    referenceMinutes: z.number().int().min(1).max(480),
+    maxMultiplier: z.number().min(1).max(10)
+  }).strict(),
+  intensityScaling: z.object({
+    neutral: z.number().min(1).max(10)
+  }).strict(),
+  moodMultipliers: z.record(MoodLevelSchema.unwrap(), PolicyMultiplierSchema),
+  streakBonuses: z.record(z.string().regex(/^[1-9]\d*$/, 'Streak lengths must be whole days'), z.number().min(1).max(10)),
+  partnerBonuses: z.object({
+    approved: PolicyAmountSchema,
+    featured: PolicyAmountSchema
+  }).strict(),
+  dailyCaps: z.object({
+    individual: z.number().int().min(1),
+    total: z.number().int().min(1)
+  }).strict().refine((caps) => caps.individual <= caps.total, {
+    message: 'Individual cap cannot exceed the total cap',
+    path: ['individual']
+  }),
+  minimums: z.object({
+    duration: z.number().int().min(0).max(480),
+    intensity: z.number().int().min(0).max(10)
+  }).strict()
+}).strict();
+
+// Sections replace the live ones whole; sections left out are kept
+export const RewardPolicyConfigChangesSchema = RewardPolicyConfigSchema.partial();
+
 export const ApproveMintRequestSchema = z.object({
   notes: z.string().max(500).optional()
 });
@@ -390,6 +460,10 @@ export const schemas = {
   CreatePartner: CreatePartnerSchema,
   UpdatePartner: UpdatePartnerSchema,
   ApprovePartner: ApprovePartnerSchema,
+  UpdatePartnerProfile: UpdatePartnerProfileSchema,
+  PartnerOffer: PartnerOfferSchema,
+  UpdatePartnerStatus: UpdatePartnerStatusSchema,
+  PartnerDiscovery: PartnerDiscoverySchema,
   
   // Reward
   CreateReward: CreateRewardSchema,
@@ -433,6 +507,8 @@ export const schemas = {
   ClaimRewards: ClaimRewardsSchema,
   CreateRewardRule: CreateRewardRuleSchema,
   UpdateRewardRule: UpdateRewardRuleSchema,
+  RewardPolicyConfig: RewardPolicyConfigSchema,
+  RewardPolicyConfigChanges: RewardPolicyConfigChangesSchema,
   ApproveMintRequest: ApproveMintRequestSchema,
   RejectMintRequest: RejectMintRequestSchema,
   
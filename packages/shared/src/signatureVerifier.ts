@@ -26,8 +26,28 @@ export interface NonceChallenge {
   expiresAt: Date;
 }
 
+export interface ClaimMessageParams {
+  userId: string;
+  walletAddress: string;
+  rewardIds: string[];
+  tokenAmount: number;
+  nonce: string;
+  expiresAt: Date;
+}
+
+export interface SignInMessageParams {
+  domain: string;
+  uri: string;
+  publicKey: string;
+  chainId: string;
+  nonce: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
 export class SignatureVerifier {
   private static readonly MESSAGE_PREFIX = 'OmniFit Wallet Verification';
+  private static readonly CLAIM_MESSAGE_PREFIX = 'OmniFit Reward Claim';
   private static readonly NONCE_EXPIRY_MINUTES = 15;
 
   /**
@@ -61,6 +81,51 @@ WARNING: Only sign this message on the official OmniFit website.`;
     };
   }
 
+  /**
+   * Build the message a wallet signs to authorize minting a claim
+   * Binds the rewards, amount and destination wallet so a signature
+   * cannot be reused for a different claim
+   * @param params - The claim being authorized
+   * @returns string - The message to sign
+   */
+  static createClaimMessage(params: ClaimMessageParams): string {
+    const rewardIds = [...params.rewardIds].sort();
+
+    return `${this.CLAIM_MESSAGE_PREFIX}
+
+User ID: ${params.userId}
+Wallet: ${params.walletAddress}
+Amount: ${params.tokenAmount}
+Rewards: ${rewardIds.join(', ')}
+Nonce: ${params.nonce}
+Expires: ${params.expiresAt.toISOString()}
+
+Signing authorizes minting this amount to this wallet only.
+
+WARNING: Only sign this message on the official OmniFit website.`;
+  }
+
+  /**
+   * Build a Sign-In With Solana message for passwordless login
+   * Follows the SIWS layout so wallets can check the domain against the
+   * site asking for the signature, which stops other sites relaying it
+   * @param params - The domain, wallet and nonce being signed in
+   * @returns string - The message to sign
+   */
+  static createSignInMessage(params: SignInMessageParams): string {
+    return `${params.domain} wants you to sign in with your Solana account:
+${params.publicKey}
+
+Sign in to OmniFit. This will not trigger a blockchain transaction or cost any fees.
+
+URI: ${params.uri}
+Version: 1
+Chain ID: ${params.chainId}
+Nonce: ${params.nonce}
+Issued At: ${params.issuedAt.toISOString()}
+Expiration Time: ${params.expiresAt.toISOString()}`;
+  }
+
   /**
    * Verify a signed message against a public key
    * @param message - The original message that was signed
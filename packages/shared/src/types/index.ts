@@ -5,7 +5,7 @@
 
 export interface User {
   id: string;
-  email: string;
+  email: string | null; // null for accounts created with a wallet sign-in
   username: string;
   firstName?: string;
   lastName?: string;
@@ -99,6 +99,7 @@ export interface Partner {
   // Admin fields
   approvedBy?: string;
   approvedAt?: Date;
+  ownerId?: string; // user account that manages the partner
   createdAt: Date;
   updatedAt: Date;
 }
@@ -114,12 +115,17 @@ export interface Reward {
   status: RewardStatus;
   // Metadata
   sourceType: 'event' | 'streak' | 'milestone' | 'partner' | 'manual';
+  sourceId?: string;
+  ruleKey?: string;
   multiplier?: number;
   bonusReason?: string;
+  policyVersion?: number;
+  reversalReason?: string;
   // Timestamps
   earnedAt: Date;
   claimedAt?: Date;
   expiresAt?: Date;
+  reversedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -182,7 +188,7 @@ export interface AuthTokens {
 
 export interface AuthUser {
   id: string;
-  email: string;
+  email: string | null;
   username: string;
   role: UserRole;
   walletAddress?: string;
@@ -216,6 +222,7 @@ export interface Transaction {
   toAddress?: string;
   signature?: string;
   status: TransactionStatus;
+  metadata?: Record<string, any>;
   createdAt: Date;
   confirmedAt?: Date;
 }
@@ -253,7 +260,7 @@ export type PartnerType = 'GYM' | 'STUDIO' | 'CHURCH' | 'NONPROFIT' | 'RETAILER'
 export type PartnerStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'SUSPENDED' | 'ACTIVE';
 export type OfferType = 'DISCOUNT' | 'FREE_TRIAL' | 'EXCLUSIVE_ACCESS' | 'MERCHANDISE' | 'SERVICE';
 export type RewardType = 'ACTIVITY' | 'STREAK' | 'MILESTONE' | 'PARTNER_REFERRAL' | 'MANUAL';
-export type RewardStatus = 'PENDING' | 'APPROVED' | 'CLAIMED' | 'EXPIRED' | 'REJECTED';
+export type RewardStatus = 'PENDING' | 'APPROVED' | 'CLAIMED' | 'EXPIRED' | 'REJECTED' | 'REVERSED';
 export type StreakType = 'DAILY' | 'WEEKLY' | 'MONTHLY';
 export type NotificationType = 'REWARD' | 'STREAK' | 'PARTNER' | 'MILESTONE' | 'SOCIAL' | 'SYSTEM';
 export type TransactionType = 'REWARD' | 'CLAIM' | 'TRANSFER' | 'STAKE' | 'UNSTAKE';
@@ -342,6 +349,157 @@ export interface RewardCalculationResult {
   reasoning: string[];
 }
 
+// Reward policy: the single versioned definition of reward economics.
+// Seeded from rewards.config.json and stored in the reward_policies table.
+export interface RewardPolicyConfig {
+  baseRewards: Record<EventType, number>;
+  categoryMultipliers: Record<EventCategory, number>;
+  durationScaling: {
+    referenceMinutes: number; // duration that earns exactly the base reward
+    maxMultiplier: number;
+  };
+  intensityScaling: {
+    neutral: number; // intensity that earns exactly the base reward
+  };
+  moodMultipliers: Partial<Record<MoodLevel, number>>;
+  streakBonuses: Record<string, number>; // streak length -> multiplier
+  partnerBonuses: {
+    approved: number;
+    featured: number;
+  };
+  dailyCaps: {
+    individual: number; // per user per day
+    total: number;      // platform-wide per day
+  };
+  minimums: {
+    duration: number;
+    intensity: number;
+  };
+}
+
+// rewards.config.json mintingConfig, read by the blockchain mint workers
+export interface MintingConfig {
+  batchSize: number; // requests leased per pass, packed into as few transactions as fit
+  processingInterval: number; // ms between passes in monitor mode
+  maxRetries: number;
+  minimumMintAmount: number;
+  maximumMintAmount: number;
+}
+
+export type RewardPolicyStatus = 'DRAFT' | 'ACTIVE' | 'RETIRED';
+
+export interface RewardPolicy {
+  id: string;
+  version: number;
+  status: RewardPolicyStatus;
+  description?: string;
+  config: RewardPolicyConfig;
+  source: string;
+  createdBy?: string;
+  activatedBy?: string;
+  createdAt: Date;
+  activatedAt?: Date;
+  retiredAt?: Date;
+}
+
+// Token Ledger Types
+export type LedgerAccount =
+  | 'ISSUANCE'
+  | 'EARNED'
+  | 'PENDING_CLAIM'
+  | 'MINTED'
+  | 'STAKED'
+  | 'REDEEMED'
+  | 'DEBT';
+
+export type LedgerBalances = Record<LedgerAccount, number>;
+
+export interface LedgerEntryInput {
+  account: LedgerAccount;
+  amount: number; // signed; entries of a transaction sum to zero
+  userId?: string | null; // defaults to the transaction's user; null for ISSUANCE
+}
+
+// Staking Types
+export interface StakingTerms {
+  minimumStake: number; // tokens
+  lockupPeriods: number[]; // days
+  rewardRates: number[]; // APY for the matching lockup period
+}
+
+export interface StakePosition {
+  address: string; // stake account PDA
+  owner: string;
+  stakeId: number;
+  amount: number; // tokens
+  lockupDays: number;
+  apy: number;
+  stakedAt: Date;
+  unlockAt: Date;
+  rewardsClaimed: number;
+  claimableRewards: number;
+}
+
+// Redemption Types
+export type RedemptionStatus = 'RESERVED' | 'ISSUED' | 'USED' | 'EXPIRED' | 'CANCELLED';
+
+export type RedemptionSettlement = 'burn' | 'transfer';
+
+// rewards.config.json claimSignature
+export interface ClaimSignatureConfig {
+  required: boolean; // reject claims without a signed claim challenge
+  challengeMinutes: number; // how long a claim challenge can be signed and used
+}
+
+// rewards.config.json redemption
+export interface RedemptionConfig {
+  settlement: RedemptionSettlement; // burn the tokens, or transfer them to treasuryWallet
+  treasuryWallet: string | null;
+  reservationMinutes: number; // how long tokens stay reserved for the wallet to sign
+  codeValidityDays: number; // capped by the offer's validUntil
+}
+
+export interface Redemption {
+  id: string;
+  userId: string;
+  partnerId: string;
+  status: RedemptionStatus;
+  tokenAmount: number;
+  settlement: RedemptionSettlement;
+  walletAddress: string;
+  offerType: OfferType;
+  offerDescription: string;
+  signature?: string;
+  code?: string; // single-use, shown to the user once ISSUED
+  reservedUntil: Date;
+  codeExpiresAt?: Date;
+  issuedAt?: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+// Vesting Types
+export type VestingCategory = 'team' | 'advisors' | 'partner' | 'community' | 'treasury';
+
+export type VestingStatus = 'PENDING' | 'ACTIVE' | 'COMPLETED' | 'REVOKED';
+
+export interface VestingTerms {
+  totalAmount: number; // tokens
+  releasedAmount: number;
+  startAt: Date;
+  cliffDays: number;
+  durationDays: number;
+  revokedAt?: Date | null; // vesting stops here; the unvested rest returns to the treasury
+}
+
+export interface VestingBalance {
+  total: number;
+  vested: number;
+  released: number;
+  claimable: number; // vested but not yet released
+  locked: number; // not yet vested
+}
+
 // Mint Request Types
 export interface MintRequest {
   id: string;
@@ -351,9 +509,111 @@ export interface MintRequest {
   description: string;
   status: MintRequestStatus;
   rewardIds: string[];
+  debtOffset: number; // reward debt netted against this claim
   requestedAt: Date;
   mintSignature?: string;
   explorerUrl?: string;
+  attemptCount: number;
+  lastError?: string;
+}
+
+export interface MintRequestTransition {
+  id: string;
+  mintRequestId: string;
+  fromStatus?: MintRequestStatus;
+  toStatus: MintRequestStatus;
+  actor: string;
+  reason?: string;
+  createdAt: Date;
+}
+
+// One admin's sign-off on a mint request; the request is APPROVED once the
+// approval policy is satisfied
+export interface MintApproval {
+  id: string;
+  mintRequestId: string;
+  adminId: string;
+  adminRole: UserRole;
+  notes?: string;
+  createdAt: Date;
+}
+
+export interface MintApprovalTier {
+  minTokens: number; // applies to requests of at least this many tokens
+  approvals: number; // distinct admins required
+  requiredRole?: UserRole; // at least one approval must come from this role
+}
+
+// rewards.config.json approvalPolicy
+export interface MintApprovalPolicy {
+  tiers: MintApprovalTier[];
+  highRisk: {
+    riskScore: number; // requests scored above this need at least `approvals`
+    approvals: number;
+  };
+}
+
+export interface MintApprovalStatus {
+  required: number;
+  received: number;
+  requiredRole?: UserRole;
+  hasRequiredRole: boolean;
+  satisfied: boolean;
+}
+
+// rewards.config.json riskScoring. Each feature yields a signal from 0 to 1;
+// the claim's score is the weighted sum, capped at 1
+export interface RiskScoringConfig {
+  weights: Record<string, number>; // feature key -> weight; 0 disables a feature
+  reviewThreshold: number; // claims scored above this go to ADMIN_REVIEW
+}
+
+export interface RiskFeatureContribution {
+  feature: string;
+  value: number; // 0-1 signal from the extractor
+  weight: number;
+  contribution: number; // value * weight
+  detail: string; // why the extractor produced this value
+  error?: string; // set when the extractor failed and contributed nothing
+}
+
+export type RiskOutcome = 'APPROVED' | 'REJECTED';
+
+// Scored claim with its explanation, and the admin decision once made
+export interface RiskAssessment {
+  id: string;
+  mintRequestId: string;
+  userId: string;
+  score: number;
+  reviewThreshold: number;
+  flagged: boolean;
+  features: RiskFeatureContribution[];
+  reasoning: string;
+  outcome?: RiskOutcome;
+  outcomeBy?: string;
+  outcomeNotes?: string;
+  outcomeAt?: Date;
+  createdAt: Date;
+}
+
+export interface MintAttempt {
+  id: string;
+  mintRequestId: string;
+  attempt: number;
+  workerId: string;
+  status: MintAttemptStatus;
+  signature?: string;
+  lastValidBlockHeight?: number;
+  submittedAt?: Date;
+  errorMessage?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
+export enum MintAttemptStatus {
+  RUNNING = 'RUNNING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED'
 }
 
 export enum MintRequestStatus {
@@ -0,0 +1,99 @@
+import {
+  calculateStakingRewards,
+  calculateVestedAmount,
+  getCalendarDayBounds,
+  getZonedDateParts,
+  getZonedDayBounds,
+  getVestingBalance,
+  getZonedDayNumber,
+  resolveTimezone,
+  validateStake,
+  validateVestingSchedule,
+} from './index';
+
+describe('timezone utilities', () => {
+  it('should return the local day containing an instant', () => {
+    // 03:30 UTC on Oct 15 is still Oct 14 in New York
+    expect(getZonedDayBounds(new Date('2026-10-15T03:30:00Z'), 'America/New_York')).toEqual({
+      start: new Date('2026-10-14T04:00:00Z'),
+      end: new Date('2026-10-15T04:00:00Z'),
+    });
+  });
+
+  it('should handle days with a DST transition', () => {
+    const springForward = getZonedDayBounds(new Date('2026-03-08T12:00:00Z'), 'America/New_York');
+    const fallBack = getZonedDayBounds(new Date('2026-11-01T12:00:00Z'), 'America/New_York');
+
+    expect(springForward.end.getTime() - springForward.start.getTime()).toBe(23 * 60 * 60 * 1000);
+    expect(fallBack.end.getTime() - fallBack.start.getTime()).toBe(25 * 60 * 60 * 1000);
+  });
+
+  it('should read calendar dates from their UTC fields', () => {
+    expect(getCalendarDayBounds(new Date('2026-10-15'), 'Asia/Kolkata')).toEqual({
+      start: new Date('2026-10-14T18:30:00Z'),
+      end: new Date('2026-10-15T18:30:00Z'),
+    });
+  });
+
+  it('should give local wall-clock parts and day numbers', () => {
+    const instant = new Date('2026-10-15T23:30:00Z');
+
+    expect(getZonedDateParts(instant, 'Asia/Tokyo')).toMatchObject({ day: 16, hour: 8, dayOfWeek: 5 });
+    expect(getZonedDayNumber(instant, 'Asia/Tokyo') - getZonedDayNumber(instant, 'UTC')).toBe(1);
+  });
+
+  it('should fall back to UTC for unknown timezones', () => {
+    expect(resolveTimezone('Mars/Olympus_Mons')).toBe('UTC');
+    expect(resolveTimezone(null)).toBe('UTC');
+    expect(resolveTimezone('Europe/London')).toBe('Europe/London');
+  });
+});
+
+describe('staking utilities', () => {
+  const stakedAt = new Date('2026-01-01T00:00:00Z');
+  const unlockAt = new Date('2027-01-01T00:00:00Z');
+
+  it('should validate stakes against the lockup periods and minimum', () => {
+    expect(validateStake(1000, 365)).toEqual({ apy: 0.2 });
+    expect(validateStake(1000, 60)).toEqual({ error: expect.stringContaining('Unsupported lockup period') });
+    expect(validateStake(50, 30)).toEqual({ error: expect.stringContaining('below minimum stake') });
+    expect(validateStake(100.5, 30)).toEqual({ error: expect.stringContaining('whole number') });
+  });
+
+  it('should accrue whole tokens linearly and stop at unlock', () => {
+    expect(calculateStakingRewards(1000, 0.2, stakedAt, unlockAt, new Date('2026-07-02T12:00:00Z'))).toBe(100);
+    expect(calculateStakingRewards(1000, 0.2, stakedAt, unlockAt, new Date('2028-01-01T00:00:00Z'))).toBe(200);
+    expect(calculateStakingRewards(1000, 0.2, stakedAt, unlockAt, new Date('2025-12-01T00:00:00Z'))).toBe(0);
+  });
+});
+
+describe('vesting utilities', () => {
+  const startAt = new Date('2026-01-01T00:00:00Z');
+
+  it('should validate amounts, cliffs and durations', () => {
+    expect(validateVestingSchedule(1000, 90, 730)).toBeNull();
+    expect(validateVestingSchedule(0, 0, 365)).toContain('positive whole number');
+    expect(validateVestingSchedule(1000, 400, 365)).toContain('longer than');
+    expect(validateVestingSchedule(1000, 0, 0)).toContain('positive duration');
+  });
+
+  it('should vest nothing before the cliff, then linearly from the start', () => {
+    expect(calculateVestedAmount(3650, startAt, 100, 365, new Date('2026-04-01T00:00:00Z'))).toBe(0);
+    expect(calculateVestedAmount(3650, startAt, 100, 365, new Date('2026-04-11T00:00:00Z'))).toBe(1000);
+    expect(calculateVestedAmount(3650, startAt, 100, 365, new Date('2027-06-01T00:00:00Z'))).toBe(3650);
+  });
+
+  it('should stop vesting at revocation and leave nothing locked', () => {
+    const terms = { totalAmount: 3650, releasedAmount: 200, startAt, cliffDays: 0, durationDays: 365 };
+    const at = new Date('2026-04-11T00:00:00Z');
+
+    expect(getVestingBalance(terms, at)).toEqual({ total: 3650, vested: 1000, released: 200, claimable: 800, locked: 2650 });
+    expect(getVestingBalance({ ...terms, revokedAt: new Date('2026-02-01T00:00:00Z') }, at)).toEqual({
+      total: 3650,
+      vested: 310,
+      released: 200,
+      claimable: 110,
+      locked: 0,
+    });
+  });
+});
@@ -3,8 +3,18 @@
  * Common utility functions used across all applications
  */
 
-import { REWARD_CONFIG, LEVEL_CONFIG, TOKEN_CONFIG } from '../constants';
-import type { Event, EventCategory, UserProfile, ActivityLevel } from '../types';
+import { LEVEL_CONFIG, STAKING_CONFIG, TOKEN_CONFIG, VESTING_CONFIG } from '../constants';
+import type {
+  Event,
+  EventCategory,
+  ActivityLevel,
+  RewardPolicyConfig,
+  LedgerAccount,
+  LedgerBalances,
+  StakingTerms,
+  VestingBalance,
+  VestingTerms,
+} from '../types';
 
 // Date utilities
 export const formatDate = (date: Date, format: 'short' | 'long' | 'relative' = 'short'): string => {
@@ -36,55 +46,177 @@ export const getDaysUntil = (date: Date): number => {
   return Math.ceil(timeDiff / (1000 * 3600 * 24));
 };
 
+// Timezone utilities
+// Day-bucketed logic (reward caps, streaks, daily summaries) runs in the
+// user's IANA timezone from UserProfile.timezone, never the server's.
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  dayOfWeek: number; // 0-6, Sunday=0
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The given timezone if it is a valid IANA name, otherwise UTC
+ */
+export const resolveTimezone = (timezone?: string | null): string =>
+  timezone && isValidTimezone(timezone) ? timezone : 'UTC';
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+export const getZonedDateParts = (date: Date, timezone: string): ZonedDateParts => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: resolveTimezone(timezone),
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    weekday: 'short',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)!.value;
+
+  return {
+    year: parseInt(get('year')),
+    month: parseInt(get('month')),
+    day: parseInt(get('day')),
+    hour: parseInt(get('hour')),
+    minute: parseInt(get('minute')),
+    second: parseInt(get('second')),
+    dayOfWeek: WEEKDAYS.indexOf(get('weekday')),
+  };
+};
+
+// Milliseconds the timezone is ahead of UTC at the given instant
+const getTimezoneOffset = (date: Date, timezone: string): number => {
+  const p = getZonedDateParts(date, timezone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Instant of local midnight on a calendar date. Evaluated twice so days
+// starting next to a DST transition get the offset in force at midnight.
+const getZonedMidnight = (year: number, month: number, day: number, timezone: string): Date => {
+  const wallClock = Date.UTC(year, month - 1, day);
+  const guess = wallClock - getTimezoneOffset(new Date(wallClock), timezone);
+  return new Date(wallClock - getTimezoneOffset(new Date(guess), timezone));
+};
+
+/**
+ * Start (inclusive) and end (exclusive) of the local day containing an instant
+ */
+export const getZonedDayBounds = (date: Date, timezone: string): { start: Date; end: Date } => {
+  const { year, month, day } = getZonedDateParts(date, timezone);
+
+  return {
+    start: getZonedMidnight(year, month, day, timezone),
+    end: getZonedMidnight(year, month, day + 1, timezone),
+  };
+};
+
+/**
+ * Bounds of a calendar date in a timezone. The date is read from its UTC
+ * fields, which is how date-only values ("2026-10-15", @db.Date columns) parse.
+ */
+export const getCalendarDayBounds = (date: Date, timezone: string): { start: Date; end: Date } => {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  const day = date.getUTCDate();
+
+  return {
+    start: getZonedMidnight(year, month, day, timezone),
+    end: getZonedMidnight(year, month, day + 1, timezone),
+  };
+};
+
+/**
+ * Sequential number of the local day containing an instant (days since 1970-01-01)
+ */
+export const getZonedDayNumber = (date: Date, timezone: string): number => {
+  const { year, month, day } = getZonedDateParts(date, timezone);
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+};
+
 // Reward calculation utilities
+/**
+ * Base reward for an activity under a reward policy. The backend reward engine
+ * awards exactly this amount before any admin bonus rules, so client previews
+ * computed here match what is credited.
+ */
 export const calculateActivityReward = (
   event: Partial<Event>,
-  userProfile?: UserProfile
+  policy: RewardPolicyConfig,
+  streakDays = 0
 ): number => {
-  if (!event.duration || event.duration < REWARD_CONFIG.MIN_ACTIVITY_DURATION) {
+  if (!event.type || !event.category || !event.duration) {
     return 0;
   }
 
-  const baseRate = event.category === 'FITNESS' 
-    ? REWARD_CONFIG.FITNESS_BASE_RATE 
-    : REWARD_CONFIG.SPIRITUAL_BASE_RATE;
-  
-  let baseReward = Math.min(
-    event.duration * baseRate,
-    REWARD_CONFIG.MAX_DAILY_TOKENS
+  // Activities below the policy minimums earn nothing
+  if (event.duration < policy.minimums.duration) {
+    return 0;
+  }
+  if (event.intensity && event.intensity < policy.minimums.intensity) {
+    return 0;
+  }
+
+  let reward = policy.baseRewards[event.type] ?? 0;
+  reward *= policy.categoryMultipliers[event.category] ?? 1;
+
+  // Duration scaling, capped
+  reward *= Math.min(
+    event.duration / policy.durationScaling.referenceMinutes,
+    policy.durationScaling.maxMultiplier
   );
 
-  // Apply intensity multiplier
+  // Intensity scaling around the neutral level
   if (event.intensity) {
-    const intensityKey = event.intensity <= 3 ? 'LOW' :
-                        event.intensity <= 6 ? 'MEDIUM' :
-                        event.intensity <= 8 ? 'HIGH' : 'VERY_HIGH';
-    baseReward *= REWARD_CONFIG.INTENSITY_MULTIPLIERS[intensityKey];
+    reward *= event.intensity / policy.intensityScaling.neutral;
   }
 
   // Apply mood multiplier
   if (event.mood) {
-    const moodMultiplier = REWARD_CONFIG.MOOD_MULTIPLIERS[event.mood] || 1;
-    baseReward *= moodMultiplier;
+    reward *= policy.moodMultipliers[event.mood] ?? 1;
   }
 
-  // Apply level bonus
-  if (userProfile?.level && userProfile.level > 1) {
-    const levelBonus = 1 + ((userProfile.level - 1) * LEVEL_CONFIG.LEVEL_BONUS_PERCENT / 100);
-    baseReward *= levelBonus;
-  }
+  // Apply streak bonus
+  reward *= calculateStreakMultiplier(streakDays, policy);
 
-  return Math.floor(baseReward);
+  return Math.min(Math.floor(reward), policy.dailyCaps.individual);
 };
 
-export const calculateStreakMultiplier = (streakDays: number): number => {
-  if (streakDays >= 365) return REWARD_CONFIG.STREAK_MULTIPLIERS.YEAR_1;
-  if (streakDays >= 90) return REWARD_CONFIG.STREAK_MULTIPLIERS.MONTH_3;
-  if (streakDays >= 60) return REWARD_CONFIG.STREAK_MULTIPLIERS.MONTH_2;
-  if (streakDays >= 30) return REWARD_CONFIG.STREAK_MULTIPLIERS.MONTH_1;
-  if (streakDays >= 14) return REWARD_CONFIG.STREAK_MULTIPLIERS.WEEK_2;
-  if (streakDays >= 7) return REWARD_CONFIG.STREAK_MULTIPLIERS.WEEK_1;
-  return 1;
+export const calculateStreakMultiplier = (streakDays: number, policy: RewardPolicyConfig): number => {
+  let multiplier = 1;
+  let bestThreshold = 0;
+
+  for (const [threshold, bonus] of Object.entries(policy.streakBonuses)) {
+    const days = parseInt(threshold);
+    if (streakDays >= days && days > bestThreshold) {
+      bestThreshold = days;
+      multiplier = bonus;
+    }
+  }
+
+  return multiplier;
 };
 
 export const calculateLevelFromXP = (experience: number): number => {
@@ -161,6 +293,132 @@ export const calculateTokenValue = (amount: number): number => {
   return amount * TOKEN_CONFIG.INITIAL_PRICE;
 };
 
+// Staking utilities
+export const DEFAULT_STAKING_TERMS: StakingTerms = {
+  minimumStake: STAKING_CONFIG.MINIMUM_STAKE,
+  lockupPeriods: [...STAKING_CONFIG.LOCKUP_PERIODS],
+  rewardRates: [...STAKING_CONFIG.REWARD_RATES],
+};
+
+/**
+ * APY for a stake, or the reason it is not allowed. Stakes are whole tokens.
+ */
+export const validateStake = (
+  amount: number,
+  lockupDays: number,
+  terms: StakingTerms = DEFAULT_STAKING_TERMS
+): { apy: number } | { error: string } => {
+  const lockupIndex = terms.lockupPeriods.indexOf(lockupDays);
+  if (lockupIndex === -1) {
+    return { error: `Unsupported lockup period: ${lockupDays} days (allowed: ${terms.lockupPeriods.join(', ')})` };
+  }
+  if (!Number.isInteger(amount) || amount <= 0) {
+    return { error: 'Stake amount must be a positive whole number of tokens' };
+  }
+  if (amount < terms.minimumStake) {
+    return { error: `Amount ${amount} below minimum stake of ${terms.minimumStake}` };
+  }
+  return { apy: terms.rewardRates[lockupIndex] };
+};
+
+/**
+ * Whole tokens a stake has earned by `at`. Rewards accrue linearly at the
+ * APY from stakedAt and stop at unlockAt; the staking program uses the same
+ * formula, so previews match what it pays.
+ */
+export const calculateStakingRewards = (
+  amount: number,
+  apy: number,
+  stakedAt: Date,
+  unlockAt: Date,
+  at: Date = new Date()
+): number => {
+  const end = Math.min(at.getTime(), unlockAt.getTime());
+  const elapsedSeconds = Math.max(0, Math.floor((end - stakedAt.getTime()) / 1000));
+  return Math.floor((amount * apy * elapsedSeconds) / (365 * 24 * 60 * 60));
+};
+
+/**
+ * Reason a vesting schedule is not allowed, or null. Amounts are whole tokens.
+ */
+export const validateVestingSchedule = (
+  totalAmount: number,
+  cliffDays: number,
+  durationDays: number
+): string | null => {
+  if (!Number.isInteger(totalAmount) || totalAmount <= 0) {
+    return 'Vesting amount must be a positive whole number of tokens';
+  }
+  if (!Number.isInteger(cliffDays) || !Number.isInteger(durationDays) || cliffDays < 0 || durationDays <= 0) {
+    return 'Cliff and duration must be whole days, with a positive duration';
+  }
+  if (cliffDays > durationDays) {
+    return `Cliff of ${cliffDays} days is longer than the ${durationDays} day vesting period`;
+  }
+  if (durationDays > VESTING_CONFIG.MAX_DURATION_DAYS) {
+    return `Vesting period cannot exceed ${VESTING_CONFIG.MAX_DURATION_DAYS} days`;
+  }
+  return null;
+};
+
+/**
+ * Whole tokens vested by `at`: nothing before the cliff, then linear from
+ * startAt over durationDays, so the cliff unlocks everything accrued so far.
+ * The vesting program uses the same formula.
+ */
+export const calculateVestedAmount = (
+  totalAmount: number,
+  startAt: Date,
+  cliffDays: number,
+  durationDays: number,
+  at: Date = new Date()
+): number => {
+  const day = 24 * 60 * 60;
+  const elapsedSeconds = Math.floor((at.getTime() - startAt.getTime()) / 1000);
+  if (elapsedSeconds < cliffDays * day) {
+    return 0;
+  }
+  if (elapsedSeconds >= durationDays * day) {
+    return totalAmount;
+  }
+  return Math.floor((totalAmount * elapsedSeconds) / (durationDays * day));
+};
+
+/**
+ * Vested, claimable and locked tokens of a schedule. A revoked schedule stops
+ * vesting at revokedAt and has nothing locked.
+ */
+export const getVestingBalance = (terms: VestingTerms, at: Date = new Date()): VestingBalance => {
+  const until = terms.revokedAt && terms.revokedAt < at ? terms.revokedAt : at;
+  const vested = calculateVestedAmount(terms.totalAmount, terms.startAt, terms.cliffDays, terms.durationDays, until);
+
+  return {
+    total: terms.totalAmount,
+    vested,
+    released: terms.releasedAmount,
+    claimable: Math.max(0, vested - terms.releasedAmount),
+    locked: terms.revokedAt ? 0 : terms.totalAmount - vested,
+  };
+};
+
+// Accounts that make up a user's token balance. Redeemed tokens are spent;
+// debt is negative and offsets the rest.
+export const LEDGER_HOLDING_ACCOUNTS: LedgerAccount[] = ['EARNED', 'PENDING_CLAIM', 'MINTED', 'STAKED', 'DEBT'];
+
+export const emptyLedgerBalances = (): LedgerBalances => ({
+  ISSUANCE: 0,
+  EARNED: 0,
+  PENDING_CLAIM: 0,
+  MINTED: 0,
+  STAKED: 0,
+  REDEEMED: 0,
+  DEBT: 0,
+});
+
+export const getLedgerHoldings = (balances: LedgerBalances): number => {
+  return LEDGER_HOLDING_ACCOUNTS.reduce((sum, account) => sum + balances[account], 0);
+};
+
 // Array utilities
 export const groupBy = <T>(array: T[], key: keyof T): Record<string, T[]> => {
   return array.reduce((groups: Record<string, T[]>, item) => {